@@ -0,0 +1,331 @@
+export interface Config {
+  techInsights?: {
+    /**
+     * Configuration for the Argus Panoptes traffic light fact retrievers and checks.
+     */
+    argus?: {
+      /**
+       * Tuning of the GitHub client shared by all GitHub based fact retrievers.
+       */
+      github?: {
+        /**
+         * Maximum number of GitHub requests in flight at the same time. Defaults to 4.
+         */
+        maxConcurrency?: number;
+        /**
+         * Maximum number of retries for rate limited requests. Defaults to 3.
+         */
+        maxRetries?: number;
+        /**
+         * Longest time in milliseconds to wait for a rate limit reset before giving up. Defaults to 60000.
+         */
+        maxWaitMs?: number;
+        /**
+         * Maximum number of responses kept in the ETag cache. Defaults to 1000.
+         */
+        cacheSize?: number;
+      };
+      /**
+       * Security policy used by the Dependabot, GitHub Advanced Security and Black Duck retrievers.
+       */
+      security?: {
+        /**
+         * Days within which an alert of each severity must be fixed. Defaults to 7 for critical and 30 for high.
+         */
+        slaDays?: {
+          critical?: number;
+          high?: number;
+          medium?: number;
+          low?: number;
+        };
+        /**
+         * Number of days of fixed or dismissed alerts used for the mean time to remediate. Defaults to 90.
+         */
+        remediationWindowDays?: number;
+      };
+      /**
+       * Dynamic threshold checks merged with the built-in checks. An entry with the id of a built-in
+       * check overrides the fields it sets; other entries add new checks and must set every field.
+       */
+      checks?: Array<{
+        /**
+         * Unique check id, e.g. blackduck-critical-security-risk.
+         */
+        id: string;
+        /**
+         * Display name of the check.
+         */
+        name?: string;
+        /**
+         * Kind of value compared, e.g. number or percentage, composite for checks evaluated from conditions
+         * or trend for checks comparing the change of a fact.
+         */
+        type?: string;
+        /**
+         * Fact retriever id followed by the fact name, e.g. [blackduck-fact-retriever, security_risks_critical].
+         */
+        factIds?: string[];
+        /**
+         * Annotation holding the threshold of the check. Failing it turns the check yellow when an error
+         * threshold is set, and red otherwise.
+         */
+        annotationKeyThreshold?: string;
+        /**
+         * Annotation holding the error threshold of the check, beyond which it turns red. Defaults to the
+         * threshold annotation with -error-threshold instead of -threshold.
+         */
+        annotationKeyErrorThreshold?: string;
+        /**
+         * Annotation holding the comparison operator of the check.
+         */
+        annotationKeyOperator?: string;
+        /**
+         * Description of the check.
+         */
+        description?: string;
+        /**
+         * Conditions of a composite check: a comparison such as
+         * `{ factIds: [retriever, fact], operator: greaterThanInclusive, threshold: 80 }`, or `and`/`or`
+         * lists and `not` over nested conditions. Comparisons may use annotationKeyThreshold and
+         * annotationKeyOperator instead of fixed values.
+         */
+        conditions?: object;
+        /**
+         * Trend settings of a check of type trend, which compares the change of the fact instead of its value.
+         */
+        trend?: {
+          /**
+           * delta (change from the value at the start of the window), percentChange (the same in percent)
+           * or movingAverage (difference from the average of the earlier values in the window).
+           */
+          method: 'delta' | 'percentChange' | 'movingAverage';
+          /**
+           * Number of days of fact history to compare with.
+           */
+          windowDays: number;
+        };
+      }>;
+      /**
+       * Settings of the GitHub Actions pipeline retrievers.
+       */
+      pipelines?: {
+        /**
+         * Number of days of workflow runs evaluated by the pre-production, foundation and allRuns
+         * profile retrievers, today included. Must be positive, defaults to 30.
+         */
+        windowDays?: number;
+      };
+      /**
+       * GitHub Actions pipeline profiles. Each profile adds a fact retriever with the id
+       * `<name>PipelineStatusFactRetriever`, storing the facts of the foundation retriever for allRuns
+       * profiles and of the reporting retriever for lastRun profiles. Its cadence is set under
+       * techInsights.factRetrievers and its checks under techInsights.argus.checks.
+       */
+      pipelineProfiles?: Array<{
+        /**
+         * Name of the profile in camelCase, e.g. securityScan. Names must be unique and must not
+         * be those of the built-in pipelines, such as foundation, preproduction or reporting.
+         */
+        name: string;
+        /**
+         * allRuns evaluates every run on the evaluated branches, lastRun the most recent run of each
+         * workflow. Defaults to allRuns.
+         */
+        mode?: 'allRuns' | 'lastRun';
+        /**
+         * Branch or `*` pattern evaluated for entities without the tech-insights.io/pipeline-branches
+         * annotation. Defaults to the repository's default branch.
+         */
+        branch?: string;
+        /**
+         * Names or `*` patterns of the evaluated workflows. Defaults to all workflows.
+         */
+        include?: string[];
+        /**
+         * Annotation with a JSON list of workflow names that replaces include. When set without include,
+         * only entities with the annotation are evaluated.
+         */
+        includeAnnotation?: string;
+        /**
+         * Case-insensitive regular expressions of workflows left out of the success rate.
+         */
+        exclude?: string[];
+        /**
+         * Annotation with a JSON list of patterns that replaces exclude.
+         */
+        excludeAnnotation?: string;
+        /**
+         * Number of days of runs evaluated, must be positive. Defaults to
+         * techInsights.argus.pipelines.windowDays for allRuns profiles and to all runs for lastRun
+         * profiles.
+         */
+        windowDays?: number;
+        /**
+         * Conclusions of completed runs counted as failures, e.g. failure and timed_out. Defaults to failure.
+         */
+        failureConclusions?: string[];
+      }>;
+      /**
+       * Global threshold defaults keyed by check id, used when neither the component, its system nor
+       * its domain annotates a threshold for the check.
+       */
+      thresholds?: {
+        [checkId: string]: {
+          /**
+           * Threshold compared against the fact value.
+           */
+          threshold?: number | string;
+          /**
+           * Error threshold, beyond which the check turns red instead of yellow.
+           */
+          errorThreshold?: number | string;
+          /**
+           * Comparison operator, e.g. greaterThan or lessThanInclusive.
+           */
+          operator?: string;
+        };
+      };
+    };
+  };
+  /**
+   * SonarCloud and SonarQube Server instances queried by the Sonar fact retriever.
+   */
+  sonarcloud?: {
+    /**
+     * Base URL of the default instance. Defaults to https://sonarcloud.io.
+     */
+    baseUrl?: string;
+    /**
+     * Token of the default instance.
+     * @visibility secret
+     */
+    token?: string;
+    /**
+     * Named instances, e.g. self-hosted SonarQube Servers, selected per entity with the
+     * `sonarcloud.io/instance` annotation.
+     */
+    instances?: Array<{
+      /**
+       * Name used in the `sonarcloud.io/instance` annotation.
+       */
+      name: string;
+      /**
+       * Base URL of the instance, e.g. https://sonarqube.example.com.
+       */
+      baseUrl: string;
+      /**
+       * Token of the instance.
+       * @visibility secret
+       */
+      token?: string;
+    }>;
+  };
+  /**
+   * Black Duck servers queried by the Black Duck fact retriever.
+   */
+  blackduck?: {
+    /**
+     * Base URL of the REST API of the default server, e.g. https://blackduck.example.com/api.
+     */
+    host?: string;
+    /**
+     * API token of the default server, exchanged for a short-lived bearer token.
+     * @visibility secret
+     */
+    token?: string;
+    /**
+     * Named servers, e.g. of business units running their own Black Duck, selected per entity
+     * with the `blackduck.io/instance` annotation.
+     */
+    instances?: Array<{
+      /**
+       * Name used in the `blackduck.io/instance` annotation.
+       */
+      name: string;
+      /**
+       * Base URL of the REST API of the server.
+       */
+      host: string;
+      /**
+       * API token of the server.
+       * @visibility secret
+       */
+      token: string;
+    }>;
+  };
+  /**
+   * CodeScene instance queried by the CodeScene fact retriever.
+   */
+  codescene?: {
+    /**
+     * Base URL of the CodeScene API. Defaults to https://api.codescene.io.
+     */
+    baseUrl?: string;
+    /**
+     * Personal access token for the CodeScene API.
+     * @visibility secret
+     */
+    token: string;
+  };
+  /**
+   * Fortify instance queried by the Fortify fact retriever.
+   */
+  fortify?: {
+    /**
+     * Fortify product to query: Fortify on Demand (fod) or Software Security Center (ssc).
+     * Defaults to fod.
+     */
+    product?: 'fod' | 'ssc';
+    /**
+     * Base URL of the Fortify API, e.g. https://api.ams.fortify.com or
+     * https://ssc.example.com/ssc.
+     */
+    baseUrl: string;
+    /**
+     * Bearer token for Fortify on Demand or CIToken for Software Security Center.
+     * @visibility secret
+     */
+    token: string;
+  };
+  /**
+   * Jenkins controllers queried by the Jenkins pipeline fact retriever.
+   */
+  jenkins?: {
+    /**
+     * Base URL of the default controller, e.g. https://jenkins.example.com.
+     */
+    baseUrl?: string;
+    /**
+     * User of the API token of the default controller.
+     */
+    username?: string;
+    /**
+     * API token of the default controller.
+     * @visibility secret
+     */
+    apiKey?: string;
+    /**
+     * Named controllers, selected per entity with an `instance:` prefix in the
+     * `jenkins.io/job-full-name` annotation.
+     */
+    instances?: Array<{
+      /**
+       * Name used in the `jenkins.io/job-full-name` annotation.
+       */
+      name: string;
+      /**
+       * Base URL of the controller.
+       */
+      baseUrl: string;
+      /**
+       * User of the API token of the controller.
+       */
+      username?: string;
+      /**
+       * API token of the controller.
+       * @visibility secret
+       */
+      apiKey?: string;
+    }>;
+  };
+}
@@ -0,0 +1,83 @@
+import { ConfigReader } from '@backstage/config';
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { DynamicThresholdCheck } from './dynamicThresholdFactChecker';
+import { loadDynamicThresholdChecks } from './checksConfig';
+
+describe('loadDynamicThresholdChecks', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn(),
+  } as jest.Mocked<LoggerService>;
+
+  const builtInChecks: DynamicThresholdCheck[] = [
+    {
+      id: 'azure-bugs',
+      name: 'Azure Bugs',
+      type: 'number',
+      factIds: ['azure-devops-bugs-retriever', 'azure_bug_count'],
+      annotationKeyThreshold: 'tech-insights.io/azure-bugs-threshold',
+      annotationKeyOperator: 'tech-insights.io/azure-bugs-operator',
+      description: 'Maximum number of Azure DevOps bugs allowed',
+    },
+  ];
+
+  const createConfig = (checks: object[]) =>
+    new ConfigReader({ techInsights: { argus: { checks } } });
+
+  // Test: the built-in checks are used as is without configured checks
+  test('returns the built-in checks when none are configured', () => {
+    expect(
+      loadDynamicThresholdChecks(
+        new ConfigReader({}),
+        builtInChecks,
+        mockLogger,
+      ),
+    ).toEqual(builtInChecks);
+  });
+
+  // Test: configured checks override built-in fields and add new checks
+  test('merges configured checks with the built-in checks', () => {
+    const checks = loadDynamicThresholdChecks(
+      createConfig([
+        { id: 'azure-bugs', description: 'Open Azure DevOps bugs' },
+        {
+          id: 'dependabot-low-alerts',
+          name: 'Dependabot Low Alerts',
+          factIds: ['dependabotFactRetriever', 'low'],
+          annotationKeyThreshold: 'tech-insights.io/dependabot-low-threshold',
+          annotationKeyOperator: 'tech-insights.io/dependabot-low-operator',
+          description: 'Maximum number of low Dependabot alerts allowed',
+        },
+      ]),
+      builtInChecks,
+      mockLogger,
+    );
+
+    expect(checks).toEqual([
+      { ...builtInChecks[0], description: 'Open Azure DevOps bugs' },
+      {
+        id: 'dependabot-low-alerts',
+        name: 'Dependabot Low Alerts',
+        type: 'number',
+        factIds: ['dependabotFactRetriever', 'low'],
+        annotationKeyThreshold: 'tech-insights.io/dependabot-low-threshold',
+        annotationKeyOperator: 'tech-insights.io/dependabot-low-operator',
+        description: 'Maximum number of low Dependabot alerts allowed',
+      },
+    ]);
+  });
+
+  // Test: a new check without the required fields fails startup
+  test('throws for configured checks that fail validation', () => {
+    expect(() =>
+      loadDynamicThresholdChecks(
+        createConfig([{ id: 'incomplete-check', name: 'Incomplete' }]),
+        builtInChecks,
+        mockLogger,
+      ),
+    ).toThrow(/incomplete-check: Each check must have a valid factId/);
+  });
+});
@@ -0,0 +1,145 @@
+import { Config } from '@backstage/config';
+import { LoggerService } from '@backstage/backend-plugin-api';
+import {
+  DynamicThresholdCheck,
+  validateDynamicThresholdCheck,
+} from './dynamicThresholdFactChecker';
+import { DynamicThresholdCondition } from './compositeConditions';
+import { DynamicThresholdTrend } from './trends';
+
+/**
+ * A check definition read from `techInsights.argus.checks`. Entries whose id matches a
+ * built-in check only need the fields they override; new checks must define all of them.
+ */
+export type ConfiguredDynamicThresholdCheck = Partial<DynamicThresholdCheck> & {
+  id: string;
+};
+
+/**
+ * Reads the check definitions from `techInsights.argus.checks`.
+ *
+ * @param config - The Backstage application configuration
+ * @returns The configured checks, empty when none are configured
+ */
+export function readConfiguredChecks(
+  config: Config,
+): ConfiguredDynamicThresholdCheck[] {
+  const checksConfig =
+    config.getOptionalConfigArray('techInsights.argus.checks') ?? [];
+
+  return checksConfig.map(checkConfig => {
+    const check: ConfiguredDynamicThresholdCheck = {
+      id: checkConfig.getString('id'),
+    };
+    const name = checkConfig.getOptionalString('name');
+    const type = checkConfig.getOptionalString('type');
+    const factIds = checkConfig.getOptionalStringArray('factIds');
+    const annotationKeyThreshold = checkConfig.getOptionalString(
+      'annotationKeyThreshold',
+    );
+    const annotationKeyOperator = checkConfig.getOptionalString(
+      'annotationKeyOperator',
+    );
+    const description = checkConfig.getOptionalString('description');
+    const annotationKeyErrorThreshold = checkConfig.getOptionalString(
+      'annotationKeyErrorThreshold',
+    );
+    const conditions =
+      checkConfig.getOptional<DynamicThresholdCondition>('conditions');
+    const trendConfig = checkConfig.getOptionalConfig('trend');
+
+    // Only copy the fields that are set, so they do not clear built-in values when merged
+    if (name !== undefined) check.name = name;
+    if (type !== undefined) check.type = type;
+    if (factIds !== undefined) check.factIds = factIds;
+    if (annotationKeyThreshold !== undefined) {
+      check.annotationKeyThreshold = annotationKeyThreshold;
+    }
+    if (annotationKeyOperator !== undefined) {
+      check.annotationKeyOperator = annotationKeyOperator;
+    }
+    if (description !== undefined) check.description = description;
+    if (annotationKeyErrorThreshold !== undefined) {
+      check.annotationKeyErrorThreshold = annotationKeyErrorThreshold;
+    }
+    if (conditions !== undefined) check.conditions = conditions;
+    if (trendConfig) {
+      check.trend = {
+        method: trendConfig.getString(
+          'method',
+        ) as DynamicThresholdTrend['method'],
+        windowDays: trendConfig.getNumber('windowDays'),
+      };
+    }
+
+    return check;
+  });
+}
+
+/**
+ * Merges configured checks into the built-in checks. A configured check with the id of a
+ * built-in check overrides its fields, any other configured check is appended.
+ *
+ * @param builtInChecks - The checks shipped with this module
+ * @param configuredChecks - The checks read from app-config
+ */
+export function mergeChecks(
+  builtInChecks: DynamicThresholdCheck[],
+  configuredChecks: ConfiguredDynamicThresholdCheck[],
+): DynamicThresholdCheck[] {
+  const merged = new Map<string, DynamicThresholdCheck>(
+    builtInChecks.map(check => [check.id, check]),
+  );
+
+  configuredChecks.forEach(configured => {
+    const existing = merged.get(configured.id);
+    merged.set(configured.id, {
+      // Defaults for new checks; validation rejects them when the required fields are missing
+      name: configured.id,
+      type: 'number',
+      factIds: [],
+      annotationKeyThreshold: '',
+      annotationKeyOperator: '',
+      description: '',
+      ...existing,
+      ...configured,
+    });
+  });
+
+  return [...merged.values()];
+}
+
+/**
+ * Loads the checks for the dynamic threshold fact checker: the built-in checks merged with
+ * `techInsights.argus.checks`. Every check is validated so misconfigured checks fail startup.
+ *
+ * @param config - The Backstage application configuration
+ * @param builtInChecks - The checks shipped with this module
+ * @param logger - Logger service
+ * @throws Error listing the invalid checks
+ */
+export function loadDynamicThresholdChecks(
+  config: Config,
+  builtInChecks: DynamicThresholdCheck[],
+  logger: LoggerService,
+): DynamicThresholdCheck[] {
+  const configuredChecks = readConfiguredChecks(config);
+  const checks = mergeChecks(builtInChecks, configuredChecks);
+
+  const invalid = checks.flatMap(check => {
+    const { valid, message } = validateDynamicThresholdCheck(check);
+    return valid ? [] : [`${check.id}: ${message}`];
+  });
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid checks in techInsights.argus.checks: ${invalid.join('; ')}`,
+    );
+  }
+
+  if (configuredChecks.length > 0) {
+    logger.info(
+      `Loaded ${configuredChecks.length} check(s) from techInsights.argus.checks, ${checks.length} checks in total`,
+    );
+  }
+  return checks;
+}
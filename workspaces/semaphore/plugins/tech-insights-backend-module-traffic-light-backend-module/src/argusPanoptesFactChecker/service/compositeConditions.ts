@@ -0,0 +1,113 @@
+/**
+ * Boolean expressions over fact comparisons, used by composite dynamic threshold checks such as
+ * "quality gate OK AND coverage >= 80".
+ */
+
+import { operatorRequiresThreshold } from './operators';
+
+// Check type of composite checks, which are evaluated from their conditions
+export const COMPOSITE_CHECK_TYPE = 'composite';
+
+/**
+ * A single fact comparison. The threshold and operator come from the annotations when set,
+ * looked up like those of a simple check, and otherwise from the fixed values.
+ */
+export type DynamicThresholdComparison = {
+  factIds: string[]; // [fact retriever ID, fact name]
+  annotationKeyThreshold?: string;
+  annotationKeyOperator?: string;
+  threshold?: number | string;
+  operator?: string;
+};
+
+/**
+ * A composite condition: a comparison, or an AND/OR/NOT over nested conditions.
+ */
+export type DynamicThresholdCondition =
+  | { and: DynamicThresholdCondition[] }
+  | { or: DynamicThresholdCondition[] }
+  | { not: DynamicThresholdCondition }
+  | DynamicThresholdComparison;
+
+/**
+ * Returns the comparisons of a condition in evaluation order, depth first.
+ */
+export function getConditionComparisons(
+  condition: DynamicThresholdCondition,
+): DynamicThresholdComparison[] {
+  if ('and' in condition) {
+    return condition.and.flatMap(getConditionComparisons);
+  }
+  if ('or' in condition) {
+    return condition.or.flatMap(getConditionComparisons);
+  }
+  if ('not' in condition) {
+    return getConditionComparisons(condition.not);
+  }
+  return [condition];
+}
+
+/**
+ * Evaluates a condition given the result of each of its comparisons.
+ *
+ * @param condition - The condition to evaluate
+ * @param comparisonResults - Results in the order of {@link getConditionComparisons}
+ */
+export function evaluateCondition(
+  condition: DynamicThresholdCondition,
+  comparisonResults: boolean[],
+): boolean {
+  let index = 0;
+  const evaluate = (node: DynamicThresholdCondition): boolean => {
+    // Every child is evaluated so the comparison results stay aligned with their index
+    if ('and' in node) {
+      return node.and.map(evaluate).every(Boolean);
+    }
+    if ('or' in node) {
+      return node.or.map(evaluate).some(Boolean);
+    }
+    if ('not' in node) {
+      return !evaluate(node.not);
+    }
+    return comparisonResults[index++] === true;
+  };
+  return evaluate(condition);
+}
+
+/**
+ * Checks that a condition is well formed: AND/OR have at least one child and every comparison
+ * names a fact and has an operator, plus a threshold unless the operator does not take one.
+ *
+ * @returns A message describing the first problem, or undefined when the condition is valid
+ */
+export function validateCondition(
+  condition: DynamicThresholdCondition | undefined,
+): string | undefined {
+  if (!condition || typeof condition !== 'object') {
+    return 'Composite checks must define conditions.';
+  }
+  if ('and' in condition || 'or' in condition) {
+    const children = 'and' in condition ? condition.and : condition.or;
+    if (!Array.isArray(children) || children.length === 0) {
+      return 'AND and OR conditions must contain at least one condition.';
+    }
+    return children.map(validateCondition).find(Boolean);
+  }
+  if ('not' in condition) {
+    return validateCondition(condition.not);
+  }
+  const hasThreshold =
+    Boolean(condition.annotationKeyThreshold) ||
+    condition.threshold !== undefined;
+  const hasOperator =
+    Boolean(condition.annotationKeyOperator) || Boolean(condition.operator);
+  if (
+    !Array.isArray(condition.factIds) ||
+    condition.factIds.length < 2 ||
+    !hasOperator ||
+    (!hasThreshold && operatorRequiresThreshold(condition.operator))
+  ) {
+    return 'Each condition must have factIds, an operator and, unless the operator takes none, a threshold, either fixed or as annotation keys.';
+  }
+  return undefined;
+}
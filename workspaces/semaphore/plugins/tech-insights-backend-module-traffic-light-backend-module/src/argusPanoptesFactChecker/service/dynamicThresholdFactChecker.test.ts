@@ -7,6 +7,8 @@ import { TechInsightsStore } from '@backstage-community/plugin-tech-insights-nod
 import { CatalogApi } from '@backstage/catalog-client';
 import { LoggerService } from '@backstage/backend-plugin-api';
 import { Entity } from '@backstage/catalog-model';
+import { ConfigReader } from '@backstage/config';
+import { DateTime } from 'luxon';
 
 // Mock implementations
 jest.mock('@backstage/catalog-client');
@@ -811,7 +813,10 @@ describe('DynamicThresholdFactChecker', () => {
         ]);
 
         expect(results).toHaveLength(1);
-        expect(results[0].result).toBe(false); // Unknown operator should default to false
+        expect(results[0].result).toBe(false); // Unknown operator returns an error result
+        expect(results[0].error).toContain(
+          "Unknown operator 'invalidOperator'",
+        );
       });
 
       // Test: checker handles invalid threshold value
@@ -883,6 +888,586 @@ describe('DynamicThresholdFactChecker', () => {
       expect(results).toHaveLength(1);
       expect(results[0].check.id).toBe('test-check-1');
     });
+
+    describe('graded levels', () => {
+      // Critical alerts: at most 2 is green, at most 5 is yellow, more is red
+      const gradedSystemEntity: Entity = {
+        ...testSystemEntity,
+        metadata: {
+          ...testSystemEntity.metadata,
+          annotations: {
+            'backstage.io/test-threshold': '2',
+            'backstage.io/test-error-threshold': '5',
+            'backstage.io/test-operator': 'lessThanInclusive',
+          },
+        },
+      };
+
+      const runWithValue = async (value: number) => {
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce(gradedSystemEntity);
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce({
+          'test-fact-retriever': {
+            id: 'test-fact-retriever',
+            entity: {
+              kind: 'Component',
+              name: 'test-component',
+              namespace: 'default',
+            },
+            facts: { 'test-fact-1': value },
+          },
+        });
+        const [result] = await factChecker.runChecks(testEntityRef, [
+          'test-check-1',
+        ]);
+        return result;
+      };
+
+      // Test: the level follows the warning and error thresholds
+      test('grades results with the warning and error thresholds', async () => {
+        expect(await runWithValue(2)).toEqual(
+          expect.objectContaining({ result: true, level: 'green' }),
+        );
+        expect(await runWithValue(4)).toEqual(
+          expect.objectContaining({
+            result: false,
+            level: 'yellow',
+            errorThreshold: 5,
+          }),
+        );
+        expect(await runWithValue(6)).toEqual(
+          expect.objectContaining({ result: false, level: 'red' }),
+        );
+      });
+
+      // Test: without an error threshold a failing check is red
+      test('is red when failing without an error threshold', async () => {
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce(testSystemEntity);
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce({
+          'test-fact-retriever': {
+            id: 'test-fact-retriever',
+            entity: {
+              kind: 'Component',
+              name: 'test-component',
+              namespace: 'default',
+            },
+            facts: { 'test-fact-1': 50 },
+          },
+        });
+
+        const [result] = await factChecker.runChecks(testEntityRef, [
+          'test-check-1',
+        ]);
+
+        expect(result.level).toBe('red');
+        expect(result.errorThreshold).toBeUndefined();
+      });
+
+      // Test: checks that cannot be evaluated are gray
+      test('is gray when the operator is unknown', async () => {
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce({
+            ...gradedSystemEntity,
+            metadata: {
+              ...gradedSystemEntity.metadata,
+              annotations: {
+                ...gradedSystemEntity.metadata.annotations,
+                'backstage.io/test-operator': 'lessThen',
+              },
+            },
+          });
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce({});
+
+        const [result] = await factChecker.runChecks(testEntityRef, [
+          'test-check-1',
+        ]);
+
+        expect(result.level).toBe('gray');
+      });
+    });
+
+    describe('threshold lookup order', () => {
+      const latestFacts = {
+        'test-fact-retriever': {
+          id: 'test-fact-retriever',
+          entity: {
+            kind: 'Component',
+            name: 'test-component',
+            namespace: 'default',
+          },
+          facts: {
+            'test-fact-1': 85,
+          },
+        },
+      };
+
+      const testDomainEntity: Entity = {
+        apiVersion: 'backstage.io/v1alpha1',
+        kind: 'Domain',
+        metadata: {
+          name: 'test-domain',
+          namespace: 'default',
+          annotations: {
+            'backstage.io/test-threshold': '90',
+            'backstage.io/test-operator': 'greaterThan',
+          },
+        },
+        spec: {},
+      };
+
+      const systemInDomain = (annotations: Record<string, string>): Entity => ({
+        ...testSystemEntity,
+        metadata: { ...testSystemEntity.metadata, annotations },
+        spec: { domain: 'test-domain' },
+      });
+
+      // Test: a component annotation overrides the system threshold and inherits its operator
+      test('prefers the component threshold over the system threshold', async () => {
+        const componentWithException = {
+          ...testComponentEntity,
+          metadata: {
+            ...testComponentEntity.metadata,
+            annotations: { 'backstage.io/test-threshold': '90' },
+          },
+        };
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(componentWithException)
+          .mockResolvedValueOnce(testSystemEntity);
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce(latestFacts);
+
+        const results = await factChecker.runChecks(testEntityRef, [
+          'test-check-1',
+        ]);
+
+        expect(results[0].result).toBe(false); // 85 > 90 fails
+        expect(results[0].thresholdSource).toBe('component');
+      });
+
+      // Test: the system threshold is used when the component does not define one
+      test('falls back to the system threshold', async () => {
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce(testSystemEntity);
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce(latestFacts);
+
+        const results = await factChecker.runChecks(testEntityRef, [
+          'test-check-1',
+        ]);
+
+        expect(results[0].result).toBe(true);
+        expect(results[0].thresholdSource).toBe('system');
+      });
+
+      // Test: the domain of the system supplies the threshold when the system has none
+      test('falls back to the domain threshold', async () => {
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce(systemInDomain({}))
+          .mockResolvedValueOnce(testDomainEntity);
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce(latestFacts);
+
+        const results = await factChecker.runChecks(testEntityRef, [
+          'test-check-1',
+        ]);
+
+        expect(mockCatalogApi.getEntityByRef).toHaveBeenLastCalledWith({
+          kind: 'Domain',
+          namespace: 'default',
+          name: 'test-domain',
+        });
+        expect(results[0].result).toBe(false);
+        expect(results[0].thresholdSource).toBe('domain');
+      });
+
+      // Test: the app-config default applies when no entity defines a threshold
+      test('falls back to the global default from config', async () => {
+        const factory = new DynamicThresholdFactCheckerFactory({
+          checks: sampleChecks,
+          logger: mockLogger,
+          catalogApi: mockCatalogApi,
+          config: new ConfigReader({
+            techInsights: {
+              argus: {
+                thresholds: {
+                  'test-check-1': { threshold: 50, operator: 'greaterThan' },
+                },
+              },
+            },
+          }),
+        });
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce(systemInDomain({}))
+          .mockResolvedValueOnce(undefined);
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce(latestFacts);
+
+        const results = await factory
+          .construct(mockRepository)
+          .runChecks(testEntityRef, ['test-check-1']);
+
+        expect(results[0].result).toBe(true);
+        expect(results[0].thresholdSource).toBe('default');
+      });
+    });
+
+    describe('trend checks', () => {
+      const successRateDrop: DynamicThresholdCheck = {
+        id: 'preproduction-success-rate-drop',
+        name: 'Pre-production success rate drop',
+        type: 'trend',
+        factIds: ['test-fact-retriever', 'test-fact-1'],
+        annotationKeyThreshold: 'backstage.io/test-threshold',
+        annotationKeyOperator: 'backstage.io/test-operator',
+        description: 'Success rate dropped more than 10 points in 7 days',
+        trend: { method: 'delta', windowDays: 7 },
+      };
+
+      const historyRow = (value: number, daysAgo: number) => ({
+        id: 'test-fact-retriever',
+        entity: {
+          kind: 'Component',
+          name: 'test-component',
+          namespace: 'default',
+        },
+        timestamp: DateTime.now().minus({ days: daysAgo }),
+        facts: { 'test-fact-1': value },
+      });
+
+      // The latest fact, which is also stored in the history of the retriever
+      const currentRow = historyRow(70, 0);
+
+      beforeEach(() => {
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce({
+            ...testSystemEntity,
+            metadata: {
+              ...testSystemEntity.metadata,
+              annotations: {
+                'backstage.io/test-threshold': '-10',
+                'backstage.io/test-operator': 'lessThan',
+              },
+            },
+          });
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce({
+          'test-fact-retriever': currentRow,
+        });
+      });
+
+      // Test: delta compares the current value with the oldest value in the window
+      test('compares the change since the start of the window', async () => {
+        mockRepository.getFactsBetweenTimestampsByIds.mockResolvedValueOnce({
+          'test-fact-retriever': [historyRow(75, 3), historyRow(85, 7)],
+        });
+        factChecker = new DynamicThresholdFactChecker(
+          mockCatalogApi,
+          mockRepository,
+          mockLogger,
+          [successRateDrop],
+        );
+
+        const results = await factChecker.runChecks(testEntityRef);
+
+        expect(
+          mockRepository.getFactsBetweenTimestampsByIds,
+        ).toHaveBeenCalledWith(
+          ['test-fact-retriever'],
+          testEntityRef,
+          expect.any(DateTime),
+          expect.any(DateTime),
+        );
+        expect(results[0]).toEqual(
+          expect.objectContaining({
+            result: true, // 70 - 85 = -15 < -10
+            baseline: 85,
+            trendValue: -15,
+          }),
+        );
+      });
+
+      // Test: moving average compares the current value with the average of the window
+      test('compares the current value with the moving average', async () => {
+        mockRepository.getFactsBetweenTimestampsByIds.mockResolvedValueOnce({
+          'test-fact-retriever': [historyRow(75, 3), historyRow(85, 6)],
+        });
+        factChecker = new DynamicThresholdFactChecker(
+          mockCatalogApi,
+          mockRepository,
+          mockLogger,
+          [
+            {
+              ...successRateDrop,
+              trend: { method: 'movingAverage', windowDays: 7 },
+            },
+          ],
+        );
+
+        const results = await factChecker.runChecks(testEntityRef);
+
+        expect(results[0]).toEqual(
+          expect.objectContaining({
+            result: false, // 70 - 80 = -10 is not below -10
+            baseline: 80,
+            trendValue: -10,
+          }),
+        );
+      });
+
+      // Test: the moving average does not include the current fact
+      test('leaves the current fact out of the moving average', async () => {
+        mockRepository.getFactsBetweenTimestampsByIds.mockResolvedValueOnce({
+          'test-fact-retriever': [
+            historyRow(75, 3),
+            historyRow(85, 6),
+            currentRow,
+          ],
+        });
+        factChecker = new DynamicThresholdFactChecker(
+          mockCatalogApi,
+          mockRepository,
+          mockLogger,
+          [
+            {
+              ...successRateDrop,
+              trend: { method: 'movingAverage', windowDays: 7 },
+            },
+          ],
+        );
+
+        const results = await factChecker.runChecks(testEntityRef);
+
+        expect(
+          mockRepository.getFactsBetweenTimestampsByIds,
+        ).toHaveBeenCalledWith(
+          ['test-fact-retriever'],
+          testEntityRef,
+          currentRow.timestamp.minus({ days: 7 }),
+          currentRow.timestamp,
+        );
+        expect(results[0]).toEqual(
+          expect.objectContaining({ baseline: 80, trendValue: -10 }),
+        );
+      });
+
+      // Test: delta is not compared with the current fact or a history of the last days only
+      test('returns an error when the history does not reach back to the start of the window', async () => {
+        mockRepository.getFactsBetweenTimestampsByIds.mockResolvedValueOnce({
+          'test-fact-retriever': [historyRow(75, 2), currentRow],
+        });
+        factChecker = new DynamicThresholdFactChecker(
+          mockCatalogApi,
+          mockRepository,
+          mockLogger,
+          [successRateDrop],
+        );
+
+        const results = await factChecker.runChecks(testEntityRef);
+
+        expect(results[0].error).toBe(
+          'No fact history within the trend window',
+        );
+        expect(results[0].level).toBe('gray');
+      });
+
+      // Test: a missing history is reported as an error
+      test('returns an error when there is no history', async () => {
+        mockRepository.getFactsBetweenTimestampsByIds.mockResolvedValueOnce({});
+        factChecker = new DynamicThresholdFactChecker(
+          mockCatalogApi,
+          mockRepository,
+          mockLogger,
+          [successRateDrop],
+        );
+
+        const results = await factChecker.runChecks(testEntityRef);
+
+        expect(results[0].result).toBe(false);
+        expect(results[0].error).toBe(
+          'No fact history within the trend window',
+        );
+      });
+    });
+
+    describe('composite checks', () => {
+      const qualityCheck: DynamicThresholdCheck = {
+        id: 'quality-gate-and-coverage',
+        name: 'Quality gate and coverage',
+        type: 'composite',
+        factIds: [],
+        annotationKeyThreshold: '',
+        annotationKeyOperator: '',
+        description: 'Quality gate OK and coverage of at least 80%',
+        conditions: {
+          and: [
+            {
+              factIds: ['sonar-retriever', 'quality_gate'],
+              operator: 'equal',
+              threshold: 'OK',
+            },
+            {
+              factIds: ['sonar-retriever', 'coverage'],
+              annotationKeyThreshold: 'backstage.io/coverage-threshold',
+              operator: 'greaterThanInclusive',
+            },
+          ],
+        },
+      };
+
+      const criticalCheck: DynamicThresholdCheck = {
+        ...qualityCheck,
+        id: 'no-old-critical-alerts',
+        conditions: {
+          or: [
+            {
+              factIds: ['dependabot-retriever', 'critical'],
+              operator: 'equal',
+              threshold: 0,
+            },
+            {
+              not: {
+                factIds: ['dependabot-retriever', 'oldestCriticalAlertAgeDays'],
+                operator: 'greaterThanInclusive',
+                threshold: 3,
+              },
+            },
+          ],
+        },
+      };
+
+      const createFacts = (facts: Record<string, number | string>) => ({
+        'sonar-retriever': {
+          id: 'sonar-retriever',
+          entity: {
+            kind: 'Component',
+            name: 'test-component',
+            namespace: 'default',
+          },
+          facts,
+        },
+        'dependabot-retriever': {
+          id: 'dependabot-retriever',
+          entity: {
+            kind: 'Component',
+            name: 'test-component',
+            namespace: 'default',
+          },
+          facts,
+        },
+      });
+
+      beforeEach(() => {
+        factChecker = new DynamicThresholdFactChecker(
+          mockCatalogApi,
+          mockRepository,
+          mockLogger,
+          [qualityCheck, criticalCheck],
+        );
+        mockCatalogApi.getEntityByRef
+          .mockResolvedValueOnce(testComponentEntity)
+          .mockResolvedValueOnce({
+            ...testSystemEntity,
+            metadata: {
+              ...testSystemEntity.metadata,
+              annotations: { 'backstage.io/coverage-threshold': '80' },
+            },
+          });
+      });
+
+      // Test: AND passes only when every comparison passes and reports each of them
+      test('combines comparisons with AND and returns a breakdown', async () => {
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce(
+          createFacts({ quality_gate: 'OK', coverage: 75 }),
+        );
+
+        const results = await factChecker.runChecks(testEntityRef, [
+          'quality-gate-and-coverage',
+        ]);
+
+        expect(mockRepository.getLatestFactsByIds).toHaveBeenCalledWith(
+          ['sonar-retriever', 'sonar-retriever'],
+          testEntityRef,
+        );
+        expect(results[0].result).toBe(false);
+        expect(results[0].conditionResults).toEqual([
+          {
+            factIds: ['sonar-retriever', 'quality_gate'],
+            value: 'OK',
+            operator: 'equal',
+            threshold: 'OK',
+            thresholdSource: 'default',
+            result: true,
+          },
+          {
+            factIds: ['sonar-retriever', 'coverage'],
+            value: 75,
+            operator: 'greaterThanInclusive',
+            threshold: 80,
+            thresholdSource: 'system',
+            result: false,
+          },
+        ]);
+        expect(results[0].facts['sonar-retriever.coverage'].value).toBe(75);
+      });
+
+      // Test: OR passes when one branch passes, NOT inverts its comparison
+      test('combines comparisons with OR and NOT', async () => {
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce(
+          createFacts({ critical: 2, oldestCriticalAlertAgeDays: 1.5 }),
+        );
+
+        const results = await factChecker.runChecks(testEntityRef, [
+          'no-old-critical-alerts',
+        ]);
+
+        expect(results[0].result).toBe(true);
+        expect(
+          results[0].conditionResults?.map(condition => condition.result),
+        ).toEqual([false, false]);
+      });
+
+      // Test: exists and notExists comparisons need no threshold
+      test('evaluates exists comparisons without a threshold', async () => {
+        const existsCheck: DynamicThresholdCheck = {
+          ...qualityCheck,
+          id: 'quality-gate-reported',
+          conditions: {
+            and: [
+              {
+                factIds: ['sonar-retriever', 'quality_gate'],
+                operator: 'exists',
+              },
+              {
+                factIds: ['sonar-retriever', 'coverage'],
+                operator: 'notExists',
+              },
+            ],
+          },
+        };
+        factChecker = new DynamicThresholdFactChecker(
+          mockCatalogApi,
+          mockRepository,
+          mockLogger,
+          [existsCheck],
+        );
+        mockRepository.getLatestFactsByIds.mockResolvedValueOnce(
+          createFacts({ quality_gate: 'OK' }),
+        );
+
+        const results = await factChecker.runChecks(testEntityRef, [
+          'quality-gate-reported',
+        ]);
+
+        expect(results[0].result).toBe(true);
+        expect(
+          results[0].conditionResults?.map(condition => condition.result),
+        ).toEqual([true, true]);
+        expect(mockLogger.warn).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('validate', () => {
@@ -916,6 +1501,43 @@ describe('DynamicThresholdFactChecker', () => {
       expect(result.valid).toBe(false);
       expect(result.message).toContain('must have a valid factId');
     });
+
+    // Test: composite checks are validated on their conditions
+    test('validates the conditions of composite checks', async () => {
+      const compositeCheck: DynamicThresholdCheck = {
+        ...sampleChecks[0],
+        type: 'composite',
+        factIds: [],
+        conditions: {
+          or: [
+            {
+              factIds: ['test-fact-retriever', 'test-fact-1'],
+              operator: 'lessThan',
+              threshold: 5,
+            },
+          ],
+        },
+      };
+      expect((await factChecker.validate(compositeCheck)).valid).toBe(true);
+
+      const existsResult = await factChecker.validate({
+        ...compositeCheck,
+        conditions: {
+          not: {
+            factIds: ['test-fact-retriever', 'test-fact-1'],
+            operator: 'exists',
+          },
+        },
+      });
+      expect(existsResult.valid).toBe(true);
+
+      const result = await factChecker.validate({
+        ...compositeCheck,
+        conditions: { and: [{ factIds: ['test-fact-retriever'] }] },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain('Each condition must have factIds');
+    });
   });
 
   describe('getChecks', () => {
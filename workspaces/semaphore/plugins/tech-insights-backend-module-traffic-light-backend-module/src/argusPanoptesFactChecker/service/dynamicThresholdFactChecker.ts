@@ -5,6 +5,29 @@ import {
 import { FactResponse } from '@backstage-community/plugin-tech-insights-common';
 import { CatalogApi } from '@backstage/catalog-client';
 import { LoggerService } from '@backstage/backend-plugin-api';
+import { Entity } from '@backstage/catalog-model';
+import { Config } from '@backstage/config';
+import { DateTime } from 'luxon';
+import {
+  COMPOSITE_CHECK_TYPE,
+  DynamicThresholdCondition,
+  evaluateCondition,
+  getConditionComparisons,
+  validateCondition,
+} from './compositeConditions';
+import {
+  evaluateOperator,
+  operatorRequiresThreshold,
+  parseThreshold,
+} from './operators';
+import {
+  DynamicThresholdTrend,
+  TREND_CHECK_TYPE,
+  TrendHistoryPoint,
+  TrendOutcome,
+  computeTrend,
+  validateTrend,
+} from './trends';
 
 /**
  * Type describing a dynamic threshold check.
@@ -18,18 +41,157 @@ export type DynamicThresholdCheck = {
   annotationKeyThreshold: string;
   annotationKeyOperator: string;
   description: string;
+  annotationKeyErrorThreshold?: string; // Defaults to annotationKeyThreshold with '-error-threshold' instead of '-threshold'
+  conditions?: DynamicThresholdCondition; // Only used by checks of type 'composite'
+  trend?: DynamicThresholdTrend; // Only used by checks of type 'trend'
+};
+
+/**
+ * Level that supplied the threshold of a check, in lookup order: the component's own
+ * annotations, its system, the system's domain and finally the app-config default.
+ */
+export type ThresholdSource = 'component' | 'system' | 'domain' | 'default';
+
+/**
+ * Graded verdict of a check. The threshold of a check is its warning threshold: passing it is green.
+ * Failing it is yellow while the value still passes the optional error threshold, and red otherwise.
+ * Gray means the check could not be evaluated, e.g. because the threshold or fact is missing.
+ */
+export type CheckLevel = 'green' | 'yellow' | 'red' | 'gray';
+
+/**
+ * Global threshold and operator for a check, read from `techInsights.argus.thresholds.<checkId>`.
+ */
+export type DynamicThresholdDefault = {
+  threshold?: string;
+  errorThreshold?: string;
+  operator?: string;
+};
+
+/**
+ * Outcome of a single fact comparison within a composite check.
+ */
+export type DynamicThresholdConditionResult = {
+  factIds: string[];
+  value: string | number | boolean | [];
+  operator?: string;
+  threshold?: string | number;
+  thresholdSource?: ThresholdSource;
+  result: boolean;
+  error?: string;
 };
 
 /**
  * Type describing the result of a dynamic threshold check.
- * Contains the check definition, the facts used, and the boolean result.
+ * Contains the check definition, the facts used, the boolean result, the graded level and the level the
+ * threshold came from.
+ * Composite checks also return the outcome of each comparison in `conditionResults`.
+ * Trend checks also return the `baseline` read from the fact history and the compared `trendValue`.
+ * `error` is set when the check could not be evaluated, e.g. because of an unknown operator.
  */
 export type DynamicThresholdResult = {
   check: DynamicThresholdCheck;
   facts: FactResponse;
   result: boolean;
+  level?: CheckLevel; // Set by the fact checker, optional for results built elsewhere such as the frontend
+  thresholdSource?: ThresholdSource;
+  errorThreshold?: string | number;
+  conditionResults?: DynamicThresholdConditionResult[];
+  baseline?: number;
+  trendValue?: number;
+  error?: string;
 };
 
+/**
+ * Reads the global threshold defaults per check id from `techInsights.argus.thresholds`.
+ *
+ * @param config - The Backstage application configuration
+ */
+export function readThresholdDefaults(
+  config: Config,
+): Record<string, DynamicThresholdDefault> {
+  const thresholdsConfig = config.getOptionalConfig(
+    'techInsights.argus.thresholds',
+  );
+  const defaults: Record<string, DynamicThresholdDefault> = {};
+  thresholdsConfig?.keys().forEach(checkId => {
+    const checkConfig = thresholdsConfig.getConfig(checkId);
+    const threshold = checkConfig.getOptional('threshold');
+    const errorThreshold = checkConfig.getOptional('errorThreshold');
+    defaults[checkId] = {
+      threshold: threshold === undefined ? undefined : String(threshold),
+      errorThreshold:
+        errorThreshold === undefined ? undefined : String(errorThreshold),
+      operator: checkConfig.getOptionalString('operator'),
+    };
+  });
+  return defaults;
+}
+
+/**
+ * Validates that a check has the fields required to evaluate it. Shared by
+ * {@link DynamicThresholdFactChecker.validate} and the startup validation of configured checks.
+ *
+ * @param check - The check to validate
+ * @returns An object with a boolean 'valid' and an optional message
+ */
+export function validateDynamicThresholdCheck(check: DynamicThresholdCheck): {
+  valid: boolean;
+  message?: string;
+} {
+  if (check.type === COMPOSITE_CHECK_TYPE) {
+    const message = validateCondition(check.conditions);
+    return message ? { valid: false, message } : { valid: true };
+  }
+
+  if (check.type === TREND_CHECK_TYPE) {
+    const message = validateTrend(check.trend);
+    if (message) {
+      return { valid: false, message };
+    }
+  }
+
+  const valid = Boolean(
+    check.factIds.length !== 0 &&
+      check.annotationKeyThreshold &&
+      check.annotationKeyOperator,
+  );
+  return {
+    valid,
+    ...(valid
+      ? {}
+      : {
+          message:
+            'Each check must have a valid factId, annotationKeyThreshold and annotationKeyOperator.',
+        }),
+  };
+}
+
+/**
+ * Returns the ids passed to the fact store for a check: the check's factIds, or the fact
+ * retrievers of every comparison for composite checks.
+ */
+function getCheckFactIds(check: DynamicThresholdCheck): string[] {
+  if (check.type === COMPOSITE_CHECK_TYPE && check.conditions) {
+    return getConditionComparisons(check.conditions).map(
+      comparison => comparison.factIds[0],
+    );
+  }
+  return check.factIds;
+}
+
+/**
+ * Returns the annotation holding the error threshold of a check.
+ */
+function getErrorThresholdKey(check: DynamicThresholdCheck): string {
+  return (
+    check.annotationKeyErrorThreshold ??
+    check.annotationKeyThreshold.replace(/-threshold$/, '-error-threshold')
+  );
+}
+
+type ThresholdLevel = { source: ThresholdSource; entity?: Entity };
+
 /**
  * Implements a FactChecker that evaluates dynamic threshold checks for catalog entities.
  * It fetches the entity, retrieves the relevant facts, and compares them to thresholds
@@ -43,6 +205,10 @@ export class DynamicThresholdFactChecker
     private readonly repository: TechInsightsStore,
     private readonly logger: LoggerService,
     private readonly checks: DynamicThresholdCheck[],
+    private readonly thresholdDefaults: Record<
+      string,
+      DynamicThresholdDefault
+    > = {},
   ) {}
 
   /**
@@ -72,6 +238,215 @@ export class DynamicThresholdFactChecker
     return String(value);
   }
 
+  /**
+   * Fetches the domain of a system, when the system declares one. A missing domain only
+   * removes that level from the threshold lookup.
+   */
+  private async getDomainEntity(
+    systemEntity: Entity,
+  ): Promise<Entity | undefined> {
+    const domainName = systemEntity.spec?.domain;
+    if (!domainName) {
+      return undefined;
+    }
+    const domainEntity = await this.catalogApi.getEntityByRef({
+      kind: 'Domain',
+      namespace: systemEntity.metadata.namespace || 'default',
+      name: typeof domainName === 'string' ? domainName : String(domainName),
+    });
+    if (!domainEntity) {
+      this.logger.warn(
+        `Domain entity '${domainName}' of system ${systemEntity.metadata.name} not found in catalog.`,
+      );
+    }
+    return domainEntity;
+  }
+
+  /**
+   * Resolves the threshold and operator of a check. The threshold comes from the first level
+   * that defines it (component, system, domain, app-config default); the operator is looked up
+   * in the same order, so a component can override the threshold while inheriting the operator.
+   */
+  private resolveThreshold(
+    keys: { annotationKeyThreshold?: string; annotationKeyOperator?: string },
+    fallback: DynamicThresholdDefault | undefined,
+    levels: ThresholdLevel[],
+  ): { threshold?: string; operator?: string; source?: ThresholdSource } {
+    const candidates: {
+      source: ThresholdSource;
+      threshold?: string;
+      operator?: string;
+    }[] = [
+      ...levels.map(({ source, entity }) => ({
+        source,
+        threshold: keys.annotationKeyThreshold
+          ? entity?.metadata.annotations?.[keys.annotationKeyThreshold]
+          : undefined,
+        operator: keys.annotationKeyOperator
+          ? entity?.metadata.annotations?.[keys.annotationKeyOperator]
+          : undefined,
+      })),
+      { source: 'default', ...fallback },
+    ];
+
+    const supplier = candidates.find(
+      candidate => candidate.threshold !== undefined,
+    );
+    return {
+      threshold: supplier?.threshold,
+      operator: candidates.find(candidate => candidate.operator !== undefined)
+        ?.operator,
+      source: supplier?.source,
+    };
+  }
+
+  /**
+   * Evaluates a composite check: every comparison is resolved and evaluated on its own, then
+   * combined with the check's AND/OR/NOT conditions.
+   */
+  private runCompositeCheck(
+    check: DynamicThresholdCheck,
+    conditions: DynamicThresholdCondition,
+    factValues: Awaited<ReturnType<TechInsightsStore['getLatestFactsByIds']>>,
+    levels: ThresholdLevel[],
+    entityRef: string,
+  ): DynamicThresholdResult {
+    const facts: FactResponse = {};
+    const conditionResults = getConditionComparisons(conditions).map(
+      comparison => {
+        const {
+          threshold: thresholdStr,
+          operator,
+          source,
+        } = this.resolveThreshold(
+          comparison,
+          {
+            threshold:
+              comparison.threshold === undefined
+                ? undefined
+                : String(comparison.threshold),
+            operator: comparison.operator,
+          },
+          levels,
+        );
+        const threshold = parseThreshold(thresholdStr);
+        const [retrieverId, factName, totalFactName] = comparison.factIds;
+        const retrieverFacts = factValues[retrieverId]?.facts;
+        const rawValue = retrieverFacts?.[factName];
+        const isNumber = typeof rawValue === 'number';
+        const value = this.formatFactValue(rawValue, isNumber);
+
+        const missingThreshold =
+          threshold === undefined && operatorRequiresThreshold(operator);
+        if (missingThreshold) {
+          this.logger.warn(
+            `Missing threshold for ${factName} in composite check ${check.id} on entity ${entityRef}`,
+          );
+        }
+        const outcome = missingThreshold
+          ? { result: false }
+          : evaluateOperator(operator, rawValue, thresholdStr, {
+              total: totalFactName
+                ? retrieverFacts?.[totalFactName]
+                : undefined,
+            });
+
+        facts[`${retrieverId}.${factName}`] = {
+          id: retrieverId,
+          type: isNumber ? 'integer' : 'string',
+          description: `Fact ${factName} of ${retrieverId}`,
+          value,
+        };
+
+        return {
+          factIds: comparison.factIds,
+          value,
+          operator,
+          threshold,
+          thresholdSource: source,
+          ...outcome,
+        };
+      },
+    );
+    const error = conditionResults.find(
+      conditionResult => conditionResult.error,
+    )?.error;
+
+    const result = evaluateCondition(
+      conditions,
+      conditionResults.map(conditionResult => conditionResult.result),
+    );
+    this.logger.info(
+      `The result from the composite check is ${result} for ${
+        check.id
+      } on entity ${entityRef}, conditions are ${conditionResults
+        .map(c => `${c.factIds[1]} ${c.operator} ${c.threshold}: ${c.result}`)
+        .join(', ')}`,
+    );
+
+    if (error) {
+      this.logger.warn(
+        `Composite check ${check.id} on entity ${entityRef} could not be evaluated: ${error}`,
+      );
+    }
+
+    let level: CheckLevel = result ? 'green' : 'red';
+    if (error) {
+      level = 'gray';
+    }
+
+    return {
+      check,
+      facts,
+      result: error ? false : result,
+      level,
+      conditionResults,
+      ...(error ? { error } : {}),
+    };
+  }
+
+  /**
+   * Reads the numeric values of a check's fact within the trend window, oldest first. The
+   * current fact is not part of its own history.
+   *
+   * @param currentDateTime - When the current fact was retrieved
+   */
+  private async getFactHistory(
+    check: DynamicThresholdCheck,
+    trend: DynamicThresholdTrend,
+    entityRef: string,
+    currentDateTime: DateTime,
+  ): Promise<TrendHistoryPoint[]> {
+    const [retrieverId, factName] = check.factIds;
+    try {
+      const history = await this.repository.getFactsBetweenTimestampsByIds(
+        [retrieverId],
+        entityRef,
+        currentDateTime.minus({ days: trend.windowDays }),
+        currentDateTime,
+      );
+      return (history[retrieverId] ?? [])
+        .flatMap(({ facts, timestamp }) =>
+          typeof facts[factName] === 'number' &&
+          timestamp &&
+          timestamp < currentDateTime
+            ? [
+                {
+                  value: facts[factName] as number,
+                  ageDays: currentDateTime.diff(timestamp, 'days').days,
+                },
+              ]
+            : [],
+        )
+        .sort((a, b) => b.ageDays - a.ageDays);
+    } catch (error) {
+      this.logger.warn(
+        `Could not read the history of ${factName} for trend check ${check.id} on entity ${entityRef}: ${error}`,
+      );
+      return [];
+    }
+  }
+
   // Run checks for a given entity
   async runChecks(
     entityRef: string,
@@ -101,29 +476,50 @@ export class DynamicThresholdFactChecker
       throw new Error(`System entity '${systemName}' not found in catalog.`);
     }
 
+    const domainEntity = await this.getDomainEntity(systemEntity);
+    const levels: ThresholdLevel[] = [
+      { source: 'component', entity },
+      { source: 'system', entity: systemEntity },
+      { source: 'domain', entity: domainEntity },
+    ];
+
     // Filter checks to run by checkIds if provided
     const checksToRun = this.checks.filter(
       c => !checkIds || checkIds.includes(c.id),
     );
     // Retrieve the latest facts for all relevant factIds
     const factValues = await this.repository.getLatestFactsByIds(
-      checksToRun.map(c => c.factIds).flat(),
+      checksToRun.flatMap(getCheckFactIds),
       entityRef,
     );
 
     // Evaluate each check and return the results
     return await Promise.all(
       checksToRun.map(async check => {
-        // Get the threshold value from the system entity annotation
-        const thresholdStr =
-          systemEntity.metadata.annotations?.[check.annotationKeyThreshold];
-        const thresholdNumber = parseFloat(thresholdStr || 'NaN');
-        const threshold = isNaN(thresholdNumber)
-          ? thresholdStr
-          : thresholdNumber;
+        if (check.type === COMPOSITE_CHECK_TYPE && check.conditions) {
+          return this.runCompositeCheck(
+            check,
+            check.conditions,
+            factValues,
+            levels,
+            entityRef,
+          );
+        }
+
+        // Get the threshold value from the first level that defines it
+        const {
+          threshold: thresholdStr,
+          operator,
+          source,
+        } = this.resolveThreshold(
+          check,
+          this.thresholdDefaults[check.id],
+          levels,
+        );
+        const threshold = parseThreshold(thresholdStr);
 
         // If threshold is missing or invalid, log a warning and return result: false
-        if (threshold === undefined) {
+        if (threshold === undefined && operatorRequiresThreshold(operator)) {
           this.logger.warn(
             `Missing or invalid threshold for ${check.id} on entity ${entityRef} part of system ${systemName}, threshold is ${thresholdStr}`,
           );
@@ -131,76 +527,82 @@ export class DynamicThresholdFactChecker
             check,
             facts: {},
             result: false,
+            level: 'gray' as const,
           };
         }
 
+        // The error threshold is optional and shares the operator of the check
+        const { threshold: errorThresholdStr } = this.resolveThreshold(
+          { annotationKeyThreshold: getErrorThresholdKey(check) },
+          { threshold: this.thresholdDefaults[check.id]?.errorThreshold },
+          levels,
+        );
+
         // Retrieve the fact value to check
         const factId = check.factIds[0];
         const factContainer = factValues[factId];
         const rawValue = factContainer?.facts?.[check.factIds[1]];
+        // Total fact for the percentage-of-total operators
+        const total = check.factIds[2]
+          ? factContainer?.facts?.[check.factIds[2]]
+          : undefined;
         this.logger.warn(
           `🔥[DEBUG] fact keys: ${Object.keys(factContainer?.facts || {}).join(
             ', ',
           )}`,
         );
 
-        const operator =
-          systemEntity.metadata.annotations?.[check.annotationKeyOperator];
         const isNumber = typeof rawValue === 'number';
-        const isString = typeof rawValue === 'string';
+
+        // Trend checks compare the change of the fact over the trend window instead of its value
+        let trendOutcome: TrendOutcome | undefined;
+        if (check.type === TREND_CHECK_TYPE && check.trend) {
+          trendOutcome = computeTrend(
+            check.trend,
+            rawValue,
+            await this.getFactHistory(
+              check,
+              check.trend,
+              entityRef,
+              factContainer?.timestamp ?? DateTime.now(),
+            ),
+          );
+        }
 
         // Evaluate the check based on the operator and the threshold
-        let result: boolean = false;
-        switch (operator) {
-          case 'greaterThan':
-            result =
-              rawValue !== undefined &&
-              isNumber &&
-              typeof threshold === 'number' &&
-              rawValue > threshold;
-            break;
-          case 'greaterThanInclusive':
-            result =
-              rawValue !== undefined &&
-              isNumber &&
-              typeof threshold === 'number' &&
-              rawValue >= threshold;
-            break;
-          case 'lessThan':
-            result =
-              rawValue !== undefined &&
-              isNumber &&
-              typeof threshold === 'number' &&
-              rawValue < threshold;
-            break;
-          case 'lessThanInclusive':
-            result =
-              rawValue !== undefined &&
-              isNumber &&
-              typeof threshold === 'number' &&
-              rawValue <= threshold;
-            break;
-          case 'equal':
-            result =
-              rawValue !== undefined &&
-              (isNumber || isString) &&
-              rawValue === threshold;
-            break;
-          case 'notEqual':
-            result =
-              rawValue !== undefined &&
-              (isNumber || isString) &&
-              rawValue !== threshold;
-            break;
-          default:
-            result = false; // Default to false if operator is not recognized
+        const comparedValue = trendOutcome ? trendOutcome.value : rawValue;
+        const { result, error } = trendOutcome?.error
+          ? { result: false, error: trendOutcome.error }
+          : evaluateOperator(operator, comparedValue, thresholdStr, {
+              total,
+            });
+
+        // Grade the result: failing the threshold is yellow while the error threshold still passes
+        let level: CheckLevel = result ? 'green' : 'red';
+        if (error) {
+          this.logger.warn(
+            `Check ${check.id} on entity ${entityRef} could not be evaluated: ${error}`,
+          );
+          level = 'gray';
+        } else if (
+          !result &&
+          errorThresholdStr !== undefined &&
+          evaluateOperator(operator, comparedValue, errorThresholdStr, {
+            total,
+          }).result
+        ) {
+          level = 'yellow';
         }
 
         // Log the result of the check
         this.logger.info(
-          `The result from the check is ${result} for ${
+          `The result from the check is ${result} (${level}) for ${
             check.id
-          } on entity ${entityRef} part of system ${systemName}, threshold is ${operator} ${threshold} with type ${typeof threshold}, rawValue is ${rawValue}`,
+          } on entity ${entityRef} part of system ${systemName}, threshold from ${source} is ${operator} ${threshold} with type ${typeof threshold}, rawValue is ${rawValue}${
+            trendOutcome
+              ? `, baseline is ${trendOutcome.baseline}, trend value is ${trendOutcome.value}`
+              : ''
+          }`,
         );
 
         // Format fact correctly
@@ -215,6 +617,18 @@ export class DynamicThresholdFactChecker
           check,
           facts: { [factId]: fact },
           result,
+          level,
+          thresholdSource: source,
+          ...(errorThresholdStr !== undefined
+            ? { errorThreshold: parseThreshold(errorThresholdStr) }
+            : {}),
+          ...(trendOutcome
+            ? {
+                baseline: trendOutcome.baseline,
+                trendValue: trendOutcome.value,
+              }
+            : {}),
+          ...(error ? { error } : {}),
         };
       }),
     );
@@ -226,20 +640,7 @@ export class DynamicThresholdFactChecker
    * @returns An object with a boolean 'valid' and an optional message.
    */
   async validate(check: DynamicThresholdCheck) {
-    const valid = Boolean(
-      check.factIds.length !== 0 &&
-        check.annotationKeyThreshold &&
-        check.annotationKeyOperator,
-    );
-    return {
-      valid,
-      ...(valid
-        ? {}
-        : {
-            message:
-              'Each check must have a valid factId, annotationKeyThreshold and annotationKeyOperator.',
-          }),
-    };
+    return validateDynamicThresholdCheck(check);
   }
 
   /**
@@ -258,6 +659,7 @@ export interface DynamicThresholdFactCheckerFactoryOptions {
   checks: DynamicThresholdCheck[]; // Define check metadata (e.g., id, annotationKey, factIds)
   logger: LoggerService;
   catalogApi: CatalogApi;
+  config?: Config; // Supplies the global threshold defaults
 }
 
 // Factory for creating DynamicThresholdFactChecker instances.
@@ -265,11 +667,15 @@ export class DynamicThresholdFactCheckerFactory {
   private readonly checks: DynamicThresholdCheck[];
   private readonly logger: LoggerService;
   private readonly catalogApi: CatalogApi;
+  private readonly thresholdDefaults: Record<string, DynamicThresholdDefault>;
 
   constructor(options: DynamicThresholdFactCheckerFactoryOptions) {
     this.checks = options.checks;
     this.logger = options.logger;
     this.catalogApi = options.catalogApi;
+    this.thresholdDefaults = options.config
+      ? readThresholdDefaults(options.config)
+      : {};
   }
 
   /**
@@ -281,6 +687,7 @@ export class DynamicThresholdFactCheckerFactory {
       repository,
       this.logger,
       this.checks,
+      this.thresholdDefaults,
     );
   }
 }
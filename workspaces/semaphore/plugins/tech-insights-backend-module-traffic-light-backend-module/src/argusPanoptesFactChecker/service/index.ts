@@ -4,3 +4,34 @@ export {
 } from './dynamicThresholdFactChecker';
 
 export type { DynamicThresholdFactCheckerFactoryOptions } from './dynamicThresholdFactChecker';
+
+export {
+  loadDynamicThresholdChecks,
+  mergeChecks,
+  readConfiguredChecks,
+} from './checksConfig';
+
+export type { ConfiguredDynamicThresholdCheck } from './checksConfig';
+
+export {
+  COMPOSITE_CHECK_TYPE,
+  evaluateCondition,
+  getConditionComparisons,
+} from './compositeConditions';
+
+export type {
+  DynamicThresholdComparison,
+  DynamicThresholdCondition,
+} from './compositeConditions';
+
+export { SUPPORTED_OPERATORS, evaluateOperator } from './operators';
+
+export type { OperatorOutcome } from './operators';
+
+export { TREND_CHECK_TYPE, computeTrend } from './trends';
+
+export type {
+  DynamicThresholdTrend,
+  TrendHistoryPoint,
+  TrendMethod,
+} from './trends';
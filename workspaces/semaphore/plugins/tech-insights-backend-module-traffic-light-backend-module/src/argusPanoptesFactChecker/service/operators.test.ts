@@ -0,0 +1,82 @@
+import { evaluateOperator } from './operators';
+
+describe('evaluateOperator', () => {
+  // Test: between includes both bounds and rejects malformed ranges
+  test('evaluates between', () => {
+    expect(evaluateOperator('between', 10, '10,20')).toEqual({ result: true });
+    expect(evaluateOperator('between', 21, '[10, 20]')).toEqual({
+      result: false,
+    });
+    expect(evaluateOperator('between', 15, '10').error).toContain(
+      "for 'between' must be two numbers",
+    );
+  });
+
+  // Test: in and notIn accept comma separated and JSON lists
+  test('evaluates in and notIn', () => {
+    expect(evaluateOperator('in', 'WARN', 'OK, WARN')).toEqual({
+      result: true,
+    });
+    expect(evaluateOperator('in', 3, '[1, 2]')).toEqual({ result: false });
+    expect(evaluateOperator('notIn', 'ERROR', 'OK,WARN')).toEqual({
+      result: true,
+    });
+  });
+
+  // Test: matches uses the threshold as a regular expression
+  test('evaluates matches', () => {
+    expect(evaluateOperator('matches', 'release/1.2', '^release/')).toEqual({
+      result: true,
+    });
+    expect(evaluateOperator('matches', 'main', '[').error).toContain(
+      'not a valid regular expression',
+    );
+  });
+
+  // Test: exists and notExists ignore the threshold
+  test('evaluates exists and notExists', () => {
+    expect(evaluateOperator('exists', 0, undefined)).toEqual({ result: true });
+    expect(evaluateOperator('notExists', undefined, undefined)).toEqual({
+      result: true,
+    });
+  });
+
+  // Test: length operators count array items and object keys
+  test('evaluates array length operators', () => {
+    expect(evaluateOperator('lengthLessThan', ['a', 'b'], '3')).toEqual({
+      result: true,
+    });
+    expect(evaluateOperator('lengthEqual', { a: 1, b: 2 }, '2')).toEqual({
+      result: true,
+    });
+    expect(evaluateOperator('lengthGreaterThan', 'abc', '1')).toEqual({
+      result: false,
+    });
+  });
+
+  // Test: percentage operators divide the fact by the total fact
+  test('evaluates percentage of total operators', () => {
+    expect(
+      evaluateOperator('percentageOfTotalLessThanInclusive', 1, '25', {
+        total: 4,
+      }),
+    ).toEqual({ result: true });
+    expect(
+      evaluateOperator('percentageOfTotalGreaterThan', 1, '25', { total: 0 }),
+    ).toEqual({ result: false });
+    expect(
+      evaluateOperator('percentageOfTotalGreaterThan', 1, '25').error,
+    ).toContain('needs a numeric total fact');
+  });
+
+  // Test: unknown and missing operators are reported as errors
+  test('returns an error for unknown operators', () => {
+    expect(evaluateOperator('greaterThen', 5, '1')).toEqual({
+      result: false,
+      error: expect.stringContaining("Unknown operator 'greaterThen'"),
+    });
+    expect(evaluateOperator(undefined, 5, '1').error).toBe(
+      'No operator configured',
+    );
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Operators supported by the dynamic threshold checks. Thresholds arrive as annotation strings,
+ * so every operator parses the threshold format it needs itself.
+ */
+
+/**
+ * Outcome of applying an operator. `error` is set when the check could not be evaluated,
+ * e.g. for an unknown operator or a malformed threshold, and `result` is then false.
+ */
+export type OperatorOutcome = {
+  result: boolean;
+  error?: string;
+};
+
+/**
+ * Extra input for operators that need more than the fact value.
+ */
+export type OperatorContext = {
+  total?: unknown; // Value of the total fact, for the percentage-of-total operators
+};
+
+type NumericComparison = (value: number, threshold: number) => boolean;
+
+const NUMERIC_COMPARISONS: Record<string, NumericComparison> = {
+  greaterThan: (value, threshold) => value > threshold,
+  greaterThanInclusive: (value, threshold) => value >= threshold,
+  lessThan: (value, threshold) => value < threshold,
+  lessThanInclusive: (value, threshold) => value <= threshold,
+};
+
+// Array length operators compare the number of items of an array (or keys of an object) fact
+const LENGTH_OPERATORS: Record<string, NumericComparison> = {
+  lengthGreaterThan: NUMERIC_COMPARISONS.greaterThan,
+  lengthGreaterThanInclusive: NUMERIC_COMPARISONS.greaterThanInclusive,
+  lengthLessThan: NUMERIC_COMPARISONS.lessThan,
+  lengthLessThanInclusive: NUMERIC_COMPARISONS.lessThanInclusive,
+  lengthEqual: (value, threshold) => value === threshold,
+};
+
+// Percentage operators compare the fact as a percentage of a total fact (third factIds entry)
+const PERCENTAGE_OPERATORS: Record<string, NumericComparison> = {
+  percentageOfTotalGreaterThan: NUMERIC_COMPARISONS.greaterThan,
+  percentageOfTotalGreaterThanInclusive:
+    NUMERIC_COMPARISONS.greaterThanInclusive,
+  percentageOfTotalLessThan: NUMERIC_COMPARISONS.lessThan,
+  percentageOfTotalLessThanInclusive: NUMERIC_COMPARISONS.lessThanInclusive,
+};
+
+// Operators that only look at the fact value and need no threshold
+const THRESHOLDLESS_OPERATORS = ['exists', 'notExists'];
+
+export const SUPPORTED_OPERATORS = [
+  ...Object.keys(NUMERIC_COMPARISONS),
+  'equal',
+  'notEqual',
+  'between',
+  'in',
+  'notIn',
+  'matches',
+  ...THRESHOLDLESS_OPERATORS,
+  ...Object.keys(LENGTH_OPERATORS),
+  ...Object.keys(PERCENTAGE_OPERATORS),
+];
+
+/**
+ * Parses a threshold as a number when possible, otherwise keeps the string.
+ */
+export function parseThreshold(
+  thresholdStr?: string,
+): string | number | undefined {
+  const thresholdNumber = parseFloat(thresholdStr || 'NaN');
+  return isNaN(thresholdNumber) ? thresholdStr : thresholdNumber;
+}
+
+/**
+ * Whether an operator compares against a threshold; exists and notExists do not.
+ */
+export function operatorRequiresThreshold(operator?: string): boolean {
+  return !operator || !THRESHOLDLESS_OPERATORS.includes(operator);
+}
+
+/**
+ * Parses a list threshold, given as a JSON array or a comma separated list.
+ */
+function parseList(thresholdStr: string): string[] | undefined {
+  const trimmed = thresholdStr.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return Array.isArray(parsed) ? parsed.map(item => String(item)) : [];
+    } catch (error) {
+      return undefined;
+    }
+  }
+  return trimmed
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function compareNumbers(
+  value: unknown,
+  thresholdStr: string | undefined,
+  comparison: NumericComparison,
+): boolean {
+  const threshold = parseThreshold(thresholdStr);
+  return (
+    typeof value === 'number' &&
+    typeof threshold === 'number' &&
+    comparison(value, threshold)
+  );
+}
+
+/**
+ * Applies an operator to a fact value.
+ *
+ * @param operator - The operator from the check annotation or definition
+ * @param rawValue - The fact value
+ * @param thresholdStr - The threshold as written in the annotation or definition
+ * @param context - Extra facts needed by some operators
+ */
+export function evaluateOperator(
+  operator: string | undefined,
+  rawValue: unknown,
+  thresholdStr: string | undefined,
+  context: OperatorContext = {},
+): OperatorOutcome {
+  if (!operator) {
+    return { result: false, error: 'No operator configured' };
+  }
+
+  if (NUMERIC_COMPARISONS[operator]) {
+    return {
+      result: compareNumbers(
+        rawValue,
+        thresholdStr,
+        NUMERIC_COMPARISONS[operator],
+      ),
+    };
+  }
+
+  if (LENGTH_OPERATORS[operator]) {
+    let length: number | undefined;
+    if (Array.isArray(rawValue)) {
+      length = rawValue.length;
+    } else if (rawValue && typeof rawValue === 'object') {
+      length = Object.keys(rawValue).length;
+    }
+    return {
+      result: compareNumbers(length, thresholdStr, LENGTH_OPERATORS[operator]),
+    };
+  }
+
+  if (PERCENTAGE_OPERATORS[operator]) {
+    const { total } = context;
+    if (typeof total !== 'number') {
+      return {
+        result: false,
+        error: `Operator '${operator}' needs a numeric total fact as third factIds entry`,
+      };
+    }
+    if (typeof rawValue !== 'number') {
+      return { result: false };
+    }
+    const percentage = total === 0 ? 0 : (rawValue / total) * 100;
+    return {
+      result: compareNumbers(
+        percentage,
+        thresholdStr,
+        PERCENTAGE_OPERATORS[operator],
+      ),
+    };
+  }
+
+  const isNumber = typeof rawValue === 'number';
+  const isString = typeof rawValue === 'string';
+  const threshold = parseThreshold(thresholdStr);
+
+  switch (operator) {
+    case 'equal':
+      return {
+        result:
+          rawValue !== undefined &&
+          (isNumber || isString) &&
+          rawValue === threshold,
+      };
+    case 'notEqual':
+      return {
+        result:
+          rawValue !== undefined &&
+          (isNumber || isString) &&
+          rawValue !== threshold,
+      };
+    case 'between': {
+      const bounds = parseList(thresholdStr ?? '')?.map(Number);
+      if (!bounds || bounds.length !== 2 || bounds.some(isNaN)) {
+        return {
+          result: false,
+          error: `Threshold '${thresholdStr}' for 'between' must be two numbers, e.g. 10,20`,
+        };
+      }
+      const [min, max] = bounds;
+      return {
+        result: isNumber && rawValue >= min && rawValue <= max,
+      };
+    }
+    case 'in':
+    case 'notIn': {
+      const items = parseList(thresholdStr ?? '');
+      if (!items) {
+        return {
+          result: false,
+          error: `Threshold '${thresholdStr}' for '${operator}' must be a list, e.g. OK,WARN`,
+        };
+      }
+      if (!isNumber && !isString) {
+        return { result: false };
+      }
+      const included = items.includes(String(rawValue));
+      return { result: operator === 'in' ? included : !included };
+    }
+    case 'matches': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(thresholdStr ?? '');
+      } catch (error) {
+        return {
+          result: false,
+          error: `Threshold '${thresholdStr}' for 'matches' is not a valid regular expression`,
+        };
+      }
+      return { result: (isNumber || isString) && regex.test(String(rawValue)) };
+    }
+    case 'exists':
+      return { result: rawValue !== undefined && rawValue !== null };
+    case 'notExists':
+      return { result: rawValue === undefined || rawValue === null };
+    default:
+      return {
+        result: false,
+        error: `Unknown operator '${operator}', expected one of ${SUPPORTED_OPERATORS.join(
+          ', ',
+        )}`,
+      };
+  }
+}
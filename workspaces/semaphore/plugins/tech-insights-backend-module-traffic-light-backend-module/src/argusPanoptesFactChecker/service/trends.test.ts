@@ -0,0 +1,70 @@
+import { computeTrend, validateTrend } from './trends';
+
+describe('computeTrend', () => {
+  const weekly = { windowDays: 7 };
+  // Values of the fact 7 and 3 days before the current one
+  const history = (oldest: number, latest: number) => [
+    { value: oldest, ageDays: 7 },
+    { value: latest, ageDays: 3 },
+  ];
+
+  // Test: percent change is relative to the oldest value in the window
+  test('computes the percent change from the baseline', () => {
+    expect(
+      computeTrend({ ...weekly, method: 'percentChange' }, 12, history(8, 10)),
+    ).toEqual({
+      baseline: 8,
+      value: 50,
+    });
+    expect(
+      computeTrend({ ...weekly, method: 'percentChange' }, 3, history(0, 2))
+        .error,
+    ).toContain('baseline of 0');
+  });
+
+  // Test: critical alerts increased compared with the start of the week
+  test('computes the delta from the baseline', () => {
+    expect(
+      computeTrend({ ...weekly, method: 'delta' }, 3, history(1, 2)),
+    ).toEqual({ baseline: 1, value: 2 });
+    expect(
+      computeTrend({ ...weekly, method: 'delta' }, 'high', history(1, 2)).error,
+    ).toContain('numeric');
+  });
+
+  // Test: a history of the last days only has no baseline for the start of the window
+  test('reports a missing history when the baseline is too recent', () => {
+    const recent = [{ value: 1, ageDays: 2 }];
+    expect(computeTrend({ ...weekly, method: 'delta' }, 3, recent).error).toBe(
+      'No fact history within the trend window',
+    );
+    expect(
+      computeTrend({ ...weekly, method: 'percentChange' }, 3, recent).error,
+    ).toBe('No fact history within the trend window');
+    // Facts retrieved a few hours later than a week ago still count as the baseline
+    expect(
+      computeTrend({ ...weekly, method: 'delta' }, 3, [
+        { value: 1, ageDays: 6.8 },
+      ]),
+    ).toEqual({ baseline: 1, value: 2 });
+  });
+
+  // Test: the moving average is taken over the history only
+  test('computes the moving average of the history', () => {
+    expect(
+      computeTrend({ ...weekly, method: 'movingAverage' }, 10, [
+        { value: 4, ageDays: 2 },
+        { value: 6, ageDays: 1 },
+      ]),
+    ).toEqual({ baseline: 5, value: 5 });
+  });
+
+  // Test: trend settings are validated
+  test('validates the trend settings', () => {
+    expect(validateTrend({ method: 'delta', windowDays: 7 })).toBeUndefined();
+    expect(validateTrend({ method: 'delta', windowDays: 0 })).toContain(
+      'positive trend.windowDays',
+    );
+    expect(validateTrend(undefined)).toContain('trend.method');
+  });
+});
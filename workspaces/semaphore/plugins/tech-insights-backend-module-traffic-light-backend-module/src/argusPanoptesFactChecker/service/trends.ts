@@ -0,0 +1,129 @@
+/**
+ * Trend computations for dynamic threshold checks that compare a fact with its own history,
+ * e.g. "pre-production success rate dropped more than 10 points compared with 7 days ago".
+ */
+
+// Check type of trend checks, which compare the trend of a fact instead of its value
+export const TREND_CHECK_TYPE = 'trend';
+
+/**
+ * How the current value is compared with the history of the fact:
+ * - delta: current value minus the oldest value in the window
+ * - percentChange: change from the oldest value in the window, in percent
+ * - movingAverage: current value minus the average of the values in the window
+ */
+export type TrendMethod = 'delta' | 'percentChange' | 'movingAverage';
+
+export const TREND_METHODS: TrendMethod[] = [
+  'delta',
+  'percentChange',
+  'movingAverage',
+];
+
+/**
+ * Trend settings of a check of type 'trend'.
+ */
+export type DynamicThresholdTrend = {
+  method: TrendMethod;
+  windowDays: number; // How far back the history is read
+};
+
+/**
+ * A value of the fact before the current one, with its age in days relative to the current fact.
+ */
+export type TrendHistoryPoint = {
+  value: number;
+  ageDays: number;
+};
+
+// Facts are not retrieved at exactly the same time each day, so the baseline of delta and
+// percentChange may be up to one day younger than the trend window
+const BASELINE_AGE_TOLERANCE_DAYS = 1;
+
+/**
+ * Outcome of a trend computation: the baseline taken from the history and the trend value
+ * compared with the threshold, or an error when the trend cannot be computed.
+ */
+export type TrendOutcome =
+  | { baseline: number; value: number; error?: undefined }
+  | { baseline?: number; value?: undefined; error: string };
+
+/**
+ * Computes the trend of a fact. delta and percentChange need a baseline from about the start of
+ * the window, a history that only covers the last days is reported as missing.
+ *
+ * @param trend - The trend settings
+ * @param current - The latest value of the fact
+ * @param history - Values of the fact within the window before the current one, oldest first
+ */
+export function computeTrend(
+  trend: DynamicThresholdTrend,
+  current: unknown,
+  history: TrendHistoryPoint[],
+): TrendOutcome {
+  if (typeof current !== 'number') {
+    return { error: 'Trend checks need a numeric fact value' };
+  }
+  const noHistory = { error: 'No fact history within the trend window' };
+  if (history.length === 0) {
+    return noHistory;
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const baseline = history[0];
+  const hasBaseline =
+    baseline.ageDays >= trend.windowDays - BASELINE_AGE_TOLERANCE_DAYS;
+
+  switch (trend.method) {
+    case 'delta':
+      if (!hasBaseline) {
+        return noHistory;
+      }
+      return {
+        baseline: baseline.value,
+        value: round(current - baseline.value),
+      };
+    case 'percentChange':
+      if (!hasBaseline) {
+        return noHistory;
+      }
+      if (baseline.value === 0) {
+        return {
+          baseline: 0,
+          error: 'Percent change cannot be computed from a baseline of 0',
+        };
+      }
+      return {
+        baseline: baseline.value,
+        value: round(
+          ((current - baseline.value) / Math.abs(baseline.value)) * 100,
+        ),
+      };
+    case 'movingAverage': {
+      const average =
+        history.reduce((sum, point) => sum + point.value, 0) / history.length;
+      return { baseline: round(average), value: round(current - average) };
+    }
+    default:
+      return { error: `Unknown trend method '${trend.method}'` };
+  }
+}
+
+/**
+ * Checks that the trend settings of a check are usable.
+ *
+ * @returns A message describing the problem, or undefined when the settings are valid
+ */
+export function validateTrend(
+  trend: DynamicThresholdTrend | undefined,
+): string | undefined {
+  if (!trend || !TREND_METHODS.includes(trend.method)) {
+    return `Trend checks must define trend.method as one of ${TREND_METHODS.join(
+      ', ',
+    )}.`;
+  }
+  if (!(typeof trend.windowDays === 'number' && trend.windowDays > 0)) {
+    return 'Trend checks must define a positive trend.windowDays.';
+  }
+  return undefined;
+}
@@ -10,4 +10,31 @@ export const azureBugsChecks: DynamicThresholdCheck[] = [
     annotationKeyOperator: 'tech-insights.io/azure-bugs-operator',
     description: 'Maximum number of Azure DevOps bugs allowed',
   },
+  {
+    id: 'azure-critical-bugs',
+    name: 'Azure Critical Bugs',
+    type: 'number',
+    factIds: ['azure-devops-bugs-retriever', 'azure_critical_bug_count'],
+    annotationKeyThreshold: 'tech-insights.io/azure-critical-bugs-threshold',
+    annotationKeyOperator: 'tech-insights.io/azure-critical-bugs-operator',
+    description: 'Maximum number of critical Azure DevOps bugs allowed',
+  },
+  {
+    id: 'azure-high-bugs',
+    name: 'Azure High Bugs',
+    type: 'number',
+    factIds: ['azure-devops-bugs-retriever', 'azure_high_bug_count'],
+    annotationKeyThreshold: 'tech-insights.io/azure-high-bugs-threshold',
+    annotationKeyOperator: 'tech-insights.io/azure-high-bugs-operator',
+    description: 'Maximum number of high severity Azure DevOps bugs allowed',
+  },
+  {
+    id: 'azure-oldest-bug-age',
+    name: 'Azure Oldest Bug Age',
+    type: 'number',
+    factIds: ['azure-devops-bugs-retriever', 'azure_oldest_bug_age_days'],
+    annotationKeyThreshold: 'tech-insights.io/azure-oldest-bug-age-threshold',
+    annotationKeyOperator: 'tech-insights.io/azure-oldest-bug-age-operator',
+    description: 'Maximum age in days of the oldest Azure DevOps bug',
+  },
 ];
@@ -1,16 +1,224 @@
 import { FactRetriever } from '@backstage-community/plugin-tech-insights-node';
 import { Entity } from '@backstage/catalog-model';
 import { CatalogClient } from '@backstage/catalog-client';
+import {
+  getEntityAzureDevOpsHost,
+  readAzureDevOpsIntegrations,
+  resolveAzureDevOpsPat,
+} from './azureDevOpsIntegrations';
+
+// Annotation with the id of a saved WIQL query returning the bugs of the entity
+const BUGS_QUERY_ID_ANNOTATION = 'azure.com/bugs-query-id';
+
+// Annotation with an inline WIQL query returning the bugs of the entity, used instead of a saved query
+const BUGS_WIQL_ANNOTATION = 'azure.com/bugs-wiql';
+
+// The work items batch API returns at most 200 work items per request
+const WORK_ITEMS_BATCH_SIZE = 200;
+
+// Number of bugs kept in the azure_top_bugs fact
+const TOP_BUGS_COUNT = 10;
+
+const CRITICAL_SEVERITY = '1 - Critical';
+const HIGH_SEVERITY = '2 - High';
+
+const BUG_FIELDS = [
+  'System.Id',
+  'System.Title',
+  'System.State',
+  'System.CreatedDate',
+  'Microsoft.VSTS.Common.Severity',
+  'Microsoft.VSTS.Common.Priority',
+];
+
+/**
+ * A bug, as stored in the azure_top_bugs fact.
+ */
+export type AzureBugSummary = {
+  id: number;
+  title: string;
+  state: string;
+  severity: string; // e.g. 1 - Critical
+  priority: number; // 1 (highest) to 4
+  ageDays: number;
+  url: string;
+};
+
+/**
+ * Why the bugs of an entity could not be retrieved, as stored in the azure_bugs_error fact.
+ */
+export type AzureBugsError = {
+  reason: 'missing_annotations' | 'missing_credentials' | 'request_failed';
+  message: string;
+  status?: number; // HTTP status of the failed request
+};
+
+/**
+ * Runs the saved or inline WIQL query of the entity and returns the ids of the work items found.
+ *
+ * @param projectUrl - The URL of the project, e.g. https://dev.azure.com/org/project
+ * @param query - The saved query id or the inline WIQL query
+ * @param encodedPat - The base64 encoded personal access token
+ */
+async function runBugsQuery(
+  projectUrl: string,
+  query: { id?: string; wiql?: string },
+  encodedPat: string,
+): Promise<Response> {
+  const headers = {
+    Authorization: `Basic ${encodedPat}`,
+    Accept: 'application/json',
+  };
+  if (query.wiql) {
+    return fetch(`${projectUrl}/_apis/wit/wiql?api-version=7.0`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: query.wiql }),
+    });
+  }
+  return fetch(`${projectUrl}/_apis/wit/wiql/${query.id}?api-version=7.0`, {
+    method: 'GET',
+    headers,
+  });
+}
+
+/**
+ * Fetches the fields of the work items returned by the WIQL query, in batches of 200.
+ */
+async function fetchBugs(
+  projectUrl: string,
+  ids: number[],
+  encodedPat: string,
+): Promise<AzureBugSummary[]> {
+  const bugs: AzureBugSummary[] = [];
+  const now = Date.now();
+
+  for (let i = 0; i < ids.length; i += WORK_ITEMS_BATCH_SIZE) {
+    const response = await fetch(
+      `${projectUrl}/_apis/wit/workitemsbatch?api-version=7.0`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${encodedPat}`,
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ids: ids.slice(i, i + WORK_ITEMS_BATCH_SIZE),
+          fields: BUG_FIELDS,
+        }),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch work items: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    (data.value ?? []).forEach((workItem: any) => {
+      const fields = workItem.fields ?? {};
+      const createdAt = Date.parse(fields['System.CreatedDate']);
+      bugs.push({
+        id: workItem.id,
+        title: fields['System.Title'] ?? '',
+        state: fields['System.State'] ?? 'Unknown',
+        severity: fields['Microsoft.VSTS.Common.Severity'] ?? 'Unknown',
+        priority: Number(fields['Microsoft.VSTS.Common.Priority']) || 0,
+        ageDays: Number.isNaN(createdAt)
+          ? 0
+          : Math.floor((now - createdAt) / (24 * 60 * 60 * 1000)),
+        url: `${projectUrl}/_workitems/edit/${workItem.id}`,
+      });
+    });
+  }
+
+  return bugs;
+}
+
+/**
+ * Counts the bugs per value of a field, e.g. per state.
+ */
+function countBy(
+  bugs: AzureBugSummary[],
+  field: (bug: AzureBugSummary) => string,
+): Record<string, number> {
+  return bugs.reduce((counts, bug) => {
+    const key = field(bug);
+    counts[key] = (counts[key] ?? 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+}
+
+/**
+ * Derives the severity, priority and state breakdown, the oldest bug age and the bugs to look
+ * at first (most severe, then highest priority, then oldest) from the bugs of the query.
+ */
+function toBugDetailFacts(bugs: AzureBugSummary[]) {
+  const bySeverity = countBy(bugs, bug => bug.severity);
+  const topBugs = [...bugs]
+    .sort(
+      (a, b) =>
+        a.severity.localeCompare(b.severity) ||
+        (a.priority || 5) - (b.priority || 5) ||
+        b.ageDays - a.ageDays,
+    )
+    .slice(0, TOP_BUGS_COUNT);
+
+  return {
+    azure_critical_bug_count: bySeverity[CRITICAL_SEVERITY] ?? 0,
+    azure_high_bug_count: bySeverity[HIGH_SEVERITY] ?? 0,
+    azure_bugs_by_severity: bySeverity,
+    azure_bugs_by_priority: countBy(bugs, bug =>
+      String(bug.priority || 'None'),
+    ),
+    azure_bugs_by_state: countBy(bugs, bug => bug.state),
+    azure_oldest_bug_age_days: Math.max(0, ...bugs.map(bug => bug.ageDays)),
+    azure_top_bugs: topBugs,
+  };
+}
 
 export const createAzureDevOpsBugsRetriever: FactRetriever = {
   id: 'azure-devops-bugs-retriever',
-  version: '1.0',
+  version: '1.2',
   entityFilter: [{ kind: 'component' }],
   schema: {
     azure_bug_count: {
       type: 'integer',
       description: 'Number of Azure DevOps bugs from WIQL query',
     },
+    azure_critical_bug_count: {
+      type: 'integer',
+      description: 'Number of Azure DevOps bugs with severity 1 - Critical',
+    },
+    azure_high_bug_count: {
+      type: 'integer',
+      description: 'Number of Azure DevOps bugs with severity 2 - High',
+    },
+    azure_bugs_by_severity: {
+      type: 'object',
+      description: 'Number of Azure DevOps bugs per severity',
+    },
+    azure_bugs_by_priority: {
+      type: 'object',
+      description: 'Number of Azure DevOps bugs per priority',
+    },
+    azure_bugs_by_state: {
+      type: 'object',
+      description: 'Number of Azure DevOps bugs per state',
+    },
+    azure_oldest_bug_age_days: {
+      type: 'integer',
+      description: 'Age in days of the oldest Azure DevOps bug',
+    },
+    azure_top_bugs: {
+      type: 'set',
+      description:
+        'The most severe Azure DevOps bugs with their title, state, severity, priority, age and URL',
+    },
+    azure_bugs_error: {
+      type: 'object',
+      description:
+        'Why the Azure DevOps bugs could not be retrieved, null when they were',
+    },
   },
   handler: async ctx => {
     const { token } = await ctx.auth.getPluginRequestToken({
@@ -32,77 +240,106 @@ export const createAzureDevOpsBugsRetriever: FactRetriever = {
       return [];
     }
 
-    const azureConfigs =
-      ctx.config.getOptionalConfigArray('integrations.azure');
-    const azureConfig = azureConfigs?.[0];
-    const pat = azureConfig?.getOptionalString('token');
-
-    if (!pat) {
-      console.error('Azure DevOps token is not defined.');
-    }
+    const integrations = readAzureDevOpsIntegrations(ctx.config);
 
     const results = [];
 
     for (const entity of entities) {
       const annotations = entity.metadata.annotations ?? {};
 
+      const host = getEntityAzureDevOpsHost(entity);
       const organization = annotations['azure.com/organization'];
       const project = annotations['azure.com/project'];
-      const bugsQueryId = annotations['azure.com/bugs-query-id'];
+      const bugsQueryId = annotations[BUGS_QUERY_ID_ANNOTATION];
+      const bugsWiql = annotations[BUGS_WIQL_ANNOTATION];
 
-      if (!organization || !project || !bugsQueryId || !pat) {
-        results.push({
-          entity: {
-            name: entity.metadata.name,
-            namespace: entity.metadata.namespace ?? 'default',
-            kind: entity.kind,
-          },
-          facts: {
-            azure_bug_count: null,
-          },
-        });
+      const entityRef = {
+        name: entity.metadata.name,
+        namespace: entity.metadata.namespace ?? 'default',
+        kind: entity.kind,
+      };
+      const failed = (error: AzureBugsError) => ({
+        entity: entityRef,
+        facts: {
+          azure_bug_count: null,
+          azure_bugs_error: error,
+        },
+      });
+
+      if (!organization || !project || (!bugsQueryId && !bugsWiql)) {
+        results.push(
+          failed({
+            reason: 'missing_annotations',
+            message: `Set azure.com/organization, azure.com/project and either ${BUGS_QUERY_ID_ANNOTATION} or ${BUGS_WIQL_ANNOTATION}`,
+          }),
+        );
+        continue;
+      }
+
+      const pat = resolveAzureDevOpsPat(integrations, host, organization);
+      if (!pat) {
+        results.push(
+          failed({
+            reason: 'missing_credentials',
+            message: `No personal access token in integrations.azure for organization ${organization} on ${host}`,
+          }),
+        );
         continue;
       }
 
       const encodedPat = Buffer.from(`:${pat}`).toString('base64');
+      const projectUrl = `https://${host}/${organization}/${project}`;
 
       try {
-        const response = await fetch(
-          `https://dev.azure.com/${organization}/${project}/_apis/wit/wiql/${bugsQueryId}?api-version=7.0`,
-          {
-            method: 'GET',
-            headers: {
-              Authorization: `Basic ${encodedPat}`,
-              Accept: 'application/json',
-            },
-          },
+        const response = await runBugsQuery(
+          projectUrl,
+          { id: bugsQueryId, wiql: bugsWiql },
+          encodedPat,
         );
 
         if (!response.ok) {
           console.error(
             `Failed to fetch WIQL results for ${entity.metadata.name}: ${response.statusText}`,
           );
+          results.push(
+            failed({
+              reason: 'request_failed',
+              message: `WIQL query failed: ${response.status} ${response.statusText}`,
+              status: response.status,
+            }),
+          );
           continue;
         }
 
         const data = await response.json();
-        const bugs = data.workItems ?? [];
-        const bugCount = bugs.length;
+        const workItems: { id: number }[] = data.workItems ?? [];
+        const bugCount = workItems.length;
+
+        // Fetch the bugs referenced by the query for their severity, priority, state and age
+        const bugs = await fetchBugs(
+          projectUrl,
+          workItems.map(workItem => workItem.id),
+          encodedPat,
+        );
 
         results.push({
-          entity: {
-            name: entity.metadata.name,
-            namespace: entity.metadata.namespace ?? 'default',
-            kind: entity.kind,
-          },
+          entity: entityRef,
           facts: {
             azure_bug_count: bugCount,
+            ...toBugDetailFacts(bugs),
+            azure_bugs_error: null,
           },
         });
       } catch (err) {
         console.error(
           `Error retrieving bugs for ${entity.metadata.name}: ${err}`,
         );
+        results.push(
+          failed({
+            reason: 'request_failed',
+            message: `${err}`,
+          }),
+        );
       }
     }
 
@@ -0,0 +1,103 @@
+/**
+ * Resolves which Azure DevOps host serves a catalog entity and which personal access token of
+ * `integrations.azure` grants access to its organization, so that retrievers can talk to
+ * dev.azure.com and Azure DevOps Server instances side by side.
+ */
+import { Config } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+
+// Annotation naming the Azure DevOps Server host, e.g. tfs.example.com, when it is not dev.azure.com
+export const AZURE_DEVOPS_HOST_ANNOTATION = 'azure.com/host';
+
+export const DEFAULT_AZURE_DEVOPS_HOST = 'dev.azure.com';
+
+// A personal access token, optionally limited to some organizations (collections on Azure DevOps Server)
+export type AzureDevOpsCredential = {
+  organizations?: string[];
+  personalAccessToken: string;
+};
+
+// A single entry of `integrations.azure`
+export type AzureDevOpsIntegration = {
+  host: string;
+  credentials: AzureDevOpsCredential[];
+};
+
+/**
+ * Reads all `integrations.azure` entries with their personal access tokens. The deprecated
+ * `token` of an entry is treated as a credential for all of its organizations. Credentials
+ * without a personal access token, such as client secrets, are not supported and left out.
+ *
+ * @param config - The Backstage application configuration
+ */
+export function readAzureDevOpsIntegrations(
+  config: Config,
+): AzureDevOpsIntegration[] {
+  const azureConfigs = config.getOptionalConfigArray('integrations.azure');
+  return (azureConfigs ?? []).map(azureConfig => {
+    const token = azureConfig.getOptionalString('token');
+    const credentials = (
+      azureConfig.getOptionalConfigArray('credentials') ?? []
+    ).flatMap(credentialConfig => {
+      const personalAccessToken = credentialConfig.getOptionalString(
+        'personalAccessToken',
+      );
+      return personalAccessToken
+        ? [
+            {
+              organizations:
+                credentialConfig.getOptionalStringArray('organizations'),
+              personalAccessToken,
+            },
+          ]
+        : [];
+    });
+
+    return {
+      host: azureConfig.getOptionalString('host') ?? DEFAULT_AZURE_DEVOPS_HOST,
+      credentials: token
+        ? [...credentials, { personalAccessToken: token }]
+        : credentials,
+    };
+  });
+}
+
+/**
+ * Returns the Azure DevOps host of an entity from the host annotation, defaulting to dev.azure.com.
+ *
+ * @param entity - The catalog entity
+ */
+export function getEntityAzureDevOpsHost(entity: Entity): string {
+  return (
+    entity.metadata.annotations?.[AZURE_DEVOPS_HOST_ANNOTATION] ||
+    DEFAULT_AZURE_DEVOPS_HOST
+  );
+}
+
+/**
+ * Picks the personal access token for an organization on a host: a credential listing the
+ * organization wins over one without organizations. Returns undefined when no integration of the
+ * host has a matching credential.
+ *
+ * @param integrations - The configured Azure DevOps integrations
+ * @param host - The Azure DevOps host
+ * @param organization - The organization, or collection on Azure DevOps Server
+ */
+export function resolveAzureDevOpsPat(
+  integrations: AzureDevOpsIntegration[],
+  host: string,
+  organization: string,
+): string | undefined {
+  const credentials = integrations
+    .filter(integration => integration.host === host)
+    .flatMap(integration => integration.credentials);
+
+  const forOrganization = credentials.find(credential =>
+    credential.organizations?.some(
+      name => name.toLowerCase() === organization.toLowerCase(),
+    ),
+  );
+  return (
+    forOrganization ?? credentials.find(credential => !credential.organizations)
+  )?.personalAccessToken;
+}
@@ -0,0 +1,351 @@
+import { getVoidLogger } from '@backstage/backend-common';
+import { createAzureDevOpsBugsRetriever } from '../azureDevOpsFactRetriever';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// Mock global fetch for Azure DevOps API requests
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  json: async () => body,
+});
+
+// A work item as returned by the work items batch API
+const workItem = (
+  id: number,
+  severity: string,
+  priority: number,
+  state: string,
+  ageDays: number,
+) => ({
+  id,
+  fields: {
+    'System.Id': id,
+    'System.Title': `Bug ${id}`,
+    'System.State': state,
+    'System.CreatedDate': daysAgo(ageDays),
+    'Microsoft.VSTS.Common.Severity': severity,
+    'Microsoft.VSTS.Common.Priority': priority,
+  },
+});
+
+describe('Azure DevOps Bugs Fact Retriever', () => {
+  const mockConfig = new ConfigReader({
+    integrations: {
+      azure: [{ host: 'dev.azure.com', token: 'azure-pat' }],
+    },
+  });
+
+  const mockLogger = getVoidLogger();
+
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  const testEntity: Entity = {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: {
+      name: 'test-component',
+      namespace: 'default',
+      annotations: {
+        'azure.com/organization': 'test-org',
+        'azure.com/project': 'test-project',
+        'azure.com/bugs-query-id': 'query-1',
+      },
+    },
+    spec: {},
+  };
+
+  const runHandler = () =>
+    createAzureDevOpsBugsRetriever.handler({
+      config: mockConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    mockFetch.mockReset();
+  });
+
+  // Test: Stores the breakdown, oldest bug age and top bugs of the query
+  it('should store bug details fetched for the query results', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({ items: [testEntity] });
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({ workItems: [{ id: 1 }, { id: 2 }, { id: 3 }] }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          value: [
+            workItem(1, '3 - Medium', 2, 'Active', 5),
+            workItem(2, '1 - Critical', 1, 'New', 40),
+            workItem(3, '3 - Medium', 2, 'Active', 90),
+          ],
+        }),
+      );
+
+    const result = await runHandler();
+
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      'https://dev.azure.com/test-org/test-project/_apis/wit/workitemsbatch?api-version=7.0',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).ids).toEqual([1, 2, 3]);
+
+    const facts = result[0].facts as any;
+    expect(facts).toEqual(
+      expect.objectContaining({
+        azure_bug_count: 3,
+        azure_critical_bug_count: 1,
+        azure_high_bug_count: 0,
+        azure_bugs_by_severity: { '1 - Critical': 1, '3 - Medium': 2 },
+        azure_bugs_by_priority: { '1': 1, '2': 2 },
+        azure_bugs_by_state: { Active: 2, New: 1 },
+        azure_oldest_bug_age_days: 90,
+      }),
+    );
+
+    // Most severe first, then the oldest of equal severity and priority
+    expect(facts.azure_top_bugs.map((bug: any) => bug.id)).toEqual([2, 3, 1]);
+    expect(facts.azure_top_bugs[0]).toEqual({
+      id: 2,
+      title: 'Bug 2',
+      state: 'New',
+      severity: '1 - Critical',
+      priority: 1,
+      ageDays: 40,
+      url: 'https://dev.azure.com/test-org/test-project/_workitems/edit/2',
+    });
+  });
+
+  // Test: Fetches the work items in batches of 200
+  it('should fetch large query results in batches', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({ items: [testEntity] });
+    const ids = Array.from({ length: 250 }, (_, index) => index + 1);
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({ workItems: ids.map(id => ({ id })) }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          value: ids
+            .slice(0, 200)
+            .map(id => workItem(id, '2 - High', 2, 'Active', 1)),
+        }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          value: ids
+            .slice(200)
+            .map(id => workItem(id, '4 - Low', 3, 'Active', 1)),
+        }),
+      );
+
+    const result = await runHandler();
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(mockFetch.mock.calls[2][1].body).ids).toHaveLength(50);
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        azure_bug_count: 250,
+        azure_high_bug_count: 200,
+        azure_top_bugs: expect.any(Array),
+      }),
+    );
+    expect((result[0].facts as any).azure_top_bugs).toHaveLength(10);
+  });
+
+  // Test: Runs an inline WIQL query on Azure DevOps Server with the organization's token
+  it('should run inline WIQL queries against the host of the entity', async () => {
+    const config = new ConfigReader({
+      integrations: {
+        azure: [
+          { host: 'dev.azure.com', token: 'azure-pat' },
+          {
+            host: 'tfs.example.com',
+            credentials: [
+              {
+                organizations: ['DefaultCollection'],
+                personalAccessToken: 'server-pat',
+              },
+            ],
+          },
+        ],
+      },
+    });
+    const wiql =
+      "SELECT [System.Id] FROM WorkItems WHERE [System.WorkItemType] = 'Bug'";
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        {
+          ...testEntity,
+          metadata: {
+            name: 'server-component',
+            annotations: {
+              'azure.com/host': 'tfs.example.com',
+              'azure.com/organization': 'DefaultCollection',
+              'azure.com/project': 'test-project',
+              'azure.com/bugs-wiql': wiql,
+            },
+          },
+        },
+      ],
+    });
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ workItems: [{ id: 5 }] }))
+      .mockResolvedValueOnce(
+        jsonResponse({ value: [workItem(5, '2 - High', 1, 'Active', 3)] }),
+      );
+
+    const result = await createAzureDevOpsBugsRetriever.handler({
+      config,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'https://tfs.example.com/DefaultCollection/test-project/_apis/wit/wiql?api-version=7.0',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ query: wiql }),
+      }),
+    );
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe(
+      `Basic ${Buffer.from(':server-pat').toString('base64')}`,
+    );
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        azure_bug_count: 1,
+        azure_high_bug_count: 1,
+        azure_bugs_error: null,
+      }),
+    );
+    expect((result[0].facts as any).azure_top_bugs[0].url).toBe(
+      'https://tfs.example.com/DefaultCollection/test-project/_workitems/edit/5',
+    );
+  });
+
+  // Test: Stores why the bugs could not be retrieved
+  it('should store an error fact when annotations, credentials or the query fail', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        { ...testEntity, metadata: { name: 'no-annotations' } },
+        {
+          ...testEntity,
+          metadata: {
+            name: 'unknown-host',
+            annotations: {
+              ...testEntity.metadata.annotations,
+              'azure.com/host': 'unknown.example.com',
+            },
+          },
+        },
+        testEntity,
+      ],
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+    });
+
+    const result = await runHandler();
+
+    expect(result.map(r => r.facts)).toEqual([
+      {
+        azure_bug_count: null,
+        azure_bugs_error: expect.objectContaining({
+          reason: 'missing_annotations',
+        }),
+      },
+      {
+        azure_bug_count: null,
+        azure_bugs_error: expect.objectContaining({
+          reason: 'missing_credentials',
+        }),
+      },
+      {
+        azure_bug_count: null,
+        azure_bugs_error: {
+          reason: 'request_failed',
+          message: 'WIQL query failed: 404 Not Found',
+          status: 404,
+        },
+      },
+    ]);
+  });
+
+  // Test: Skips the batch request when the query returns no bugs
+  it('should store empty details when the query returns no bugs', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({ items: [testEntity] });
+    mockFetch.mockResolvedValueOnce(jsonResponse({ workItems: [] }));
+
+    const result = await runHandler();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        azure_bug_count: 0,
+        azure_critical_bug_count: 0,
+        azure_bugs_by_severity: {},
+        azure_oldest_bug_age_days: 0,
+        azure_top_bugs: [],
+      }),
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import {
+  getEntityAzureDevOpsHost,
+  readAzureDevOpsIntegrations,
+  resolveAzureDevOpsPat,
+} from '../azureDevOpsIntegrations';
+
+const config = new ConfigReader({
+  integrations: {
+    azure: [
+      {
+        host: 'dev.azure.com',
+        credentials: [
+          { organizations: ['Payments'], personalAccessToken: 'payments-pat' },
+          { personalAccessToken: 'shared-pat' },
+          { clientId: 'client', clientSecret: 'secret', tenantId: 'tenant' },
+        ],
+      },
+      { host: 'tfs.example.com', token: 'server-pat' },
+    ],
+  },
+});
+
+const createEntity = (annotations: Record<string, string>): Entity => ({
+  apiVersion: 'backstage.io/v1alpha1',
+  kind: 'Component',
+  metadata: { name: 'test-service', annotations },
+});
+
+describe('Azure DevOps integrations', () => {
+  // Test: Reads personal access tokens and the deprecated token, skipping other credentials
+  it('should read the personal access tokens of each integration', () => {
+    expect(readAzureDevOpsIntegrations(config)).toEqual([
+      {
+        host: 'dev.azure.com',
+        credentials: [
+          { organizations: ['Payments'], personalAccessToken: 'payments-pat' },
+          { organizations: undefined, personalAccessToken: 'shared-pat' },
+        ],
+      },
+      {
+        host: 'tfs.example.com',
+        credentials: [{ personalAccessToken: 'server-pat' }],
+      },
+    ]);
+  });
+
+  // Test: Uses the host annotation and defaults to dev.azure.com
+  it('should determine the host of an entity', () => {
+    expect(
+      getEntityAzureDevOpsHost(
+        createEntity({ 'azure.com/host': 'tfs.example.com' }),
+      ),
+    ).toBe('tfs.example.com');
+    expect(getEntityAzureDevOpsHost(createEntity({}))).toBe('dev.azure.com');
+  });
+
+  // Test: Prefers the credential of the organization over the shared one
+  it('should match the credential of the organization', () => {
+    const integrations = readAzureDevOpsIntegrations(config);
+
+    expect(
+      resolveAzureDevOpsPat(integrations, 'dev.azure.com', 'payments'),
+    ).toBe('payments-pat');
+    expect(resolveAzureDevOpsPat(integrations, 'dev.azure.com', 'other')).toBe(
+      'shared-pat',
+    );
+    expect(
+      resolveAzureDevOpsPat(
+        integrations,
+        'tfs.example.com',
+        'DefaultCollection',
+      ),
+    ).toBe('server-pat');
+    expect(
+      resolveAzureDevOpsPat(integrations, 'unknown.example.com', 'payments'),
+    ).toBeUndefined();
+  });
+});
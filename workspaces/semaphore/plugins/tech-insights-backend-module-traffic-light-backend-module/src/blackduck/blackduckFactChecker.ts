@@ -37,4 +37,105 @@ export const BlackDuckChecks: DynamicThresholdCheck[] = [
       'tech-insights.io/blackduck-medium-security-risk-operator',
     description: 'Maximum allowed medium security risk from BlackDuck',
   },
+  {
+    // BlackDuck high license risk check
+    id: 'blackduck-high-license-risk',
+    name: 'BlackDuck High License Risk',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'license_risks_high'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-high-license-risk-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-high-license-risk-operator',
+    description: 'Maximum allowed high license risk from BlackDuck',
+  },
+  {
+    // BlackDuck medium license risk check
+    id: 'blackduck-medium-license-risk',
+    name: 'BlackDuck Medium License Risk',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'license_risks_medium'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-medium-license-risk-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-medium-license-risk-operator',
+    description: 'Maximum allowed medium license risk from BlackDuck',
+  },
+  {
+    // BlackDuck high operational risk check
+    id: 'blackduck-high-operational-risk',
+    name: 'BlackDuck High Operational Risk',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'operational_risks_high'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-high-operational-risk-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-high-operational-risk-operator',
+    description: 'Maximum allowed high operational risk from BlackDuck',
+  },
+  {
+    // BlackDuck policy violations check
+    id: 'blackduck-policy-violations',
+    name: 'BlackDuck Policy Violations',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'policy_violations'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-policy-violations-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-policy-violations-operator',
+    description:
+      'Maximum allowed number of components in violation of a BlackDuck policy',
+  },
+  {
+    // BlackDuck oldest critical alert age check
+    id: 'blackduck-oldest-critical-alert-age',
+    name: 'BlackDuck Oldest Critical Alert Age',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'oldestCriticalAlertAgeDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-oldest-critical-alert-age-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-oldest-critical-alert-age-operator',
+    description:
+      'Maximum allowed age in days of the oldest open critical BlackDuck alert',
+  },
+  {
+    // BlackDuck oldest high alert age check
+    id: 'blackduck-oldest-high-alert-age',
+    name: 'BlackDuck Oldest High Alert Age',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'oldestHighAlertAgeDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-oldest-high-alert-age-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-oldest-high-alert-age-operator',
+    description:
+      'Maximum allowed age in days of the oldest open high BlackDuck alert',
+  },
+  {
+    // BlackDuck alerts past SLA check
+    id: 'blackduck-alerts-past-sla',
+    name: 'BlackDuck Alerts Past SLA',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'alertsPastSla'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-alerts-past-sla-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-alerts-past-sla-operator',
+    description:
+      'Maximum allowed number of open BlackDuck alerts past their SLA',
+  },
+  {
+    // BlackDuck mean time to remediate check
+    id: 'blackduck-mean-time-to-remediate',
+    name: 'BlackDuck Mean Time To Remediate',
+    type: 'number',
+    factIds: ['blackduck-fact-retriever', 'meanTimeToRemediateDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/blackduck-mean-time-to-remediate-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/blackduck-mean-time-to-remediate-operator',
+    description:
+      'Maximum allowed mean time in days to remediate BlackDuck alerts',
+  },
 ];
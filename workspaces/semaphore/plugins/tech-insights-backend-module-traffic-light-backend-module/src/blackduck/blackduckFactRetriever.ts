@@ -1,6 +1,19 @@
 import { Config } from '@backstage/config';
 import { FactRetriever } from '@backstage-community/plugin-tech-insights-node';
 import { CatalogClient } from '@backstage/catalog-client';
+import {
+  SecurityAlertAgeFacts,
+  SecurityAlertTimestamps,
+  computeSecurityAlertAgeFacts,
+  createSecurityAlertAgeSchema,
+  readSecuritySlaOptions,
+} from '../security/securityAlertAging';
+import {
+  BLACKDUCK_INSTANCE_ANNOTATION,
+  readBlackDuckInstances,
+  resolveBlackDuckInstance,
+} from './blackduckInstances';
+import { BlackDuckSession } from './blackduckSession';
 
 type META = {
   allow: [];
@@ -52,17 +65,274 @@ type BD_REST_API_RESPONSE = {
   _meta: META;
 };
 
+// Remediation statuses of vulnerabilities that no longer need to be fixed
+const RESOLVED_REMEDIATION_STATUSES = [
+  'REMEDIATION_COMPLETE',
+  'PATCHED',
+  'MITIGATED',
+  'IGNORED',
+  'DUPLICATE',
+];
+
+/**
+ * A vulnerable BOM component, as stored in the vulnerable_components fact.
+ */
+export type BlackDuckVulnerableComponent = {
+  componentName: string;
+  componentVersion: string;
+  vulnerabilities: string[]; // CVE or BDSA ids of the open vulnerabilities
+  severity: string; // Highest severity of the open vulnerabilities
+  remediationTargetVersion: string | null; // Version that fixes the vulnerabilities, if known
+};
+
+// Severities of vulnerabilities, from the most to the least severe
+const SEVERITY_ORDER = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+// Maximum number of vulnerable component versions whose remediation target is looked up
+const MAX_REMEDIATION_LOOKUPS = 50;
+
+/**
+ * Groups the open vulnerabilities of the vulnerable BOM components by component version and
+ * looks up the version that fixes them. The inventory is keyed by `<component>@<version>`.
+ */
+async function toVulnerableComponents(
+  items: any[],
+  session: BlackDuckSession,
+): Promise<Record<string, BlackDuckVulnerableComponent>> {
+  const components: Record<string, BlackDuckVulnerableComponent> = {};
+  const componentVersionHrefs: Record<string, string> = {};
+
+  items.forEach(item => {
+    const vulnerability = item?.vulnerabilityWithRemediation;
+    if (
+      !vulnerability ||
+      !item.componentName ||
+      RESOLVED_REMEDIATION_STATUSES.includes(vulnerability.remediationStatus)
+    ) {
+      return;
+    }
+
+    const key = `${item.componentName}@${item.componentVersionName}`;
+    const component = (components[key] ??= {
+      componentName: item.componentName,
+      componentVersion: item.componentVersionName,
+      vulnerabilities: [],
+      severity: vulnerability.severity,
+      remediationTargetVersion: null,
+    });
+    if (!component.vulnerabilities.includes(vulnerability.vulnerabilityName)) {
+      component.vulnerabilities.push(vulnerability.vulnerabilityName);
+    }
+    if (
+      SEVERITY_ORDER.indexOf(vulnerability.severity) <
+      SEVERITY_ORDER.indexOf(component.severity)
+    ) {
+      component.severity = vulnerability.severity;
+    }
+    if (item.componentVersion) {
+      componentVersionHrefs[key] = item.componentVersion;
+    }
+  });
+
+  // Look up the remediation target of each component version
+  await Promise.all(
+    Object.entries(componentVersionHrefs)
+      .slice(0, MAX_REMEDIATION_LOOKUPS)
+      .map(async ([key, href]) => {
+        try {
+          const remediatingRes = await session.fetch(`${href}/remediating`, {
+            method: 'GET',
+            headers: {
+              Accept:
+                'application/vnd.blackducksoftware.component-detail-4+json',
+            },
+          });
+          if (!remediatingRes.ok) {
+            return;
+          }
+          const remediating = await remediatingRes.json();
+          // Prefer the closest version that fixes the vulnerabilities
+          components[key].remediationTargetVersion =
+            remediating?.fixesPreviousVulnerabilities?.name ??
+            remediating?.noVulnerabilities?.name ??
+            remediating?.latestAfterCurrent?.name ??
+            null;
+        } catch (error) {
+          // The remediation target is left empty when it cannot be retrieved
+        }
+      }),
+  );
+
+  return components;
+}
+
+/**
+ * Splits the vulnerable BOM components of a project version into open and resolved
+ * vulnerabilities. The remediation record is created when Black Duck first reports the
+ * vulnerability and updated when its status changes, which gives the alert age and fix date.
+ */
+function toSecurityAlertTimestamps(items: any[]): {
+  open: SecurityAlertTimestamps[];
+  resolved: SecurityAlertTimestamps[];
+} {
+  const open: SecurityAlertTimestamps[] = [];
+  const resolved: SecurityAlertTimestamps[] = [];
+  items.forEach(item => {
+    const vulnerability = item?.vulnerabilityWithRemediation;
+    if (!vulnerability) {
+      return;
+    }
+    const createdAt =
+      vulnerability.remediationCreatedAt ||
+      vulnerability.vulnerabilityPublishedDate;
+    if (
+      RESOLVED_REMEDIATION_STATUSES.includes(vulnerability.remediationStatus)
+    ) {
+      resolved.push({
+        severity: vulnerability.severity,
+        createdAt,
+        resolvedAt: vulnerability.remediationUpdatedAt,
+      });
+    } else {
+      open.push({ severity: vulnerability.severity, createdAt });
+    }
+  });
+  return { open, resolved };
+}
+
+// Number of vulnerable BOM components requested per page
+const VULNERABLE_COMPONENTS_PAGE_SIZE = 100;
+
+/**
+ * Reads all vulnerable BOM components of a project version, following the totalCount of the
+ * response with offset paging.
+ *
+ * @returns The vulnerable BOM components, undefined when a page cannot be retrieved
+ */
+async function fetchVulnerableBomComponents(
+  versionHref: string,
+  session: BlackDuckSession,
+): Promise<any[] | undefined> {
+  const items: any[] = [];
+  let totalCount = 0;
+  do {
+    const response = await session.fetch(
+      `${versionHref}/vulnerable-bom-components?limit=${VULNERABLE_COMPONENTS_PAGE_SIZE}&offset=${items.length}`,
+      {
+        method: 'GET',
+        headers: {
+          Accept: 'application/vnd.blackducksoftware.bill-of-materials-6+json',
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+    if (!response.ok) {
+      return undefined;
+    }
+    const page = await response.json();
+    const pageItems = page?.items || [];
+    if (pageItems.length === 0) {
+      break;
+    }
+    items.push(...pageItems);
+    totalCount = Number(page?.totalCount ?? 0);
+  } while (items.length < totalCount);
+
+  return items;
+}
+
+// Maximum number of components in violation whose policy rules are looked up
+const MAX_POLICY_VIOLATION_COMPONENTS = 50;
+
+/**
+ * Reads the number of BOM components in violation of a policy from the policy status of a
+ * project version, and looks up the names of the violated policy rules of those components.
+ */
+async function fetchPolicyViolations(
+  versionHref: string,
+  session: BlackDuckSession,
+): Promise<{ count: number; rules: string[] } | undefined> {
+  const headers = {
+    'Content-Type': 'application/json',
+  };
+
+  const policyStatusRes = await session.fetch(`${versionHref}/policy-status`, {
+    method: 'GET',
+    headers,
+  });
+  if (!policyStatusRes.ok) {
+    return undefined;
+  }
+  const policyStatus = await policyStatusRes.json();
+  const count =
+    (policyStatus?.componentVersionStatusCounts || []).find(
+      (status: any) => status.name === 'IN_VIOLATION',
+    )?.value || 0;
+
+  if (count === 0) {
+    return { count, rules: [] };
+  }
+
+  // Look up the policy rules violated by each component in violation
+  const componentsRes = await session.fetch(
+    `${versionHref}/components?limit=${MAX_POLICY_VIOLATION_COMPONENTS}&filter=${encodeURIComponent(
+      'bomPolicy:in_violation',
+    )}`,
+    {
+      method: 'GET',
+      headers: {
+        ...headers,
+        Accept: 'application/vnd.blackducksoftware.bill-of-materials-6+json',
+      },
+    },
+  );
+  if (!componentsRes.ok) {
+    return { count, rules: [] };
+  }
+  const components = await componentsRes.json();
+
+  const rules = new Set<string>();
+  await Promise.all(
+    (components?.items || []).map(async (component: any) => {
+      const policyRulesHref = component?._meta?.links?.find(
+        (link: any) => link.rel === 'policy-rules',
+      )?.href;
+      if (!policyRulesHref) {
+        return;
+      }
+      const policyRulesRes = await session.fetch(policyRulesHref, {
+        method: 'GET',
+        headers,
+      });
+      if (!policyRulesRes.ok) {
+        return;
+      }
+      const policyRules = await policyRulesRes.json();
+      (policyRules?.items || [])
+        .filter((rule: any) => rule.policyApprovalStatus !== 'NOT_IN_VIOLATION')
+        .forEach((rule: any) => rules.add(rule.name));
+    }),
+  );
+
+  return { count, rules: [...rules].sort() };
+}
+
 /**
- * Creates a fact retriever for Black Duck security risk metrics.
+ * Creates a fact retriever for Black Duck security, license, operational and policy risk metrics.
  *
  * @param config - The Backstage application configuration
  * @returns A FactRetriever for Black Duck
  */
 export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
+  const slaOptions = readSecuritySlaOptions(config);
+
+  // Sessions per Black Duck server, kept between runs to reuse their bearer tokens
+  const sessions = new Map<string, BlackDuckSession>();
+
   return {
     // define the fact retriever schema
     id: 'blackduck-fact-retriever',
-    version: '1.0',
+    version: '1.3',
     entityFilter: [{ kind: 'component' }],
     schema: {
       security_risks_critical: {
@@ -77,14 +347,50 @@ export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
         type: 'integer',
         description: 'Number of medium severity security risks',
       },
+      license_risks_high: {
+        type: 'integer',
+        description: 'Number of components with a high license risk',
+      },
+      license_risks_medium: {
+        type: 'integer',
+        description: 'Number of components with a medium license risk',
+      },
+      license_risks_low: {
+        type: 'integer',
+        description: 'Number of components with a low license risk',
+      },
+      operational_risks_high: {
+        type: 'integer',
+        description: 'Number of components with a high operational risk',
+      },
+      operational_risks_medium: {
+        type: 'integer',
+        description: 'Number of components with a medium operational risk',
+      },
+      operational_risks_low: {
+        type: 'integer',
+        description: 'Number of components with a low operational risk',
+      },
+      policy_violations: {
+        type: 'integer',
+        description: 'Number of components in violation of a Black Duck policy',
+      },
+      policy_violation_rules: {
+        type: 'set',
+        description: 'Names of the Black Duck policy rules that are violated',
+      },
+      vulnerable_components: {
+        type: 'object',
+        description:
+          'Components with open vulnerabilities, keyed by component@version, with their CVE ids, highest severity and remediation target version',
+      },
+      ...createSecurityAlertAgeSchema('Black Duck'),
     },
     handler: async ctx => {
-      const { discovery, auth, entityFilter } = ctx;
+      const { discovery, auth, entityFilter, logger } = ctx;
 
-      // Get the Black Duck configuration
-      const blackduckConfig = config.getConfig('blackduck');
-      const apiToken = blackduckConfig.getString('token');
-      const host = blackduckConfig.getString('host'); // e.g., 'https://your-blackduck-instance.com'
+      // Get the Black Duck servers
+      const instances = readBlackDuckInstances(config);
 
       // Get authentication token for catalog access
       const { token: catalogToken } = await auth.getPluginRequestToken({
@@ -120,16 +426,28 @@ export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
           const projectVersion =
             entity.metadata.annotations?.['blackduck.io/project-version'];
 
+          // Select the Black Duck server that hosts the project
+          const instance = resolveBlackDuckInstance(instances, entity);
+          if (!instance) {
+            logger.warn(
+              `Unknown Black Duck instance '${entity.metadata.annotations?.[BLACKDUCK_INSTANCE_ANNOTATION]}' for ${entity.metadata.name}, skipping`,
+            );
+            return null;
+          }
+          if (!sessions.has(instance.name)) {
+            sessions.set(instance.name, new BlackDuckSession(instance));
+          }
+          const session = sessions.get(instance.name) as BlackDuckSession;
+
           try {
             // Retrieve the project from Black Duck
-            const projectRes = await fetch(
-              `${host}/projects?limit=999&q=${encodeURIComponent(
+            const projectRes = await session.fetch(
+              `${instance.host}/projects?limit=999&q=${encodeURIComponent(
                 `name:${projectName}`,
               )}`,
               {
                 method: 'GET',
                 headers: {
-                  Authorization: `Bearer ${apiToken}`,
                   Accept:
                     'application/vnd.blackducksoftware.project-detail-4+json',
                   'Content-Type': 'application/json',
@@ -163,7 +481,7 @@ export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
             }
 
             // Retrieve the project version from Black Duck
-            const versionRes = await fetch(
+            const versionRes = await session.fetch(
               `${
                 projectDetail._meta.href
               }/versions?limit=999&q=${encodeURIComponent(
@@ -172,7 +490,6 @@ export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
               {
                 method: 'GET',
                 headers: {
-                  Authorization: `Bearer ${apiToken}`,
                   Accept:
                     'application/vnd.blackducksoftware.project-detail-5+json',
                   'Content-Type': 'application/json',
@@ -203,10 +520,9 @@ export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
 
             // Fetch the risk profile for the project version
             const risk_profile_url = `${versionDetail._meta.href}/risk-profile`;
-            const riskProfileRes: any = await fetch(risk_profile_url, {
+            const riskProfileRes: any = await session.fetch(risk_profile_url, {
               method: 'GET',
               headers: {
-                Authorization: `Bearer ${apiToken}`,
                 // Accept: 'application/vnd.blackducksoftware.component-detail-5+json',
                 'Content-Type': 'application/json',
               },
@@ -220,13 +536,75 @@ export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
             // Parse the risk profile response
             const riskProfile = await riskProfileRes.json();
 
-            // Extract security risk facts from the risk profile
+            // Fetch the vulnerabilities of the project version to derive their age and fix time,
+            // and the inventory of the components to upgrade
+            let ageFacts: SecurityAlertAgeFacts | undefined;
+            let inventoryFacts:
+              | {
+                  vulnerable_components: Record<
+                    string,
+                    BlackDuckVulnerableComponent
+                  >;
+                }
+              | undefined;
+            try {
+              const vulnerabilities = await fetchVulnerableBomComponents(
+                versionDetail._meta.href,
+                session,
+              );
+              if (vulnerabilities) {
+                const { open, resolved } =
+                  toSecurityAlertTimestamps(vulnerabilities);
+                ageFacts = computeSecurityAlertAgeFacts(
+                  open,
+                  resolved,
+                  slaOptions,
+                );
+                inventoryFacts = {
+                  vulnerable_components: await toVulnerableComponents(
+                    vulnerabilities,
+                    session,
+                  ),
+                };
+              }
+            } catch (error) {
+              // Age and inventory facts are left out when the vulnerabilities cannot be retrieved
+            }
+
+            // Fetch the policy violations of the project version
+            let policyFacts:
+              | { policy_violations: number; policy_violation_rules: string[] }
+              | undefined;
+            try {
+              const policyViolations = await fetchPolicyViolations(
+                versionDetail._meta.href,
+                session,
+              );
+              if (policyViolations) {
+                policyFacts = {
+                  policy_violations: policyViolations.count,
+                  policy_violation_rules: policyViolations.rules,
+                };
+              }
+            } catch (error) {
+              // Policy facts are left out when the policy status cannot be retrieved
+            }
+
+            // Extract security, license and operational risk facts from the risk profile
+            const categories = riskProfile?.categories || {};
             const facts = {
-              security_risks_critical:
-                riskProfile?.categories.SECURITY.CRITICAL || 0,
-              security_risks_high: riskProfile?.categories.SECURITY.HIGH || 0,
-              security_risks_medium:
-                riskProfile?.categories.SECURITY.MEDIUM || 0,
+              security_risks_critical: categories.SECURITY?.CRITICAL || 0,
+              security_risks_high: categories.SECURITY?.HIGH || 0,
+              security_risks_medium: categories.SECURITY?.MEDIUM || 0,
+              license_risks_high: categories.LICENSE?.HIGH || 0,
+              license_risks_medium: categories.LICENSE?.MEDIUM || 0,
+              license_risks_low: categories.LICENSE?.LOW || 0,
+              operational_risks_high: categories.OPERATIONAL?.HIGH || 0,
+              operational_risks_medium: categories.OPERATIONAL?.MEDIUM || 0,
+              operational_risks_low: categories.OPERATIONAL?.LOW || 0,
+              ...policyFacts,
+              ...ageFacts,
+              ...inventoryFacts,
             };
 
             // Return the facts associated with this entity
@@ -250,7 +628,16 @@ export const createBlackDuckFactRetriever = (config: Config): FactRetriever => {
           security_risks_critical: number;
           security_risks_high: number;
           security_risks_medium: number;
-        };
+          license_risks_high: number;
+          license_risks_medium: number;
+          license_risks_low: number;
+          operational_risks_high: number;
+          operational_risks_medium: number;
+          operational_risks_low: number;
+          policy_violations?: number;
+          policy_violation_rules?: string[];
+          vulnerable_components?: Record<string, BlackDuckVulnerableComponent>;
+        } & Partial<SecurityAlertAgeFacts>;
       }>;
     },
   };
@@ -0,0 +1,66 @@
+/**
+ * Resolves which Black Duck server hosts the project of a catalog entity, so that business units
+ * running separate Black Duck servers can be queried by the same retriever.
+ */
+import { Config } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+
+// Annotation naming the `blackduck.instances` entry that hosts the entity's project
+export const BLACKDUCK_INSTANCE_ANNOTATION = 'blackduck.io/instance';
+
+export const DEFAULT_BLACKDUCK_INSTANCE_NAME = 'default';
+
+// A Black Duck server
+export type BlackDuckInstance = {
+  name: string;
+  host: string; // Base URL of the REST API, e.g. https://blackduck.example.com/api
+  token: string; // API token, exchanged for a short-lived bearer token
+};
+
+/**
+ * Reads the Black Duck instances: the default instance from `blackduck.host` and `blackduck.token`,
+ * when configured, followed by the named entries of `blackduck.instances`.
+ *
+ * @param config - The Backstage application configuration
+ */
+export function readBlackDuckInstances(config: Config): BlackDuckInstance[] {
+  const blackduckConfig = config.getConfig('blackduck');
+
+  const host = blackduckConfig.getOptionalString('host');
+  const defaultInstances: BlackDuckInstance[] = host
+    ? [
+        {
+          name: DEFAULT_BLACKDUCK_INSTANCE_NAME,
+          host: host.replace(/\/+$/, ''),
+          token: blackduckConfig.getString('token'),
+        },
+      ]
+    : [];
+
+  const namedInstances = (
+    blackduckConfig.getOptionalConfigArray('instances') ?? []
+  ).map(instanceConfig => ({
+    name: instanceConfig.getString('name'),
+    host: instanceConfig.getString('host').replace(/\/+$/, ''),
+    token: instanceConfig.getString('token'),
+  }));
+
+  return [...defaultInstances, ...namedInstances];
+}
+
+/**
+ * Picks the instance named by the entity's instance annotation, or the default instance when the
+ * entity has no annotation. Returns undefined when the annotation names an unknown instance.
+ *
+ * @param instances - The configured Black Duck instances
+ * @param entity - The catalog entity
+ */
+export function resolveBlackDuckInstance(
+  instances: BlackDuckInstance[],
+  entity: Entity,
+): BlackDuckInstance | undefined {
+  const name =
+    entity.metadata.annotations?.[BLACKDUCK_INSTANCE_ANNOTATION] ||
+    DEFAULT_BLACKDUCK_INSTANCE_NAME;
+  return instances.find(instance => instance.name === name);
+}
@@ -0,0 +1,100 @@
+import { BlackDuckInstance } from './blackduckInstances';
+
+// Bearer tokens are renewed this long before they expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Lifetime assumed when Black Duck does not report one
+const DEFAULT_EXPIRY_MS = 60 * 60 * 1000;
+
+type BearerToken = {
+  token: string;
+  expiresAt: number;
+};
+
+/**
+ * An authenticated session with a Black Duck server. The API token of the instance is exchanged
+ * at `/tokens/authenticate` for a short-lived bearer token, which is cached until shortly before
+ * it expires and renewed once when a request is rejected with 401.
+ */
+export class BlackDuckSession {
+  private bearerToken?: BearerToken;
+  private authentication?: Promise<BearerToken>;
+
+  constructor(private readonly instance: BlackDuckInstance) {}
+
+  /**
+   * Sends a request to the Black Duck server with the bearer token of the session.
+   *
+   * @param url - The URL of the request
+   * @param init - The request options, without authorization
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const bearerToken = await this.getBearerToken();
+    const response = await this.send(url, init, bearerToken);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    // The bearer token was revoked or expired early, so authenticate again and retry once
+    this.invalidate(bearerToken);
+    return this.send(url, init, await this.getBearerToken());
+  }
+
+  private send(url: string, init: RequestInit, bearerToken: BearerToken) {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${bearerToken.token}`);
+    return fetch(url, { method: 'GET', ...init, headers });
+  }
+
+  private async getBearerToken(): Promise<BearerToken> {
+    if (
+      this.bearerToken &&
+      this.bearerToken.expiresAt - EXPIRY_MARGIN_MS > Date.now()
+    ) {
+      return this.bearerToken;
+    }
+
+    // Share one token exchange between concurrent requests
+    if (!this.authentication) {
+      this.authentication = this.authenticate()
+        .then(bearerToken => {
+          this.bearerToken = bearerToken;
+          return bearerToken;
+        })
+        .finally(() => {
+          this.authentication = undefined;
+        });
+    }
+    return this.authentication;
+  }
+
+  /**
+   * Drops the cached bearer token, unless another request already replaced it.
+   */
+  private invalidate(bearerToken: BearerToken) {
+    if (this.bearerToken === bearerToken) {
+      this.bearerToken = undefined;
+    }
+  }
+
+  private async authenticate(): Promise<BearerToken> {
+    const response = await fetch(`${this.instance.host}/tokens/authenticate`, {
+      method: 'POST',
+      headers: {
+        Authorization: `token ${this.instance.token}`,
+        Accept: 'application/vnd.blackducksoftware.user-4+json',
+      },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Black Duck authentication at ${this.instance.name} failed with status ${response.status}`,
+      );
+    }
+
+    const { bearerToken, expiresInMilliseconds } = await response.json();
+    return {
+      token: bearerToken,
+      expiresAt: Date.now() + (expiresInMilliseconds ?? DEFAULT_EXPIRY_MS),
+    };
+  }
+}
@@ -18,6 +18,30 @@ jest.mock('@backstage/catalog-client', () => {
 const mockFetch = jest.fn();
 global.fetch = mockFetch as any;
 
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+// Mock the exchange of the API token for a bearer token
+const mockAuthenticate = () =>
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      bearerToken: 'bearer-token',
+      expiresInMilliseconds: 7200000,
+    }),
+  });
+
+// License and operational risk facts of a risk profile without those categories
+const NO_LICENSE_OR_OPERATIONAL_RISKS = {
+  license_risks_high: 0,
+  license_risks_medium: 0,
+  license_risks_low: 0,
+  operational_risks_high: 0,
+  operational_risks_medium: 0,
+  operational_risks_low: 0,
+};
+
 describe('BlackDuck Fact Retriever', () => {
   // Setup reusable test variables
   const mockConfig = new ConfigReader({
@@ -105,9 +129,9 @@ describe('BlackDuck Fact Retriever', () => {
     expect(factRetriever).toEqual(
       expect.objectContaining({
         id: 'blackduck-fact-retriever',
-        version: '1.0',
+        version: '1.3',
         entityFilter: [{ kind: 'component' }],
-        schema: {
+        schema: expect.objectContaining({
           security_risks_critical: {
             type: 'integer',
             description:
@@ -121,7 +145,17 @@ describe('BlackDuck Fact Retriever', () => {
             type: 'integer',
             description: 'Number of medium severity security risks',
           },
-        },
+          license_risks_high: expect.objectContaining({ type: 'integer' }),
+          operational_risks_high: expect.objectContaining({ type: 'integer' }),
+          policy_violations: expect.objectContaining({ type: 'integer' }),
+          policy_violation_rules: expect.objectContaining({ type: 'set' }),
+          vulnerable_components: expect.objectContaining({ type: 'object' }),
+          oldestCriticalAlertAgeDays: expect.objectContaining({
+            type: 'float',
+          }),
+          alertsPastSla: expect.objectContaining({ type: 'integer' }),
+          meanTimeToRemediateDays: expect.objectContaining({ type: 'float' }),
+        }),
         handler: expect.any(Function),
       }),
     );
@@ -160,10 +194,21 @@ describe('BlackDuck Fact Retriever', () => {
           HIGH: 5,
           MEDIUM: 10,
         },
+        LICENSE: {
+          HIGH: 2,
+          MEDIUM: 3,
+          LOW: 4,
+        },
+        OPERATIONAL: {
+          HIGH: 6,
+          MEDIUM: 7,
+          LOW: 8,
+        },
       },
     });
 
-    // Mock the project search API call
+    // Mock the token exchange and the project search API call
+    mockAuthenticate();
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: mockProjectJson,
@@ -181,6 +226,96 @@ describe('BlackDuck Fact Retriever', () => {
       json: mockRiskProfileJson,
     });
 
+    // Mock the vulnerable BOM components API call
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValue({
+        items: [
+          {
+            componentName: 'jackson-databind',
+            componentVersionName: '2.9.8',
+            componentVersion:
+              'https://blackduck.test/api/components/1/versions/2',
+            vulnerabilityWithRemediation: {
+              vulnerabilityName: 'CVE-2019-12384',
+              severity: 'CRITICAL',
+              remediationStatus: 'NEW',
+              remediationCreatedAt: daysAgo(10),
+            },
+          },
+          {
+            componentName: 'log4j-core',
+            componentVersionName: '2.14.1',
+            componentVersion:
+              'https://blackduck.test/api/components/3/versions/4',
+            vulnerabilityWithRemediation: {
+              vulnerabilityName: 'CVE-2021-44228',
+              severity: 'HIGH',
+              remediationStatus: 'REMEDIATION_COMPLETE',
+              remediationCreatedAt: daysAgo(20),
+              remediationUpdatedAt: daysAgo(15),
+            },
+          },
+        ],
+      }),
+    });
+
+    // Mock the remediation target API call of the vulnerable component version
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValue({
+        fixesPreviousVulnerabilities: { name: '2.9.10.8' },
+        latestAfterCurrent: { name: '2.15.2' },
+      }),
+    });
+
+    // Mock the policy status API call
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValue({
+        overallStatus: 'IN_VIOLATION',
+        componentVersionStatusCounts: [
+          { name: 'IN_VIOLATION', value: 1 },
+          { name: 'NOT_IN_VIOLATION', value: 40 },
+        ],
+      }),
+    });
+
+    // Mock the BOM components in violation API call
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValue({
+        items: [
+          {
+            componentName: 'left-pad',
+            _meta: {
+              links: [
+                {
+                  rel: 'policy-rules',
+                  href: 'https://blackduck.test/api/versions/456/components/789/policy-rules',
+                },
+              ],
+            },
+          },
+        ],
+      }),
+    });
+
+    // Mock the policy rules API call of the component in violation
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValue({
+        items: [
+          { name: 'No GPL licenses', policyApprovalStatus: 'IN_VIOLATION' },
+          { name: 'No EOL components', policyApprovalStatus: 'IN_VIOLATION' },
+          {
+            name: 'No unknown versions',
+            policyApprovalStatus: 'NOT_IN_VIOLATION',
+          },
+        ],
+      }),
+    });
+
     // Create the fact retriever
     const factRetriever = createBlackDuckFactRetriever(mockConfig);
 
@@ -210,11 +345,250 @@ describe('BlackDuck Fact Retriever', () => {
         security_risks_critical: 1,
         security_risks_high: 5,
         security_risks_medium: 10,
+        license_risks_high: 2,
+        license_risks_medium: 3,
+        license_risks_low: 4,
+        operational_risks_high: 6,
+        operational_risks_medium: 7,
+        operational_risks_low: 8,
+        policy_violations: 1,
+        policy_violation_rules: ['No EOL components', 'No GPL licenses'],
+        oldestCriticalAlertAgeDays: 10,
+        oldestHighAlertAgeDays: 0,
+        oldestMediumAlertAgeDays: 0,
+        oldestLowAlertAgeDays: 0,
+        criticalAlertsPastSla: 1,
+        highAlertsPastSla: 0,
+        alertsPastSla: 1,
+        meanTimeToRemediateDays: 5,
+        remediatedAlertsInWindow: 1,
+        vulnerable_components: {
+          'jackson-databind@2.9.8': {
+            componentName: 'jackson-databind',
+            componentVersion: '2.9.8',
+            vulnerabilities: ['CVE-2019-12384'],
+            severity: 'CRITICAL',
+            remediationTargetVersion: '2.9.10.8',
+          },
+        },
       },
     });
 
     // Verify that fetch was called with the correct URLs and headers
-    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch).toHaveBeenCalledTimes(9);
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'https://blackduck.test/tokens/authenticate',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'token test-token' }),
+      }),
+    );
+    expect(mockFetch.mock.calls[1][0]).toContain(
+      'https://blackduck.test/projects?',
+    );
+    expect(mockFetch.mock.calls[1][1].headers.get('Authorization')).toBe(
+      'Bearer bearer-token',
+    );
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://blackduck.test/api/components/1/versions/2/remediating',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://blackduck.test/api/versions/456/vulnerable-bom-components?limit=100&offset=0',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://blackduck.test/api/versions/456/policy-status',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      'https://blackduck.test/api/versions/456/components/789/policy-rules',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  // Test: Groups the open vulnerabilities of a component version into one inventory entry
+  it('should group the vulnerabilities of a component into one inventory entry', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({ items: [createTestEntity()] });
+
+    mockAuthenticate();
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: [
+            {
+              name: 'test-project',
+              _meta: { href: 'https://blackduck.test/api/projects/123' },
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: [
+            {
+              versionName: '1.0',
+              _meta: { href: 'https://blackduck.test/api/versions/456' },
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ categories: { SECURITY: { HIGH: 1 } } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: ['CVE-2020-0001', 'CVE-2020-0002'].map(
+            (vulnerabilityName, index) => ({
+              componentName: 'commons-text',
+              componentVersionName: '1.9',
+              componentVersion:
+                'https://blackduck.test/api/components/5/versions/6',
+              vulnerabilityWithRemediation: {
+                vulnerabilityName,
+                severity: index === 0 ? 'MEDIUM' : 'HIGH',
+                remediationStatus: 'NEW',
+                remediationCreatedAt: daysAgo(1),
+              },
+            }),
+          ),
+        }),
+      })
+      // The remediation target and policy status cannot be retrieved
+      .mockResolvedValueOnce({ ok: false, status: 404 })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+
+    const factRetriever = createBlackDuckFactRetriever(mockConfig);
+    const result = await factRetriever.handler({
+      config: mockConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].facts.vulnerable_components).toEqual({
+      'commons-text@1.9': {
+        componentName: 'commons-text',
+        componentVersion: '1.9',
+        vulnerabilities: ['CVE-2020-0001', 'CVE-2020-0002'],
+        severity: 'HIGH',
+        remediationTargetVersion: null,
+      },
+    });
+    expect(result[0].facts.policy_violations).toBeUndefined();
+    expect(mockFetch).toHaveBeenCalledTimes(7);
+  });
+
+  // Test: Follows the totalCount of the vulnerable BOM components with offset paging
+  it('should read the vulnerable components of all pages', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({ items: [createTestEntity()] });
+
+    // A vulnerable BOM component of commons-text 1.9
+    const vulnerableComponent = (index: number) => ({
+      componentName: 'commons-text',
+      componentVersionName: '1.9',
+      componentVersion: 'https://blackduck.test/api/components/5/versions/6',
+      vulnerabilityWithRemediation: {
+        vulnerabilityName: `CVE-2020-${index}`,
+        severity: 'MEDIUM',
+        remediationStatus: 'NEW',
+        remediationCreatedAt: daysAgo(1),
+      },
+    });
+
+    mockAuthenticate();
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: [
+            {
+              name: 'test-project',
+              _meta: { href: 'https://blackduck.test/api/projects/123' },
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: [
+            {
+              versionName: '1.0',
+              _meta: { href: 'https://blackduck.test/api/versions/456' },
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ categories: { SECURITY: { MEDIUM: 101 } } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          totalCount: 101,
+          items: Array.from({ length: 100 }, (_, index) =>
+            vulnerableComponent(index),
+          ),
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          totalCount: 101,
+          items: [vulnerableComponent(100)],
+        }),
+      })
+      // The remediation target and policy status cannot be retrieved
+      .mockResolvedValueOnce({ ok: false, status: 404 })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+
+    const factRetriever = createBlackDuckFactRetriever(mockConfig);
+    const result = await factRetriever.handler({
+      config: mockConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://blackduck.test/api/versions/456/vulnerable-bom-components?limit=100&offset=0',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://blackduck.test/api/versions/456/vulnerable-bom-components?limit=100&offset=100',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0].facts.vulnerable_components).toMatchObject({
+      'commons-text@1.9': {
+        vulnerabilities: Array.from(
+          { length: 101 },
+          (_, index) => `CVE-2020-${index}`,
+        ),
+      },
+    });
+    expect(result[0].facts.remediatedAlertsInWindow).toBe(0);
+    expect(mockFetch).toHaveBeenCalledTimes(8);
   });
 
   // Test: Filters out components without BlackDuck enabled
@@ -265,7 +639,8 @@ describe('BlackDuck Fact Retriever', () => {
       },
     });
 
-    // Mock the project search API call
+    // Mock the token exchange and the project search API call
+    mockAuthenticate();
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: mockProjectJson,
@@ -304,8 +679,8 @@ describe('BlackDuck Fact Retriever', () => {
     expect(result).toHaveLength(1);
     expect(result[0].entity.name).toBe('test-component');
 
-    // Verify fetch was called only for the enabled entity (2 calls in total)
-    expect(mockFetch).toHaveBeenCalledTimes(3);
+    // Verify fetch was called only for the enabled entity
+    expect(mockFetch).toHaveBeenCalledTimes(6);
   });
 
   // Test: Handles missing project name annotation
@@ -348,7 +723,7 @@ describe('BlackDuck Fact Retriever', () => {
     expect(mockFetch).not.toHaveBeenCalled();
   });
 
-  // Test: Handles BlackDuck API failures
+  // Test: Handles BlackDuck API failures, starting with the token exchange
   it('should handle BlackDuck API failures', async () => {
     const testEntity = createTestEntity();
 
@@ -416,7 +791,8 @@ describe('BlackDuck Fact Retriever', () => {
       },
     });
 
-    // Mock the project search API call
+    // Mock the token exchange and the project search API call
+    mockAuthenticate();
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: mockProjectJson,
@@ -463,11 +839,103 @@ describe('BlackDuck Fact Retriever', () => {
         security_risks_critical: 1,
         security_risks_high: 0,
         security_risks_medium: 0,
+        ...NO_LICENSE_OR_OPERATIONAL_RISKS,
       },
     });
 
     // Verify that fetch was called with the correct URLs and headers
-    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch).toHaveBeenCalledTimes(6);
+  });
+
+  // Test: Queries the Black Duck server named by the entity's instance annotation
+  it('should query the Black Duck instance named by the entity', async () => {
+    const multiInstanceConfig = new ConfigReader({
+      blackduck: {
+        token: 'test-token',
+        host: 'https://blackduck.test',
+        instances: [
+          {
+            name: 'healthcare',
+            host: 'https://blackduck.healthcare.test/api/',
+            token: 'healthcare-token',
+          },
+        ],
+      },
+    });
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity({
+          metadata: { annotations: { 'blackduck.io/instance': 'healthcare' } },
+        }),
+      ],
+    });
+
+    mockAuthenticate();
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ items: [] }),
+    });
+
+    const result = await createBlackDuckFactRetriever(
+      multiInstanceConfig,
+    ).handler({
+      config: multiInstanceConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    // The project is not found, but the request went to the healthcare server
+    expect(result).toHaveLength(0);
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'https://blackduck.healthcare.test/api/tokens/authenticate',
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          Authorization: 'token healthcare-token',
+        }),
+      }),
+    );
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining(
+        'https://blackduck.healthcare.test/api/projects?',
+      ),
+      expect.anything(),
+    );
+  });
+
+  // Test: Skips entities that name an unknown Black Duck instance
+  it('should skip entities that name an unknown Black Duck instance', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity({
+          metadata: { annotations: { 'blackduck.io/instance': 'unknown' } },
+        }),
+      ],
+    });
+
+    const result = await createBlackDuckFactRetriever(mockConfig).handler({
+      config: mockConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    expect(result).toHaveLength(0);
+    expect(mockFetch).not.toHaveBeenCalled();
   });
 
   it('should handle multiple enabled components', async () => {
@@ -490,6 +958,7 @@ describe('BlackDuck Fact Retriever', () => {
 
     // Mock all API calls in sequence
     // Entity 1
+    mockAuthenticate();
     mockFetch
       .mockResolvedValueOnce({
         ok: true,
@@ -583,6 +1052,7 @@ describe('BlackDuck Fact Retriever', () => {
       security_risks_critical: 1,
       security_risks_high: 5,
       security_risks_medium: 10,
+      ...NO_LICENSE_OR_OPERATIONAL_RISKS,
     });
 
     // Entity 2
@@ -591,8 +1061,9 @@ describe('BlackDuck Fact Retriever', () => {
       security_risks_critical: 2,
       security_risks_high: 3,
       security_risks_medium: 4,
+      ...NO_LICENSE_OR_OPERATIONAL_RISKS,
     });
 
-    expect(mockFetch).toHaveBeenCalledTimes(6);
+    expect(mockFetch).toHaveBeenCalledTimes(11);
   });
 });
@@ -0,0 +1,116 @@
+import { BlackDuckSession } from '../blackduckSession';
+
+// Mock global fetch for BlackDuck API requests
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+describe('BlackDuck Session', () => {
+  const instance = {
+    name: 'default',
+    host: 'https://blackduck.test/api',
+    token: 'api-token',
+  };
+
+  const authenticated = (
+    bearerToken: string,
+    expiresInMilliseconds = 7200000,
+  ) =>
+    ({
+      ok: true,
+      status: 200,
+      json: async () => ({ bearerToken, expiresInMilliseconds }),
+    } as any);
+
+  const response = (status: number) =>
+    ({ ok: status < 400, status, json: async () => ({}) } as any);
+
+  const authorizationOf = (call: number) =>
+    new Headers(mockFetch.mock.calls[call][1].headers).get('Authorization');
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  // Test: Exchanges the API token once and reuses the bearer token
+  it('should exchange the API token once and reuse the bearer token', async () => {
+    mockFetch
+      .mockResolvedValueOnce(authenticated('bearer-1'))
+      .mockResolvedValueOnce(response(200))
+      .mockResolvedValueOnce(response(200));
+
+    const session = new BlackDuckSession(instance);
+    await Promise.all([
+      session.fetch('https://blackduck.test/api/projects'),
+      session.fetch('https://blackduck.test/api/users'),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'https://blackduck.test/api/tokens/authenticate',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(authorizationOf(0)).toBe('token api-token');
+    expect(authorizationOf(1)).toBe('Bearer bearer-1');
+    expect(authorizationOf(2)).toBe('Bearer bearer-1');
+  });
+
+  // Test: Keeps the headers of the caller whatever form they are given in
+  it('should keep the request headers given as a Headers instance', async () => {
+    mockFetch
+      .mockResolvedValueOnce(authenticated('bearer-1'))
+      .mockResolvedValueOnce(response(200));
+
+    const session = new BlackDuckSession(instance);
+    await session.fetch('https://blackduck.test/api/projects', {
+      headers: new Headers({ Accept: 'application/json' }),
+    });
+
+    const headers = mockFetch.mock.calls[1][1].headers;
+    expect(headers.get('Accept')).toBe('application/json');
+    expect(headers.get('Authorization')).toBe('Bearer bearer-1');
+  });
+
+  // Test: Authenticates again and retries once when a request is rejected with 401
+  it('should authenticate again when a request is rejected with 401', async () => {
+    mockFetch
+      .mockResolvedValueOnce(authenticated('bearer-1'))
+      .mockResolvedValueOnce(response(401))
+      .mockResolvedValueOnce(authenticated('bearer-2'))
+      .mockResolvedValueOnce(response(200));
+
+    const session = new BlackDuckSession(instance);
+    const result = await session.fetch('https://blackduck.test/api/projects');
+
+    expect(result.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    expect(authorizationOf(3)).toBe('Bearer bearer-2');
+  });
+
+  // Test: Renews the bearer token shortly before it expires
+  it('should renew a bearer token that is about to expire', async () => {
+    mockFetch
+      .mockResolvedValueOnce(authenticated('bearer-1', 30000))
+      .mockResolvedValueOnce(response(200))
+      .mockResolvedValueOnce(authenticated('bearer-2'))
+      .mockResolvedValueOnce(response(200));
+
+    const session = new BlackDuckSession(instance);
+    await session.fetch('https://blackduck.test/api/projects');
+    await session.fetch('https://blackduck.test/api/projects');
+
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    expect(authorizationOf(3)).toBe('Bearer bearer-2');
+  });
+
+  // Test: Fails the request when the API token is rejected
+  it('should fail when the API token is rejected', async () => {
+    mockFetch.mockResolvedValueOnce(response(401));
+
+    const session = new BlackDuckSession(instance);
+
+    await expect(
+      session.fetch('https://blackduck.test/api/projects'),
+    ).rejects.toThrow('Black Duck authentication at default failed');
+  });
+});
@@ -0,0 +1,34 @@
+import { DynamicThresholdCheck } from '../argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+
+export const CodeSceneChecks: DynamicThresholdCheck[] = [
+  {
+    id: 'codescene-code-health',
+    name: 'CodeScene Code Health',
+    type: 'number',
+    factIds: ['codescene-fact-retriever', 'code_health'],
+    annotationKeyThreshold: 'tech-insights.io/codescene-code-health-threshold',
+    annotationKeyOperator: 'tech-insights.io/codescene-code-health-operator',
+    description: 'Minimum CodeScene code health, from 1 to 10',
+  },
+  {
+    id: 'codescene-hotspot-code-health',
+    name: 'CodeScene Hotspot Code Health',
+    type: 'number',
+    factIds: ['codescene-fact-retriever', 'hotspot_code_health'],
+    annotationKeyThreshold:
+      'tech-insights.io/codescene-hotspot-code-health-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/codescene-hotspot-code-health-operator',
+    description: 'Minimum CodeScene code health of the hotspots, from 1 to 10',
+  },
+  {
+    id: 'codescene-goals-violated',
+    name: 'CodeScene Violated Goals',
+    type: 'number',
+    factIds: ['codescene-fact-retriever', 'goals_violated'],
+    annotationKeyThreshold:
+      'tech-insights.io/codescene-goals-violated-threshold',
+    annotationKeyOperator: 'tech-insights.io/codescene-goals-violated-operator',
+    description: 'Maximum number of violated CodeScene goals allowed',
+  },
+];
@@ -0,0 +1,180 @@
+import { Config } from '@backstage/config';
+import { FactRetriever } from '@backstage-community/plugin-tech-insights-node';
+import { CatalogClient } from '@backstage/catalog-client';
+
+// Annotation mapping a catalog entity to its CodeScene project
+export const CODESCENE_PROJECT_ANNOTATION = 'codescene.io/project-id';
+
+const DEFAULT_CODESCENE_BASE_URL = 'https://api.codescene.io';
+
+// High level metrics of the latest CodeScene analysis of a project
+type CodeSceneHighLevelMetrics = {
+  code_health_weighted_average_current?: number; // Code health of the whole code base, 1 to 10
+  hotspots_code_health_now_weighted_average?: number; // Code health of the hotspots, 1 to 10
+};
+
+type CodeSceneAnalysisResponse = {
+  high_level_metrics?: CodeSceneHighLevelMetrics;
+};
+
+// A goal set on a hotspot, e.g. "supervise" or "plan refactoring"
+type CodeSceneGoal = {
+  name?: string;
+  status?: string; // e.g. fulfilled or violated
+};
+
+type CodeSceneGoalsResponse = {
+  goals?: CodeSceneGoal[];
+};
+
+/**
+ * Creates a fact retriever for CodeScene code health metrics.
+ *
+ * This retriever fetches the code health, hotspot code health and goals of the latest
+ * analysis of the CodeScene project named by the `codescene.io/project-id` annotation.
+ *
+ * @param config - The Backstage application configuration
+ * @returns A FactRetriever for CodeScene
+ */
+export const createCodeSceneFactRetriever = (config: Config): FactRetriever => {
+  return {
+    id: 'codescene-fact-retriever',
+    version: '1.0',
+    entityFilter: [{ kind: 'component' }],
+    schema: {
+      code_health: {
+        type: 'float',
+        description: 'Weighted average code health from CodeScene, 1 to 10',
+      },
+      hotspot_code_health: {
+        type: 'float',
+        description:
+          'Weighted average code health of the hotspots from CodeScene, 1 to 10',
+      },
+      goals_total: {
+        type: 'integer',
+        description: 'Number of goals set on the hotspots of the project',
+      },
+      goals_violated: {
+        type: 'integer',
+        description: 'Number of goals violated by the latest analysis',
+      },
+    },
+    handler: async ctx => {
+      const { discovery, auth, entityFilter, logger } = ctx;
+
+      // Get the CodeScene configuration
+      const codesceneConfig = config.getConfig('codescene');
+      const token = codesceneConfig.getString('token');
+      const baseUrl = (
+        codesceneConfig.getOptionalString('baseUrl') ??
+        DEFAULT_CODESCENE_BASE_URL
+      ).replace(/\/+$/, '');
+
+      // Get authentication token for catalog access
+      const { token: catalogToken } = await auth.getPluginRequestToken({
+        onBehalfOf: await auth.getOwnServiceCredentials(),
+        targetPluginId: 'catalog',
+      });
+
+      // Create a catalog client to fetch entities
+      const catalogClient = new CatalogClient({ discoveryApi: discovery });
+
+      // Fetch all entities matching the filter
+      const { items: entities } = await catalogClient.getEntities(
+        { filter: entityFilter },
+        { token: catalogToken },
+      );
+
+      // Filter for entities mapped to a CodeScene project
+      const codesceneEntities = entities.filter(
+        entity => entity.metadata.annotations?.[CODESCENE_PROJECT_ANNOTATION],
+      );
+
+      const requestHeaders = {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/json',
+      };
+
+      // Process each entity mapped to a CodeScene project
+      const results = await Promise.all(
+        codesceneEntities.map(async entity => {
+          const projectId =
+            entity.metadata.annotations?.[CODESCENE_PROJECT_ANNOTATION];
+
+          try {
+            // Call the CodeScene API to get the latest analysis of the project
+            const analysisRes = await fetch(
+              `${baseUrl}/v2/projects/${projectId}/analyses/latest`,
+              { headers: requestHeaders },
+            );
+
+            // Handle API error responses
+            if (!analysisRes.ok) {
+              logger.warn(
+                `CodeScene analysis request for project ${projectId} failed with status ${analysisRes.status}`,
+              );
+              return null;
+            }
+
+            const analysis =
+              (await analysisRes.json()) as CodeSceneAnalysisResponse;
+            const metrics = analysis.high_level_metrics ?? {};
+
+            // Goals are optional, projects without goals still report their code health
+            let goals: CodeSceneGoal[] = [];
+            const goalsRes = await fetch(
+              `${baseUrl}/v2/projects/${projectId}/analyses/latest/goals`,
+              { headers: requestHeaders },
+            );
+            if (goalsRes.ok) {
+              goals =
+                ((await goalsRes.json()) as CodeSceneGoalsResponse).goals ?? [];
+            }
+
+            // A missing code health is left out instead of being stored as the worst score
+            const codeHealth = metrics.code_health_weighted_average_current;
+            const hotspotCodeHealth =
+              metrics.hotspots_code_health_now_weighted_average;
+
+            return {
+              entity: {
+                name: entity.metadata.name,
+                namespace: entity.metadata.namespace || 'default',
+                kind: entity.kind,
+              },
+              facts: {
+                ...(typeof codeHealth === 'number'
+                  ? { code_health: codeHealth }
+                  : {}),
+                ...(typeof hotspotCodeHealth === 'number'
+                  ? { hotspot_code_health: hotspotCodeHealth }
+                  : {}),
+                goals_total: goals.length,
+                goals_violated: goals.filter(
+                  goal => goal.status?.toLowerCase() === 'violated',
+                ).length,
+              },
+            };
+          } catch (error) {
+            logger.warn(
+              `Failed to retrieve CodeScene facts for project ${projectId}: ${error}`,
+            );
+            return null;
+          }
+        }),
+      );
+
+      // Filter out null results (failed requests)
+      return results.filter(Boolean) as Array<{
+        entity: { kind: string; namespace: string; name: string };
+        facts: {
+          code_health?: number;
+          hotspot_code_health?: number;
+          goals_total: number;
+          goals_violated: number;
+        };
+      }>;
+    },
+  };
+};
@@ -0,0 +1,243 @@
+import { getVoidLogger } from '@backstage/backend-common';
+import { createCodeSceneFactRetriever } from '../codesceneFactRetriever';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// Mock global fetch for CodeScene API requests
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+describe('CodeScene Fact Retriever', () => {
+  const mockConfig = new ConfigReader({
+    codescene: {
+      token: 'test-token',
+    },
+  });
+
+  const mockLogger = getVoidLogger();
+
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    mockFetch.mockReset();
+  });
+
+  /**
+   * Helper function to create a test entity
+   * @param annotations - Annotations of the entity
+   */
+  const createTestEntity = (
+    name: string,
+    annotations: Record<string, string> = {
+      'codescene.io/project-id': '42',
+    },
+  ): Entity =>
+    ({
+      apiVersion: 'backstage.io/v1alpha1',
+      kind: 'component',
+      metadata: { name, namespace: 'default', annotations },
+      spec: {},
+    } as Entity);
+
+  const runHandler = (config = mockConfig) =>
+    createCodeSceneFactRetriever(config).handler({
+      config,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+  // Test: Fact retriever is created with correct configuration
+  it('should create a fact retriever with correct id and schema', () => {
+    const factRetriever = createCodeSceneFactRetriever(mockConfig);
+
+    expect(factRetriever.id).toBe('codescene-fact-retriever');
+    expect(factRetriever.version).toBe('1.0');
+    expect(Object.keys(factRetriever.schema)).toEqual([
+      'code_health',
+      'hotspot_code_health',
+      'goals_total',
+      'goals_violated',
+    ]);
+  });
+
+  // Test: Retrieves code health and goals for mapped components
+  it('should retrieve code health and goals for mapped components', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [createTestEntity('test-component')],
+    });
+
+    // Fetch the latest analysis
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        high_level_metrics: {
+          code_health_weighted_average_current: 8.7,
+          hotspots_code_health_now_weighted_average: 6.4,
+        },
+      }),
+    });
+
+    // Fetch the goals
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        goals: [
+          { name: 'src/billing.ts', status: 'violated' },
+          { name: 'src/orders.ts', status: 'fulfilled' },
+          { name: 'src/users.ts', status: 'Violated' },
+        ],
+      }),
+    });
+
+    const result = await runHandler();
+
+    expect(result).toEqual([
+      {
+        entity: {
+          name: 'test-component',
+          namespace: 'default',
+          kind: 'component',
+        },
+        facts: {
+          code_health: 8.7,
+          hotspot_code_health: 6.4,
+          goals_total: 3,
+          goals_violated: 2,
+        },
+      },
+    ]);
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'https://api.codescene.io/v2/projects/42/analyses/latest',
+      {
+        headers: {
+          Authorization: 'Bearer test-token',
+          Accept: 'application/json',
+        },
+      },
+    );
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      'https://api.codescene.io/v2/projects/42/analyses/latest/goals',
+      expect.any(Object),
+    );
+  });
+
+  // Test: Uses the configured base URL
+  it('should use the configured base URL', async () => {
+    const onPremConfig = new ConfigReader({
+      codescene: {
+        token: 'test-token',
+        baseUrl: 'https://codescene.example.com/api/',
+      },
+    });
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [createTestEntity('test-component')],
+    });
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({}) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+    await runHandler(onPremConfig);
+
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'https://codescene.example.com/api/v2/projects/42/analyses/latest',
+      expect.any(Object),
+    );
+  });
+
+  // Test: Filters out components without a CodeScene project
+  it('should filter out components without a CodeScene project', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [createTestEntity('unmapped-component', {})],
+    });
+
+    const result = await runHandler();
+
+    expect(result).toHaveLength(0);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  // Test: Keeps the code health when the goals cannot be retrieved
+  it('should keep the code health when the goals cannot be retrieved', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [createTestEntity('test-component')],
+    });
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          high_level_metrics: { code_health_weighted_average_current: 9.1 },
+        }),
+      })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+
+    const result = await runHandler();
+
+    // The hotspot code health is missing from the analysis and left out
+    expect(result[0].facts).toEqual({
+      code_health: 9.1,
+      goals_total: 0,
+      goals_violated: 0,
+    });
+  });
+
+  // Test: Handles CodeScene API failures
+  it('should handle CodeScene API failures', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity('failing-component'),
+        createTestEntity('throwing-component'),
+      ],
+    });
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 401 })
+      .mockRejectedValueOnce(new Error('Network error'));
+
+    const result = await runHandler();
+
+    expect(result).toHaveLength(0);
+  });
+});
@@ -30,4 +30,52 @@ export const DependabotChecks: DynamicThresholdCheck[] = [
     annotationKeyOperator: 'tech-insights.io/dependabot-operator',
     description: 'Maximum number of medium Dependabot alerts allowed',
   },
+  {
+    id: 'dependabot-oldest-critical-alert-age',
+    name: 'Dependabot Oldest Critical Alert Age',
+    type: 'number',
+    factIds: ['dependabotFactRetriever', 'oldestCriticalAlertAgeDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/dependabot-oldest-critical-alert-age-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/dependabot-oldest-critical-alert-age-operator',
+    description:
+      'Maximum allowed age in days of the oldest open critical Dependabot alert',
+  },
+  {
+    id: 'dependabot-oldest-high-alert-age',
+    name: 'Dependabot Oldest High Alert Age',
+    type: 'number',
+    factIds: ['dependabotFactRetriever', 'oldestHighAlertAgeDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/dependabot-oldest-high-alert-age-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/dependabot-oldest-high-alert-age-operator',
+    description:
+      'Maximum allowed age in days of the oldest open high Dependabot alert',
+  },
+  {
+    id: 'dependabot-alerts-past-sla',
+    name: 'Dependabot Alerts Past SLA',
+    type: 'number',
+    factIds: ['dependabotFactRetriever', 'alertsPastSla'],
+    annotationKeyThreshold:
+      'tech-insights.io/dependabot-alerts-past-sla-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/dependabot-alerts-past-sla-operator',
+    description:
+      'Maximum allowed number of open Dependabot alerts past their SLA',
+  },
+  {
+    id: 'dependabot-mean-time-to-remediate',
+    name: 'Dependabot Mean Time To Remediate',
+    type: 'number',
+    factIds: ['dependabotFactRetriever', 'meanTimeToRemediateDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/dependabot-mean-time-to-remediate-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/dependabot-mean-time-to-remediate-operator',
+    description:
+      'Maximum allowed mean time in days to remediate Dependabot alerts',
+  },
 ];
@@ -2,14 +2,123 @@ import { FactRetriever } from '@backstage-community/plugin-tech-insights-node';
 import { LoggerService } from '@backstage/backend-plugin-api';
 import { Config } from '@backstage/config';
 import { CatalogClient } from '@backstage/catalog-client';
+import { JsonObject } from '@backstage/types';
+import {
+  GitHubEntityTarget,
+  GitHubRetrieverRun,
+} from '../github/githubIntegrations';
+import {
+  SecurityAlertTimestamps,
+  SecuritySeverity,
+  computeSecurityAlertAgeFacts,
+  createSecurityAlertAgeSchema,
+  getRemediationWindowStart,
+  normalizeSecuritySeverity,
+  readSecuritySlaOptions,
+} from '../security/securityAlertAging';
+
+// A single open Dependabot alert, stored as a JSON-compatible object
+interface DependabotFinding extends JsonObject {
+  severity: string;
+  package: string;
+  ecosystem: string;
+  manifest_path: string;
+  ghsa_id: string;
+  cve_id: string | null;
+  summary: string;
+  fixed_in: string | null;
+  created_at: string;
+  html_url: string;
+}
+
+// Dictionary of Dependabot findings where the key is the alert number
+interface DependabotFindingsDict extends JsonObject {
+  [alertId: string]: DependabotFinding;
+}
+
+// Open alert counts per severity for a single package ecosystem
+interface EcosystemSeverityCounts extends JsonObject {
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+// A Dependabot alert as returned by the GitHub API, limited to the fields the retriever reads
+type DependabotAlert = {
+  number: number;
+  created_at: string;
+  updated_at: string;
+  fixed_at?: string | null;
+  dismissed_at?: string | null;
+  auto_dismissed_at?: string | null;
+  html_url?: string;
+  dependency?: {
+    package?: { ecosystem?: string; name?: string };
+    manifest_path?: string;
+  };
+  security_advisory?: {
+    severity?: string;
+    ghsa_id?: string;
+    cve_id?: string | null;
+    summary?: string;
+  };
+  security_vulnerability?: {
+    first_patched_version?: { identifier?: string } | null;
+  };
+};
+
+/**
+ * Reads the Dependabot alerts of a repository, following the cursors in the Link header of the
+ * alerts API page by page.
+ *
+ * @param query - Filters of the alerts API, e.g. the alert state
+ * @param onPage - Called with the alerts of each page, returns false to stop reading further pages
+ * @returns The alerts of all pages read
+ */
+async function fetchDependabotAlerts(
+  target: GitHubEntityTarget,
+  owner: string,
+  repo: string,
+  query: Record<string, string>,
+  onPage: (alerts: DependabotAlert[]) => boolean = () => true,
+): Promise<DependabotAlert[]> {
+  const alerts: DependabotAlert[] = [];
+  let url: string | undefined = `${
+    target.client.baseUrl
+  }/repos/${owner}/${repo}/dependabot/alerts?${new URLSearchParams({
+    ...query,
+    per_page: '100',
+  })}`;
+
+  while (url) {
+    const response: Response = await target.run.fetch(url, {
+      headers: target.client.getHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub responded with ${response.status} for ${url}`);
+    }
+
+    const page = (await response.json()) as DependabotAlert[];
+    alerts.push(...page);
+    if (!onPage(page)) {
+      break;
+    }
+    url = response.headers.get('Link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1];
+  }
+
+  return alerts;
+}
 
 export const createDependabotFactRetriever = (
   config: Config,
   logger: LoggerService,
 ): FactRetriever => {
+  const slaOptions = readSecuritySlaOptions(config);
+
   return {
     id: 'dependabotFactRetriever',
-    version: '0.3.0',
+    version: '0.5.0',
     entityFilter: [{ kind: 'Component' }],
     schema: {
       critical: {
@@ -24,13 +133,29 @@ export const createDependabotFactRetriever = (
         type: 'integer',
         description: 'Number of medium severity Dependabot alerts',
       },
+      low: {
+        type: 'integer',
+        description: 'Number of low severity Dependabot alerts',
+      },
+      ecosystems: {
+        type: 'object',
+        description:
+          'Open Dependabot alert counts per severity, keyed by package ecosystem',
+      },
+      dependabotAlerts: {
+        type: 'object',
+        description: 'Dictionary of open Dependabot alerts keyed by alert ID',
+      },
+      ...createSecurityAlertAgeSchema('Dependabot'),
     },
     handler: async ({ discovery, auth }) => {
-      const githubConfigs = config.getOptionalConfigArray(
-        'integrations.github',
+      // Send all requests through the shared, rate limit aware client of each repository's host
+      const githubRun = new GitHubRetrieverRun(
+        config,
+        'dependabotFactRetriever',
+        logger,
       );
-      const githubToken = githubConfigs?.[0]?.getOptionalString('token');
-      if (!githubToken) {
+      if (!githubRun.hasToken()) {
         logger.error('Missing GitHub token in config');
         return [];
       }
@@ -46,9 +171,6 @@ export const createDependabotFactRetriever = (
         { token: catalogToken },
       );
 
-      const Octokit = (await import('@octokit/rest')).Octokit;
-      const octokit = new Octokit({ auth: githubToken });
-
       const results = await Promise.all(
         entities.map(async entity => {
           const repoUrl =
@@ -56,30 +178,109 @@ export const createDependabotFactRetriever = (
           if (!repoUrl) return null;
 
           const [owner, name] = repoUrl.split('/');
-          try {
-            const alertsResponse = await octokit.request(
-              'GET /repos/{owner}/{repo}/dependabot/alerts',
-              { owner, repo: name, per_page: 100 },
-            );
+          const target = githubRun.forEntity(entity);
+          if (!target?.integration.token) return null;
 
-            const openAlerts = alertsResponse.data.filter(
-              a => a.state === 'open',
+          try {
+            // Only ask for open alerts, across all pages
+            const openAlerts = await fetchDependabotAlerts(
+              target,
+              owner,
+              name,
+              { state: 'open' },
             );
 
-            let critical = 0;
-            let high = 0;
-            let medium = 0;
+            const counts: Record<SecuritySeverity, number> = {
+              critical: 0,
+              high: 0,
+              medium: 0,
+              low: 0,
+            };
+            const ecosystems: Record<string, EcosystemSeverityCounts> = {};
+            const dependabotAlerts: DependabotFindingsDict = {};
 
             for (const alert of openAlerts) {
-              const severity = alert.security_advisory?.severity?.toLowerCase();
-              if (severity === 'critical') critical++;
-              else if (severity === 'high') high++;
-              else if (severity === 'moderate' || severity === 'medium')
-                medium++;
+              const severity = normalizeSecuritySeverity(
+                alert.security_advisory?.severity,
+              );
+              const ecosystem =
+                alert.dependency?.package?.ecosystem || 'unknown';
+
+              if (severity) {
+                counts[severity]++;
+                ecosystems[ecosystem] ??= {
+                  critical: 0,
+                  high: 0,
+                  medium: 0,
+                  low: 0,
+                };
+                ecosystems[ecosystem][severity]++;
+              }
+
+              dependabotAlerts[`dependabot-${alert.number}`] = {
+                severity: severity || 'unknown',
+                package: alert.dependency?.package?.name || 'unknown',
+                ecosystem,
+                manifest_path: alert.dependency?.manifest_path || '',
+                ghsa_id: alert.security_advisory?.ghsa_id || '',
+                cve_id: alert.security_advisory?.cve_id || null,
+                summary:
+                  alert.security_advisory?.summary ||
+                  'No description available',
+                fixed_in:
+                  alert.security_vulnerability?.first_patched_version
+                    ?.identifier || null,
+                created_at: alert.created_at || '',
+                html_url: alert.html_url || '',
+              };
+            }
+
+            // Alerts fixed or dismissed within the remediation window, most recently updated first
+            const resolvedAlerts: SecurityAlertTimestamps[] = [];
+            try {
+              const windowStart = getRemediationWindowStart(slaOptions);
+              await fetchDependabotAlerts(
+                target,
+                owner,
+                name,
+                {
+                  state: 'fixed,dismissed',
+                  sort: 'updated',
+                  direction: 'desc',
+                },
+                page => {
+                  page.forEach(alert => {
+                    resolvedAlerts.push({
+                      severity: alert.security_advisory?.severity,
+                      createdAt: alert.created_at,
+                      resolvedAt:
+                        alert.fixed_at ||
+                        alert.dismissed_at ||
+                        alert.auto_dismissed_at,
+                    });
+                  });
+                  // Stop once the pages reach alerts last updated before the window
+                  const last = page[page.length - 1];
+                  return !last || new Date(last.updated_at) >= windowStart;
+                },
+              );
+            } catch (e) {
+              logger.warn(
+                `Failed to fetch resolved alerts for ${repoUrl}, skipping remediation time: ${e}`,
+              );
             }
 
+            const ageFacts = computeSecurityAlertAgeFacts(
+              openAlerts.map(alert => ({
+                severity: alert.security_advisory?.severity,
+                createdAt: alert.created_at,
+              })),
+              resolvedAlerts,
+              slaOptions,
+            );
+
             logger.info(
-              `✅ ${entity.metadata.name} → critical: ${critical}, high: ${high}, medium: ${medium}`,
+              `✅ ${entity.metadata.name} → critical: ${counts.critical}, high: ${counts.high}, medium: ${counts.medium}, low: ${counts.low}`,
             );
 
             return {
@@ -89,9 +290,13 @@ export const createDependabotFactRetriever = (
                 namespace: entity.metadata.namespace ?? 'default',
               },
               facts: {
-                critical: critical,
-                high: high,
-                medium: medium,
+                critical: counts.critical,
+                high: counts.high,
+                medium: counts.medium,
+                low: counts.low,
+                ecosystems: ecosystems as JsonObject,
+                dependabotAlerts: dependabotAlerts as JsonObject,
+                ...ageFacts,
               },
             };
           } catch (e) {
@@ -101,6 +306,8 @@ export const createDependabotFactRetriever = (
         }),
       );
 
+      githubRun.logSummary();
+
       return results.filter(Boolean) as NonNullable<
         Awaited<ReturnType<FactRetriever['handler']>>
       >;
@@ -0,0 +1,189 @@
+import { getVoidLogger } from '@backstage/backend-common';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+import { createDependabotFactRetriever } from '../dependabotFactRetriever';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// Mock global fetch for GitHub API requests
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+// A GitHub API response with a JSON body
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { headers });
+
+const ALERTS_URL = 'https://api.github.com/repos/owner/repo/dependabot/alerts';
+
+// A Dependabot alert as returned by the GitHub API
+const alert = (
+  number: number,
+  severity: string,
+  ecosystem: string,
+  packageName: string,
+) => ({
+  number,
+  created_at: '2024-05-01T10:00:00Z',
+  updated_at: '2024-05-01T10:00:00Z',
+  html_url: `https://github.com/owner/repo/security/dependabot/${number}`,
+  dependency: {
+    package: { ecosystem, name: packageName },
+    manifest_path: 'package-lock.json',
+  },
+  security_advisory: {
+    severity,
+    ghsa_id: `GHSA-${number}`,
+    cve_id: null,
+    summary: `Advisory ${number}`,
+  },
+  security_vulnerability: { first_patched_version: { identifier: '2.0.0' } },
+});
+
+describe('createDependabotFactRetriever', () => {
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  const entity: Entity = {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: {
+      name: 'test-component',
+      namespace: 'default',
+      annotations: { 'github.com/project-slug': 'owner/repo' },
+    },
+    spec: {},
+  };
+
+  const runHandler = (config: ConfigReader) =>
+    createDependabotFactRetriever(config, getVoidLogger()).handler({
+      config,
+      logger: getVoidLogger(),
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'Component' }],
+      urlReader: {} as UrlReaderService,
+    });
+
+  const config = new ConfigReader({
+    integrations: { github: [{ host: 'github.com', token: 'github-token' }] },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    mockFetch.mockReset();
+    mockGetEntitiesImpl.mockResolvedValue({ items: [entity] });
+  });
+
+  // Test: Follows the Link header across pages of open alerts and counts them per severity and ecosystem
+  it('should collect the open alerts of all pages', async () => {
+    const secondPageUrl = `${ALERTS_URL}?state=open&per_page=100&after=cursor`;
+    const pages: Record<string, Response> = {
+      [`${ALERTS_URL}?state=open&per_page=100`]: jsonResponse(
+        [
+          alert(1, 'critical', 'npm', 'lodash'),
+          alert(2, 'moderate', 'npm', 'minimist'),
+        ],
+        { Link: `<${secondPageUrl}>; rel="next"` },
+      ),
+      [secondPageUrl]: jsonResponse([
+        alert(3, 'low', 'pip', 'requests'),
+        alert(4, 'informational', 'pip', 'urllib3'),
+      ]),
+    };
+    mockFetch.mockImplementation(
+      async (url: string) => pages[url] ?? jsonResponse([]),
+    );
+
+    const result = await runHandler(config);
+
+    // Open alerts are filtered by the API, resolved alerts are read separately
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      `${ALERTS_URL}?state=open&per_page=100`,
+      secondPageUrl,
+      `${ALERTS_URL}?state=fixed%2Cdismissed&sort=updated&direction=desc&per_page=100`,
+    ]);
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        critical: 1,
+        high: 0,
+        medium: 1,
+        low: 1,
+        ecosystems: {
+          npm: { critical: 1, high: 0, medium: 1, low: 0 },
+          pip: { critical: 0, high: 0, medium: 0, low: 1 },
+        },
+      }),
+    );
+    expect(result[0].facts.dependabotAlerts).toEqual(
+      expect.objectContaining({
+        'dependabot-1': {
+          severity: 'critical',
+          package: 'lodash',
+          ecosystem: 'npm',
+          manifest_path: 'package-lock.json',
+          ghsa_id: 'GHSA-1',
+          cve_id: null,
+          summary: 'Advisory 1',
+          fixed_in: '2.0.0',
+          created_at: '2024-05-01T10:00:00Z',
+          html_url: 'https://github.com/owner/repo/security/dependabot/1',
+        },
+        // Alerts with an unknown severity are listed, but not counted
+        'dependabot-4': expect.objectContaining({
+          severity: 'unknown',
+          package: 'urllib3',
+        }),
+      }),
+    );
+  });
+
+  // Test: Skips the repository when its open alerts cannot be read
+  it('should skip repositories whose alerts cannot be read', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ message: 'Not Found' }), { status: 404 }),
+    );
+
+    const result = await runHandler(config);
+
+    expect(result).toEqual([]);
+  });
+
+  // Test: Does not query GitHub without a token
+  it('should return no facts without a GitHub token', async () => {
+    const result = await runHandler(new ConfigReader({}));
+
+    expect(result).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,42 @@
+import { DynamicThresholdCheck } from '../argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+
+export const FortifyChecks: DynamicThresholdCheck[] = [
+  {
+    id: 'fortify-critical-issues',
+    name: 'Fortify Critical Issues',
+    type: 'number',
+    factIds: ['fortify-fact-retriever', 'critical'],
+    annotationKeyThreshold: 'tech-insights.io/fortify-critical-threshold',
+    annotationKeyOperator: 'tech-insights.io/fortify-critical-operator',
+    description: 'Maximum number of open critical Fortify issues allowed',
+  },
+  {
+    id: 'fortify-high-issues',
+    name: 'Fortify High Issues',
+    type: 'number',
+    factIds: ['fortify-fact-retriever', 'high'],
+    annotationKeyThreshold: 'tech-insights.io/fortify-high-threshold',
+    annotationKeyOperator: 'tech-insights.io/fortify-high-operator',
+    description: 'Maximum number of open high Fortify issues allowed',
+  },
+  {
+    id: 'fortify-medium-issues',
+    name: 'Fortify Medium Issues',
+    type: 'number',
+    factIds: ['fortify-fact-retriever', 'medium'],
+    annotationKeyThreshold: 'tech-insights.io/fortify-medium-threshold',
+    annotationKeyOperator: 'tech-insights.io/fortify-medium-operator',
+    description: 'Maximum number of open medium Fortify issues allowed',
+  },
+  {
+    id: 'fortify-days-since-last-scan',
+    name: 'Fortify Days Since Last Scan',
+    type: 'number',
+    factIds: ['fortify-fact-retriever', 'days_since_last_scan'],
+    annotationKeyThreshold:
+      'tech-insights.io/fortify-days-since-last-scan-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/fortify-days-since-last-scan-operator',
+    description: 'Maximum number of days since the last Fortify scan',
+  },
+];
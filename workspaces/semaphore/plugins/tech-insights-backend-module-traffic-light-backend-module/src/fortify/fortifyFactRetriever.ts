@@ -0,0 +1,258 @@
+import { Config } from '@backstage/config';
+import { FactRetriever } from '@backstage-community/plugin-tech-insights-node';
+import { CatalogClient } from '@backstage/catalog-client';
+import { DateTime } from 'luxon';
+
+// Annotations mapping a catalog entity to a Fortify on Demand release or an SSC project version
+export const FORTIFY_RELEASE_ANNOTATION = 'fortify.com/release-id';
+export const FORTIFY_PROJECT_VERSION_ANNOTATION =
+  'fortify.com/project-version-id';
+
+// Fortify on Demand (fod) or Fortify Software Security Center (ssc)
+export type FortifyProduct = 'fod' | 'ssc';
+
+const FORTIFY_PRIORITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+type FortifyPriority = (typeof FORTIFY_PRIORITIES)[number];
+
+// Issue counts and last scan of a release or project version
+type FortifyScanSummary = Record<FortifyPriority, number> & {
+  lastScanDate?: string;
+};
+
+// Fortify on Demand release, as returned by /api/v3/releases/{releaseId}
+type FodRelease = {
+  critical?: number;
+  high?: number;
+  medium?: number;
+  low?: number;
+  staticScanDate?: string;
+  dynamicScanDate?: string;
+};
+
+// SSC issue group, as returned by /api/v1/projectVersions/{id}/issueGroups grouped by folder
+type SscIssueGroup = {
+  cleanName: string; // Priority folder, e.g. Critical
+  totalCount: number;
+};
+
+// SSC artifact, as returned by /api/v1/projectVersions/{id}/artifacts
+type SscArtifact = {
+  lastScanDate?: string;
+  uploadDate?: string;
+};
+
+/**
+ * Reads the open issue counts and last scan date of a Fortify on Demand release. The most
+ * recent of the static and dynamic scan dates is used as the last scan date.
+ */
+async function fetchFodSummary(
+  baseUrl: string,
+  token: string,
+  releaseId: string,
+): Promise<FortifyScanSummary | null> {
+  const response = await fetch(`${baseUrl}/api/v3/releases/${releaseId}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    return null;
+  }
+
+  const release = (await response.json()) as FodRelease;
+  const scanDates = [release.staticScanDate, release.dynamicScanDate]
+    .filter((date): date is string => Boolean(date))
+    .sort();
+
+  return {
+    critical: release.critical ?? 0,
+    high: release.high ?? 0,
+    medium: release.medium ?? 0,
+    low: release.low ?? 0,
+    lastScanDate: scanDates[scanDates.length - 1],
+  };
+}
+
+/**
+ * Reads the open issue counts per priority folder and the date of the latest uploaded scan
+ * of a Software Security Center project version.
+ */
+async function fetchSscSummary(
+  baseUrl: string,
+  token: string,
+  projectVersionId: string,
+): Promise<FortifyScanSummary | null> {
+  const headers = {
+    Authorization: `FortifyToken ${token}`,
+    Accept: 'application/json',
+  };
+
+  const issuesResponse = await fetch(
+    `${baseUrl}/api/v1/projectVersions/${projectVersionId}/issueGroups?groupingtype=FOLDER&showsuppressed=false`,
+    { headers },
+  );
+  const artifactsResponse = await fetch(
+    `${baseUrl}/api/v1/projectVersions/${projectVersionId}/artifacts?limit=1&orderby=-uploadDate`,
+    { headers },
+  );
+  if (!issuesResponse.ok || !artifactsResponse.ok) {
+    return null;
+  }
+
+  const groups = ((await issuesResponse.json()).data ?? []) as SscIssueGroup[];
+  const artifacts = ((await artifactsResponse.json()).data ??
+    []) as SscArtifact[];
+
+  const countFor = (priority: FortifyPriority) =>
+    groups.find(group => group.cleanName?.toLowerCase() === priority)
+      ?.totalCount ?? 0;
+
+  return {
+    critical: countFor('critical'),
+    high: countFor('high'),
+    medium: countFor('medium'),
+    low: countFor('low'),
+    lastScanDate: artifacts[0]?.lastScanDate ?? artifacts[0]?.uploadDate,
+  };
+}
+
+/**
+ * Creates a fact retriever for Fortify static analysis results.
+ *
+ * This retriever reports the open issues per priority and the last scan date from Fortify on
+ * Demand releases (`fortify.com/release-id`) or Fortify Software Security Center project
+ * versions (`fortify.com/project-version-id`), depending on `fortify.product`.
+ *
+ * @param config - The Backstage application configuration
+ * @returns A FactRetriever for Fortify
+ */
+export const createFortifyFactRetriever = (config: Config): FactRetriever => {
+  return {
+    id: 'fortify-fact-retriever',
+    version: '1.0',
+    entityFilter: [{ kind: 'component' }],
+    schema: {
+      critical: {
+        type: 'integer',
+        description: 'Number of open critical priority Fortify issues',
+      },
+      high: {
+        type: 'integer',
+        description: 'Number of open high priority Fortify issues',
+      },
+      medium: {
+        type: 'integer',
+        description: 'Number of open medium priority Fortify issues',
+      },
+      low: {
+        type: 'integer',
+        description: 'Number of open low priority Fortify issues',
+      },
+      last_scan_date: {
+        type: 'datetime',
+        description: 'Date of the last Fortify scan',
+      },
+      days_since_last_scan: {
+        type: 'integer',
+        description: 'Number of days since the last Fortify scan',
+      },
+    },
+    handler: async ctx => {
+      const { discovery, auth, entityFilter, logger } = ctx;
+
+      // Get the Fortify configuration
+      const fortifyConfig = config.getConfig('fortify');
+      const product = (fortifyConfig.getOptionalString('product') ??
+        'fod') as FortifyProduct;
+      const baseUrl = fortifyConfig.getString('baseUrl').replace(/\/+$/, '');
+      const token = fortifyConfig.getString('token');
+      const annotation =
+        product === 'ssc'
+          ? FORTIFY_PROJECT_VERSION_ANNOTATION
+          : FORTIFY_RELEASE_ANNOTATION;
+
+      // Get authentication token for catalog access
+      const { token: catalogToken } = await auth.getPluginRequestToken({
+        onBehalfOf: await auth.getOwnServiceCredentials(),
+        targetPluginId: 'catalog',
+      });
+
+      // Create a catalog client to fetch entities
+      const catalogClient = new CatalogClient({ discoveryApi: discovery });
+
+      // Fetch all entities matching the filter
+      const { items: entities } = await catalogClient.getEntities(
+        { filter: entityFilter },
+        { token: catalogToken },
+      );
+
+      // Filter for entities mapped to a Fortify release or project version
+      const fortifyEntities = entities.filter(
+        entity => entity.metadata.annotations?.[annotation],
+      );
+
+      // Process each entity mapped to Fortify
+      const results = await Promise.all(
+        fortifyEntities.map(async entity => {
+          const id = entity.metadata.annotations?.[annotation] as string;
+
+          try {
+            const summary =
+              product === 'ssc'
+                ? await fetchSscSummary(baseUrl, token, id)
+                : await fetchFodSummary(baseUrl, token, id);
+
+            // Handle API error responses
+            if (!summary) {
+              logger.warn(
+                `Fortify ${product} request for ${entity.metadata.name} (${id}) failed`,
+              );
+              return null;
+            }
+
+            const lastScan = summary.lastScanDate
+              ? DateTime.fromISO(summary.lastScanDate)
+              : undefined;
+            const hasScan = lastScan !== undefined && lastScan.isValid;
+
+            return {
+              entity: {
+                name: entity.metadata.name,
+                namespace: entity.metadata.namespace || 'default',
+                kind: entity.kind,
+              },
+              facts: {
+                critical: summary.critical,
+                high: summary.high,
+                medium: summary.medium,
+                low: summary.low,
+                // Entities that were never scanned have no scan date, so scan age checks fail
+                last_scan_date: hasScan ? lastScan : null,
+                days_since_last_scan: hasScan
+                  ? Math.floor(DateTime.now().diff(lastScan, 'days').days)
+                  : null,
+              },
+            };
+          } catch (error) {
+            logger.warn(
+              `Failed to retrieve Fortify facts for ${entity.metadata.name}: ${error}`,
+            );
+            return null;
+          }
+        }),
+      );
+
+      // Filter out null results (failed requests)
+      return results.filter(Boolean) as Array<{
+        entity: { kind: string; namespace: string; name: string };
+        facts: {
+          critical: number;
+          high: number;
+          medium: number;
+          low: number;
+          last_scan_date: DateTime | null;
+          days_since_last_scan: number | null;
+        };
+      }>;
+    },
+  };
+};
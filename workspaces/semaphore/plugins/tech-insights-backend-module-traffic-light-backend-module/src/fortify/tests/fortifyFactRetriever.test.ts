@@ -0,0 +1,280 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { getVoidLogger } from '@backstage/backend-common';
+import { createFortifyFactRetriever } from '../fortifyFactRetriever';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+import { DateTime } from 'luxon';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// Canned Fortify responses served by the local stand-in, keyed by request path
+type StandInResponse = { status?: number; body: unknown };
+
+describe('Fortify Fact Retriever', () => {
+  let server: Server;
+  let baseUrl: string;
+  let responses: Record<string, StandInResponse> = {};
+  let requests: IncomingMessage[] = [];
+
+  // Local HTTP stand-in for the Fortify on Demand and SSC APIs
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      const response = responses[req.url ?? ''];
+      res.writeHead(response ? response.status ?? 200 : 404, {
+        'Content-Type': 'application/json',
+      });
+      res.end(JSON.stringify(response?.body ?? { errors: ['Not found'] }));
+    });
+    await new Promise<void>(resolve =>
+      server.listen(0, '127.0.0.1', () => resolve()),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createConfig = (product: 'fod' | 'ssc') =>
+    new ConfigReader({
+      fortify: { product, baseUrl, token: 'test-token' },
+    });
+
+  const mockLogger = getVoidLogger();
+
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    responses = {};
+    requests = [];
+  });
+
+  /**
+   * Helper function to create a test entity
+   * @param annotations - Annotations of the entity
+   */
+  const createTestEntity = (
+    name: string,
+    annotations: Record<string, string>,
+  ): Entity =>
+    ({
+      apiVersion: 'backstage.io/v1alpha1',
+      kind: 'component',
+      metadata: { name, namespace: 'default', annotations },
+      spec: {},
+    } as Entity);
+
+  const runHandler = (product: 'fod' | 'ssc') => {
+    const config = createConfig(product);
+    return createFortifyFactRetriever(config).handler({
+      config,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+  };
+
+  const daysAgo = (days: number) =>
+    DateTime.now().minus({ days, hours: 1 }).toUTC().toISO();
+
+  // Test: Fact retriever is created with correct configuration
+  it('should create a fact retriever with correct id and schema', () => {
+    const factRetriever = createFortifyFactRetriever(createConfig('fod'));
+
+    expect(factRetriever.id).toBe('fortify-fact-retriever');
+    expect(factRetriever.version).toBe('1.0');
+    expect(Object.keys(factRetriever.schema)).toEqual([
+      'critical',
+      'high',
+      'medium',
+      'low',
+      'last_scan_date',
+      'days_since_last_scan',
+    ]);
+  });
+
+  // Test: Retrieves issue counts and the latest scan of a Fortify on Demand release
+  it('should retrieve issue counts and last scan date from Fortify on Demand', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity('test-component', {
+          'fortify.com/release-id': '1001',
+        }),
+      ],
+    });
+    responses['/api/v3/releases/1001'] = {
+      body: {
+        releaseId: 1001,
+        critical: 1,
+        high: 4,
+        medium: 9,
+        low: 20,
+        staticScanDate: daysAgo(10),
+        dynamicScanDate: daysAgo(3),
+      },
+    };
+
+    const result = await runHandler('fod');
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers.authorization).toBe('Bearer test-token');
+    expect(result).toHaveLength(1);
+    expect(result[0].entity).toEqual({
+      name: 'test-component',
+      namespace: 'default',
+      kind: 'component',
+    });
+    expect(result[0].facts).toMatchObject({
+      critical: 1,
+      high: 4,
+      medium: 9,
+      low: 20,
+      days_since_last_scan: 3,
+    });
+    expect(DateTime.isDateTime(result[0].facts.last_scan_date)).toBe(true);
+  });
+
+  // Test: Retrieves issue counts per priority folder and the latest artifact from SSC
+  it('should retrieve issue counts and last scan date from Software Security Center', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity('test-component', {
+          'fortify.com/project-version-id': '7',
+        }),
+      ],
+    });
+    responses[
+      '/api/v1/projectVersions/7/issueGroups?groupingtype=FOLDER&showsuppressed=false'
+    ] = {
+      body: {
+        data: [
+          { id: 'Critical', cleanName: 'Critical', totalCount: 2 },
+          { id: 'High', cleanName: 'High', totalCount: 5 },
+          { id: 'Low', cleanName: 'Low', totalCount: 11 },
+        ],
+      },
+    };
+    responses[
+      '/api/v1/projectVersions/7/artifacts?limit=1&orderby=-uploadDate'
+    ] = {
+      body: { data: [{ id: 3, lastScanDate: daysAgo(40) }] },
+    };
+
+    const result = await runHandler('ssc');
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers.authorization).toBe('FortifyToken test-token');
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toMatchObject({
+      critical: 2,
+      high: 5,
+      medium: 0,
+      low: 11,
+      days_since_last_scan: 40,
+    });
+  });
+
+  // Test: Releases without any scan report no scan date
+  it('should report no scan date for releases that were never scanned', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity('test-component', {
+          'fortify.com/release-id': '1002',
+        }),
+      ],
+    });
+    responses['/api/v3/releases/1002'] = {
+      body: { releaseId: 1002, critical: 0, high: 0, medium: 0, low: 0 },
+    };
+
+    const result = await runHandler('fod');
+
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toMatchObject({
+      last_scan_date: null,
+      days_since_last_scan: null,
+    });
+  });
+
+  // Test: Skips entities without the annotation of the configured product
+  it('should skip entities that are not mapped to the configured product', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity('ssc-component', {
+          'fortify.com/project-version-id': '7',
+        }),
+      ],
+    });
+
+    const result = await runHandler('fod');
+
+    expect(requests).toHaveLength(0);
+    expect(result).toEqual([]);
+  });
+
+  // Test: Handles API error responses
+  it('should skip entities when the Fortify API returns an error', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createTestEntity('forbidden-component', {
+          'fortify.com/release-id': '1003',
+        }),
+        createTestEntity('test-component', {
+          'fortify.com/release-id': '1001',
+        }),
+      ],
+    });
+    responses['/api/v3/releases/1003'] = {
+      status: 403,
+      body: { errors: ['Forbidden'] },
+    };
+    responses['/api/v3/releases/1001'] = {
+      body: { critical: 0, high: 1, medium: 2, low: 3 },
+    };
+
+    const result = await runHandler('fod');
+
+    expect(result).toHaveLength(1);
+    expect(result[0].entity.name).toBe('test-component');
+  });
+});
@@ -69,4 +69,59 @@ export const githubAdvancedSecuritychecks: DynamicThresholdCheck[] = [
     description:
       'Maximum allowed secret scans count from GitHub Advanced Security',
   },
+  {
+    // Code Scanning oldest critical alert age check
+    id: 'github-advanced-security-oldest-critical-alert-age',
+    name: 'Code Scanning Oldest Critical Alert Age',
+    type: 'number',
+    factIds: [
+      'githubAdvancedSecurityFactRetriever',
+      'oldestCriticalAlertAgeDays',
+    ],
+    annotationKeyThreshold:
+      'tech-insights.io/github-advanced-security-oldest-critical-alert-age-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/github-advanced-security-oldest-critical-alert-age-operator',
+    description:
+      'Maximum allowed age in days of the oldest open critical Code Scanning alert',
+  },
+  {
+    // Code Scanning oldest high alert age check
+    id: 'github-advanced-security-oldest-high-alert-age',
+    name: 'Code Scanning Oldest High Alert Age',
+    type: 'number',
+    factIds: ['githubAdvancedSecurityFactRetriever', 'oldestHighAlertAgeDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/github-advanced-security-oldest-high-alert-age-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/github-advanced-security-oldest-high-alert-age-operator',
+    description:
+      'Maximum allowed age in days of the oldest open high Code Scanning alert',
+  },
+  {
+    // Code Scanning alerts past SLA check
+    id: 'github-advanced-security-alerts-past-sla',
+    name: 'Code Scanning Alerts Past SLA',
+    type: 'number',
+    factIds: ['githubAdvancedSecurityFactRetriever', 'alertsPastSla'],
+    annotationKeyThreshold:
+      'tech-insights.io/github-advanced-security-alerts-past-sla-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/github-advanced-security-alerts-past-sla-operator',
+    description:
+      'Maximum allowed number of open Code Scanning alerts past their SLA',
+  },
+  {
+    // Code Scanning mean time to remediate check
+    id: 'github-advanced-security-mean-time-to-remediate',
+    name: 'Code Scanning Mean Time To Remediate',
+    type: 'number',
+    factIds: ['githubAdvancedSecurityFactRetriever', 'meanTimeToRemediateDays'],
+    annotationKeyThreshold:
+      'tech-insights.io/github-advanced-security-mean-time-to-remediate-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/github-advanced-security-mean-time-to-remediate-operator',
+    description:
+      'Maximum allowed mean time in days to remediate Code Scanning alerts',
+  },
 ];
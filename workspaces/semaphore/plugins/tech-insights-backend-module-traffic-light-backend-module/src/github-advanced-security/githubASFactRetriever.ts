@@ -1,5 +1,5 @@
 /**
- * This file reads a GitHub token from config, uses Octokit to fetch GitHub Advanced Security data
+ * This file reads the GitHub integration of each repository from config, uses Octokit to fetch GitHub Advanced Security data
  * Returns security findings in a structured way that Tech Insights can consume
  */
 import {
@@ -8,6 +8,15 @@ import {
 } from '@backstage-community/plugin-tech-insights-node';
 import { CatalogClient } from '@backstage/catalog-client';
 import { JsonObject } from '@backstage/types';
+import { GitHubRetrieverRun } from '../github/githubIntegrations';
+import { loadOctokit } from '../github/octokit';
+import {
+  SecurityAlertTimestamps,
+  computeSecurityAlertAgeFacts,
+  createSecurityAlertAgeSchema,
+  getRemediationWindowStart,
+  readSecuritySlaOptions,
+} from '../security/securityAlertAging';
 
 // Define interfaces for the security findings as JSON-compatible types
 interface codeScanningFinding extends JsonObject {
@@ -31,7 +40,7 @@ interface codeScanningFindingsDict extends JsonObject {
 export const githubAdvancedSecurityFactRetriever: FactRetriever = {
   // Identifier for this fact retriever
   id: 'githubAdvancedSecurityFactRetriever',
-  version: '0.2.0',
+  version: '0.3.0',
   // Entity filter to specify which entities this retriever applies to
   entityFilter: [{ kind: 'component' }],
   // Defines the structure of the facts returned
@@ -69,27 +78,32 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
       type: 'object',
       description: 'Dictionary of code scanning findings keyed by alert ID',
     },
+    ...createSecurityAlertAgeSchema('Code Scanning'),
   },
 
   // Main logic of the retriever
   async handler({
     config,
+    logger,
     entityFilter,
     auth,
     discovery,
   }): Promise<TechInsightFact[]> {
-    // Retrieve GitHub token from config
-    let token: string | undefined;
+    // Resolve the GitHub integration (github.com or Enterprise Server) of each repository
+    let githubRun: GitHubRetrieverRun;
     try {
-      const githubConfigs = config.getOptionalConfigArray(
-        'integrations.github',
+      githubRun = new GitHubRetrieverRun(
+        config,
+        'githubAdvancedSecurityFactRetriever',
+        logger,
       );
-      const githubConfig = githubConfigs?.[0];
-      token = githubConfig?.getOptionalString('token');
     } catch (e) {
       return [];
     }
 
+    const slaOptions = readSecuritySlaOptions(config);
+    const windowStart = getRemediationWindowStart(slaOptions);
+
     // Get catalog access token for fetching entities
     const { token: catalogToken } = await auth.getPluginRequestToken({
       onBehalfOf: await auth.getOwnServiceCredentials(),
@@ -110,11 +124,7 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
       return entity.metadata.annotations?.['github.com/project-slug'];
     });
 
-    // Use dynamic import for Octokit
-    const { Octokit } = await import('@octokit/rest');
-
-    // Initialize GitHub API client with token
-    const octokit = new Octokit({ auth: token });
+    const Octokit = await loadOctokit();
 
     // Process each entity with GitHub integration
     const results = await Promise.all(
@@ -124,9 +134,21 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
           entity.metadata.annotations?.['github.com/project-slug'] || '';
         const [owner, repo] = projectSlug.split('/');
 
+        const target = githubRun.forEntity(entity);
+        if (!target) {
+          return null;
+        }
+
+        // Initialize GitHub API client for the repository's host, sending its requests through the shared client
+        const octokit = new Octokit({
+          auth: target.integration.token,
+          baseUrl: target.client.baseUrl,
+          request: { fetch: target.run.fetch },
+        });
+
         try {
-          // Fetch Code Scanning alerts
-          const codeScanningResponse = await octokit.request(
+          // Fetch all pages of open Code Scanning alerts, the oldest alerts come last
+          const openCodeScanningAlerts = await octokit.paginate(
             'GET /repos/{owner}/{repo}/code-scanning/alerts',
             {
               owner,
@@ -137,7 +159,7 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
           );
 
           // Also fetch Secret Scanning alerts (just for count and descriptions)
-          const secretScanningResponse = await octokit.request(
+          const openSecretScanningAlerts = await octokit.paginate(
             'GET /repos/{owner}/{repo}/secret-scanning/alerts',
             {
               owner,
@@ -150,7 +172,7 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
           // Process code scanning alerts to extract only the required information
           const codeScanningAlerts: codeScanningFindingsDict = {};
 
-          codeScanningResponse.data.forEach(alert => {
+          openCodeScanningAlerts.forEach(alert => {
             // Extract necessary information for code scanning alerts
             const alertId = `code-${alert.number}`;
             const instance = alert.most_recent_instance;
@@ -165,7 +187,7 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
                 alert.rule?.name ||
                 'No description available',
               created_at: alert.created_at || '',
-              direct_link: `https://github.com/${owner}/${repo}/blob/${instance?.commit_sha}/${location?.path}#L${start_line}`,
+              direct_link: `${target.webBaseUrl}/${owner}/${repo}/blob/${instance?.commit_sha}/${location?.path}#L${start_line}`,
             };
 
             // Add to dictionary with alert number as the key
@@ -175,7 +197,7 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
           // Process secret scanning alerts to create a dictionary with only the requested fields
           const secretScanningAlerts: codeScanningFindingsDict = {};
 
-          secretScanningResponse.data.forEach(alert => {
+          openSecretScanningAlerts.forEach(alert => {
             const alertId = `secret-${alert.number}`;
 
             // Create a simplified finding with just basic information
@@ -189,6 +211,54 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
             };
           });
 
+          // Code scanning alerts fixed or dismissed within the remediation window
+          const resolvedAlerts: SecurityAlertTimestamps[] = [];
+          try {
+            for (const state of ['fixed', 'dismissed'] as const) {
+              await octokit.paginate(
+                'GET /repos/{owner}/{repo}/code-scanning/alerts',
+                {
+                  owner,
+                  repo,
+                  state,
+                  sort: 'updated',
+                  direction: 'desc',
+                  per_page: 100,
+                },
+                (response, done) => {
+                  response.data.forEach(alert => {
+                    resolvedAlerts.push({
+                      severity: alert.rule?.security_severity_level,
+                      createdAt: alert.created_at,
+                      resolvedAt: alert.fixed_at || alert.dismissed_at,
+                    });
+                  });
+                  const last = response.data[response.data.length - 1];
+                  if (
+                    last?.updated_at &&
+                    new Date(last.updated_at) < windowStart
+                  ) {
+                    done();
+                  }
+                  return [];
+                },
+              );
+            }
+          } catch (err: any) {
+            logger.warn(
+              `Failed to fetch resolved code scanning alerts for ${projectSlug}, skipping remediation time: ${err}`,
+            );
+          }
+
+          const ageFacts = computeSecurityAlertAgeFacts(
+            Object.values(codeScanningAlerts).map(alert => ({
+              severity: alert.severity,
+              createdAt: alert.created_at,
+            })),
+            resolvedAlerts,
+            slaOptions,
+          );
+
           const severityCounts = {
             critical: 0,
             high: 0,
@@ -239,6 +309,8 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
               // Store alerts directly in the facts object
               codeScanningAlerts: codeScanningAlerts as JsonObject,
               secretScanningAlerts: secretScanningAlerts as JsonObject,
+              // Alert age, SLA and remediation time facts
+              ...ageFacts,
             },
           } as TechInsightFact;
         } catch (err: any) {
@@ -247,6 +319,8 @@ export const githubAdvancedSecurityFactRetriever: FactRetriever = {
       }),
     );
 
+    githubRun.logSummary();
+
     // Filter null results and ensure they match TechInsightFact type
     return results.filter((r): r is TechInsightFact => r !== null);
   },
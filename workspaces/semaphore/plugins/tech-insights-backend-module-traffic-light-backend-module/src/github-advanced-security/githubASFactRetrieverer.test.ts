@@ -8,9 +8,13 @@ jest.mock('@backstage/catalog-client');
 jest.mock('@octokit/rest', () => ({
   Octokit: jest.fn(),
 }));
+jest.mock('../github/octokit', () => ({
+  loadOctokit: async () => require('@octokit/rest').Octokit,
+}));
 
 const mockConfig = {
   getOptionalConfigArray: jest.fn(),
+  getOptionalConfig: jest.fn(),
 };
 
 const mockAuth = {
@@ -35,7 +39,7 @@ const mockCatalogClient = {
 };
 
 const mockOctokit = {
-  request: jest.fn(),
+  paginate: jest.fn(),
 };
 
 describe('githubAdvancedSecurityFactRetriever', () => {
@@ -63,7 +67,7 @@ describe('githubAdvancedSecurityFactRetriever', () => {
     expect(githubAdvancedSecurityFactRetriever.id).toBe(
       'githubAdvancedSecurityFactRetriever',
     );
-    expect(githubAdvancedSecurityFactRetriever.version).toBe('0.2.0');
+    expect(githubAdvancedSecurityFactRetriever.version).toBe('0.3.0');
     expect(githubAdvancedSecurityFactRetriever.entityFilter).toEqual([
       { kind: 'component' },
     ]);
@@ -107,7 +111,9 @@ describe('githubAdvancedSecurityFactRetriever', () => {
     // Setup config mock
     mockConfig.getOptionalConfigArray.mockReturnValue([
       {
-        getOptionalString: jest.fn().mockReturnValue('mock-token'),
+        getOptionalString: jest.fn((key: string) =>
+          key === 'token' ? 'mock-token' : undefined,
+        ),
       },
     ]);
 
@@ -161,9 +167,9 @@ describe('githubAdvancedSecurityFactRetriever', () => {
       },
     ];
 
-    mockOctokit.request
-      .mockResolvedValueOnce({ data: mockCodeScanningAlerts })
-      .mockResolvedValueOnce({ data: mockSecretScanningAlerts });
+    mockOctokit.paginate
+      .mockResolvedValueOnce(mockCodeScanningAlerts)
+      .mockResolvedValueOnce(mockSecretScanningAlerts);
 
     const result = await githubAdvancedSecurityFactRetriever.handler(
       mockHandlerParams,
@@ -185,7 +191,9 @@ describe('githubAdvancedSecurityFactRetriever', () => {
   it('should skip entities without GitHub annotations', async () => {
     mockConfig.getOptionalConfigArray.mockReturnValue([
       {
-        getOptionalString: jest.fn().mockReturnValue('mock-token'),
+        getOptionalString: jest.fn((key: string) =>
+          key === 'token' ? 'mock-token' : undefined,
+        ),
       },
     ]);
 
@@ -212,13 +220,15 @@ describe('githubAdvancedSecurityFactRetriever', () => {
     );
 
     expect(result).toEqual([]);
-    expect(mockOctokit.request).not.toHaveBeenCalled();
+    expect(mockOctokit.paginate).not.toHaveBeenCalled();
   });
 
   it('should handle GitHub API errors by returning null', async () => {
     mockConfig.getOptionalConfigArray.mockReturnValue([
       {
-        getOptionalString: jest.fn().mockReturnValue('mock-token'),
+        getOptionalString: jest.fn((key: string) =>
+          key === 'token' ? 'mock-token' : undefined,
+        ),
       },
     ]);
 
@@ -242,7 +252,7 @@ describe('githubAdvancedSecurityFactRetriever', () => {
 
     mockCatalogClient.getEntities.mockResolvedValue({ items: mockEntities });
 
-    mockOctokit.request.mockRejectedValue(new Error('API Error'));
+    mockOctokit.paginate.mockRejectedValue(new Error('API Error'));
 
     const result = await githubAdvancedSecurityFactRetriever.handler(
       mockHandlerParams,
@@ -255,7 +265,9 @@ describe('githubAdvancedSecurityFactRetriever', () => {
   it('should count different severity levels correctly', async () => {
     mockConfig.getOptionalConfigArray.mockReturnValue([
       {
-        getOptionalString: jest.fn().mockReturnValue('mock-token'),
+        getOptionalString: jest.fn((key: string) =>
+          key === 'token' ? 'mock-token' : undefined,
+        ),
       },
     ]);
 
@@ -309,9 +321,9 @@ describe('githubAdvancedSecurityFactRetriever', () => {
       },
     ];
 
-    mockOctokit.request
-      .mockResolvedValueOnce({ data: mockCodeScanningAlerts })
-      .mockResolvedValueOnce({ data: [] });
+    mockOctokit.paginate
+      .mockResolvedValueOnce(mockCodeScanningAlerts)
+      .mockResolvedValueOnce([]);
 
     const result = await githubAdvancedSecurityFactRetriever.handler(
       mockHandlerParams,
@@ -327,7 +339,9 @@ describe('githubAdvancedSecurityFactRetriever', () => {
   it('should handle empty alerts responses', async () => {
     mockConfig.getOptionalConfigArray.mockReturnValue([
       {
-        getOptionalString: jest.fn().mockReturnValue('mock-token'),
+        getOptionalString: jest.fn((key: string) =>
+          key === 'token' ? 'mock-token' : undefined,
+        ),
       },
     ]);
 
@@ -351,9 +365,9 @@ describe('githubAdvancedSecurityFactRetriever', () => {
 
     mockCatalogClient.getEntities.mockResolvedValue({ items: mockEntities });
 
-    mockOctokit.request
-      .mockResolvedValueOnce({ data: [] }) // No code scanning alerts
-      .mockResolvedValueOnce({ data: [] }); // No secret scanning alerts
+    mockOctokit.paginate
+      .mockResolvedValueOnce([]) // No code scanning alerts
+      .mockResolvedValueOnce([]); // No secret scanning alerts
 
     const result = await githubAdvancedSecurityFactRetriever.handler(
       mockHandlerParams,
@@ -368,6 +382,86 @@ describe('githubAdvancedSecurityFactRetriever', () => {
       lowCount: 0,
       codeScanningAlerts: {},
       secretScanningAlerts: {},
+      oldestCriticalAlertAgeDays: 0,
+      oldestHighAlertAgeDays: 0,
+      oldestMediumAlertAgeDays: 0,
+      oldestLowAlertAgeDays: 0,
+      criticalAlertsPastSla: 0,
+      highAlertsPastSla: 0,
+      alertsPastSla: 0,
+      meanTimeToRemediateDays: 0,
+      remediatedAlertsInWindow: 0,
     });
   });
+
+  // Open alerts are read from all pages, the oldest alerts are on the last page
+  it('should count the open alerts of all pages', async () => {
+    mockConfig.getOptionalConfigArray.mockReturnValue([
+      {
+        getOptionalString: jest.fn((key: string) =>
+          key === 'token' ? 'mock-token' : undefined,
+        ),
+      },
+    ]);
+
+    mockAuth.getOwnServiceCredentials.mockResolvedValue({});
+    mockAuth.getPluginRequestToken.mockResolvedValue({
+      token: 'catalog-token',
+    });
+
+    mockCatalogClient.getEntities.mockResolvedValue({
+      items: [
+        {
+          kind: 'Component',
+          metadata: {
+            name: 'test-component',
+            namespace: 'default',
+            annotations: { 'github.com/project-slug': 'owner/repo' },
+          },
+        },
+      ],
+    });
+
+    // A code scanning alert created the given number of days ago
+    const alert = (number: number, daysAgo: number) => ({
+      number,
+      rule: { security_severity_level: 'high' },
+      created_at: new Date(
+        Date.now() - daysAgo * 24 * 60 * 60 * 1000,
+      ).toISOString(),
+      most_recent_instance: {
+        commit_sha: 'abc',
+        location: { path: 'src/app.js', start_line: 1 },
+      },
+    });
+    const firstPage = Array.from({ length: 100 }, (_, index) =>
+      alert(index + 1, 1),
+    );
+    const lastPage = [alert(101, 200), alert(102, 100)];
+
+    mockOctokit.paginate
+      .mockResolvedValueOnce([...firstPage, ...lastPage])
+      .mockResolvedValueOnce([]);
+
+    const result = await githubAdvancedSecurityFactRetriever.handler(
+      mockHandlerParams,
+    );
+
+    expect(mockOctokit.paginate).toHaveBeenCalledWith(
+      'GET /repos/{owner}/{repo}/code-scanning/alerts',
+      { owner: 'owner', repo: 'repo', state: 'open', per_page: 100 },
+    );
+    expect(mockOctokit.paginate).toHaveBeenCalledWith(
+      'GET /repos/{owner}/{repo}/secret-scanning/alerts',
+      { owner: 'owner', repo: 'repo', state: 'open', per_page: 100 },
+    );
+    expect(result[0]?.facts).toEqual(
+      expect.objectContaining({
+        openCodeScanningAlertCount: 102,
+        highCount: 102,
+        oldestHighAlertAgeDays: 200,
+        highAlertsPastSla: 2,
+      }),
+    );
+  });
 });
@@ -0,0 +1,403 @@
+/**
+ * Shared GitHub client used by every GitHub based fact retriever in this module.
+ * It caps the number of concurrent requests, honours GitHub's rate limit headers with backoff,
+ * serves unchanged resources from a local ETag cache and keeps a request budget per retriever run.
+ */
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+
+export const DEFAULT_GITHUB_API_BASE_URL = 'https://api.github.com';
+
+// Options to tune the behaviour of a GitHubClient
+export interface GitHubClientOptions {
+  token?: string;
+  baseUrl?: string;
+  maxConcurrency?: number; // Maximum number of requests in flight at the same time
+  maxRetries?: number; // Maximum number of retries for rate limited requests
+  retryBaseDelayMs?: number; // Base delay for the exponential backoff
+  maxWaitMs?: number; // Longest time to wait for a rate limit reset before giving up
+  cacheSize?: number; // Maximum number of responses kept in the ETag cache
+}
+
+// Last known state of the GitHub rate limit, read from the response headers
+export type GitHubRateLimitState = {
+  limit?: number;
+  remaining?: number;
+  resetAt?: number; // Epoch milliseconds
+};
+
+// Request budget of a single retriever run
+export type GitHubRunBudget = {
+  requests: number;
+  cacheHits: number;
+  retries: number;
+  rateLimited: number;
+  failures: number;
+  rateLimit: GitHubRateLimitState;
+};
+
+// Cached body and headers of a response, keyed by URL
+type CacheEntry = {
+  etag: string;
+  body: string;
+  headers: Record<string, string>;
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function readNumberHeader(
+  response: Response,
+  name: string,
+): number | undefined {
+  const value = parseInt(response.headers.get(name) ?? '', 10);
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * A single run of a fact retriever against the shared client.
+ * It exposes the same fetch signature as the global fetch, so it can be handed to Octokit
+ * or used directly, and counts the requests made during the run.
+ */
+export class GitHubClientRun {
+  private readonly budget: Omit<GitHubRunBudget, 'rateLimit'> = {
+    requests: 0,
+    cacheHits: 0,
+    retries: 0,
+    rateLimited: 0,
+    failures: 0,
+  };
+
+  constructor(
+    private readonly client: GitHubClient,
+    private readonly retrieverId: string,
+    private readonly logger?: LoggerService,
+  ) {}
+
+  /**
+   * Performs a request through the shared client and records it in this run's budget.
+   */
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    return this.client.send(url, init, this.budget, this.logger);
+  };
+
+  /**
+   * Returns the request budget used so far by this run.
+   */
+  getBudget(): GitHubRunBudget {
+    return { ...this.budget, rateLimit: this.client.getRateLimit() };
+  }
+
+  /**
+   * Logs a summary of the requests made by this run and the remaining rate limit.
+   */
+  logSummary(): void {
+    const { requests, cacheHits, retries, rateLimited, failures, rateLimit } =
+      this.getBudget();
+    const remaining =
+      rateLimit.remaining !== undefined
+        ? `${rateLimit.remaining}/${rateLimit.limit ?? '?'}`
+        : 'unknown';
+    const resetAt = rateLimit.resetAt
+      ? new Date(rateLimit.resetAt).toISOString()
+      : 'unknown';
+
+    const message = `${this.retrieverId} GitHub budget: ${requests} requests, ${cacheHits} served from cache, ${retries} retries, ${rateLimited} rate limited, ${failures} failed; rate limit remaining ${remaining}, resets at ${resetAt}`;
+
+    if (rateLimited > 0 || failures > 0) {
+      this.logger?.warn(message);
+    } else {
+      this.logger?.info(message);
+    }
+  }
+}
+
+/**
+ * Rate limit aware GitHub client. One instance is shared per GitHub host and token,
+ * see {@link getGitHubClient}.
+ */
+export class GitHubClient {
+  readonly baseUrl: string;
+  private readonly token?: string;
+  private readonly maxConcurrency: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly maxWaitMs: number;
+  private readonly cacheSize: number;
+
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly queue: Array<() => void> = [];
+  private active = 0;
+  private rateLimit: GitHubRateLimitState = {};
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_GITHUB_API_BASE_URL).replace(
+      /\/+$/,
+      '',
+    );
+    this.token = options.token;
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.maxWaitMs = options.maxWaitMs ?? 60_000;
+    this.cacheSize = options.cacheSize ?? 1000;
+  }
+
+  /**
+   * Starts a new run for the given retriever. Requests made through the run share the
+   * concurrency limit, rate limit state and cache of this client.
+   */
+  startRun(retrieverId: string, logger?: LoggerService): GitHubClientRun {
+    return new GitHubClientRun(this, retrieverId, logger);
+  }
+
+  /**
+   * Returns the last known rate limit state.
+   */
+  getRateLimit(): GitHubRateLimitState {
+    return { ...this.rateLimit };
+  }
+
+  /**
+   * Sends a request, waiting for a free slot and for the rate limit to allow it.
+   * Rate limited responses are retried with backoff; a 304 Not Modified is answered from the cache.
+   */
+  async send(
+    url: string,
+    init: RequestInit,
+    budget: Omit<GitHubRunBudget, 'rateLimit'>,
+    logger?: LoggerService,
+  ): Promise<Response> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const cacheKey = method === 'GET' ? url : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit(logger);
+      await this.acquire();
+
+      let response: Response;
+      try {
+        const cached = cacheKey ? this.cache.get(cacheKey) : undefined;
+        let requestInit = init;
+        if (cached) {
+          const headers = new Headers(init.headers);
+          headers.set('If-None-Match', cached.etag);
+          requestInit = { ...init, headers };
+        }
+        budget.requests++;
+        response = await fetch(url, requestInit);
+      } catch (error) {
+        budget.failures++;
+        throw error;
+      } finally {
+        this.release();
+      }
+
+      this.updateRateLimit(response);
+
+      if (response.status === 304 && cacheKey && this.cache.has(cacheKey)) {
+        budget.cacheHits++;
+        const cached = this.cache.get(cacheKey)!;
+        return new Response(cached.body, {
+          status: 200,
+          headers: cached.headers,
+        });
+      }
+
+      const delay = this.getRetryDelay(response, attempt);
+      if (delay === undefined) {
+        if (!response.ok) {
+          budget.failures++;
+        } else if (cacheKey) {
+          await this.store(cacheKey, response);
+        }
+        return response;
+      }
+
+      budget.rateLimited++;
+      if (attempt >= this.maxRetries || delay > this.maxWaitMs) {
+        budget.failures++;
+        logger?.warn(
+          `GitHub rate limit hit for ${url}, giving up after ${attempt} retries`,
+        );
+        return response;
+      }
+
+      budget.retries++;
+      logger?.warn(
+        `GitHub rate limit hit for ${url}, retrying in ${Math.ceil(
+          delay / 1000,
+        )}s`,
+      );
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Returns how long to wait before retrying a rate limited response,
+   * or undefined when the response was not rate limited.
+   */
+  private getRetryDelay(
+    response: Response,
+    attempt: number,
+  ): number | undefined {
+    const status = response.status;
+    if (status !== 403 && status !== 429) {
+      return undefined;
+    }
+
+    const retryAfter = readNumberHeader(response, 'Retry-After');
+    if (retryAfter !== undefined) {
+      return retryAfter * 1000;
+    }
+
+    const remaining = readNumberHeader(response, 'X-RateLimit-Remaining');
+    const reset = readNumberHeader(response, 'X-RateLimit-Reset');
+    if (remaining === 0 && reset !== undefined) {
+      return Math.max(reset * 1000 - Date.now(), 0);
+    }
+
+    // Fall back to exponential backoff; a 403 without rate limit headers is a permission error
+    if (status === 429 || remaining === 0) {
+      return this.retryBaseDelayMs * 2 ** attempt;
+    }
+    return undefined;
+  }
+
+  /**
+   * Waits for the primary rate limit to reset once it is exhausted.
+   */
+  private async waitForRateLimit(logger?: LoggerService) {
+    const { remaining, resetAt } = this.rateLimit;
+    if (remaining === undefined || remaining > 0 || !resetAt) {
+      return;
+    }
+
+    const wait = resetAt - Date.now();
+    if (wait <= 0) {
+      this.rateLimit = { ...this.rateLimit, remaining: undefined };
+      return;
+    }
+    if (wait > this.maxWaitMs) {
+      // Waiting longer would stall the retriever, let the request fail instead
+      return;
+    }
+
+    logger?.warn(
+      `GitHub rate limit exhausted, waiting ${Math.ceil(
+        wait / 1000,
+      )}s for it to reset`,
+    );
+    await sleep(wait);
+  }
+
+  private updateRateLimit(response: Response) {
+    const limit = readNumberHeader(response, 'X-RateLimit-Limit');
+    const remaining = readNumberHeader(response, 'X-RateLimit-Remaining');
+    const reset = readNumberHeader(response, 'X-RateLimit-Reset');
+
+    if (remaining === undefined) {
+      return;
+    }
+    this.rateLimit = {
+      limit: limit ?? this.rateLimit.limit,
+      remaining,
+      resetAt: reset !== undefined ? reset * 1000 : this.rateLimit.resetAt,
+    };
+  }
+
+  /**
+   * Keeps the body of a successful response with an ETag, so that it can be
+   * requested conditionally next time.
+   */
+  private async store(cacheKey: string, response: Response) {
+    const etag = response.headers.get('ETag');
+    if (!response.ok || !etag) {
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    this.cache.delete(cacheKey);
+    this.cache.set(cacheKey, {
+      etag,
+      body: await response.clone().text(),
+      headers,
+    });
+
+    // Evict the oldest entry once the cache is full
+    if (this.cache.size > this.cacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+  }
+
+  private async acquire() {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.queue.push(resolve));
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot over to the next request in line
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Default headers for requests to the GitHub REST API.
+   */
+  getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github.v3+json',
+    };
+    if (this.token) {
+      headers.Authorization = `token ${this.token}`;
+    }
+    return headers;
+  }
+}
+
+// Clients shared between all retrievers of this module, keyed by host and token
+const sharedClients = new Map<string, GitHubClient>();
+
+/**
+ * Returns the GitHub client shared by all retrievers for the given host and token.
+ * Limits can be tuned under `techInsights.argus.github` in app-config.
+ *
+ * @param config - The Backstage application configuration
+ * @param token - The GitHub token to authenticate with
+ * @param baseUrl - The GitHub REST API base URL
+ */
+export function getGitHubClient(
+  config: Config,
+  token?: string,
+  baseUrl: string = DEFAULT_GITHUB_API_BASE_URL,
+): GitHubClient {
+  const key = `${baseUrl}|${token ?? ''}`;
+  let client = sharedClients.get(key);
+  if (!client) {
+    const githubConfig = config.getOptionalConfig('techInsights.argus.github');
+    client = new GitHubClient({
+      token,
+      baseUrl,
+      maxConcurrency: githubConfig?.getOptionalNumber('maxConcurrency'),
+      maxRetries: githubConfig?.getOptionalNumber('maxRetries'),
+      maxWaitMs: githubConfig?.getOptionalNumber('maxWaitMs'),
+      cacheSize: githubConfig?.getOptionalNumber('cacheSize'),
+    });
+    sharedClients.set(key, client);
+  }
+  return client;
+}
@@ -0,0 +1,188 @@
+/**
+ * Resolves which `integrations.github` entry serves a catalog entity, so that retrievers can
+ * talk to github.com and GitHub Enterprise Server instances side by side.
+ */
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import {
+  DEFAULT_GITHUB_API_BASE_URL,
+  GitHubClient,
+  GitHubClientRun,
+  getGitHubClient,
+} from './githubClient';
+
+// Annotation to pin an entity to a GitHub host when its source location does not tell
+export const GITHUB_HOST_ANNOTATION = 'tech-insights.io/github-host';
+
+const DEFAULT_GITHUB_HOST = 'github.com';
+
+// A single entry of `integrations.github`
+export type GitHubIntegration = {
+  host: string;
+  apiBaseUrl: string;
+  token?: string;
+};
+
+// Everything a retriever needs to query GitHub for one entity
+export type GitHubEntityTarget = {
+  integration: GitHubIntegration;
+  client: GitHubClient;
+  run: GitHubClientRun;
+  webBaseUrl: string; // e.g. https://github.com, used for links shown to users
+};
+
+/**
+ * Reads all `integrations.github` entries. The API base URL defaults to api.github.com for
+ * github.com and to the `/api/v3` endpoint for GitHub Enterprise Server hosts.
+ *
+ * @param config - The Backstage application configuration
+ */
+export function readGitHubIntegrations(config: Config): GitHubIntegration[] {
+  const githubConfigs = config.getOptionalConfigArray('integrations.github');
+  return (githubConfigs ?? []).map(githubConfig => {
+    const host = githubConfig.getOptionalString('host') ?? DEFAULT_GITHUB_HOST;
+    const apiBaseUrl =
+      githubConfig.getOptionalString('apiBaseUrl') ??
+      (host === DEFAULT_GITHUB_HOST
+        ? DEFAULT_GITHUB_API_BASE_URL
+        : `https://${host}/api/v3`);
+    return {
+      host,
+      apiBaseUrl: apiBaseUrl.replace(/\/+$/, ''),
+      token: githubConfig.getOptionalString('token'),
+    };
+  });
+}
+
+/**
+ * Returns the hostname of a location annotation such as `url:https://github.com/org/repo/tree/main/`.
+ */
+function hostFromLocation(location?: string): string | undefined {
+  if (!location) {
+    return undefined;
+  }
+  try {
+    const url = new URL(location.replace(/^url:/, ''));
+    return url.protocol === 'https:' || url.protocol === 'http:'
+      ? url.host
+      : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Determines the GitHub host of an entity from the host annotation, its source location
+ * or the location that manages it. Returns undefined when the entity gives no hint.
+ *
+ * @param entity - The catalog entity
+ */
+export function getEntityGitHubHost(entity: Entity): string | undefined {
+  const annotations = entity.metadata.annotations ?? {};
+  return (
+    annotations[GITHUB_HOST_ANNOTATION] ||
+    hostFromLocation(annotations['backstage.io/source-location']) ||
+    hostFromLocation(annotations['backstage.io/managed-by-location'])
+  );
+}
+
+/**
+ * Picks the integration matching the entity's GitHub host. Entities without a host hint use the
+ * github.com integration, or the first one configured; without any configuration anonymous
+ * access to github.com is assumed.
+ *
+ * @param integrations - The configured GitHub integrations
+ * @param entity - The catalog entity
+ */
+export function resolveGitHubIntegration(
+  integrations: GitHubIntegration[],
+  entity: Entity,
+): GitHubIntegration | undefined {
+  const host = getEntityGitHubHost(entity);
+  if (host) {
+    return integrations.find(integration => integration.host === host);
+  }
+  return (
+    integrations.find(
+      integration => integration.host === DEFAULT_GITHUB_HOST,
+    ) ??
+    integrations[0] ?? {
+      host: DEFAULT_GITHUB_HOST,
+      apiBaseUrl: DEFAULT_GITHUB_API_BASE_URL,
+    }
+  );
+}
+
+/**
+ * Keeps one run of the shared GitHub client per host for the duration of a retriever run.
+ */
+export class GitHubRetrieverRun {
+  private readonly integrations: GitHubIntegration[];
+  private readonly targets = new Map<string, GitHubEntityTarget>();
+
+  /**
+   * @param config - The Backstage application configuration
+   * @param retrieverId - The id of the fact retriever, used in the budget summary
+   * @param logger - Logger for rate limit warnings and the budget summary
+   */
+  constructor(
+    private readonly config: Config,
+    private readonly retrieverId: string,
+    private readonly logger?: LoggerService,
+  ) {
+    this.integrations = readGitHubIntegrations(config);
+  }
+
+  /**
+   * Returns true when at least one integration has a token configured.
+   */
+  hasToken(): boolean {
+    return this.integrations.some(integration => !!integration.token);
+  }
+
+  /**
+   * Returns the client, run and links to use for the entity, or undefined when its GitHub host
+   * has no matching integration.
+   *
+   * @param entity - The catalog entity
+   */
+  forEntity(entity: Entity): GitHubEntityTarget | undefined {
+    const integration = resolveGitHubIntegration(this.integrations, entity);
+    if (!integration) {
+      this.logger?.warn(
+        `No integrations.github entry for host ${getEntityGitHubHost(
+          entity,
+        )} of ${entity.metadata.name}`,
+      );
+      return undefined;
+    }
+
+    let target = this.targets.get(integration.host);
+    if (!target) {
+      const client = getGitHubClient(
+        this.config,
+        integration.token,
+        integration.apiBaseUrl,
+      );
+      target = {
+        integration,
+        client,
+        run: client.startRun(
+          `${this.retrieverId} [${integration.host}]`,
+          this.logger,
+        ),
+        webBaseUrl: `https://${integration.host}`,
+      };
+      this.targets.set(integration.host, target);
+    }
+    return target;
+  }
+
+  /**
+   * Logs the request budget of every host used during this run.
+   */
+  logSummary(): void {
+    this.targets.forEach(target => target.run.logSummary());
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Loads the Octokit REST client. @octokit/rest is only published as an ES module, so the
+ * CommonJS build of the backend imports it dynamically.
+ */
+export async function loadOctokit() {
+  const { Octokit } = await import('@octokit/rest');
+  return Octokit;
+}
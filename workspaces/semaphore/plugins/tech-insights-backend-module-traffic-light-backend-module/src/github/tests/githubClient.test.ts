@@ -0,0 +1,182 @@
+import { ConfigReader } from '@backstage/config';
+import { GitHubClient, getGitHubClient } from '../githubClient';
+
+// Mock global fetch for GitHub API requests
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+const mockLogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn(),
+};
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) =>
+  new Response(status === 304 ? null : JSON.stringify(body), {
+    status,
+    headers,
+  });
+
+describe('GitHubClient', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('limits the number of requests in flight', async () => {
+    const client = new GitHubClient({ maxConcurrency: 2 });
+    const run = client.startRun('test-retriever', mockLogger);
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockFetch.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return jsonResponse({});
+    });
+
+    await Promise.all(
+      [1, 2, 3, 4, 5].map(i => run.fetch(`https://api.github.com/test/${i}`)),
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+    expect(run.getBudget().requests).toBe(5);
+  });
+
+  it('retries rate limited requests after Retry-After', async () => {
+    const client = new GitHubClient();
+    const run = client.startRun('test-retriever', mockLogger);
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({}, 403, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    const response = await run.fetch('https://api.github.com/test');
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(run.getBudget()).toEqual(
+      expect.objectContaining({ requests: 2, retries: 1, rateLimited: 1 }),
+    );
+  });
+
+  it('gives up once the retries are exhausted', async () => {
+    const client = new GitHubClient({ maxRetries: 1, retryBaseDelayMs: 1 });
+    const run = client.startRun('test-retriever', mockLogger);
+
+    mockFetch.mockImplementation(async () => jsonResponse({}, 429));
+
+    const response = await run.fetch('https://api.github.com/test');
+
+    expect(response.status).toBe(429);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(run.getBudget().failures).toBe(1);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('giving up'),
+    );
+  });
+
+  it('does not retry permission errors', async () => {
+    const client = new GitHubClient();
+    const run = client.startRun('test-retriever', mockLogger);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, 403));
+
+    const response = await run.fetch('https://api.github.com/test');
+
+    expect(response.status).toBe(403);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 304 Not Modified from the ETag cache', async () => {
+    const client = new GitHubClient({ token: 'test-token' });
+    const run = client.startRun('test-retriever', mockLogger);
+
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({ workflows: [{ id: 1 }] }, 200, { ETag: '"abc"' }),
+      )
+      .mockResolvedValueOnce(jsonResponse(null, 304));
+
+    const first = await run.fetch('https://api.github.com/test', {
+      headers: client.getHeaders(),
+    });
+    expect(await first.json()).toEqual({ workflows: [{ id: 1 }] });
+
+    const second = await run.fetch('https://api.github.com/test', {
+      headers: client.getHeaders(),
+    });
+
+    const [url, init] = mockFetch.mock.lastCall;
+    expect(url).toBe('https://api.github.com/test');
+    expect(Object.fromEntries(init.headers)).toEqual({
+      accept: 'application/vnd.github.v3+json',
+      authorization: 'token test-token',
+      'if-none-match': '"abc"',
+    });
+    expect(second.status).toBe(200);
+    expect(await second.json()).toEqual({ workflows: [{ id: 1 }] });
+    expect(run.getBudget().cacheHits).toBe(1);
+  });
+
+  it('keeps the headers of a Headers instance on conditional requests', async () => {
+    const client = new GitHubClient({ token: 'test-token' });
+    const run = client.startRun('test-retriever', mockLogger);
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({}, 200, { ETag: '"abc"' }))
+      .mockResolvedValueOnce(jsonResponse(null, 304));
+
+    const headers = new Headers(client.getHeaders());
+    await run.fetch('https://api.github.com/test', { headers });
+    await run.fetch('https://api.github.com/test', { headers });
+
+    const init = mockFetch.mock.lastCall[1];
+    expect(init.headers.get('Authorization')).toBe('token test-token');
+    expect(init.headers.get('If-None-Match')).toBe('"abc"');
+  });
+
+  it('logs a budget summary with the remaining rate limit', async () => {
+    const client = new GitHubClient();
+    const run = client.startRun('test-retriever', mockLogger);
+
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({}, 200, {
+        'X-RateLimit-Limit': '5000',
+        'X-RateLimit-Remaining': '4999',
+        'X-RateLimit-Reset': '1700000000',
+      }),
+    );
+
+    await run.fetch('https://api.github.com/test');
+    run.logSummary();
+
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'test-retriever GitHub budget: 1 requests, 0 served from cache',
+      ),
+    );
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      expect.stringContaining('rate limit remaining 4999/5000'),
+    );
+  });
+
+  it('shares one client per host and token', () => {
+    const config = new ConfigReader({});
+
+    expect(getGitHubClient(config, 'token-a')).toBe(
+      getGitHubClient(config, 'token-a'),
+    );
+    expect(getGitHubClient(config, 'token-a')).not.toBe(
+      getGitHubClient(config, 'token-b'),
+    );
+  });
+});
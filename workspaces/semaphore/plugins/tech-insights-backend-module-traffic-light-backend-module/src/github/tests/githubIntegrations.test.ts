@@ -0,0 +1,145 @@
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import {
+  GitHubRetrieverRun,
+  getEntityGitHubHost,
+  readGitHubIntegrations,
+  resolveGitHubIntegration,
+} from '../githubIntegrations';
+
+const mockLogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn(),
+};
+
+const config = new ConfigReader({
+  integrations: {
+    github: [
+      { host: 'github.com', token: 'public-token' },
+      { host: 'github.example.com', token: 'enterprise-token' },
+      {
+        host: 'ghe.internal',
+        apiBaseUrl: 'https://ghe.internal/custom/api/',
+        token: 'internal-token',
+      },
+    ],
+  },
+});
+
+const createEntity = (annotations: Record<string, string>): Entity => ({
+  apiVersion: 'backstage.io/v1alpha1',
+  kind: 'Component',
+  metadata: {
+    name: 'test-service',
+    annotations: { 'github.com/project-slug': 'owner/repo', ...annotations },
+  },
+});
+
+describe('githubIntegrations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reads all GitHub integrations with their API base URLs', () => {
+    expect(readGitHubIntegrations(config)).toEqual([
+      {
+        host: 'github.com',
+        apiBaseUrl: 'https://api.github.com',
+        token: 'public-token',
+      },
+      {
+        host: 'github.example.com',
+        apiBaseUrl: 'https://github.example.com/api/v3',
+        token: 'enterprise-token',
+      },
+      {
+        host: 'ghe.internal',
+        apiBaseUrl: 'https://ghe.internal/custom/api',
+        token: 'internal-token',
+      },
+    ]);
+  });
+
+  it('determines the host from annotations and locations', () => {
+    expect(
+      getEntityGitHubHost(
+        createEntity({ 'tech-insights.io/github-host': 'ghe.internal' }),
+      ),
+    ).toBe('ghe.internal');
+    expect(
+      getEntityGitHubHost(
+        createEntity({
+          'backstage.io/source-location':
+            'url:https://github.example.com/owner/repo/tree/main/',
+        }),
+      ),
+    ).toBe('github.example.com');
+    expect(
+      getEntityGitHubHost(
+        createEntity({
+          'backstage.io/managed-by-location': 'file:../catalog-info.yaml',
+        }),
+      ),
+    ).toBeUndefined();
+  });
+
+  it('resolves the integration matching the entity host', () => {
+    const integrations = readGitHubIntegrations(config);
+
+    expect(
+      resolveGitHubIntegration(
+        integrations,
+        createEntity({
+          'backstage.io/source-location':
+            'url:https://github.example.com/owner/repo/tree/main/',
+        }),
+      )?.token,
+    ).toBe('enterprise-token');
+    expect(resolveGitHubIntegration(integrations, createEntity({}))?.host).toBe(
+      'github.com',
+    );
+    expect(
+      resolveGitHubIntegration(
+        integrations,
+        createEntity({ 'tech-insights.io/github-host': 'unknown.host' }),
+      ),
+    ).toBeUndefined();
+  });
+
+  it('falls back to anonymous github.com access without integrations', () => {
+    expect(resolveGitHubIntegration([], createEntity({}))).toEqual({
+      host: 'github.com',
+      apiBaseUrl: 'https://api.github.com',
+    });
+  });
+
+  it('keeps one client run per host', () => {
+    const githubRun = new GitHubRetrieverRun(
+      config,
+      'test-retriever',
+      mockLogger,
+    );
+
+    const publicTarget = githubRun.forEntity(createEntity({}));
+    const enterpriseTarget = githubRun.forEntity(
+      createEntity({ 'tech-insights.io/github-host': 'github.example.com' }),
+    );
+
+    expect(githubRun.forEntity(createEntity({}))).toBe(publicTarget);
+    expect(enterpriseTarget?.client.baseUrl).toBe(
+      'https://github.example.com/api/v3',
+    );
+    expect(enterpriseTarget?.webBaseUrl).toBe('https://github.example.com');
+    expect(
+      githubRun.forEntity(
+        createEntity({ 'tech-insights.io/github-host': 'unknown.host' }),
+      ),
+    ).toBeUndefined();
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('unknown.host'),
+    );
+  });
+});
@@ -11,4 +11,8 @@ export { default } from './module';
 export type {
   DynamicThresholdResult,
   DynamicThresholdCheck,
+  ThresholdSource,
+  CheckLevel,
+  DynamicThresholdConditionResult,
 } from './argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+export type { DynamicThresholdCondition } from './argusPanoptesFactChecker/service/compositeConditions';
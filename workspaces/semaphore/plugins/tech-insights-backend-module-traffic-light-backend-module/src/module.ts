@@ -20,6 +20,17 @@ import { githubAdvancedSecurityFactRetriever } from './github-advanced-security/
 import { githubPipelineStatusFactRetriever } from './pipelines/preproductionFactRetriever';
 import { foundationPipelineStatusFactRetriever } from './pipelines/foundationFactRetriever';
 import { reportingPipelineStatusFactRetriever } from './pipelines/reportingFactRetriever';
+// Imports retriever that collects pipeline metrics from Azure Pipelines builds.
+import { azurePipelinesStatusFactRetriever } from './pipelines/azurePipelinesFactRetriever';
+// Imports the pipeline engine that creates a retriever for each configured pipeline profile.
+import { createGitHubPipelineFactRetriever } from './pipelines/githubPipelineEngine';
+import {
+  readPipelineProfiles,
+  readPipelineWindowDays,
+} from './pipelines/pipelineProfiles';
+// Imports retrievers that collect pipeline metrics from GitLab CI and Jenkins.
+import { gitlabPipelineStatusFactRetriever } from './pipelines/gitlabFactRetriever';
+import { jenkinsPipelineStatusFactRetriever } from './pipelines/jenkinsFactRetriever';
 // import {createSonarCloudFactRetriever } from './sonarCloud/sonarCloudFactRetriever';
 // Imports retriever that queries Azure DevOps bugs data.
 import { createAzureDevOpsBugsRetriever } from './azure/azureDevOpsFactRetriever';
@@ -27,8 +38,14 @@ import { createAzureDevOpsBugsRetriever } from './azure/azureDevOpsFactRetriever
 import { createSonarCloudFactRetriever } from './sonarCloud/sonarCloudFactRetriever';
 // Imports the fact retriever that collects data from Black Duck.
 import { createBlackDuckFactRetriever } from './blackduck/blackduckFactRetriever';
+// Imports the fact retriever that collects code health from CodeScene.
+import { createCodeSceneFactRetriever } from './codescene/codesceneFactRetriever';
+// Imports the fact retriever that collects static analysis results from Fortify.
+import { createFortifyFactRetriever } from './fortify/fortifyFactRetriever';
 // Imports the fact checker factory that evaluates dynamic thresholds.
 import { DynamicThresholdFactCheckerFactory } from './argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+// Imports the loader that merges checks from app-config with the built-in checks.
+import { loadDynamicThresholdChecks } from './argusPanoptesFactChecker/service/checksConfig';
 // Imports the CatalogClient to interact with the Backstage catalog.
 import { CatalogClient } from '@backstage/catalog-client';
 // Imports the Black Duck checks for security risk evaluation.
@@ -38,10 +55,16 @@ import { AuthenticatedCatalogApi } from './authenticatedCatalogApi';
 import { foundationPipelineChecks } from './pipelines/foundationFactChecker';
 import { preproductionPipelineChecks } from './pipelines/preproductionFactChecker';
 import { reportingPipelineChecks } from './pipelines/reportingFactChecker';
+import { azurePipelinesChecks } from './pipelines/azurePipelinesFactChecker';
+import { gitlabPipelineChecks } from './pipelines/gitlabFactChecker';
+import { jenkinsPipelineChecks } from './pipelines/jenkinsFactChecker';
 import { githubAdvancedSecuritychecks } from './github-advanced-security/githubASFactChecker';
 
 import { azureBugsChecks } from './azure/azureDevOpsFactChecker';
 import { DependabotChecks } from './dependabot/dependabotFactChecker';
+import { SonarCloudChecks } from './sonarCloud/sonarCloudFactChecker';
+import { CodeSceneChecks } from './codescene/codesceneFactChecker';
+import { FortifyChecks } from './fortify/fortifyFactChecker';
 
 // Defines a backend module that integrates with the tech insights plugin.
 export default createBackendModule({
@@ -79,15 +102,37 @@ export default createBackendModule({
 
         const blackDuckFactRetriever = createBlackDuckFactRetriever(config);
 
+        const codeSceneFactRetriever = createCodeSceneFactRetriever(config);
+
+        const fortifyFactRetriever = createFortifyFactRetriever(config);
+
+        // An invalid pipeline window fails the startup instead of each run of the pipeline retrievers
+        readPipelineWindowDays(config);
+        const pipelineProfileFactRetrievers = readPipelineProfiles(config).map(
+          profile => createGitHubPipelineFactRetriever(profile),
+        );
+
         providers.addFactRetrievers({
           githubAdvancedSecurityFactRetriever,
           'azure-devops-bugs-retriever': createAzureDevOpsBugsRetriever,
           foundationPipelineStatusFactRetriever,
           githubPipelineStatusFactRetriever,
           reportingPipelineStatusFactRetriever,
+          azurePipelinesStatusFactRetriever,
+          gitlabPipelineStatusFactRetriever,
+          jenkinsPipelineStatusFactRetriever,
           dependabotFactRetriever: factRetriever, // Adds the dependabotFactRetriever to the system.
           [sonarCloudFactRetriever.id]: sonarCloudFactRetriever, // Adds the sonarCloudFactRetriever to the system.
           [blackDuckFactRetriever.id]: blackDuckFactRetriever, // Adds the blackDuckFactRetriever to the system.
+          [codeSceneFactRetriever.id]: codeSceneFactRetriever, // Adds the codeSceneFactRetriever to the system.
+          [fortifyFactRetriever.id]: fortifyFactRetriever, // Adds the fortifyFactRetriever to the system.
+          // Adds a retriever for each pipeline profile in techInsights.argus.pipelineProfiles.
+          ...Object.fromEntries(
+            pipelineProfileFactRetrievers.map(retriever => [
+              retriever.id,
+              retriever,
+            ]),
+          ),
         });
 
         // Register fact checkers
@@ -107,24 +152,38 @@ export default createBackendModule({
         );
 
         // Create a new instance of the DynamicThresholdFactCheckerFactory
-        // and pass the checks, logger, and authenticated catalog API to it.
-        const sonarCloudFactCheckerFactory =
+        // and pass the checks, logger, authenticated catalog API and config to it.
+        const dynamicThresholdFactCheckerFactory =
           new DynamicThresholdFactCheckerFactory({
-            checks: [
-              ...BlackDuckChecks,
-              ...foundationPipelineChecks,
-              ...preproductionPipelineChecks,
-              ...reportingPipelineChecks,
-              ...githubAdvancedSecuritychecks,
-              ...azureBugsChecks,
-              ...DependabotChecks,
-            ],
+            // Built-in checks merged with the checks defined in app-config
+            checks: loadDynamicThresholdChecks(
+              config,
+              [
+                ...BlackDuckChecks,
+                ...foundationPipelineChecks,
+                ...preproductionPipelineChecks,
+                ...reportingPipelineChecks,
+                ...azurePipelinesChecks,
+                ...gitlabPipelineChecks,
+                ...jenkinsPipelineChecks,
+                ...githubAdvancedSecuritychecks,
+                ...azureBugsChecks,
+                ...DependabotChecks,
+                ...SonarCloudChecks,
+                ...CodeSceneChecks,
+                ...FortifyChecks,
+              ],
+              logger,
+            ),
             logger,
             catalogApi: authenticatedCatalogApi,
+            config,
           });
 
         // Register the fact checker factory with the fact checker provider.
-        factCheckerProvider.setFactCheckerFactory(sonarCloudFactCheckerFactory);
+        factCheckerProvider.setFactCheckerFactory(
+          dynamicThresholdFactCheckerFactory,
+        );
       },
     });
   },
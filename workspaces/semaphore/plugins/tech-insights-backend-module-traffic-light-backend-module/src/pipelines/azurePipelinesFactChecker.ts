@@ -0,0 +1,49 @@
+import { DynamicThresholdCheck } from '../argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+
+// The Azure Pipelines checks share the threshold annotations of the GitHub Actions pipeline checks
+export const azurePipelinesChecks: DynamicThresholdCheck[] = [
+  {
+    id: 'azure-pipelines-preproduction-success-rate',
+    name: 'Preproduction Azure Pipelines Success Rate',
+    type: 'percentage',
+    factIds: ['azurePipelinesStatusFactRetriever', 'successRate'],
+    annotationKeyThreshold:
+      'tech-insights.io/preproduction-success-rate-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/preproduction-success-rate-operator',
+    description:
+      'Minimum Azure Pipelines success rate required for preproduction components',
+  },
+  {
+    id: 'azure-pipelines-foundation-success-rate',
+    name: 'Foundation Azure Pipelines Success Rate',
+    type: 'percentage',
+    factIds: ['azurePipelinesStatusFactRetriever', 'successRate'],
+    annotationKeyThreshold:
+      'tech-insights.io/foundation-success-rate-threshold',
+    annotationKeyOperator: 'tech-insights.io/foundation-success-rate-operator',
+    description:
+      'Minimum Azure Pipelines success rate required for foundation components',
+  },
+  {
+    id: 'azure-pipelines-foundation-max-failures',
+    name: 'Foundation Azure Pipelines Max Failures',
+    type: 'number',
+    factIds: ['azurePipelinesStatusFactRetriever', 'failureWorkflowRunsCount'],
+    annotationKeyThreshold:
+      'tech-insights.io/foundation-max-failures-threshold',
+    annotationKeyOperator: 'tech-insights.io/foundation-max-failures-operator',
+    description:
+      'Maximum number of failed Azure Pipelines builds allowed for foundation components',
+  },
+  {
+    id: 'azure-pipelines-reporting-success-rate',
+    name: 'Reporting Azure Pipelines Success Rate',
+    type: 'percentage',
+    factIds: ['azurePipelinesStatusFactRetriever', 'lastRunSuccessRate'],
+    annotationKeyThreshold: 'tech-insights.io/reporting-success-rate-threshold',
+    annotationKeyOperator: 'tech-insights.io/reporting-success-rate-operator',
+    description:
+      'Minimum success rate of the last Azure Pipelines builds required for reporting components',
+  },
+];
@@ -0,0 +1,408 @@
+import {
+  FactRetriever,
+  TechInsightFact,
+} from '@backstage-community/plugin-tech-insights-node';
+import { CatalogClient } from '@backstage/catalog-client';
+import { Entity } from '@backstage/catalog-model';
+import {
+  getEntityAzureDevOpsHost,
+  readAzureDevOpsIntegrations,
+  resolveAzureDevOpsPat,
+} from '../azure/azureDevOpsIntegrations';
+import { matchesBranch, parseBranchesAnnotation } from './pipelineBranches';
+import {
+  PipelineRun,
+  PipelineStatusSummary,
+  summarizePipelineRuns,
+  toSuccessRate,
+  WorkflowMetrics,
+} from './pipelineRunSummary';
+
+// Annotation listing the ids or names of the build pipelines of the entity, e.g. '[12, "payments-ci"]'
+export const AZURE_PIPELINE_DEFINITIONS_ANNOTATION =
+  'azure.com/pipeline-definitions';
+
+// Builds returned per request; later pages are fetched with the continuation token
+const BUILDS_PAGE_SIZE = 1000;
+const MAX_BUILD_PAGES = 3;
+
+// Used when the pipeline does not report the default branch of its repository
+const FALLBACK_BRANCH = 'main';
+
+// Represents a build pipeline definition from the Azure DevOps Build API
+type PipelineDefinition = {
+  id: number;
+  name: string;
+  repository?: { defaultBranch?: string };
+};
+
+// Represents a single build from the Azure DevOps Build API
+type Build = {
+  id: number;
+  definition: { id: number; name: string };
+  status: string; // e.g. completed, inProgress
+  result?: string; // e.g. succeeded, partiallySucceeded, failed, canceled
+  sourceBranch: string; // e.g. refs/heads/main
+  queueTime: string;
+};
+
+// Metrics for the last run of each pipeline, matching the reporting retriever
+type WorkflowLastRunMetrics = {
+  workflowName: string;
+  lastRunStatus: PipelineRun['status'];
+  lastRunDate: string;
+};
+
+// Metrics for each pipeline, with the status and date of its last build
+type PipelineMetrics = WorkflowMetrics &
+  Omit<WorkflowLastRunMetrics, 'workflowName'>;
+
+// Pipeline status metrics, extended with the facts of the reporting retriever
+interface AzurePipelineStatusSummary extends PipelineStatusSummary {
+  workflowMetrics: Record<string, PipelineMetrics>;
+  lastRunMetrics: WorkflowLastRunMetrics[];
+  totalIncludedWorkflows: number;
+  successfulRuns: number;
+  failedRuns: number;
+  lastRunSuccessRate: number;
+}
+
+/**
+ * Parses the pipeline definitions annotation, accepting a JSON array or a comma separated list
+ * of definition ids and names.
+ *
+ * @param entity - The catalog entity
+ */
+function parseDefinitionsAnnotation(entity: Entity): string[] {
+  const annotation =
+    entity.metadata.annotations?.[
+      AZURE_PIPELINE_DEFINITIONS_ANNOTATION
+    ]?.trim();
+  if (!annotation) {
+    return [];
+  }
+
+  let definitions: unknown = annotation.split(',');
+  if (annotation.startsWith('[')) {
+    try {
+      definitions = JSON.parse(annotation);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  return Array.isArray(definitions)
+    ? definitions
+        .map(definition => String(definition).trim())
+        .filter(definition => definition.length > 0)
+    : [];
+}
+
+/**
+ * Classifies a build the way the GitHub Actions retrievers classify workflow runs. Partially
+ * succeeded builds had failing tasks and count as failures; canceled and running builds count as neither.
+ */
+function getRunStatus(build: Build): PipelineRun['status'] {
+  if (build.status !== 'completed') {
+    return 'unknown';
+  }
+  if (build.result === 'succeeded') {
+    return 'success';
+  }
+  if (build.result === 'failed' || build.result === 'partiallySucceeded') {
+    return 'failure';
+  }
+  return 'unknown';
+}
+
+/**
+ * Creates a fact retriever for pipeline metrics from Azure Pipelines.
+ *
+ * This retriever queries the builds of the pipelines listed in the azure.com/pipeline-definitions
+ * annotation and stores them in the shape of the GitHub Actions pipeline retrievers, so that the
+ * pre-production, foundation and reporting semaphores work for either CI vendor. Builds of each
+ * pipeline's default branch are evaluated, unless the entity lists branches in the
+ * tech-insights.io/pipeline-branches annotation. The reporting facts are based on the last build of
+ * the pipelines in the reporting/workflows annotation, or of all listed pipelines without it.
+ *
+ * @returns A FactRetriever that collects pipeline status metrics
+ */
+export const azurePipelinesStatusFactRetriever: FactRetriever = {
+  id: 'azurePipelinesStatusFactRetriever',
+  version: '0.1.0',
+  entityFilter: [{ kind: 'component' }],
+  schema: {
+    totalWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Total number of builds on the evaluated branches',
+    },
+    uniqueWorkflowsCount: {
+      type: 'integer',
+      description: 'Number of pipelines listed for the entity',
+    },
+    successWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Number of succeeded builds',
+    },
+    failureWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Number of failed or partially succeeded builds',
+    },
+    successRate: {
+      type: 'float',
+      description: 'Success rate percentage of builds (0-100)',
+    },
+    workflowMetrics: {
+      type: 'object',
+      description: 'Detailed metrics for each individual pipeline',
+    },
+    lastRunMetrics: {
+      type: 'object',
+      description: 'Last build of each reporting pipeline',
+    },
+    totalIncludedWorkflows: {
+      type: 'integer',
+      description: 'Number of reporting pipelines with a last build',
+    },
+    successfulRuns: {
+      type: 'integer',
+      description: 'Number of reporting pipelines whose last build succeeded',
+    },
+    failedRuns: {
+      type: 'integer',
+      description: 'Number of reporting pipelines whose last build failed',
+    },
+    lastRunSuccessRate: {
+      type: 'float',
+      description:
+        'Success rate based on the last builds of the reporting pipelines',
+    },
+  },
+
+  /**
+   * Handler function that retrieves pipeline status metrics for relevant entities.
+   *
+   * @param ctx - Context object containing configuration, logger, and other services
+   * @returns Array of entity facts with pipeline status metrics
+   */
+  async handler({
+    config,
+    logger,
+    entityFilter,
+    auth,
+    discovery,
+  }): Promise<TechInsightFact[]> {
+    const integrations = readAzureDevOpsIntegrations(config);
+
+    // Get catalog access token for fetching entities
+    const { token: catalogToken } = await auth.getPluginRequestToken({
+      onBehalfOf: await auth.getOwnServiceCredentials(),
+      targetPluginId: 'catalog',
+    });
+
+    const catalogClient = new CatalogClient({ discoveryApi: discovery });
+
+    // Fetch entities matching the provided filter
+    const { items: entities } = await catalogClient.getEntities(
+      { filter: entityFilter },
+      { token: catalogToken },
+    );
+
+    // Filter entities that list Azure Pipelines
+    const azureEntities = entities.filter(
+      entity => parseDefinitionsAnnotation(entity).length > 0,
+    );
+
+    const results = await Promise.all(
+      azureEntities.map(async entity => {
+        const annotations = entity.metadata.annotations ?? {};
+        const organization = annotations['azure.com/organization'];
+        const project = annotations['azure.com/project'];
+        if (!organization || !project) {
+          return null;
+        }
+
+        const host = getEntityAzureDevOpsHost(entity);
+        const pat = resolveAzureDevOpsPat(integrations, host, organization);
+        if (!pat) {
+          logger.warn(
+            `No personal access token in integrations.azure for organization ${organization} on ${host}`,
+          );
+          return null;
+        }
+
+        const projectUrl = `https://${host}/${organization}/${project}`;
+        const headers = {
+          Authorization: `Basic ${Buffer.from(`:${pat}`).toString('base64')}`,
+          Accept: 'application/json',
+        };
+
+        try {
+          // Resolve the annotated ids and names to the pipeline definitions of the project
+          const definitionsResponse = await fetch(
+            `${projectUrl}/_apis/build/definitions?includeAllProperties=true&api-version=7.0`,
+            { headers },
+          );
+          if (!definitionsResponse.ok) {
+            logger.warn(
+              `Failed to fetch pipeline definitions for ${entity.metadata.name}: ${definitionsResponse.status}`,
+            );
+            return null;
+          }
+          const listed = parseDefinitionsAnnotation(entity);
+          const definitions = (
+            ((await definitionsResponse.json()).value ??
+              []) as PipelineDefinition[]
+          ).filter(
+            definition =>
+              listed.includes(String(definition.id)) ||
+              listed.includes(definition.name),
+          );
+          if (definitions.length === 0) {
+            return null;
+          }
+
+          // Fetch the latest builds of the pipelines, following continuation tokens
+          const buildsUrl = `${projectUrl}/_apis/build/builds?definitions=${definitions
+            .map(definition => definition.id)
+            .join(
+              ',',
+            )}&queryOrder=queueTimeDescending&$top=${BUILDS_PAGE_SIZE}&api-version=7.0`;
+          let builds: Build[] = [];
+          let continuationToken: string | null = null;
+          let page = 0;
+          do {
+            const response: Response = await fetch(
+              continuationToken
+                ? `${buildsUrl}&continuationToken=${encodeURIComponent(
+                    continuationToken,
+                  )}`
+                : buildsUrl,
+              { headers },
+            );
+            if (!response.ok) {
+              break;
+            }
+            builds = [...builds, ...((await response.json()).value ?? [])];
+            continuationToken = response.headers.get('x-ms-continuationtoken');
+            page++;
+          } while (continuationToken && page < MAX_BUILD_PAGES);
+
+          // Evaluate the annotated branches, or the default branch of each pipeline's repository
+          const annotatedBranches = parseBranchesAnnotation(entity);
+          const branchesOf = (definition: PipelineDefinition) =>
+            annotatedBranches.length > 0
+              ? annotatedBranches
+              : [
+                  (
+                    definition.repository?.defaultBranch ?? FALLBACK_BRANCH
+                  ).replace(/^refs\/heads\//, ''),
+                ];
+
+          const runs: PipelineRun[] = [];
+          const lastRuns: WorkflowLastRunMetrics[] = [];
+
+          // Reporting covers the pipelines named in reporting/workflows, or all of them
+          let reportingPipelines: string[] = [];
+          try {
+            const parsed = JSON.parse(
+              annotations['reporting/workflows'] ?? '[]',
+            );
+            reportingPipelines = Array.isArray(parsed) ? parsed : [];
+          } catch (error) {
+            // Malformed JSON in the annotation is ignored, all pipelines are reported on.
+          }
+
+          definitions.forEach(definition => {
+            const branches = branchesOf(definition);
+            const definitionBuilds = builds.filter(
+              build =>
+                build.definition.id === definition.id &&
+                matchesBranch(
+                  build.sourceBranch.replace(/^refs\/heads\//, ''),
+                  branches,
+                ),
+            );
+            if (definitionBuilds.length === 0) {
+              return;
+            }
+
+            runs.push(
+              ...definitionBuilds.map(build => ({
+                workflowName: definition.name,
+                status: getRunStatus(build),
+              })),
+            );
+
+            // Builds are ordered from the most recent, so the first one is the last run
+            lastRuns.push({
+              workflowName: definition.name,
+              lastRunStatus: getRunStatus(definitionBuilds[0]),
+              lastRunDate: definitionBuilds[0].queueTime,
+            });
+          });
+
+          const summary = summarizePipelineRuns(runs, definitions.length);
+
+          // Add the last build of each pipeline to its metrics
+          const workflowMetrics: Record<string, PipelineMetrics> = {};
+          Object.entries(summary.workflowMetrics).forEach(([key, metrics]) => {
+            const lastRun = lastRuns.find(
+              run => run.workflowName === metrics.name,
+            );
+            workflowMetrics[key] = {
+              ...metrics,
+              lastRunStatus: lastRun?.lastRunStatus ?? 'unknown',
+              lastRunDate: lastRun?.lastRunDate ?? '',
+            };
+          });
+
+          const lastRunMetrics = lastRuns.filter(
+            lastRun =>
+              reportingPipelines.length === 0 ||
+              reportingPipelines.includes(lastRun.workflowName),
+          );
+          const successfulRuns = lastRunMetrics.filter(
+            metric => metric.lastRunStatus === 'success',
+          ).length;
+          const failedRuns = lastRunMetrics.filter(
+            metric => metric.lastRunStatus === 'failure',
+          ).length;
+
+          // Construct pipelines status summary object
+          const pipelineSummary: AzurePipelineStatusSummary = {
+            ...summary,
+            workflowMetrics,
+            lastRunMetrics,
+            totalIncludedWorkflows: lastRunMetrics.length,
+            successfulRuns,
+            failedRuns,
+            // Every last build that did not succeed counts against the rate
+            lastRunSuccessRate: toSuccessRate(
+              successfulRuns,
+              lastRunMetrics.length - successfulRuns,
+            ),
+          };
+
+          // Return the fact result object for this entity
+          return {
+            entity: {
+              kind: entity.kind,
+              namespace: entity.metadata.namespace || 'default',
+              name: entity.metadata.name,
+            },
+            facts: pipelineSummary,
+          } as TechInsightFact;
+        } catch (error: any) {
+          logger.warn(
+            `Failed to retrieve Azure Pipelines builds for ${entity.metadata.name}: ${error}`,
+          );
+          return null;
+        }
+      }),
+    );
+
+    // Filter out null results and return valid pipeline metrics
+    return results.filter((r): r is TechInsightFact => r !== null);
+  },
+};
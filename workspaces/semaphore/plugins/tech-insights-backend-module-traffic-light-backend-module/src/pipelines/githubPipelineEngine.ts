@@ -0,0 +1,743 @@
+import {
+  FactRetriever,
+  TechInsightFact,
+} from '@backstage-community/plugin-tech-insights-node';
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { CatalogClient } from '@backstage/catalog-client';
+import { Entity } from '@backstage/catalog-model';
+import { JsonObject } from '@backstage/types';
+import { DateTime } from 'luxon';
+import {
+  GitHubEntityTarget,
+  GitHubRetrieverRun,
+} from '../github/githubIntegrations';
+import {
+  getBranchQueries,
+  getDefaultBranch,
+  matchesBranch,
+  parseBranchesAnnotation,
+} from './pipelineBranches';
+import { PipelineProfile, readPipelineWindowDays } from './pipelineProfiles';
+import { PipelineRun, summarizePipelineRuns } from './pipelineRunSummary';
+
+// Represents a single workflow run from GitHub Actions API
+type WorkflowRun = {
+  name: string;
+  status: string;
+  conclusion: string | null;
+  created_at: string;
+  head_branch: string;
+  workflow_id: number;
+};
+
+// Represents a workflow definition from GitHub Actions API
+type WorkflowDefinition = {
+  id: number;
+  name: string;
+  path: string;
+};
+
+// Metrics for the last run of each workflow
+interface WorkflowLastRunMetrics extends JsonObject {
+  workflowName: string;
+  lastRunStatus: PipelineRun['status'];
+  lastRunDate: string;
+}
+
+// Pipeline status metrics of a lastRun profile
+type LastRunStatusSummary = {
+  workflowMetrics: WorkflowLastRunMetrics[];
+  totalIncludedWorkflows: number;
+  successfulRuns: number;
+  failedRuns: number;
+  successRate: number;
+};
+
+// Number of workflow runs on one day of the time window
+interface DailyRunCount extends JsonObject {
+  date: string; // ISO date, e.g. 2024-05-01
+  totalRuns: number;
+  successRuns: number;
+  failureRuns: number;
+}
+
+// Days of runs evaluated by a profile, from the start of the first day (UTC) until now
+type TimeWindow = {
+  start: DateTime;
+  end: DateTime;
+  days: number;
+};
+
+// GitHub returns at most 1000 workflow runs for a query filtered by branch or created date
+const MAX_RUNS_PER_QUERY = 1000;
+
+// Shortest range of creation times a runs query is split into to stay below that limit
+const MIN_RUNS_QUERY_HOURS = 1;
+
+/**
+ * Facts stored by allRuns profiles.
+ */
+export const ALL_RUNS_SCHEMA: FactRetriever['schema'] = {
+  totalWorkflowRunsCount: {
+    type: 'integer',
+    description: 'Total number of workflow runs on the evaluated branches',
+  },
+  uniqueWorkflowsCount: {
+    type: 'integer',
+    description:
+      'Number of unique workflows that have runs (matching GitHub UI)',
+  },
+  successWorkflowRunsCount: {
+    type: 'integer',
+    description: 'Number of successful workflow runs',
+  },
+  failureWorkflowRunsCount: {
+    type: 'integer',
+    description: 'Number of failed workflow runs',
+  },
+  successRate: {
+    type: 'float',
+    description: 'Success rate percentage of workflows (0-100)',
+  },
+  workflowMetrics: {
+    type: 'object',
+    description: 'Detailed metrics for each individual workflow',
+  },
+  windowStart: {
+    type: 'datetime',
+    description: 'Start of the time window of the evaluated workflow runs',
+  },
+  windowEnd: {
+    type: 'datetime',
+    description: 'End of the time window of the evaluated workflow runs',
+  },
+  dailyRunCounts: {
+    type: 'set',
+    description:
+      'Number of workflow runs, successful and failed runs for each day of the time window',
+  },
+};
+
+/**
+ * Facts stored by lastRun profiles.
+ */
+export const LAST_RUN_SCHEMA: FactRetriever['schema'] = {
+  workflowMetrics: {
+    type: 'object',
+    description: 'Last run metrics for each reporting workflow as JSON object',
+  },
+  totalIncludedWorkflows: {
+    type: 'integer',
+    description: 'Total number of workflows included in reporting',
+  },
+  successfulRuns: {
+    type: 'integer',
+    description: 'Number of workflows with successful last runs',
+  },
+  failedRuns: {
+    type: 'integer',
+    description: 'Number of workflows with failed last runs',
+  },
+  successRate: {
+    type: 'float',
+    description: 'Success rate based on last runs of included workflows',
+  },
+};
+
+/**
+ * Helper function to check if a workflow name matches any of the exclude patterns
+ * @param workflowName - The name of the workflow to check
+ * @param excludePatterns - Array of regex patterns to match against
+ * @returns true if the workflow should be excluded, false otherwise
+ */
+function shouldExcludeWorkflow(
+  workflowName: string,
+  excludePatterns: string[],
+): boolean {
+  return excludePatterns.some(pattern => {
+    try {
+      const regex = new RegExp(pattern, 'i'); // case-insensitive matching
+      return regex.test(workflowName);
+    } catch (error) {
+      return workflowName.toLowerCase().includes(pattern.toLowerCase());
+    }
+  });
+}
+
+/**
+ * Parses an annotation holding a JSON list of workflow names or patterns.
+ *
+ * @returns The listed workflows, undefined when the annotation is not a JSON list
+ */
+function parseWorkflowList(annotation: string): string[] | undefined {
+  try {
+    const workflows = JSON.parse(annotation);
+    return Array.isArray(workflows) ? (workflows as string[]) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Classifies a workflow run: successful runs, completed runs with one of the failure conclusions
+ * of the profile, and everything else (running, cancelled, skipped...) as unknown.
+ */
+function getRunStatus(
+  run: WorkflowRun,
+  failureConclusions: string[],
+): PipelineRun['status'] {
+  if (run.status !== 'completed') {
+    return 'unknown';
+  }
+  if (run.conclusion === 'success') {
+    return 'success';
+  }
+  return run.conclusion && failureConclusions.includes(run.conclusion)
+    ? 'failure'
+    : 'unknown';
+}
+
+/**
+ * Returns the time window covering the given number of days, today included.
+ */
+function getTimeWindow(days: number): TimeWindow {
+  const end = DateTime.utc();
+  return { start: end.startOf('day').minus({ days: days - 1 }), end, days };
+}
+
+/**
+ * Counts the runs on each day of the time window, including days without runs.
+ *
+ * @param runs - The workflow runs with their status, undefined for runs of excluded workflows
+ */
+function countDailyRuns(
+  runs: { createdAt: string; status?: PipelineRun['status'] }[],
+  window: TimeWindow,
+): DailyRunCount[] {
+  const dailyRunCounts = Array.from({ length: window.days }, (_, day) => ({
+    date: window.start.plus({ days: day }).toISODate() ?? '',
+    totalRuns: 0,
+    successRuns: 0,
+    failureRuns: 0,
+  }));
+  const dailyRunCountsByDate = new Map(
+    dailyRunCounts.map(dailyRunCount => [dailyRunCount.date, dailyRunCount]),
+  );
+
+  for (const run of runs) {
+    const dailyRunCount = dailyRunCountsByDate.get(
+      DateTime.fromISO(run.createdAt, { zone: 'utc' }).toISODate() ?? '',
+    );
+    if (!dailyRunCount) {
+      continue;
+    }
+    dailyRunCount.totalRuns++;
+    if (run.status === 'success') {
+      dailyRunCount.successRuns++;
+    } else if (run.status === 'failure') {
+      dailyRunCount.failureRuns++;
+    }
+  }
+
+  return dailyRunCounts;
+}
+
+/**
+ * Fetches the workflow definitions of a repository.
+ *
+ * @returns The definitions, undefined when they cannot be read
+ */
+async function fetchWorkflowDefinitions(
+  target: GitHubEntityTarget,
+  owner: string,
+  repoName: string,
+): Promise<WorkflowDefinition[] | undefined> {
+  try {
+    const response = await target.run.fetch(
+      `${target.client.baseUrl}/repos/${owner}/${repoName}/actions/workflows`,
+      { headers: target.client.getHeaders() },
+    );
+    if (!response.ok) {
+      return undefined;
+    }
+    const workflowsData = await response.json();
+    return workflowsData.workflows || [];
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the created filter of the runs created within a range, both ends included.
+ */
+function getCreatedRangeQuery(start: DateTime, end: DateTime): string {
+  return `created=${encodeURIComponent(
+    `${start.toISO({ suppressMilliseconds: true })}..${end.toISO({
+      suppressMilliseconds: true,
+    })}`,
+  )}&`;
+}
+
+/**
+ * Fetches the workflow runs of one runs query using pagination. Queries matching more runs than
+ * GitHub returns are split into two halves of their creation time range, down to ranges of an hour.
+ *
+ * @param apiUrl - The runs URL with the branch filter, without the created filter
+ * @param createdQuery - The created filter of the query
+ * @param createdRange - The creation times selected by the created filter, undefined for all runs
+ */
+async function fetchWorkflowRunsQuery(
+  target: GitHubEntityTarget,
+  apiUrl: string,
+  createdQuery: string,
+  createdRange: { start: DateTime; end: DateTime } | undefined,
+  logger: LoggerService,
+): Promise<WorkflowRun[]> {
+  const { client: githubClient, run: github } = target;
+  const queryUrl = `${apiUrl}${createdQuery}per_page=100`;
+  let allRuns: WorkflowRun[] = [];
+  let page = 1;
+  let hasMorePages = true;
+
+  // Paginate through all workflow runs
+  while (hasMorePages) {
+    const response = await github.fetch(`${queryUrl}&page=${page}`, {
+      method: 'GET',
+      headers: githubClient.getHeaders(),
+    });
+
+    if (!response.ok) {
+      break;
+    }
+
+    const data = await response.json();
+    const pageRuns = data.workflow_runs as WorkflowRun[];
+
+    // Split the queries that match more runs than GitHub returns
+    if (page === 1 && data.total_count > MAX_RUNS_PER_QUERY) {
+      if (
+        createdRange &&
+        createdRange.end.diff(createdRange.start, 'hours').hours >
+          MIN_RUNS_QUERY_HOURS
+      ) {
+        const { start, end } = createdRange;
+        const middle = start.plus(end.diff(start).toMillis() / 2);
+        const firstHalf = { start, end: middle.minus({ seconds: 1 }) };
+        const secondHalf = { start: middle, end };
+        return [
+          ...(await fetchWorkflowRunsQuery(
+            target,
+            apiUrl,
+            getCreatedRangeQuery(firstHalf.start, firstHalf.end),
+            firstHalf,
+            logger,
+          )),
+          ...(await fetchWorkflowRunsQuery(
+            target,
+            apiUrl,
+            getCreatedRangeQuery(secondHalf.start, secondHalf.end),
+            secondHalf,
+            logger,
+          )),
+        ];
+      }
+      logger.warn(
+        `Only the first ${MAX_RUNS_PER_QUERY} of ${data.total_count} workflow runs of ${queryUrl} are evaluated`,
+      );
+    }
+
+    allRuns = [...allRuns, ...pageRuns];
+
+    // To check if we need to fetch more pages
+    if (pageRuns.length < 100) {
+      hasMorePages = false;
+    } else {
+      // Check for Link header with 'next' relation to confirm more pages
+      const linkHeader = response.headers.get('Link');
+      hasMorePages = linkHeader ? linkHeader.includes('rel="next"') : false;
+    }
+
+    page++;
+  }
+
+  return allRuns;
+}
+
+/**
+ * Fetches all workflow runs of the evaluated branches. The created filter keeps the number of
+ * pages bounded by the time window rather than by a page limit.
+ */
+async function fetchWorkflowRuns(
+  target: GitHubEntityTarget,
+  owner: string,
+  repoName: string,
+  branches: string[],
+  createdQuery: string,
+  window: TimeWindow | undefined,
+  logger: LoggerService,
+): Promise<WorkflowRun[]> {
+  let allRuns: WorkflowRun[] = [];
+
+  for (const branch of getBranchQueries(branches)) {
+    const apiUrl = `${
+      target.client.baseUrl
+    }/repos/${owner}/${repoName}/actions/runs?${
+      branch ? `branch=${encodeURIComponent(branch)}&` : ''
+    }`;
+    allRuns = [
+      ...allRuns,
+      ...(await fetchWorkflowRunsQuery(
+        target,
+        apiUrl,
+        createdQuery,
+        window,
+        logger,
+      )),
+    ];
+  }
+
+  // Filter for only runs on the evaluated branches
+  return allRuns.filter(run => matchesBranch(run.head_branch, branches));
+}
+
+/**
+ * Fetches the most recent run of a workflow on the evaluated branches.
+ */
+async function fetchLastWorkflowRun(
+  target: GitHubEntityTarget,
+  owner: string,
+  repoName: string,
+  workflowId: number,
+  branches: string[],
+  createdQuery: string,
+): Promise<WorkflowRun | undefined> {
+  const { client: githubClient, run: github } = target;
+  let lastRun: WorkflowRun | undefined;
+
+  for (const branch of getBranchQueries(branches)) {
+    // A branch query returns its most recent run first, wildcard patterns need a page to match
+    const response = await github.fetch(
+      `${
+        githubClient.baseUrl
+      }/repos/${owner}/${repoName}/actions/workflows/${workflowId}/runs?${
+        branch ? `branch=${encodeURIComponent(branch)}&` : ''
+      }${createdQuery}per_page=${branch ? 1 : 100}`,
+      { method: 'GET', headers: githubClient.getHeaders() },
+    );
+    if (!response.ok) {
+      continue;
+    }
+
+    const data = await response.json();
+    const run = (data.workflow_runs as WorkflowRun[]).find(candidate =>
+      matchesBranch(candidate.head_branch, branches),
+    );
+    if (run && (!lastRun || run.created_at > lastRun.created_at)) {
+      lastRun = run;
+    }
+  }
+
+  return lastRun;
+}
+
+/**
+ * Evaluates the workflow runs of one repository against a pipeline profile.
+ *
+ * @param windowDays - Days of runs evaluated, all runs when undefined
+ * @param logger - Logger for runs queries that match more runs than GitHub returns
+ * @returns The pipeline status summary, or null when the entity is not evaluated by the profile
+ */
+async function evaluateProfile(
+  profile: PipelineProfile,
+  entity: Entity,
+  target: GitHubEntityTarget,
+  owner: string,
+  repoName: string,
+  windowDays: number | undefined,
+  logger: LoggerService,
+): Promise<TechInsightFact['facts'] | null> {
+  const annotations = entity.metadata.annotations ?? {};
+
+  // Workflows listed in the include annotation replace the include list of the profile. Profiles
+  // with an include annotation but no include list only evaluate entities that list workflows.
+  let include = profile.include;
+  const includeAnnotation = profile.includeAnnotation
+    ? annotations[profile.includeAnnotation]
+    : undefined;
+  if (includeAnnotation !== undefined) {
+    const annotatedWorkflows = parseWorkflowList(includeAnnotation);
+    if (!annotatedWorkflows) {
+      return null;
+    }
+    include = annotatedWorkflows;
+  }
+  if (profile.includeAnnotation && include.length === 0) {
+    return null;
+  }
+
+  // Malformed exclude annotations are ignored, falling back to the exclude list of the profile
+  const excludeAnnotation = profile.excludeAnnotation
+    ? annotations[profile.excludeAnnotation]
+    : undefined;
+  const exclude =
+    (excludeAnnotation !== undefined
+      ? parseWorkflowList(excludeAnnotation)
+      : undefined) ?? profile.exclude;
+
+  // Workflow definitions give accurate unique workflow counts and names. Last runs are fetched
+  // per workflow, so lastRun profiles cannot do without them.
+  const workflowDefinitions = await fetchWorkflowDefinitions(
+    target,
+    owner,
+    repoName,
+  );
+  if (!workflowDefinitions && profile.mode === 'lastRun') {
+    return null;
+  }
+  const includedDefinitions = (workflowDefinitions ?? []).filter(
+    workflow => include.length === 0 || matchesBranch(workflow.name, include),
+  );
+
+  const evaluatedDefinitions = includedDefinitions.filter(
+    workflow => !shouldExcludeWorkflow(workflow.name, exclude),
+  );
+  if (profile.mode === 'lastRun' && evaluatedDefinitions.length === 0) {
+    return null;
+  }
+
+  // Evaluate the annotated branches, the branch of the profile or the repository's default branch
+  const annotatedBranches = parseBranchesAnnotation(
+    entity,
+    profile.branchesAnnotation,
+  );
+  const branches =
+    annotatedBranches.length > 0
+      ? annotatedBranches
+      : [profile.branch ?? (await getDefaultBranch(target, owner, repoName))];
+
+  // Limit the runs to the time window using the created filter of the GitHub API
+  const window = windowDays ? getTimeWindow(windowDays) : undefined;
+  const createdQuery = window
+    ? `created=${encodeURIComponent(`>=${window.start.toISODate()}`)}&`
+    : '';
+
+  if (profile.mode === 'lastRun') {
+    // Get the last run for each included workflow
+    const workflowMetrics: WorkflowLastRunMetrics[] = [];
+    for (const workflow of evaluatedDefinitions) {
+      const lastRun = await fetchLastWorkflowRun(
+        target,
+        owner,
+        repoName,
+        workflow.id,
+        branches,
+        createdQuery,
+      );
+      if (lastRun) {
+        workflowMetrics.push({
+          workflowName: workflow.name,
+          lastRunStatus: getRunStatus(lastRun, profile.failureConclusions),
+          lastRunDate: lastRun.created_at,
+        });
+      }
+    }
+
+    // Calculate success/failure counts and rate
+    const successfulRuns = workflowMetrics.filter(
+      metric => metric.lastRunStatus === 'success',
+    ).length;
+    const failedRuns = workflowMetrics.filter(
+      metric => metric.lastRunStatus === 'failure',
+    ).length;
+    const totalWorkflows = workflowMetrics.length;
+    const summary: LastRunStatusSummary = {
+      workflowMetrics,
+      totalIncludedWorkflows: totalWorkflows,
+      successfulRuns,
+      failedRuns,
+      successRate:
+        totalWorkflows > 0
+          ? Math.round((successfulRuns / totalWorkflows) * 10000) / 100
+          : 0,
+    };
+    return summary;
+  }
+
+  const workflowNames = new Map(
+    (workflowDefinitions ?? []).map(workflow => [workflow.id, workflow.name]),
+  );
+  const getWorkflowName = (run: WorkflowRun) =>
+    workflowNames.get(run.workflow_id) ||
+    run.name ||
+    `workflow-${run.workflow_id}`;
+
+  const runs = (
+    await fetchWorkflowRuns(
+      target,
+      owner,
+      repoName,
+      branches,
+      createdQuery,
+      window,
+      logger,
+    )
+  ).filter(
+    run => include.length === 0 || matchesBranch(getWorkflowName(run), include),
+  );
+
+  // Excluded workflows count towards the total runs, but not towards the success rate
+  const classifiedRuns = runs.map(run => ({
+    createdAt: run.created_at,
+    workflowName: getWorkflowName(run),
+    status: shouldExcludeWorkflow(getWorkflowName(run), exclude)
+      ? undefined
+      : getRunStatus(run, profile.failureConclusions),
+  }));
+  const evaluatedRuns: PipelineRun[] = classifiedRuns.flatMap(
+    ({ workflowName, status }) => (status ? [{ workflowName, status }] : []),
+  );
+
+  return {
+    ...summarizePipelineRuns(
+      evaluatedRuns,
+      includedDefinitions.length > 0
+        ? includedDefinitions.length
+        : new Set(runs.map(run => run.workflow_id)).size,
+    ),
+    totalWorkflowRunsCount: runs.length,
+    ...(window && {
+      windowStart: window.start,
+      windowEnd: window.end,
+      dailyRunCounts: countDailyRuns(classifiedRuns, window),
+    }),
+  };
+}
+
+/**
+ * Creates a fact retriever for the GitHub Actions workflow runs selected by a pipeline profile.
+ *
+ * The retriever queries the repository in the github.com/project-slug annotation of components.
+ * Runs on the branches in the profile's branches annotation are evaluated, falling back to the
+ * profile's branch and to the repository's default branch. allRuns profiles without a window of
+ * their own evaluate the days in techInsights.argus.pipelines.windowDays. Only the facts in the
+ * schema are stored, so that built-in profiles keep the facts they always had.
+ *
+ * @param profile - The pipeline profile
+ * @param options - The version and schema of the retriever, the schema of the profile's mode by default
+ * @returns A FactRetriever that collects pipeline status metrics
+ */
+export function createGitHubPipelineFactRetriever(
+  profile: PipelineProfile,
+  options: { version?: string; schema?: FactRetriever['schema'] } = {},
+): FactRetriever {
+  const schema =
+    options.schema ??
+    (profile.mode === 'lastRun' ? LAST_RUN_SCHEMA : ALL_RUNS_SCHEMA);
+
+  return {
+    id: profile.id,
+    version: options.version ?? '0.1.0',
+    entityFilter: [{ kind: 'component' }],
+    schema,
+
+    /**
+     * Handler function that retrieves pipeline status metrics for relevant entities.
+     *
+     * @param ctx - Context object containing configuration, logger, and other services
+     * @returns Array of entity facts with pipeline status metrics
+     */
+    async handler({
+      config,
+      logger,
+      entityFilter,
+      auth,
+      discovery,
+    }): Promise<TechInsightFact[]> {
+      // All GitHub traffic goes through the shared, rate limit aware client of the entity's host
+      let githubRun: GitHubRetrieverRun;
+      try {
+        githubRun = new GitHubRetrieverRun(config, profile.id, logger);
+      } catch (e) {
+        return [];
+      }
+
+      // Get catalog access token for fetching entities
+      const { token: catalogToken } = await auth.getPluginRequestToken({
+        onBehalfOf: await auth.getOwnServiceCredentials(),
+        targetPluginId: 'catalog',
+      });
+
+      const windowDays =
+        profile.windowDays ??
+        (profile.mode === 'allRuns'
+          ? readPipelineWindowDays(config)
+          : undefined);
+
+      const catalogClient = new CatalogClient({ discoveryApi: discovery });
+
+      // Fetch entities matching the provided filter
+      const { items: entities } = await catalogClient.getEntities(
+        { filter: entityFilter },
+        { token: catalogToken },
+      );
+
+      // Filter entities that have GitHub repositories
+      const githubEntities = entities.filter(
+        entity => !!entity.metadata.annotations?.['github.com/project-slug'],
+      );
+
+      // Process each Github-enabled component
+      const results = await Promise.all(
+        githubEntities.map(async entity => {
+          // Parse the github repo information from entity annotations
+          const projectSlug =
+            entity.metadata.annotations?.['github.com/project-slug'] || '';
+          const [owner, repoName] = projectSlug.split('/');
+
+          if (!owner || !repoName) {
+            return null;
+          }
+
+          const target = githubRun.forEntity(entity);
+          if (!target) {
+            return null;
+          }
+
+          try {
+            const summary = await evaluateProfile(
+              profile,
+              entity,
+              target,
+              owner,
+              repoName,
+              windowDays,
+              logger,
+            );
+            if (!summary) {
+              return null;
+            }
+
+            // Return the fact result object for this repo
+            return {
+              entity: {
+                kind: entity.kind,
+                namespace: entity.metadata.namespace || 'default',
+                name: entity.metadata.name,
+              },
+              facts: Object.fromEntries(
+                Object.entries(summary).filter(([fact]) => fact in schema),
+              ),
+            } as TechInsightFact;
+          } catch (error: any) {
+            return null;
+          }
+        }),
+      );
+
+      githubRun.logSummary();
+
+      // Filter out null results and return valid pipeline metrics
+      return results.filter((r): r is TechInsightFact => r !== null);
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { DynamicThresholdCheck } from '../argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+
+// The GitLab CI checks share the threshold annotations of the GitHub Actions pipeline checks
+export const gitlabPipelineChecks: DynamicThresholdCheck[] = [
+  {
+    id: 'gitlab-preproduction-success-rate',
+    name: 'Preproduction GitLab CI Success Rate',
+    type: 'percentage',
+    factIds: ['gitlabPipelineStatusFactRetriever', 'successRate'],
+    annotationKeyThreshold:
+      'tech-insights.io/preproduction-success-rate-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/preproduction-success-rate-operator',
+    description:
+      'Minimum GitLab CI success rate required for preproduction components',
+  },
+  {
+    id: 'gitlab-foundation-success-rate',
+    name: 'Foundation GitLab CI Success Rate',
+    type: 'percentage',
+    factIds: ['gitlabPipelineStatusFactRetriever', 'successRate'],
+    annotationKeyThreshold:
+      'tech-insights.io/foundation-success-rate-threshold',
+    annotationKeyOperator: 'tech-insights.io/foundation-success-rate-operator',
+    description:
+      'Minimum GitLab CI success rate required for foundation components',
+  },
+  {
+    id: 'gitlab-foundation-max-failures',
+    name: 'Foundation GitLab CI Max Failures',
+    type: 'number',
+    factIds: ['gitlabPipelineStatusFactRetriever', 'failureWorkflowRunsCount'],
+    annotationKeyThreshold:
+      'tech-insights.io/foundation-max-failures-threshold',
+    annotationKeyOperator: 'tech-insights.io/foundation-max-failures-operator',
+    description:
+      'Maximum number of failed GitLab CI pipelines allowed for foundation components',
+  },
+];
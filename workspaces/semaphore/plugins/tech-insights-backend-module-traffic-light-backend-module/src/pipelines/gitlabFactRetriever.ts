@@ -0,0 +1,254 @@
+import {
+  FactRetriever,
+  TechInsightFact,
+} from '@backstage-community/plugin-tech-insights-node';
+import { CatalogClient } from '@backstage/catalog-client';
+import { Config } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import {
+  getBranchQueries,
+  matchesBranch,
+  parseBranchesAnnotation,
+} from './pipelineBranches';
+import { PipelineRun, summarizePipelineRuns } from './pipelineRunSummary';
+
+// Annotation with the path of the GitLab project, e.g. group/subgroup/project
+export const GITLAB_PROJECT_SLUG_ANNOTATION = 'gitlab.com/project-slug';
+
+// Annotation naming the GitLab host of the project, e.g. gitlab.example.com
+export const GITLAB_INSTANCE_ANNOTATION = 'gitlab.com/instance';
+
+const DEFAULT_GITLAB_HOST = 'gitlab.com';
+
+// Used when the project metadata cannot be read
+const FALLBACK_BRANCH = 'main';
+
+// Limit to 10 pages of 100 pipelines per branch to avoid excessive API calls
+const MAX_PAGES = 10;
+
+// A single entry of `integrations.gitlab`
+type GitLabIntegration = {
+  host: string;
+  apiBaseUrl: string;
+  token?: string;
+};
+
+// Represents a single pipeline from the GitLab Pipelines API
+type GitLabPipeline = {
+  id: number;
+  name?: string | null; // Set by workflow:name in .gitlab-ci.yml
+  source: string; // e.g. push, schedule, merge_request_event
+  status: string; // e.g. success, failed, canceled, running
+  ref: string;
+};
+
+/**
+ * Reads all `integrations.gitlab` entries. The API base URL defaults to the `/api/v4` endpoint of the host.
+ *
+ * @param config - The Backstage application configuration
+ */
+function readGitLabIntegrations(config: Config): GitLabIntegration[] {
+  const gitlabConfigs = config.getOptionalConfigArray('integrations.gitlab');
+  return (gitlabConfigs ?? []).map(gitlabConfig => {
+    const host = gitlabConfig.getOptionalString('host') ?? DEFAULT_GITLAB_HOST;
+    return {
+      host,
+      apiBaseUrl: (
+        gitlabConfig.getOptionalString('apiBaseUrl') ?? `https://${host}/api/v4`
+      ).replace(/\/+$/, ''),
+      token: gitlabConfig.getOptionalString('token'),
+    };
+  });
+}
+
+/**
+ * Picks the integration of the entity's GitLab host, the first integration when the entity does
+ * not name a host, or anonymous access to gitlab.com without any configuration.
+ */
+function resolveGitLabIntegration(
+  integrations: GitLabIntegration[],
+  entity: Entity,
+): GitLabIntegration | undefined {
+  const host = entity.metadata.annotations?.[GITLAB_INSTANCE_ANNOTATION];
+  if (host) {
+    return integrations.find(integration => integration.host === host);
+  }
+  return (
+    integrations[0] ?? {
+      host: DEFAULT_GITLAB_HOST,
+      apiBaseUrl: `https://${DEFAULT_GITLAB_HOST}/api/v4`,
+    }
+  );
+}
+
+/**
+ * Classifies a GitLab pipeline: canceled, skipped and unfinished pipelines count as neither
+ * success nor failure.
+ */
+function getRunStatus(pipeline: GitLabPipeline): PipelineRun['status'] {
+  if (pipeline.status === 'success') {
+    return 'success';
+  }
+  return pipeline.status === 'failed' ? 'failure' : 'unknown';
+}
+
+/**
+ * Creates a fact retriever for pipeline metrics from GitLab CI.
+ *
+ * This retriever queries the pipelines of the project in the gitlab.com/project-slug annotation
+ * and stores the same facts as the foundation pipeline retriever. GitLab has no workflow
+ * definitions, so runs are grouped by pipeline name (workflow:name), or by the source that
+ * triggered them for unnamed pipelines. Pipelines of the project's default branch are evaluated,
+ * unless the entity lists branches in the tech-insights.io/pipeline-branches annotation.
+ *
+ * @returns A FactRetriever that collects pipeline status metrics
+ */
+export const gitlabPipelineStatusFactRetriever: FactRetriever = {
+  id: 'gitlabPipelineStatusFactRetriever',
+  version: '0.1.0',
+  entityFilter: [{ kind: 'component' }],
+  schema: {
+    totalWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Total number of pipelines on the evaluated branches',
+    },
+    uniqueWorkflowsCount: {
+      type: 'integer',
+      description: 'Number of distinct pipeline names or trigger sources',
+    },
+    successWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Number of successful pipelines',
+    },
+    failureWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Number of failed pipelines',
+    },
+    successRate: {
+      type: 'float',
+      description: 'Success rate percentage of pipelines (0-100)',
+    },
+    workflowMetrics: {
+      type: 'object',
+      description: 'Detailed metrics for each pipeline name or trigger source',
+    },
+  },
+
+  /**
+   * Handler function that retrieves pipeline status metrics for relevant entities.
+   *
+   * @param ctx - Context object containing configuration, logger, and other services
+   * @returns Array of entity facts with pipeline status metrics
+   */
+  async handler({
+    config,
+    logger,
+    entityFilter,
+    auth,
+    discovery,
+  }): Promise<TechInsightFact[]> {
+    const integrations = readGitLabIntegrations(config);
+
+    // Get catalog access token for fetching entities
+    const { token: catalogToken } = await auth.getPluginRequestToken({
+      onBehalfOf: await auth.getOwnServiceCredentials(),
+      targetPluginId: 'catalog',
+    });
+
+    const catalogClient = new CatalogClient({ discoveryApi: discovery });
+
+    // Fetch entities matching the provided filter
+    const { items: entities } = await catalogClient.getEntities(
+      { filter: entityFilter },
+      { token: catalogToken },
+    );
+
+    // Filter entities that have GitLab projects
+    const gitlabEntities = entities.filter(
+      entity => !!entity.metadata.annotations?.[GITLAB_PROJECT_SLUG_ANNOTATION],
+    );
+
+    const results = await Promise.all(
+      gitlabEntities.map(async entity => {
+        const integration = resolveGitLabIntegration(integrations, entity);
+        if (!integration) {
+          logger.warn(
+            `No integrations.gitlab entry for host ${entity.metadata.annotations?.[GITLAB_INSTANCE_ANNOTATION]} of ${entity.metadata.name}`,
+          );
+          return null;
+        }
+
+        const projectUrl = `${
+          integration.apiBaseUrl
+        }/projects/${encodeURIComponent(
+          entity.metadata.annotations?.[GITLAB_PROJECT_SLUG_ANNOTATION] ?? '',
+        )}`;
+        const headers: Record<string, string> = integration.token
+          ? { 'PRIVATE-TOKEN': integration.token }
+          : {};
+
+        try {
+          // Evaluate the annotated branches, or the project's default branch
+          let branches = parseBranchesAnnotation(entity);
+          if (branches.length === 0) {
+            const projectResponse = await fetch(projectUrl, { headers });
+            const project = projectResponse.ok
+              ? await projectResponse.json()
+              : undefined;
+            branches = [project?.default_branch ?? FALLBACK_BRANCH];
+          }
+
+          // Fetch the pipelines of the evaluated branches using pagination
+          let pipelines: GitLabPipeline[] = [];
+          for (const branch of getBranchQueries(branches)) {
+            let page: string | null = '1';
+            let pageCount = 0;
+            while (page && pageCount < MAX_PAGES) {
+              const response: Response = await fetch(
+                `${projectUrl}/pipelines?${
+                  branch ? `ref=${encodeURIComponent(branch)}&` : ''
+                }per_page=100&page=${page}`,
+                { headers },
+              );
+              if (!response.ok) {
+                logger.warn(
+                  `Failed to retrieve GitLab pipelines for ${entity.metadata.name}: ${response.status}`,
+                );
+                return null;
+              }
+              pipelines = [...pipelines, ...(await response.json())];
+              page = response.headers.get('x-next-page') || null;
+              pageCount++;
+            }
+          }
+
+          // Filter for only pipelines on the evaluated branches
+          const runs: PipelineRun[] = pipelines
+            .filter(pipeline => matchesBranch(pipeline.ref, branches))
+            .map(pipeline => ({
+              workflowName: pipeline.name || pipeline.source,
+              status: getRunStatus(pipeline),
+            }));
+
+          // Return the fact result object for this project
+          return {
+            entity: {
+              kind: entity.kind,
+              namespace: entity.metadata.namespace || 'default',
+              name: entity.metadata.name,
+            },
+            facts: summarizePipelineRuns(runs),
+          } as TechInsightFact;
+        } catch (error: any) {
+          logger.warn(
+            `Failed to retrieve GitLab pipelines for ${entity.metadata.name}: ${error}`,
+          );
+          return null;
+        }
+      }),
+    );
+
+    // Filter out null results and return valid pipeline metrics
+    return results.filter((r): r is TechInsightFact => r !== null);
+  },
+};
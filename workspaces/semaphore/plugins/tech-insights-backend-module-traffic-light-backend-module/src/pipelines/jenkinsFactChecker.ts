@@ -0,0 +1,39 @@
+import { DynamicThresholdCheck } from '../argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+
+// The Jenkins checks share the threshold annotations of the GitHub Actions pipeline checks
+export const jenkinsPipelineChecks: DynamicThresholdCheck[] = [
+  {
+    id: 'jenkins-preproduction-success-rate',
+    name: 'Preproduction Jenkins Success Rate',
+    type: 'percentage',
+    factIds: ['jenkinsPipelineStatusFactRetriever', 'successRate'],
+    annotationKeyThreshold:
+      'tech-insights.io/preproduction-success-rate-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/preproduction-success-rate-operator',
+    description:
+      'Minimum Jenkins success rate required for preproduction components',
+  },
+  {
+    id: 'jenkins-foundation-success-rate',
+    name: 'Foundation Jenkins Success Rate',
+    type: 'percentage',
+    factIds: ['jenkinsPipelineStatusFactRetriever', 'successRate'],
+    annotationKeyThreshold:
+      'tech-insights.io/foundation-success-rate-threshold',
+    annotationKeyOperator: 'tech-insights.io/foundation-success-rate-operator',
+    description:
+      'Minimum Jenkins success rate required for foundation components',
+  },
+  {
+    id: 'jenkins-foundation-max-failures',
+    name: 'Foundation Jenkins Max Failures',
+    type: 'number',
+    factIds: ['jenkinsPipelineStatusFactRetriever', 'failureWorkflowRunsCount'],
+    annotationKeyThreshold:
+      'tech-insights.io/foundation-max-failures-threshold',
+    annotationKeyOperator: 'tech-insights.io/foundation-max-failures-operator',
+    description:
+      'Maximum number of failed Jenkins builds allowed for foundation components',
+  },
+];
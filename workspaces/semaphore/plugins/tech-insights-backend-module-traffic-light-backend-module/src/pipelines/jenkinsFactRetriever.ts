@@ -0,0 +1,280 @@
+import {
+  FactRetriever,
+  TechInsightFact,
+} from '@backstage-community/plugin-tech-insights-node';
+import { CatalogClient } from '@backstage/catalog-client';
+import { Config } from '@backstage/config';
+import { matchesBranch, parseBranchesAnnotation } from './pipelineBranches';
+import { PipelineRun, summarizePipelineRuns } from './pipelineRunSummary';
+
+// Annotation with the full name of the Jenkins job, e.g. folder/job or instance:folder/job
+export const JENKINS_JOB_FULL_NAME_ANNOTATION = 'jenkins.io/job-full-name';
+
+const DEFAULT_JENKINS_INSTANCE_NAME = 'default';
+
+// Multibranch pipelines do not expose a default branch, so these branches are evaluated instead
+const DEFAULT_BRANCHES = ['main', 'master'];
+
+// Limit to the 100 most recent builds of each job to keep the responses small
+const BUILDS_TREE = 'builds[number,result,building,timestamp]{0,100}';
+
+// A Jenkins controller
+type JenkinsInstance = {
+  name: string;
+  baseUrl: string; // e.g. https://jenkins.example.com
+  username?: string;
+  apiKey?: string;
+};
+
+// Represents a single build from the Jenkins JSON API
+type JenkinsBuild = {
+  number: number;
+  result: string | null; // SUCCESS, FAILURE, UNSTABLE, ABORTED, NOT_BUILT or null while building
+  building: boolean;
+  timestamp: number;
+};
+
+// A Jenkins job, whose child jobs are the branches of a multibranch pipeline
+type JenkinsJob = {
+  name?: string;
+  builds?: JenkinsBuild[];
+  jobs?: JenkinsJob[];
+};
+
+/**
+ * Reads the Jenkins controllers: the default controller from `jenkins.baseUrl`, followed by the
+ * named entries of `jenkins.instances`.
+ *
+ * @param config - The Backstage application configuration
+ */
+function readJenkinsInstances(config: Config): JenkinsInstance[] {
+  const jenkinsConfig = config.getOptionalConfig('jenkins');
+  if (!jenkinsConfig) {
+    return [];
+  }
+
+  const defaultBaseUrl = jenkinsConfig.getOptionalString('baseUrl');
+  const defaultInstance: JenkinsInstance[] = defaultBaseUrl
+    ? [
+        {
+          name: DEFAULT_JENKINS_INSTANCE_NAME,
+          baseUrl: defaultBaseUrl.replace(/\/+$/, ''),
+          username: jenkinsConfig.getOptionalString('username'),
+          apiKey: jenkinsConfig.getOptionalString('apiKey'),
+        },
+      ]
+    : [];
+
+  const namedInstances = (
+    jenkinsConfig.getOptionalConfigArray('instances') ?? []
+  ).map(instanceConfig => ({
+    name: instanceConfig.getString('name'),
+    baseUrl: instanceConfig.getString('baseUrl').replace(/\/+$/, ''),
+    username: instanceConfig.getOptionalString('username'),
+    apiKey: instanceConfig.getOptionalString('apiKey'),
+  }));
+
+  return [...defaultInstance, ...namedInstances];
+}
+
+/**
+ * Splits the job annotation into the controller name and the job full name. A leading
+ * `instance:` selects a named controller, as in the Backstage Jenkins plugin.
+ */
+function parseJobAnnotation(annotation: string): {
+  instanceName: string;
+  jobFullName: string;
+} {
+  const separator = annotation.indexOf(':');
+  return separator === -1
+    ? { instanceName: DEFAULT_JENKINS_INSTANCE_NAME, jobFullName: annotation }
+    : {
+        instanceName: annotation.slice(0, separator),
+        jobFullName: annotation.slice(separator + 1),
+      };
+}
+
+/**
+ * Classifies a Jenkins build: unstable builds (failing tests) count as failures, aborted, not built
+ * and running builds as neither success nor failure.
+ */
+function getRunStatus(build: JenkinsBuild): PipelineRun['status'] {
+  if (build.building || !build.result) {
+    return 'unknown';
+  }
+  if (build.result === 'SUCCESS') {
+    return 'success';
+  }
+  return build.result === 'FAILURE' || build.result === 'UNSTABLE'
+    ? 'failure'
+    : 'unknown';
+}
+
+/**
+ * Creates a fact retriever for pipeline metrics from Jenkins.
+ *
+ * This retriever reads the recent builds of the job in the jenkins.io/job-full-name annotation
+ * and stores the same facts as the foundation pipeline retriever. For a multibranch pipeline each
+ * branch job counts as a workflow, limited to the branches in the tech-insights.io/pipeline-branches
+ * annotation or to main and master. The builds of other jobs count as a single workflow.
+ *
+ * @returns A FactRetriever that collects pipeline status metrics
+ */
+export const jenkinsPipelineStatusFactRetriever: FactRetriever = {
+  id: 'jenkinsPipelineStatusFactRetriever',
+  version: '0.1.0',
+  entityFilter: [{ kind: 'component' }],
+  schema: {
+    totalWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Total number of builds on the evaluated branches',
+    },
+    uniqueWorkflowsCount: {
+      type: 'integer',
+      description: 'Number of evaluated jobs',
+    },
+    successWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Number of successful builds',
+    },
+    failureWorkflowRunsCount: {
+      type: 'integer',
+      description: 'Number of failed or unstable builds',
+    },
+    successRate: {
+      type: 'float',
+      description: 'Success rate percentage of builds (0-100)',
+    },
+    workflowMetrics: {
+      type: 'object',
+      description: 'Detailed metrics for each evaluated job',
+    },
+  },
+
+  /**
+   * Handler function that retrieves pipeline status metrics for relevant entities.
+   *
+   * @param ctx - Context object containing configuration, logger, and other services
+   * @returns Array of entity facts with pipeline status metrics
+   */
+  async handler({
+    config,
+    logger,
+    entityFilter,
+    auth,
+    discovery,
+  }): Promise<TechInsightFact[]> {
+    const instances = readJenkinsInstances(config);
+    if (instances.length === 0) {
+      logger.warn('No Jenkins configuration found, skipping');
+      return [];
+    }
+
+    // Get catalog access token for fetching entities
+    const { token: catalogToken } = await auth.getPluginRequestToken({
+      onBehalfOf: await auth.getOwnServiceCredentials(),
+      targetPluginId: 'catalog',
+    });
+
+    const catalogClient = new CatalogClient({ discoveryApi: discovery });
+
+    // Fetch entities matching the provided filter
+    const { items: entities } = await catalogClient.getEntities(
+      { filter: entityFilter },
+      { token: catalogToken },
+    );
+
+    // Filter entities that have Jenkins jobs
+    const jenkinsEntities = entities.filter(
+      entity =>
+        !!entity.metadata.annotations?.[JENKINS_JOB_FULL_NAME_ANNOTATION],
+    );
+
+    const results = await Promise.all(
+      jenkinsEntities.map(async entity => {
+        const { instanceName, jobFullName } = parseJobAnnotation(
+          entity.metadata.annotations?.[JENKINS_JOB_FULL_NAME_ANNOTATION] ?? '',
+        );
+        const instance = instances.find(i => i.name === instanceName);
+        if (!instance) {
+          logger.warn(
+            `Unknown Jenkins instance '${instanceName}' for ${entity.metadata.name}, skipping`,
+          );
+          return null;
+        }
+
+        // Each folder of the full name is a /job/ path segment
+        const jobPath = jobFullName
+          .split('/')
+          .filter(segment => segment.length > 0)
+          .map(segment => `/job/${encodeURIComponent(segment)}`)
+          .join('');
+        const headers: Record<string, string> =
+          instance.username && instance.apiKey
+            ? {
+                Authorization: `Basic ${Buffer.from(
+                  `${instance.username}:${instance.apiKey}`,
+                ).toString('base64')}`,
+              }
+            : {};
+
+        try {
+          const response = await fetch(
+            `${instance.baseUrl}${jobPath}/api/json?tree=${BUILDS_TREE},jobs[name,${BUILDS_TREE}]`,
+            { headers },
+          );
+          if (!response.ok) {
+            logger.warn(
+              `Failed to retrieve Jenkins job ${jobFullName} for ${entity.metadata.name}: ${response.status}`,
+            );
+            return null;
+          }
+          const job: JenkinsJob = await response.json();
+
+          let runs: PipelineRun[];
+          if (job.jobs && job.jobs.length > 0) {
+            // Branch job names of multibranch pipelines are URL encoded, e.g. release%2F1.0
+            const branchPatterns = parseBranchesAnnotation(entity);
+            const branches =
+              branchPatterns.length > 0 ? branchPatterns : DEFAULT_BRANCHES;
+            runs = job.jobs
+              .map(branchJob => ({
+                ...branchJob,
+                name: decodeURIComponent(branchJob.name ?? ''),
+              }))
+              .filter(branchJob => matchesBranch(branchJob.name, branches))
+              .flatMap(branchJob =>
+                (branchJob.builds ?? []).map(build => ({
+                  workflowName: branchJob.name,
+                  status: getRunStatus(build),
+                })),
+              );
+          } else {
+            runs = (job.builds ?? []).map(build => ({
+              workflowName: jobFullName,
+              status: getRunStatus(build),
+            }));
+          }
+
+          // Return the fact result object for this job
+          return {
+            entity: {
+              kind: entity.kind,
+              namespace: entity.metadata.namespace || 'default',
+              name: entity.metadata.name,
+            },
+            facts: summarizePipelineRuns(runs),
+          } as TechInsightFact;
+        } catch (error: any) {
+          logger.warn(
+            `Failed to retrieve Jenkins builds for ${entity.metadata.name}: ${error}`,
+          );
+          return null;
+        }
+      }),
+    );
+
+    // Filter out null results and return valid pipeline metrics
+    return results.filter((r): r is TechInsightFact => r !== null);
+  },
+};
@@ -0,0 +1,103 @@
+import { Entity } from '@backstage/catalog-model';
+import { GitHubEntityTarget } from '../github/githubIntegrations';
+
+// Annotation listing the branches whose pipeline runs are evaluated, e.g. '["main", "release/*"]'
+export const PIPELINE_BRANCHES_ANNOTATION =
+  'tech-insights.io/pipeline-branches';
+
+// Used when the repository metadata cannot be read
+const FALLBACK_BRANCH = 'main';
+
+/**
+ * Reads the default branch of a repository from the GitHub repository metadata.
+ *
+ * @param target - The GitHub client and run for the entity's host
+ * @param owner - The repository owner
+ * @param repoName - The repository name
+ * @returns The default branch, or 'main' when the metadata is unavailable
+ */
+export async function getDefaultBranch(
+  target: GitHubEntityTarget,
+  owner: string,
+  repoName: string,
+): Promise<string> {
+  try {
+    const response = await target.run.fetch(
+      `${target.client.baseUrl}/repos/${owner}/${repoName}`,
+      { headers: target.client.getHeaders() },
+    );
+    if (response.ok) {
+      const repository = await response.json();
+      if (repository?.default_branch) {
+        return repository.default_branch;
+      }
+    }
+  } catch (error) {
+    // Fall through to the conventional default branch
+  }
+  return FALLBACK_BRANCH;
+}
+
+/**
+ * Parses the branches annotation, accepting a JSON array or a comma separated list.
+ *
+ * @param entity - The catalog entity
+ * @param annotationKey - The annotation to parse, the pipeline branches annotation by default
+ * @returns The listed branch names or patterns, empty when the annotation is missing or malformed
+ */
+export function parseBranchesAnnotation(
+  entity: Entity,
+  annotationKey: string = PIPELINE_BRANCHES_ANNOTATION,
+): string[] {
+  const annotation = entity.metadata.annotations?.[annotationKey]?.trim();
+  if (!annotation) {
+    return [];
+  }
+
+  let branches: unknown = annotation.split(',');
+  if (annotation.startsWith('[')) {
+    try {
+      branches = JSON.parse(annotation);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  return Array.isArray(branches)
+    ? branches
+        .filter((branch): branch is string => typeof branch === 'string')
+        .map(branch => branch.trim())
+        .filter(branch => branch.length > 0)
+    : [];
+}
+
+/**
+ * Checks whether a branch matches any of the given names or `*` wildcard patterns.
+ *
+ * @param branch - The head branch of a workflow run
+ * @param patterns - Branch names or patterns such as 'release/*'
+ */
+export function matchesBranch(branch: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    if (!pattern.includes('*')) {
+      return branch === pattern;
+    }
+    const regex = new RegExp(
+      `^${pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`,
+    );
+    return regex.test(branch);
+  });
+}
+
+/**
+ * Returns the values for the `branch` query parameter of the workflow runs API. Wildcard patterns
+ * cannot be filtered server side, so they are fetched unfiltered (undefined) and matched afterwards.
+ *
+ * @param branches - Branch names or patterns to evaluate
+ */
+export function getBranchQueries(branches: string[]): (string | undefined)[] {
+  return branches.some(branch => branch.includes('*')) ? [undefined] : branches;
+}
@@ -0,0 +1,163 @@
+/**
+ * Pipeline profiles describe which GitHub Actions workflow runs a pipeline semaphore evaluates.
+ * The pre-production, foundation and reporting semaphores are built-in profiles; further
+ * profiles are read from `techInsights.argus.pipelineProfiles`.
+ */
+import { Config } from '@backstage/config';
+import { PIPELINE_BRANCHES_ANNOTATION } from './pipelineBranches';
+
+/**
+ * How the runs of a profile are evaluated: every run in the window (allRuns), or only the most
+ * recent run of each workflow (lastRun).
+ */
+export type PipelineProfileMode = 'allRuns' | 'lastRun';
+
+// Conclusions of completed GitHub Actions runs other than success
+export const NON_SUCCESS_CONCLUSIONS = [
+  'failure',
+  'cancelled',
+  'timed_out',
+  'action_required',
+  'neutral',
+  'skipped',
+  'stale',
+  'startup_failure',
+];
+
+// Number of days of runs evaluated by allRuns profiles unless configured otherwise
+export const DEFAULT_PIPELINE_WINDOW_DAYS = 30;
+
+// Names of the built-in pipeline semaphores and ids of the built-in pipeline fact retrievers,
+// which configured profiles must not reuse
+const BUILT_IN_PIPELINE_PROFILE_NAMES = [
+  'foundation',
+  'preproduction',
+  'reporting',
+];
+const BUILT_IN_PIPELINE_RETRIEVER_IDS = [
+  'foundationPipelineStatusFactRetriever',
+  'githubPipelineStatusFactRetriever',
+  'reportingPipelineStatusFactRetriever',
+  'azurePipelinesStatusFactRetriever',
+  'gitlabPipelineStatusFactRetriever',
+  'jenkinsPipelineStatusFactRetriever',
+];
+
+// A named selection of workflow runs that produces the facts of one fact retriever
+export type PipelineProfile = {
+  id: string; // Fact retriever id, e.g. foundationPipelineStatusFactRetriever
+  mode: PipelineProfileMode;
+  branchesAnnotation: string; // Annotation listing the evaluated branches
+  branch?: string; // Branch or pattern evaluated when the annotation is missing, else the default branch
+  include: string[]; // Workflow names or `*` patterns, all workflows when empty
+  includeAnnotation?: string; // Annotation with a JSON list of workflow names, overriding include
+  exclude: string[]; // Case-insensitive regular expressions of workflow names
+  excludeAnnotation?: string; // Annotation with a JSON list of exclude patterns, overriding exclude
+  windowDays?: number; // Days of runs evaluated, the configured pipeline window for allRuns profiles when unset
+  failureConclusions: string[]; // Conclusions of completed runs counted as failures
+};
+
+/**
+ * Reads an optional number of days of runs, which must be positive: a window of 0 days would
+ * evaluate all runs and a negative window would start in the future.
+ *
+ * @param key - The key of the window, e.g. windowDays
+ * @param description - Where the window is configured, for the error message
+ */
+function readWindowDays(
+  config: Config,
+  key: string,
+  description: string,
+): number | undefined {
+  const windowDays = config.getOptionalNumber(key);
+  if (windowDays !== undefined && windowDays <= 0) {
+    throw new Error(
+      `Invalid windowDays ${windowDays} of ${description}, expected a positive number of days`,
+    );
+  }
+  return windowDays;
+}
+
+/**
+ * Returns the fact retriever id of a configured profile, e.g. securityScanPipelineStatusFactRetriever
+ * for a profile named securityScan, in line with the ids of the built-in pipeline retrievers.
+ *
+ * @param name - The name of the profile
+ */
+export function getPipelineProfileRetrieverId(name: string): string {
+  return `${name}PipelineStatusFactRetriever`;
+}
+
+/**
+ * Reads the pipeline profiles from `techInsights.argus.pipelineProfiles`.
+ *
+ * @param config - The Backstage application configuration
+ * @returns The configured profiles, empty when none are configured
+ * @throws When two profiles share a name or a profile would replace a built-in pipeline retriever
+ */
+export function readPipelineProfiles(config: Config): PipelineProfile[] {
+  const profilesConfig =
+    config.getOptionalConfigArray('techInsights.argus.pipelineProfiles') ?? [];
+  const names = new Set<string>();
+
+  return profilesConfig.map(profileConfig => {
+    const name = profileConfig.getString('name');
+    const id = getPipelineProfileRetrieverId(name);
+    if (names.has(name)) {
+      throw new Error(`Duplicate pipeline profile name '${name}'`);
+    }
+    names.add(name);
+    if (
+      BUILT_IN_PIPELINE_PROFILE_NAMES.includes(name) ||
+      BUILT_IN_PIPELINE_RETRIEVER_IDS.includes(id)
+    ) {
+      throw new Error(
+        `Pipeline profile name '${name}' is reserved for a built-in pipeline fact retriever`,
+      );
+    }
+
+    const mode = profileConfig.getOptionalString('mode') ?? 'allRuns';
+    if (mode !== 'allRuns' && mode !== 'lastRun') {
+      throw new Error(
+        `Invalid mode '${mode}' of pipeline profile ${name}, expected allRuns or lastRun`,
+      );
+    }
+
+    return {
+      id,
+      mode,
+      branchesAnnotation: PIPELINE_BRANCHES_ANNOTATION,
+      branch: profileConfig.getOptionalString('branch'),
+      include: profileConfig.getOptionalStringArray('include') ?? [],
+      includeAnnotation: profileConfig.getOptionalString('includeAnnotation'),
+      exclude: profileConfig.getOptionalStringArray('exclude') ?? [],
+      excludeAnnotation: profileConfig.getOptionalString('excludeAnnotation'),
+      windowDays: readWindowDays(
+        profileConfig,
+        'windowDays',
+        `pipeline profile ${name}`,
+      ),
+      failureConclusions: profileConfig.getOptionalStringArray(
+        'failureConclusions',
+      ) ?? ['failure'],
+    };
+  });
+}
+
+/**
+ * Reads the number of days of runs evaluated by allRuns profiles without a window of their own
+ * from `techInsights.argus.pipelines.windowDays`.
+ *
+ * @param config - The Backstage application configuration
+ * @returns The configured window, 30 days by default
+ * @throws When the configured window is not a positive number of days
+ */
+export function readPipelineWindowDays(config: Config): number {
+  return (
+    readWindowDays(
+      config,
+      'techInsights.argus.pipelines.windowDays',
+      'techInsights.argus.pipelines',
+    ) ?? DEFAULT_PIPELINE_WINDOW_DAYS
+  );
+}
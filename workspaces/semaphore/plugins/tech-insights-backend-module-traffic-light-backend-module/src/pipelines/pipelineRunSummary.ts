@@ -0,0 +1,99 @@
+import { JsonObject } from '@backstage/types';
+
+// A pipeline run of any CI vendor, reduced to what the pipeline status facts need
+export type PipelineRun = {
+  workflowName: string;
+  status: 'success' | 'failure' | 'unknown'; // unknown for running, canceled or skipped runs
+};
+
+// Metrics for each workflow
+export type WorkflowMetrics = {
+  name: string;
+  totalRuns: number;
+  successRuns: number;
+  failureRuns: number;
+  successRate: number;
+};
+
+// Pipeline status metrics in the shape of the foundation pipeline retriever
+export interface PipelineStatusSummary extends JsonObject {
+  totalWorkflowRunsCount: number;
+  uniqueWorkflowsCount: number;
+  successWorkflowRunsCount: number;
+  failureWorkflowRunsCount: number;
+  successRate: number;
+  workflowMetrics: Record<string, WorkflowMetrics>;
+}
+
+/**
+ * Returns the success rate percentage rounded to two decimals, 0 when there are no completed runs.
+ */
+export function toSuccessRate(
+  successRuns: number,
+  failureRuns: number,
+): number {
+  const completedRuns = successRuns + failureRuns;
+  return completedRuns > 0
+    ? Math.round((successRuns / completedRuns) * 10000) / 100
+    : 0;
+}
+
+/**
+ * Computes the foundation pipeline status facts from the runs of any CI vendor, so that its
+ * pipelines can be evaluated by the same checks and semaphores.
+ *
+ * @param runs - The runs on the evaluated branches
+ * @param uniqueWorkflowsCount - The number of workflows, when known from the workflow definitions
+ */
+export function summarizePipelineRuns(
+  runs: PipelineRun[],
+  uniqueWorkflowsCount?: number,
+): PipelineStatusSummary {
+  const workflowMetrics: Record<string, WorkflowMetrics> = {};
+
+  // Group runs by workflow name
+  const runsByWorkflow = new Map<string, PipelineRun[]>();
+  runs.forEach(run => {
+    runsByWorkflow.set(run.workflowName, [
+      ...(runsByWorkflow.get(run.workflowName) ?? []),
+      run,
+    ]);
+  });
+
+  runsByWorkflow.forEach((workflowRuns, workflowName) => {
+    const successRuns = workflowRuns.filter(
+      run => run.status === 'success',
+    ).length;
+    const failureRuns = workflowRuns.filter(
+      run => run.status === 'failure',
+    ).length;
+
+    // Create safe key for the metrics object from workflow name
+    workflowMetrics[workflowName.replace(/[^a-zA-Z0-9]/g, '_')] = {
+      name: workflowName,
+      totalRuns: workflowRuns.length,
+      successRuns,
+      failureRuns,
+      successRate: toSuccessRate(successRuns, failureRuns),
+    };
+  });
+
+  const successWorkflowRunsCount = runs.filter(
+    run => run.status === 'success',
+  ).length;
+  const failureWorkflowRunsCount = runs.filter(
+    run => run.status === 'failure',
+  ).length;
+
+  return {
+    totalWorkflowRunsCount: runs.length,
+    uniqueWorkflowsCount: uniqueWorkflowsCount ?? runsByWorkflow.size,
+    successWorkflowRunsCount,
+    failureWorkflowRunsCount,
+    successRate: toSuccessRate(
+      successWorkflowRunsCount,
+      failureWorkflowRunsCount,
+    ),
+    workflowMetrics,
+  };
+}
@@ -0,0 +1,262 @@
+import { getVoidLogger } from '@backstage/backend-common';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+import { azurePipelinesStatusFactRetriever } from '../azurePipelinesFactRetriever';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// Mock global fetch for Azure DevOps API requests
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+const jsonResponse = (body: any, continuationToken?: string) => ({
+  ok: true,
+  status: 200,
+  headers: { get: () => continuationToken ?? null },
+  json: async () => body,
+});
+
+// A build as returned by the Azure DevOps Build API
+const build = (
+  definitionId: number,
+  result: string,
+  sourceBranch = 'refs/heads/main',
+  queueTime = '2024-05-01T10:00:00Z',
+) => ({
+  id: Math.floor(Math.random() * 100000),
+  definition: { id: definitionId, name: `pipeline-${definitionId}` },
+  status: 'completed',
+  result,
+  sourceBranch,
+  queueTime,
+});
+
+describe('azurePipelinesStatusFactRetriever', () => {
+  const mockConfig = new ConfigReader({
+    integrations: {
+      azure: [{ host: 'dev.azure.com', token: 'azure-pat' }],
+    },
+  });
+
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  const createEntity = (annotations: Record<string, string>): Entity => ({
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: {
+      name: 'test-component',
+      namespace: 'default',
+      annotations: {
+        'azure.com/organization': 'test-org',
+        'azure.com/project': 'test-project',
+        ...annotations,
+      },
+    },
+    spec: {},
+  });
+
+  const definitions = jsonResponse({
+    value: [
+      {
+        id: 1,
+        name: 'pipeline-1',
+        repository: { defaultBranch: 'refs/heads/main' },
+      },
+      {
+        id: 2,
+        name: 'pipeline-2',
+        repository: { defaultBranch: 'refs/heads/main' },
+      },
+      {
+        id: 3,
+        name: 'unlisted',
+        repository: { defaultBranch: 'refs/heads/main' },
+      },
+    ],
+  });
+
+  const runHandler = () =>
+    azurePipelinesStatusFactRetriever.handler({
+      config: mockConfig,
+      logger: getVoidLogger(),
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    mockFetch.mockReset();
+  });
+
+  // Test: Computes the pipeline summary, per-pipeline metrics and last runs of the listed pipelines
+  it('should compute pipeline metrics from the builds of the listed pipelines', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({ 'azure.com/pipeline-definitions': '1, pipeline-2' }),
+        createEntity({}), // Not built in Azure Pipelines
+      ],
+    });
+    mockFetch.mockResolvedValueOnce(definitions).mockResolvedValueOnce(
+      jsonResponse({
+        value: [
+          build(1, 'failed', 'refs/heads/main', '2024-05-03T10:00:00Z'),
+          build(1, 'succeeded'),
+          build(1, 'succeeded', 'refs/heads/feature'),
+          build(2, 'succeeded', 'refs/heads/main', '2024-05-02T10:00:00Z'),
+          build(2, 'partiallySucceeded'),
+          build(2, 'canceled'),
+        ],
+      }),
+    );
+
+    const result = await runHandler();
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][0]).toContain(
+      'https://dev.azure.com/test-org/test-project/_apis/build/builds?definitions=1,2&',
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toEqual({
+      totalWorkflowRunsCount: 5,
+      uniqueWorkflowsCount: 2,
+      successWorkflowRunsCount: 2,
+      failureWorkflowRunsCount: 2,
+      successRate: 50,
+      workflowMetrics: {
+        pipeline_1: {
+          name: 'pipeline-1',
+          totalRuns: 2,
+          successRuns: 1,
+          failureRuns: 1,
+          successRate: 50,
+          lastRunStatus: 'failure',
+          lastRunDate: '2024-05-03T10:00:00Z',
+        },
+        pipeline_2: {
+          name: 'pipeline-2',
+          totalRuns: 3,
+          successRuns: 1,
+          failureRuns: 1,
+          successRate: 50,
+          lastRunStatus: 'success',
+          lastRunDate: '2024-05-02T10:00:00Z',
+        },
+      },
+      lastRunMetrics: [
+        {
+          workflowName: 'pipeline-1',
+          lastRunStatus: 'failure',
+          lastRunDate: '2024-05-03T10:00:00Z',
+        },
+        {
+          workflowName: 'pipeline-2',
+          lastRunStatus: 'success',
+          lastRunDate: '2024-05-02T10:00:00Z',
+        },
+      ],
+      totalIncludedWorkflows: 2,
+      successfulRuns: 1,
+      failedRuns: 1,
+      lastRunSuccessRate: 50,
+    });
+  });
+
+  // Test: Evaluates the annotated branches and limits reporting to the reporting pipelines
+  it('should honour the branches and reporting workflows annotations', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({
+          'azure.com/pipeline-definitions': '[1, 2]',
+          'tech-insights.io/pipeline-branches': 'release/*',
+          'reporting/workflows': '["pipeline-2"]',
+        }),
+      ],
+    });
+    mockFetch
+      .mockResolvedValueOnce(definitions)
+      .mockResolvedValueOnce(
+        jsonResponse(
+          {
+            value: [
+              build(1, 'succeeded', 'refs/heads/main'),
+              build(1, 'failed', 'refs/heads/release/1.0'),
+            ],
+          },
+          'next-page',
+        ),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          value: [build(2, 'succeeded', 'refs/heads/release/2.0')],
+        }),
+      );
+
+    const result = await runHandler();
+
+    expect(mockFetch.mock.calls[2][0]).toContain('continuationToken=next-page');
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        totalWorkflowRunsCount: 2,
+        successWorkflowRunsCount: 1,
+        failureWorkflowRunsCount: 1,
+        totalIncludedWorkflows: 1,
+        successfulRuns: 1,
+        lastRunSuccessRate: 100,
+      }),
+    );
+  });
+
+  // Test: Skips entities whose organization has no personal access token
+  it('should skip entities without matching credentials', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({
+          'azure.com/host': 'tfs.example.com',
+          'azure.com/pipeline-definitions': '1',
+        }),
+      ],
+    });
+
+    const result = await runHandler();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(result).toEqual([]);
+  });
+});
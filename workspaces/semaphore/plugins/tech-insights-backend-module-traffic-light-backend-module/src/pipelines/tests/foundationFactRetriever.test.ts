@@ -1,5 +1,6 @@
 import { CatalogClient } from '@backstage/catalog-client';
-import { Config } from '@backstage/config';
+import { ConfigReader } from '@backstage/config';
+import { DateTime } from 'luxon';
 import { foundationPipelineStatusFactRetriever } from '../foundationFactRetriever';
 import { AuthService, DiscoveryService } from '@backstage/backend-plugin-api';
 
@@ -13,6 +14,13 @@ jest.mock('@backstage/catalog-client', () => ({
 const mockFetch = jest.fn();
 global.fetch = mockFetch;
 
+// A GitHub API response with a JSON body
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) => new Response(JSON.stringify(body), { status, headers });
+
 describe('foundationPipelineStatusFactRetriever', () => {
   const mockLogger = {
     info: jest.fn(),
@@ -54,13 +62,16 @@ describe('foundationPipelineStatusFactRetriever', () => {
     search: jest.fn(),
   };
 
-  const mockConfig = {
-    getOptionalConfigArray: jest
-      .fn()
-      .mockReturnValue([
-        { getOptionalString: jest.fn().mockReturnValue('mock-github-token') },
-      ]),
-  } as unknown as Config;
+  // Runs of the default 30 day window, today included
+  const createdQuery = `created=${encodeURIComponent(
+    `>=${DateTime.utc().minus({ days: 29 }).toISODate()}`,
+  )}&`;
+
+  const mockConfig = new ConfigReader({
+    integrations: {
+      github: [{ host: 'github.com', token: 'mock-github-token' }],
+    },
+  });
 
   const mockEntity = {
     kind: 'Component',
@@ -105,18 +116,13 @@ describe('foundationPipelineStatusFactRetriever', () => {
       getEntities: jest.fn().mockResolvedValue({ items: [mockEntity] }),
     }));
 
-    // Set up fetch to respond with workflows then runs
+    // Set up fetch to respond with workflows, repository metadata then runs
     mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockWorkflows),
-        headers: new Map(),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockWorkflowRuns),
-        headers: new Map([['Link', 'no-next']]),
-      });
+      .mockResolvedValueOnce(jsonResponse(mockWorkflows))
+      .mockResolvedValueOnce(jsonResponse({ default_branch: 'main' }))
+      .mockResolvedValueOnce(
+        jsonResponse(mockWorkflowRuns, 200, { Link: 'no-next' }),
+      );
   });
 
   it('returns correct pipeline fact summary for GitHub repo', async () => {
@@ -142,6 +148,92 @@ describe('foundationPipelineStatusFactRetriever', () => {
     expect(fact.facts.workflowMetrics).toHaveProperty('Test');
   });
 
+  it('evaluates runs on the repository default branch', async () => {
+    mockFetch
+      .mockReset()
+      .mockResolvedValueOnce(jsonResponse(mockWorkflows))
+      .mockResolvedValueOnce(jsonResponse({ default_branch: 'master' }))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          workflow_runs: mockWorkflowRuns.workflow_runs.map(run => ({
+            ...run,
+            head_branch: 'master',
+          })),
+        }),
+      );
+
+    const result = await foundationPipelineStatusFactRetriever.handler({
+      config: mockConfig,
+      logger: mockLogger,
+      entityFilter: [{ kind: 'Component' }],
+      auth: mockAuth,
+      discovery: mockDiscovery,
+      urlReader: mockUrlReader,
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `https://api.github.com/repos/owner/repo/actions/runs?branch=master&${createdQuery}per_page=100&page=1`,
+      expect.anything(),
+    );
+    expect(result[0].facts.totalWorkflowRunsCount).toBe(2);
+  });
+
+  it('evaluates the branches listed in the pipeline branches annotation', async () => {
+    (CatalogClient as jest.Mock).mockImplementation(() => ({
+      getEntities: jest.fn().mockResolvedValue({
+        items: [
+          {
+            ...mockEntity,
+            metadata: {
+              ...mockEntity.metadata,
+              annotations: {
+                ...mockEntity.metadata.annotations,
+                'tech-insights.io/pipeline-branches': '["main", "release/*"]',
+              },
+            },
+          },
+        ],
+      }),
+    }));
+
+    mockFetch
+      .mockReset()
+      .mockResolvedValueOnce(jsonResponse(mockWorkflows))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          workflow_runs: [
+            ...mockWorkflowRuns.workflow_runs,
+            {
+              ...mockWorkflowRuns.workflow_runs[0],
+              head_branch: 'release/1.0',
+            },
+            {
+              ...mockWorkflowRuns.workflow_runs[1],
+              head_branch: 'feature/login',
+            },
+          ],
+        }),
+      );
+
+    const result = await foundationPipelineStatusFactRetriever.handler({
+      config: mockConfig,
+      logger: mockLogger,
+      entityFilter: [{ kind: 'Component' }],
+      auth: mockAuth,
+      discovery: mockDiscovery,
+      urlReader: mockUrlReader,
+    });
+
+    // Wildcard patterns are matched on the unfiltered runs, without a repository lookup
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      `https://api.github.com/repos/owner/repo/actions/runs?${createdQuery}per_page=100&page=1`,
+      expect.anything(),
+    );
+    expect(result[0].facts.totalWorkflowRunsCount).toBe(3);
+    expect(result[0].facts.successWorkflowRunsCount).toBe(2);
+  });
+
   it('returns empty facts when no GitHub slug exists', async () => {
     (CatalogClient as jest.Mock).mockImplementation(() => ({
       getEntities: jest.fn().mockResolvedValue({
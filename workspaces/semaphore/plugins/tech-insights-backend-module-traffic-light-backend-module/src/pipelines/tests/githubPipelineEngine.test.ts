@@ -0,0 +1,348 @@
+import { getVoidLogger } from '@backstage/backend-common';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+import { DateTime } from 'luxon';
+import { createGitHubPipelineFactRetriever } from '../githubPipelineEngine';
+import { PipelineProfile } from '../pipelineProfiles';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// Mock global fetch for GitHub API requests
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+// A GitHub API response with a JSON body
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+// A workflow run as returned by the GitHub Actions API
+const run = (
+  workflowId: number,
+  name: string,
+  conclusion: string | null,
+  createdAt = '2024-05-01T10:00:00Z',
+) => ({
+  name,
+  status: conclusion ? 'completed' : 'in_progress',
+  conclusion,
+  created_at: createdAt,
+  head_branch: 'main',
+  workflow_id: workflowId,
+});
+
+const workflowDefinitions = () =>
+  jsonResponse({
+    workflows: [
+      { id: 1, name: 'CodeQL', path: '.github/workflows/codeql.yml' },
+      { id: 2, name: 'Trivy scan', path: '.github/workflows/trivy.yml' },
+      { id: 3, name: 'Build', path: '.github/workflows/build.yml' },
+    ],
+  });
+
+describe('createGitHubPipelineFactRetriever', () => {
+  const mockConfig = new ConfigReader({
+    integrations: { github: [{ host: 'github.com', token: 'github-token' }] },
+  });
+
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  const createEntity = (annotations: Record<string, string> = {}): Entity => ({
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: {
+      name: 'test-component',
+      namespace: 'default',
+      annotations: { 'github.com/project-slug': 'owner/repo', ...annotations },
+    },
+    spec: {},
+  });
+
+  const securityScanProfile: PipelineProfile = {
+    id: 'securityScanPipelineStatusFactRetriever',
+    mode: 'allRuns',
+    branchesAnnotation: 'tech-insights.io/pipeline-branches',
+    branch: 'main',
+    include: ['CodeQL', 'Trivy*'],
+    exclude: [],
+    windowDays: 30,
+    failureConclusions: ['failure', 'timed_out'],
+  };
+
+  const runHandler = (profile: PipelineProfile) =>
+    createGitHubPipelineFactRetriever(profile).handler({
+      config: mockConfig,
+      logger: getVoidLogger(),
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    mockFetch.mockReset();
+    mockGetEntitiesImpl.mockResolvedValue({ items: [createEntity()] });
+  });
+
+  // Test: Evaluates the included workflows within the time window of an allRuns profile
+  it('should evaluate the included workflows of an allRuns profile', async () => {
+    mockFetch
+      .mockResolvedValueOnce(workflowDefinitions())
+      .mockResolvedValueOnce(
+        jsonResponse({
+          workflow_runs: [
+            run(1, 'CodeQL', 'success'),
+            run(1, 'CodeQL', 'timed_out'),
+            run(2, 'Trivy scan', 'failure'),
+            run(2, 'Trivy scan', 'cancelled'),
+            run(3, 'Build', 'failure'),
+          ],
+        }),
+      );
+
+    const result = await runHandler(securityScanProfile);
+
+    // The profile's branch is evaluated without a repository lookup
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      `https://api.github.com/repos/owner/repo/actions/runs?branch=main&created=${encodeURIComponent(
+        `>=${DateTime.utc().minus({ days: 29 }).toISODate()}`,
+      )}&per_page=100&page=1`,
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toEqual({
+      totalWorkflowRunsCount: 4,
+      uniqueWorkflowsCount: 2,
+      successWorkflowRunsCount: 1,
+      failureWorkflowRunsCount: 2,
+      successRate: 33.33,
+      workflowMetrics: {
+        CodeQL: {
+          name: 'CodeQL',
+          totalRuns: 2,
+          successRuns: 1,
+          failureRuns: 1,
+          successRate: 50,
+        },
+        Trivy_scan: {
+          name: 'Trivy scan',
+          totalRuns: 2,
+          successRuns: 0,
+          failureRuns: 1,
+          successRate: 0,
+        },
+      },
+      windowStart: expect.any(DateTime),
+      windowEnd: expect.any(DateTime),
+      dailyRunCounts: expect.any(Array),
+    });
+  });
+
+  // Test: Counts the runs of each day of the configured window, including days without runs
+  it('should store the window bounds and the daily run counts', async () => {
+    const today = DateTime.utc();
+    const yesterday = today.minus({ days: 1 });
+    mockFetch
+      .mockResolvedValueOnce(workflowDefinitions())
+      .mockResolvedValueOnce(
+        jsonResponse({
+          workflow_runs: [
+            run(1, 'CodeQL', 'success', today.toISO()!),
+            run(2, 'Trivy scan', 'timed_out', today.toISO()!),
+            run(1, 'CodeQL', 'failure', yesterday.toISO()!),
+            run(2, 'Trivy scan', 'cancelled', yesterday.toISO()!),
+          ],
+        }),
+      );
+
+    const result = await createGitHubPipelineFactRetriever({
+      ...securityScanProfile,
+      windowDays: undefined,
+    }).handler({
+      config: new ConfigReader({
+        integrations: {
+          github: [{ host: 'github.com', token: 'github-token' }],
+        },
+        techInsights: { argus: { pipelines: { windowDays: 3 } } },
+      }),
+      logger: getVoidLogger(),
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {} as UrlReaderService,
+    });
+
+    const windowStart = today.startOf('day').minus({ days: 2 });
+    expect(mockFetch.mock.calls[1][0]).toContain(
+      `created=${encodeURIComponent(`>=${windowStart.toISODate()}`)}&`,
+    );
+    expect(+(result[0].facts.windowStart as DateTime)).toBe(+windowStart);
+    expect(result[0].facts.dailyRunCounts).toEqual([
+      {
+        date: windowStart.toISODate(),
+        totalRuns: 0,
+        successRuns: 0,
+        failureRuns: 0,
+      },
+      {
+        date: yesterday.toISODate(),
+        totalRuns: 2,
+        successRuns: 0,
+        failureRuns: 1,
+      },
+      {
+        date: today.toISODate(),
+        totalRuns: 2,
+        successRuns: 1,
+        failureRuns: 1,
+      },
+    ]);
+  });
+
+  // Test: Splits the window when it holds more runs than GitHub returns for one query
+  it('should split the window of queries matching more than 1000 runs', async () => {
+    const windowStart = DateTime.utc().startOf('day').minus({ days: 29 });
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/actions/workflows')) {
+        return workflowDefinitions();
+      }
+      // The whole window matches too many runs, each half one run
+      const created = decodeURIComponent(url.match(/created=([^&]+)/)![1]);
+      return created.startsWith('>=')
+        ? jsonResponse({ total_count: 1500, workflow_runs: [] })
+        : jsonResponse({
+            total_count: 1,
+            workflow_runs: [run(1, 'CodeQL', 'success')],
+          });
+    });
+
+    const result = await runHandler(securityScanProfile);
+
+    const createdFilters = mockFetch.mock.calls
+      .slice(1)
+      .map(([url]) => decodeURIComponent(url.match(/created=([^&]+)/)![1]));
+    expect(createdFilters).toHaveLength(3);
+    expect(createdFilters[0]).toBe(`>=${windowStart.toISODate()}`);
+    const [firstHalf, secondHalf] = createdFilters
+      .slice(1)
+      .map(filter => filter.split('..').map(time => DateTime.fromISO(time)));
+    expect(+firstHalf[0]).toBe(+windowStart);
+    expect(+secondHalf[0]).toBe(+firstHalf[1].plus({ seconds: 1 }));
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        totalWorkflowRunsCount: 2,
+        successWorkflowRunsCount: 2,
+      }),
+    );
+  });
+
+  // Test: Stores the last run of each included workflow for a lastRun profile
+  it('should evaluate the last run of each workflow of a lastRun profile', async () => {
+    mockFetch
+      .mockResolvedValueOnce(workflowDefinitions())
+      .mockResolvedValueOnce(
+        jsonResponse({ workflow_runs: [run(1, 'CodeQL', 'success')] }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          workflow_runs: [
+            run(2, 'Trivy scan', 'timed_out', '2024-05-02T10:00:00Z'),
+          ],
+        }),
+      );
+
+    const result = await runHandler({
+      ...securityScanProfile,
+      mode: 'lastRun',
+      windowDays: undefined,
+    });
+
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://api.github.com/repos/owner/repo/actions/workflows/1/runs?branch=main&per_page=1',
+    );
+    expect(result[0].facts).toEqual({
+      workflowMetrics: [
+        {
+          workflowName: 'CodeQL',
+          lastRunStatus: 'success',
+          lastRunDate: '2024-05-01T10:00:00Z',
+        },
+        {
+          workflowName: 'Trivy scan',
+          lastRunStatus: 'failure',
+          lastRunDate: '2024-05-02T10:00:00Z',
+        },
+      ],
+      totalIncludedWorkflows: 2,
+      successfulRuns: 1,
+      failedRuns: 1,
+      successRate: 50,
+    });
+  });
+
+  // Test: Only evaluates entities that list their workflows when the profile relies on an include annotation
+  it('should skip entities without the include annotation', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity(),
+        createEntity({ 'security/workflows': '["Build"]' }),
+      ],
+    });
+    mockFetch
+      .mockResolvedValueOnce(workflowDefinitions())
+      .mockResolvedValueOnce(
+        jsonResponse({ workflow_runs: [run(3, 'Build', 'success')] }),
+      );
+
+    const result = await runHandler({
+      ...securityScanProfile,
+      include: [],
+      includeAnnotation: 'security/workflows',
+      windowDays: undefined,
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        totalWorkflowRunsCount: 1,
+        uniqueWorkflowsCount: 1,
+        successRate: 100,
+      }),
+    );
+  });
+});
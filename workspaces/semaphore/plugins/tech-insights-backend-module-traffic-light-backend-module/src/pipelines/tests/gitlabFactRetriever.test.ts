@@ -0,0 +1,260 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { getVoidLogger } from '@backstage/backend-common';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+import { gitlabPipelineStatusFactRetriever } from '../gitlabFactRetriever';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// Canned GitLab responses served by the local stand-in, keyed by request path
+type StandInResponse = {
+  status?: number;
+  body: unknown;
+  headers?: Record<string, string>;
+};
+
+// A pipeline as returned by the GitLab Pipelines API
+const pipeline = (
+  status: string,
+  name: string | null = 'build',
+  ref = 'main',
+  source = 'push',
+) => ({
+  id: Math.floor(Math.random() * 100000),
+  name,
+  source,
+  status,
+  ref,
+});
+
+describe('gitlabPipelineStatusFactRetriever', () => {
+  let server: Server;
+  let baseUrl: string;
+  let responses: Record<string, StandInResponse> = {};
+  let requests: IncomingMessage[] = [];
+
+  // Local HTTP stand-in for the GitLab REST API
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      const response = responses[req.url ?? ''];
+      res.writeHead(response ? response.status ?? 200 : 404, {
+        'Content-Type': 'application/json',
+        ...response?.headers,
+      });
+      res.end(JSON.stringify(response?.body ?? { message: '404 Not found' }));
+    });
+    await new Promise<void>(resolve =>
+      server.listen(0, '127.0.0.1', () => resolve()),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  const createEntity = (annotations: Record<string, string>): Entity => ({
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: { name: 'test-component', namespace: 'default', annotations },
+    spec: {},
+  });
+
+  const runHandler = () =>
+    gitlabPipelineStatusFactRetriever.handler({
+      config: new ConfigReader({
+        integrations: {
+          gitlab: [
+            {
+              host: 'gitlab.example.com',
+              apiBaseUrl: `${baseUrl}/api/v4`,
+              token: 'gitlab-token',
+            },
+          ],
+        },
+      }),
+      logger: getVoidLogger(),
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+  const projectPath = '/api/v4/projects/group%2Fsubgroup%2Fproject';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    responses = {};
+    requests = [];
+  });
+
+  // Test: Computes the pipeline metrics of the default branch across pages of pipelines
+  it('should compute pipeline metrics for the default branch', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({ 'gitlab.com/project-slug': 'group/subgroup/project' }),
+        createEntity({}), // Not built in GitLab CI
+      ],
+    });
+    responses = {
+      [projectPath]: { body: { default_branch: 'develop' } },
+      [`${projectPath}/pipelines?ref=develop&per_page=100&page=1`]: {
+        body: [
+          pipeline('success'),
+          pipeline('failed'),
+          pipeline('canceled'),
+          pipeline('success', 'deploy', 'develop'),
+        ].map(p => ({ ...p, ref: 'develop' })),
+        headers: { 'x-next-page': '2' },
+      },
+      [`${projectPath}/pipelines?ref=develop&per_page=100&page=2`]: {
+        body: [pipeline('failed', null, 'develop', 'schedule')],
+        headers: { 'x-next-page': '' },
+      },
+    };
+
+    const result = await runHandler();
+
+    expect(requests.map(req => req.headers['private-token'])).toEqual([
+      'gitlab-token',
+      'gitlab-token',
+      'gitlab-token',
+    ]);
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toEqual({
+      totalWorkflowRunsCount: 5,
+      uniqueWorkflowsCount: 3,
+      successWorkflowRunsCount: 2,
+      failureWorkflowRunsCount: 2,
+      successRate: 50,
+      workflowMetrics: {
+        build: {
+          name: 'build',
+          totalRuns: 3,
+          successRuns: 1,
+          failureRuns: 1,
+          successRate: 50,
+        },
+        deploy: {
+          name: 'deploy',
+          totalRuns: 1,
+          successRuns: 1,
+          failureRuns: 0,
+          successRate: 100,
+        },
+        schedule: {
+          name: 'schedule',
+          totalRuns: 1,
+          successRuns: 0,
+          failureRuns: 1,
+          successRate: 0,
+        },
+      },
+    });
+  });
+
+  // Test: Fetches unfiltered pipelines for wildcard branch patterns and matches them afterwards
+  it('should evaluate the annotated branches', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({
+          'gitlab.com/project-slug': 'group/subgroup/project',
+          'tech-insights.io/pipeline-branches': 'release/*',
+        }),
+      ],
+    });
+    responses = {
+      [`${projectPath}/pipelines?per_page=100&page=1`]: {
+        body: [
+          pipeline('success', 'build', 'release/1.0'),
+          pipeline('failed', 'build', 'main'),
+        ],
+      },
+    };
+
+    const result = await runHandler();
+
+    expect(requests).toHaveLength(1);
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        totalWorkflowRunsCount: 1,
+        successWorkflowRunsCount: 1,
+        failureWorkflowRunsCount: 0,
+        successRate: 100,
+      }),
+    );
+  });
+
+  // Test: Skips projects whose pipelines cannot be read instead of reporting partial metrics
+  it('should skip projects whose pipelines request fails', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({
+          'gitlab.com/project-slug': 'group/subgroup/project',
+          'tech-insights.io/pipeline-branches': 'main',
+        }),
+      ],
+    });
+
+    const result = await runHandler();
+
+    expect(requests).toHaveLength(1);
+    expect(result).toEqual([]);
+  });
+
+  // Test: Skips entities on a GitLab host without a configured integration
+  it('should skip entities on unknown GitLab hosts', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({
+          'gitlab.com/project-slug': 'group/subgroup/project',
+          'gitlab.com/instance': 'gitlab.other.com',
+        }),
+      ],
+    });
+
+    const result = await runHandler();
+
+    expect(requests).toHaveLength(0);
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { getVoidLogger } from '@backstage/backend-common';
+import { ConfigReader } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+import { UrlReaderService } from '@backstage/backend-plugin-api';
+import { jenkinsPipelineStatusFactRetriever } from '../jenkinsFactRetriever';
+
+// Mock for CatalogClient
+const mockGetEntitiesImpl = jest.fn();
+jest.mock('@backstage/catalog-client', () => {
+  return {
+    CatalogClient: jest.fn().mockImplementation(() => ({
+      getEntities: mockGetEntitiesImpl,
+    })),
+  };
+});
+
+// A build as returned by the Jenkins JSON API
+const build = (result: string | null, building = false) => ({
+  number: Math.floor(Math.random() * 1000),
+  result,
+  building,
+  timestamp: 1714557600000,
+});
+
+describe('jenkinsPipelineStatusFactRetriever', () => {
+  let server: Server;
+  let baseUrl: string;
+  let jobs: Record<string, unknown> = {};
+  let requests: IncomingMessage[] = [];
+
+  // Local HTTP stand-in for the Jenkins JSON API, serving jobs keyed by their /job/ path
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      const job = jobs[(req.url ?? '').split('/api/json')[0]];
+      res.writeHead(job ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(job ?? {}));
+    });
+    await new Promise<void>(resolve =>
+      server.listen(0, '127.0.0.1', () => resolve()),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Mock discovery API for service URLs
+  const mockDiscovery = {
+    getBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/api/catalog'),
+    getExternalBaseUrl: jest
+      .fn()
+      .mockResolvedValue('http://backstage.test/external'),
+  };
+
+  // Mock authentication API
+  const mockAuth: any = {
+    getPluginRequestToken: jest
+      .fn()
+      .mockResolvedValue({ token: 'catalog-token' }),
+    getOwnServiceCredentials: jest.fn().mockResolvedValue('service-creds'),
+    authenticate: jest.fn(),
+    isPrincipal: jest.fn().mockImplementation(() => false),
+    getNoneCredentials: jest.fn(),
+    getLimitedUserToken: jest.fn(),
+    listPublicServiceKeys: jest.fn(),
+  };
+
+  const createEntity = (annotations: Record<string, string>): Entity => ({
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: { name: 'test-component', namespace: 'default', annotations },
+    spec: {},
+  });
+
+  const runHandler = () =>
+    jenkinsPipelineStatusFactRetriever.handler({
+      config: new ConfigReader({
+        jenkins: {
+          baseUrl,
+          username: 'backstage',
+          apiKey: 'jenkins-key',
+          instances: [{ name: 'legacy', baseUrl: `${baseUrl}/legacy` }],
+        },
+      }),
+      logger: getVoidLogger(),
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetEntitiesImpl.mockReset();
+    jobs = {};
+    requests = [];
+  });
+
+  // Test: Counts the builds of a job, treating unstable builds as failures and aborted or running builds as neither
+  it('should compute pipeline metrics from the builds of a job', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({ 'jenkins.io/job-full-name': 'payments/nightly' }),
+        createEntity({}), // Not built in Jenkins
+      ],
+    });
+    jobs = {
+      '/job/payments/job/nightly': {
+        builds: [
+          build(null, true),
+          build('SUCCESS'),
+          build('UNSTABLE'),
+          build('FAILURE'),
+          build('ABORTED'),
+          build('SUCCESS'),
+        ],
+      },
+    };
+
+    const result = await runHandler();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers.authorization).toBe(
+      `Basic ${Buffer.from('backstage:jenkins-key').toString('base64')}`,
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0].facts).toEqual({
+      totalWorkflowRunsCount: 6,
+      uniqueWorkflowsCount: 1,
+      successWorkflowRunsCount: 2,
+      failureWorkflowRunsCount: 2,
+      successRate: 50,
+      workflowMetrics: {
+        payments_nightly: {
+          name: 'payments/nightly',
+          totalRuns: 6,
+          successRuns: 2,
+          failureRuns: 2,
+          successRate: 50,
+        },
+      },
+    });
+  });
+
+  // Test: Evaluates the annotated branches of a multibranch pipeline on a named instance
+  it('should evaluate the branch jobs of a multibranch pipeline', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({
+          'jenkins.io/job-full-name': 'legacy:payments',
+          'tech-insights.io/pipeline-branches': 'release/*',
+        }),
+      ],
+    });
+    jobs = {
+      '/legacy/job/payments': {
+        jobs: [
+          { name: 'main', builds: [build('FAILURE')] },
+          { name: 'release%2F1.0', builds: [build('SUCCESS')] },
+          { name: 'release%2F2.0', builds: [build('FAILURE')] },
+        ],
+      },
+    };
+
+    const result = await runHandler();
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(result[0].facts).toEqual(
+      expect.objectContaining({
+        totalWorkflowRunsCount: 2,
+        uniqueWorkflowsCount: 2,
+        successWorkflowRunsCount: 1,
+        failureWorkflowRunsCount: 1,
+        successRate: 50,
+      }),
+    );
+  });
+
+  // Test: Skips entities whose job cannot be read or whose instance is not configured
+  it('should skip unknown jobs and instances', async () => {
+    mockGetEntitiesImpl.mockResolvedValue({
+      items: [
+        createEntity({ 'jenkins.io/job-full-name': 'missing' }),
+        createEntity({ 'jenkins.io/job-full-name': 'other:payments' }),
+      ],
+    });
+
+    const result = await runHandler();
+
+    expect(requests).toHaveLength(1);
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { Entity } from '@backstage/catalog-model';
+import {
+  getBranchQueries,
+  matchesBranch,
+  parseBranchesAnnotation,
+} from '../pipelineBranches';
+
+const createEntity = (branches?: string): Entity => ({
+  apiVersion: 'backstage.io/v1alpha1',
+  kind: 'Component',
+  metadata: {
+    name: 'test-service',
+    annotations: branches
+      ? { 'tech-insights.io/pipeline-branches': branches }
+      : {},
+  },
+});
+
+describe('pipelineBranches', () => {
+  it('parses JSON and comma separated branch annotations', () => {
+    expect(
+      parseBranchesAnnotation(createEntity('["main", "release/*"]')),
+    ).toEqual(['main', 'release/*']);
+    expect(parseBranchesAnnotation(createEntity('master, develop'))).toEqual([
+      'master',
+      'develop',
+    ]);
+    expect(parseBranchesAnnotation(createEntity('[not json'))).toEqual([]);
+    expect(parseBranchesAnnotation(createEntity())).toEqual([]);
+  });
+
+  it('matches branch names and wildcard patterns', () => {
+    expect(matchesBranch('main', ['main'])).toBe(true);
+    expect(matchesBranch('release/1.2', ['main', 'release/*'])).toBe(true);
+    expect(matchesBranch('release-1.2', ['release/*'])).toBe(false);
+    expect(matchesBranch('mainline', ['main'])).toBe(false);
+  });
+
+  it('queries literal branches server side and wildcards unfiltered', () => {
+    expect(getBranchQueries(['main', 'develop'])).toEqual(['main', 'develop']);
+    expect(getBranchQueries(['main', 'release/*'])).toEqual([undefined]);
+  });
+});
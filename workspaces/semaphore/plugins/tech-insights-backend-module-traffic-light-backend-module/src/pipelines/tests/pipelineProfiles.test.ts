@@ -0,0 +1,133 @@
+import { ConfigReader } from '@backstage/config';
+import {
+  readPipelineProfiles,
+  readPipelineWindowDays,
+} from '../pipelineProfiles';
+
+describe('readPipelineProfiles', () => {
+  it('reads the configured profiles with their defaults', () => {
+    const config = new ConfigReader({
+      techInsights: {
+        argus: {
+          pipelineProfiles: [
+            {
+              name: 'securityScan',
+              include: ['CodeQL', 'Trivy*'],
+              windowDays: 30,
+              failureConclusions: ['failure', 'timed_out'],
+            },
+            { name: 'release', mode: 'lastRun', branch: 'release/*' },
+          ],
+        },
+      },
+    });
+
+    expect(readPipelineProfiles(config)).toEqual([
+      {
+        id: 'securityScanPipelineStatusFactRetriever',
+        mode: 'allRuns',
+        branchesAnnotation: 'tech-insights.io/pipeline-branches',
+        branch: undefined,
+        include: ['CodeQL', 'Trivy*'],
+        includeAnnotation: undefined,
+        exclude: [],
+        excludeAnnotation: undefined,
+        windowDays: 30,
+        failureConclusions: ['failure', 'timed_out'],
+      },
+      {
+        id: 'releasePipelineStatusFactRetriever',
+        mode: 'lastRun',
+        branchesAnnotation: 'tech-insights.io/pipeline-branches',
+        branch: 'release/*',
+        include: [],
+        includeAnnotation: undefined,
+        exclude: [],
+        excludeAnnotation: undefined,
+        windowDays: undefined,
+        failureConclusions: ['failure'],
+      },
+    ]);
+  });
+
+  it('returns no profiles when none are configured', () => {
+    expect(readPipelineProfiles(new ConfigReader({}))).toEqual([]);
+  });
+
+  it('rejects unknown modes', () => {
+    const config = new ConfigReader({
+      techInsights: {
+        argus: { pipelineProfiles: [{ name: 'nightly', mode: 'latest' }] },
+      },
+    });
+
+    expect(() => readPipelineProfiles(config)).toThrow(
+      "Invalid mode 'latest' of pipeline profile nightly",
+    );
+  });
+
+  it.each([0, -7])('rejects a window of %i days', windowDays => {
+    const config = new ConfigReader({
+      techInsights: {
+        argus: { pipelineProfiles: [{ name: 'nightly', windowDays }] },
+      },
+    });
+
+    expect(() => readPipelineProfiles(config)).toThrow(
+      `Invalid windowDays ${windowDays} of pipeline profile nightly`,
+    );
+  });
+
+  it('rejects duplicate profile names', () => {
+    const config = new ConfigReader({
+      techInsights: {
+        argus: {
+          pipelineProfiles: [
+            { name: 'nightly' },
+            { name: 'nightly', mode: 'lastRun' },
+          ],
+        },
+      },
+    });
+
+    expect(() => readPipelineProfiles(config)).toThrow(
+      "Duplicate pipeline profile name 'nightly'",
+    );
+  });
+
+  it.each(['foundation', 'preproduction', 'reporting', 'github', 'jenkins'])(
+    'rejects the name %s of a built-in pipeline retriever',
+    name => {
+      const config = new ConfigReader({
+        techInsights: { argus: { pipelineProfiles: [{ name }] } },
+      });
+
+      expect(() => readPipelineProfiles(config)).toThrow(
+        `Pipeline profile name '${name}' is reserved for a built-in pipeline fact retriever`,
+      );
+    },
+  );
+});
+
+describe('readPipelineWindowDays', () => {
+  it('reads the configured window, 30 days by default', () => {
+    expect(
+      readPipelineWindowDays(
+        new ConfigReader({
+          techInsights: { argus: { pipelines: { windowDays: 14 } } },
+        }),
+      ),
+    ).toBe(14);
+    expect(readPipelineWindowDays(new ConfigReader({}))).toBe(30);
+  });
+
+  it.each([0, -7])('rejects a window of %i days', windowDays => {
+    const config = new ConfigReader({
+      techInsights: { argus: { pipelines: { windowDays } } },
+    });
+
+    expect(() => readPipelineWindowDays(config)).toThrow(
+      `Invalid windowDays ${windowDays} of techInsights.argus.pipelines`,
+    );
+  });
+});
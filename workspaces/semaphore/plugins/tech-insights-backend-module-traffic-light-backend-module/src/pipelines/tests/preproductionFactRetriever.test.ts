@@ -1,8 +1,9 @@
 import { githubPipelineStatusFactRetriever } from '../preproductionFactRetriever';
 import { CatalogClient } from '@backstage/catalog-client';
 import { Entity } from '@backstage/catalog-model';
-import { Config } from '@backstage/config';
+import { Config, ConfigReader } from '@backstage/config';
 import { Logger } from 'winston';
+import { DateTime } from 'luxon';
 import {
   AuthService,
   DiscoveryService,
@@ -29,21 +30,16 @@ const mockLogger: Logger = {
 
 // Mock config
 const createMockConfig = (token?: string): Config =>
-  ({
-    getOptionalConfigArray: jest.fn((path: string) => {
-      if (path === 'integrations.github' && token) {
-        return [
-          {
-            getOptionalString: jest.fn((key: string) => {
-              if (key === 'token') return token;
-              return undefined;
-            }),
-          },
-        ];
-      }
-      return undefined;
-    }),
-  } as any);
+  new ConfigReader(
+    token ? { integrations: { github: [{ host: 'github.com', token }] } } : {},
+  );
+
+// A GitHub API response with a JSON body
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) => new Response(JSON.stringify(body), { status, headers });
 
 // Complete mock auth service
 const mockAuth: AuthService = {
@@ -203,6 +199,9 @@ const sampleWorkflowRuns = {
   ],
 };
 
+// Repository metadata used to resolve the default branch
+const sampleRepositoryResponse = () => jsonResponse({ default_branch: 'main' });
+
 describe('githubPipelineStatusFactRetriever', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -246,16 +245,11 @@ describe('githubPipelineStatusFactRetriever', () => {
 
       // Mock fetch responses
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowDefinitions),
-          headers: new Map(),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowRuns),
-          headers: new Map([['Link', 'no-next']]),
-        });
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(
+          jsonResponse(sampleWorkflowRuns, 200, { Link: 'no-next' }),
+        );
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -276,6 +270,9 @@ describe('githubPipelineStatusFactRetriever', () => {
         successWorkflowRunsCount: 2, // CI and Deploy success (others excluded by regex)
         failureWorkflowRunsCount: 0, // workflow1 failure and integration-test failure excluded
         successRate: 100, // 2/2 * 100
+        windowStart: expect.any(DateTime),
+        windowEnd: expect.any(DateTime),
+        dailyRunCounts: expect.any(Array),
       });
     });
 
@@ -304,16 +301,9 @@ describe('githubPipelineStatusFactRetriever', () => {
       mockCatalogClient.mockImplementation(() => mockCatalogInstance as any);
 
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowDefinitions),
-          headers: new Map(),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowRuns),
-          headers: new Map(),
-        });
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowRuns));
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -377,11 +367,9 @@ describe('githubPipelineStatusFactRetriever', () => {
       mockCatalogClient.mockImplementation(() => mockCatalogInstance as any);
 
       // Mock fetch to return error for workflow definitions
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        statusText: 'Not Found',
-        headers: new Map(),
-      });
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({ message: 'Not Found' }, 404),
+      );
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -428,21 +416,14 @@ describe('githubPipelineStatusFactRetriever', () => {
 
       // Mock fetch responses
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowDefinitions),
-          headers: new Map(),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ workflow_runs: firstPageRuns }),
-          headers: new Map([['Link', '<page2>; rel="next"']]),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ workflow_runs: secondPageRuns }),
-          headers: new Map(),
-        });
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(
+          jsonResponse({ workflow_runs: firstPageRuns }, 200, {
+            Link: '<page2>; rel="next"',
+          }),
+        )
+        .mockResolvedValueOnce(jsonResponse({ workflow_runs: secondPageRuns }));
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -498,16 +479,9 @@ describe('githubPipelineStatusFactRetriever', () => {
       };
 
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowDefinitions),
-          headers: new Map(),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(mixedBranchRuns),
-          headers: new Map(),
-        });
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(jsonResponse(mixedBranchRuns));
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -534,16 +508,9 @@ describe('githubPipelineStatusFactRetriever', () => {
       mockCatalogClient.mockImplementation(() => mockCatalogInstance as any);
 
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowDefinitions),
-          headers: new Map(),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ workflow_runs: [] }),
-          headers: new Map(),
-        });
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(jsonResponse({ workflow_runs: [] }));
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -561,9 +528,67 @@ describe('githubPipelineStatusFactRetriever', () => {
         successWorkflowRunsCount: 0,
         failureWorkflowRunsCount: 0,
         successRate: 0,
+        windowStart: expect.any(DateTime),
+        windowEnd: expect.any(DateTime),
+        dailyRunCounts: expect.any(Array),
       });
     });
 
+    it('should query the GitHub Enterprise host of the entity source location', async () => {
+      const config = new ConfigReader({
+        integrations: {
+          github: [
+            { host: 'github.com', token: 'github-token' },
+            { host: 'github.example.com', token: 'enterprise-token' },
+          ],
+        },
+      });
+
+      const enterpriseEntity: Entity = {
+        ...sampleEntities[0],
+        metadata: {
+          ...sampleEntities[0].metadata,
+          annotations: {
+            ...sampleEntities[0].metadata.annotations,
+            'backstage.io/source-location':
+              'url:https://github.example.com/owner/repo1/tree/main/',
+          },
+        },
+      };
+
+      const mockCatalogInstance = {
+        getEntities: jest.fn().mockResolvedValue({
+          items: [enterpriseEntity],
+        }),
+      };
+      mockCatalogClient.mockImplementation(() => mockCatalogInstance as any);
+
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(jsonResponse({ workflow_runs: [] }));
+
+      const result = await githubPipelineStatusFactRetriever.handler({
+        config,
+        logger: mockLogger,
+        entityFilter: [{ kind: 'component' }],
+        auth: mockAuth,
+        discovery: mockDiscovery,
+        urlReader: mockUrlReader,
+      });
+
+      expect(result).toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://github.example.com/api/v3/repos/owner/repo1/actions/workflows',
+        {
+          headers: {
+            Accept: 'application/vnd.github.v3+json',
+            Authorization: 'token enterprise-token',
+          },
+        },
+      );
+    });
+
     it('should handle invalid exclusion annotation', async () => {
       const config = createMockConfig('github-token');
 
@@ -589,16 +614,9 @@ describe('githubPipelineStatusFactRetriever', () => {
       mockCatalogClient.mockImplementation(() => mockCatalogInstance as any);
 
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowDefinitions),
-          headers: new Map(),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowRuns),
-          headers: new Map(),
-        });
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowRuns));
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -682,16 +700,9 @@ describe('githubPipelineStatusFactRetriever', () => {
       };
 
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(sampleWorkflowDefinitions),
-          headers: new Map(),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(mixedResultRuns),
-          headers: new Map(),
-        });
+        .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+        .mockResolvedValueOnce(sampleRepositoryResponse())
+        .mockResolvedValueOnce(jsonResponse(mixedResultRuns));
 
       const result = await githubPipelineStatusFactRetriever.handler({
         config,
@@ -709,6 +720,9 @@ describe('githubPipelineStatusFactRetriever', () => {
         successWorkflowRunsCount: 2,
         failureWorkflowRunsCount: 3,
         successRate: 40, // 2/(2+3) * 100 = 40%
+        windowStart: expect.any(DateTime),
+        windowEnd: expect.any(DateTime),
+        dailyRunCounts: expect.any(Array),
       });
     });
   });
@@ -719,7 +733,7 @@ describe('githubPipelineStatusFactRetriever', () => {
         totalWorkflowRunsCount: {
           type: 'integer',
           description:
-            'Total number of workflow runs on main branch (including excluded)',
+            'Total number of workflow runs on the evaluated branches (including excluded)',
         },
         uniqueWorkflowsCount: {
           type: 'integer',
@@ -741,6 +755,20 @@ describe('githubPipelineStatusFactRetriever', () => {
           description:
             'Success rate percentage (0-100) of workflow runs (excluding workflows matching exclude patterns)',
         },
+        windowStart: {
+          type: 'datetime',
+          description:
+            'Start of the time window of the evaluated workflow runs',
+        },
+        windowEnd: {
+          type: 'datetime',
+          description: 'End of the time window of the evaluated workflow runs',
+        },
+        dailyRunCounts: {
+          type: 'set',
+          description:
+            'Number of workflow runs (including excluded), successful and failed runs for each day of the time window',
+        },
       });
     });
 
@@ -754,7 +782,7 @@ describe('githubPipelineStatusFactRetriever', () => {
       expect(githubPipelineStatusFactRetriever.id).toBe(
         'githubPipelineStatusFactRetriever',
       );
-      expect(githubPipelineStatusFactRetriever.version).toBe('0.2.0');
+      expect(githubPipelineStatusFactRetriever.version).toBe('0.3.0');
     });
   });
 });
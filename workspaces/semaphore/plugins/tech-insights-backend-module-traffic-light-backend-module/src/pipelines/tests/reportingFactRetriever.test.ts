@@ -1,7 +1,7 @@
 import { reportingPipelineStatusFactRetriever } from '../reportingFactRetriever';
 import { CatalogClient } from '@backstage/catalog-client';
 import { Logger } from 'winston';
-import { Config } from '@backstage/config';
+import { Config, ConfigReader } from '@backstage/config';
 import {
   AuthService,
   DiscoveryService,
@@ -21,21 +21,16 @@ const mockLogger: Logger = {
 } as any;
 
 const createMockConfig = (token?: string): Config =>
-  ({
-    getOptionalConfigArray: jest.fn((path: string) => {
-      if (path === 'integrations.github' && token) {
-        return [
-          {
-            getOptionalString: jest.fn((key: string) => {
-              if (key === 'token') return token;
-              return undefined;
-            }),
-          },
-        ];
-      }
-      return undefined;
-    }),
-  } as any);
+  new ConfigReader(
+    token ? { integrations: { github: [{ host: 'github.com', token }] } } : {},
+  );
+
+// A GitHub API response with a JSON body
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) => new Response(JSON.stringify(body), { status, headers });
 
 const mockAuth: AuthService = {
   getPluginRequestToken: jest
@@ -133,10 +128,7 @@ describe('reportingPipelineStatusFactRetriever', () => {
     const config = createMockConfig();
 
     // Mock the workflow definitions call that will happen even without token
-    mockFetch.mockResolvedValueOnce({
-      ok: false,
-      status: 401,
-    });
+    mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'Error' }, 401));
 
     const facts = await reportingPipelineStatusFactRetriever.handler({
       config,
@@ -160,26 +152,21 @@ describe('reportingPipelineStatusFactRetriever', () => {
     const config = createMockConfig('test-token');
 
     // Mock workflow definitions
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => sampleWorkflowDefinitions,
-    });
+    mockFetch.mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions));
 
     // CI workflow run (develop)
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         workflow_runs: [sampleWorkflowRuns.workflow_runs[0]], // CI - success
       }),
-    });
+    );
 
     // Deploy workflow run (develop)
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         workflow_runs: [sampleWorkflowRuns.workflow_runs[1]], // Deploy - failure
       }),
-    });
+    );
 
     const facts = await reportingPipelineStatusFactRetriever.handler({
       config,
@@ -220,18 +207,9 @@ describe('reportingPipelineStatusFactRetriever', () => {
     const config = createMockConfig('test-token');
 
     mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => sampleWorkflowDefinitions,
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ workflow_runs: [] }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ workflow_runs: [] }),
-      });
+      .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+      .mockResolvedValueOnce(jsonResponse({ workflow_runs: [] }))
+      .mockResolvedValueOnce(jsonResponse({ workflow_runs: [] }));
 
     const facts = await reportingPipelineStatusFactRetriever.handler({
       config,
@@ -300,10 +278,7 @@ describe('reportingPipelineStatusFactRetriever', () => {
       getEntities: jest.fn().mockResolvedValue({ items: noMatchEntities }),
     }));
 
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => sampleWorkflowDefinitions,
-    });
+    mockFetch.mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions));
 
     const config = createMockConfig('test-token');
     const facts = await reportingPipelineStatusFactRetriever.handler({
@@ -319,7 +294,7 @@ describe('reportingPipelineStatusFactRetriever', () => {
     expect(mockFetch).toHaveBeenCalledTimes(1); // Only workflow definitions call
   });
 
-  it('defaults to "main" branch when no target branch annotation is provided', async () => {
+  it('defaults to the repository default branch when no target branch annotation is provided', async () => {
     const defaultBranchEntity = {
       ...sampleEntities[0],
       metadata: {
@@ -339,16 +314,13 @@ describe('reportingPipelineStatusFactRetriever', () => {
     }));
 
     mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => sampleWorkflowDefinitions,
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({
+      .mockResolvedValueOnce(jsonResponse(sampleWorkflowDefinitions))
+      .mockResolvedValueOnce(jsonResponse({ default_branch: 'develop' }))
+      .mockResolvedValueOnce(
+        jsonResponse({
           workflow_runs: [sampleWorkflowRuns.workflow_runs[0]],
         }),
-      });
+      );
 
     const config = createMockConfig('test-token');
     const facts = await reportingPipelineStatusFactRetriever.handler({
@@ -360,9 +332,13 @@ describe('reportingPipelineStatusFactRetriever', () => {
       urlReader: mockUrlReader,
     });
 
-    // Verify that the API was called with main branch
+    // Verify that the repository metadata was read and its default branch queried
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.github.com/repos/owner/repo1',
+      expect.anything(),
+    );
     expect(mockFetch).toHaveBeenCalledWith(
-      expect.stringContaining('branch=main'),
+      expect.stringContaining('branch=develop'),
       expect.anything(),
     );
 
@@ -374,10 +350,7 @@ describe('reportingPipelineStatusFactRetriever', () => {
     const config = createMockConfig('test-token');
 
     // Mock workflow definitions API to fail
-    mockFetch.mockResolvedValueOnce({
-      ok: false,
-      status: 500,
-    });
+    mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'Error' }, 500));
 
     const facts = await reportingPipelineStatusFactRetriever.handler({
       config,
@@ -0,0 +1,235 @@
+/**
+ * Shared age, SLA and remediation time facts for the security alert retrievers
+ * (Dependabot, GitHub Advanced Security and Black Duck).
+ */
+import { Config } from '@backstage/config';
+
+export type SecuritySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// Minimal view of an alert needed to compute its age or remediation time
+export type SecurityAlertTimestamps = {
+  severity?: string | null;
+  createdAt?: string | null;
+  resolvedAt?: string | null; // fixed or dismissed date, undefined while open
+};
+
+export type SecuritySlaOptions = {
+  slaDays: Partial<Record<SecuritySeverity, number>>;
+  remediationWindowDays: number;
+};
+
+// Facts produced for every security retriever, all ages and durations in days
+export type SecurityAlertAgeFacts = {
+  oldestCriticalAlertAgeDays: number;
+  oldestHighAlertAgeDays: number;
+  oldestMediumAlertAgeDays: number;
+  oldestLowAlertAgeDays: number;
+  criticalAlertsPastSla: number;
+  highAlertsPastSla: number;
+  alertsPastSla: number;
+  meanTimeToRemediateDays: number;
+  remediatedAlertsInWindow: number;
+};
+
+// Security policy default: criticals must be fixed within 7 days and highs within 30
+export const DEFAULT_SECURITY_SLA_DAYS: Partial<
+  Record<SecuritySeverity, number>
+> = {
+  critical: 7,
+  high: 30,
+};
+
+export const DEFAULT_REMEDIATION_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the SLA per severity and the remediation window from
+ * `techInsights.argus.security`, falling back to the security policy defaults.
+ *
+ * @param config - The Backstage application configuration
+ */
+export function readSecuritySlaOptions(config: Config): SecuritySlaOptions {
+  const securityConfig = config.getOptionalConfig(
+    'techInsights.argus.security',
+  );
+  const slaConfig = securityConfig?.getOptionalConfig('slaDays');
+  const slaDays = { ...DEFAULT_SECURITY_SLA_DAYS };
+  (['critical', 'high', 'medium', 'low'] as SecuritySeverity[]).forEach(
+    severity => {
+      const days = slaConfig?.getOptionalNumber(severity);
+      if (days !== undefined) {
+        slaDays[severity] = days;
+      }
+    },
+  );
+
+  return {
+    slaDays,
+    remediationWindowDays:
+      securityConfig?.getOptionalNumber('remediationWindowDays') ??
+      DEFAULT_REMEDIATION_WINDOW_DAYS,
+  };
+}
+
+/**
+ * Maps severities reported by the different tools onto critical, high, medium and low.
+ */
+export function normalizeSecuritySeverity(
+  severity?: string | null,
+): SecuritySeverity | undefined {
+  switch (severity?.toLowerCase()) {
+    case 'critical':
+      return 'critical';
+    case 'high':
+      return 'high';
+    case 'moderate':
+    case 'medium':
+      return 'medium';
+    case 'low':
+      return 'low';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the start of the remediation window, used by retrievers to stop paging
+ * through resolved alerts that fall outside of it.
+ */
+export function getRemediationWindowStart(
+  options: SecuritySlaOptions,
+  now: Date = new Date(),
+): Date {
+  return new Date(now.getTime() - options.remediationWindowDays * DAY_MS);
+}
+
+function daysBetween(from: string, to: Date): number | undefined {
+  const start = new Date(from).getTime();
+  if (Number.isNaN(start)) {
+    return undefined;
+  }
+  return Math.max(0, (to.getTime() - start) / DAY_MS);
+}
+
+/**
+ * Computes the oldest open alert age per severity, the alerts past their SLA and
+ * the mean time to remediate alerts resolved within the remediation window.
+ *
+ * @param openAlerts - The currently open alerts
+ * @param resolvedAlerts - Fixed or dismissed alerts, older ones are ignored
+ * @param options - SLA per severity and remediation window
+ * @param now - Reference date, defaults to the current time
+ */
+export function computeSecurityAlertAgeFacts(
+  openAlerts: SecurityAlertTimestamps[],
+  resolvedAlerts: SecurityAlertTimestamps[],
+  options: SecuritySlaOptions,
+  now: Date = new Date(),
+): SecurityAlertAgeFacts {
+  const oldest: Record<SecuritySeverity, number> = {
+    critical: 0,
+    high: 0,
+    medium: 0,
+    low: 0,
+  };
+  const pastSla: Record<SecuritySeverity, number> = {
+    critical: 0,
+    high: 0,
+    medium: 0,
+    low: 0,
+  };
+
+  openAlerts.forEach(alert => {
+    const severity = normalizeSecuritySeverity(alert.severity);
+    const age = alert.createdAt ? daysBetween(alert.createdAt, now) : undefined;
+    if (!severity || age === undefined) {
+      return;
+    }
+    oldest[severity] = Math.max(oldest[severity], age);
+    const sla = options.slaDays[severity];
+    if (sla !== undefined && age > sla) {
+      pastSla[severity]++;
+    }
+  });
+
+  const windowStart = getRemediationWindowStart(options, now);
+  const remediationTimes = resolvedAlerts.flatMap(alert => {
+    if (!alert.createdAt || !alert.resolvedAt) {
+      return [];
+    }
+    const resolvedAt = new Date(alert.resolvedAt);
+    if (Number.isNaN(resolvedAt.getTime()) || resolvedAt < windowStart) {
+      return [];
+    }
+    const duration = daysBetween(alert.createdAt, resolvedAt);
+    return duration === undefined ? [] : [duration];
+  });
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    oldestCriticalAlertAgeDays: round(oldest.critical),
+    oldestHighAlertAgeDays: round(oldest.high),
+    oldestMediumAlertAgeDays: round(oldest.medium),
+    oldestLowAlertAgeDays: round(oldest.low),
+    criticalAlertsPastSla: pastSla.critical,
+    highAlertsPastSla: pastSla.high,
+    alertsPastSla:
+      pastSla.critical + pastSla.high + pastSla.medium + pastSla.low,
+    meanTimeToRemediateDays:
+      remediationTimes.length > 0
+        ? round(
+            remediationTimes.reduce((sum, time) => sum + time, 0) /
+              remediationTimes.length,
+          )
+        : 0,
+    remediatedAlertsInWindow: remediationTimes.length,
+  };
+}
+
+/**
+ * Schema entries for {@link SecurityAlertAgeFacts}, shared by the security retrievers.
+ *
+ * @param source - Name of the tool, used in the descriptions
+ */
+export function createSecurityAlertAgeSchema(source: string) {
+  return {
+    oldestCriticalAlertAgeDays: {
+      type: 'float' as const,
+      description: `Age in days of the oldest open critical ${source} alert`,
+    },
+    oldestHighAlertAgeDays: {
+      type: 'float' as const,
+      description: `Age in days of the oldest open high ${source} alert`,
+    },
+    oldestMediumAlertAgeDays: {
+      type: 'float' as const,
+      description: `Age in days of the oldest open medium ${source} alert`,
+    },
+    oldestLowAlertAgeDays: {
+      type: 'float' as const,
+      description: `Age in days of the oldest open low ${source} alert`,
+    },
+    criticalAlertsPastSla: {
+      type: 'integer' as const,
+      description: `Number of open critical ${source} alerts older than their SLA`,
+    },
+    highAlertsPastSla: {
+      type: 'integer' as const,
+      description: `Number of open high ${source} alerts older than their SLA`,
+    },
+    alertsPastSla: {
+      type: 'integer' as const,
+      description: `Number of open ${source} alerts older than the SLA of their severity`,
+    },
+    meanTimeToRemediateDays: {
+      type: 'float' as const,
+      description: `Mean days to fix or dismiss ${source} alerts resolved within the remediation window`,
+    },
+    remediatedAlertsInWindow: {
+      type: 'integer' as const,
+      description: `Number of ${source} alerts fixed or dismissed within the remediation window`,
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { ConfigReader } from '@backstage/config';
+import {
+  computeSecurityAlertAgeFacts,
+  readSecuritySlaOptions,
+} from '../securityAlertAging';
+
+const now = new Date('2025-06-30T00:00:00Z');
+
+const daysAgo = (days: number) =>
+  new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('securityAlertAging', () => {
+  it('reads the SLA from config with policy defaults', () => {
+    expect(readSecuritySlaOptions(new ConfigReader({}))).toEqual({
+      slaDays: { critical: 7, high: 30 },
+      remediationWindowDays: 90,
+    });
+
+    expect(
+      readSecuritySlaOptions(
+        new ConfigReader({
+          techInsights: {
+            argus: {
+              security: {
+                slaDays: { high: 14, medium: 60 },
+                remediationWindowDays: 30,
+              },
+            },
+          },
+        }),
+      ),
+    ).toEqual({
+      slaDays: { critical: 7, high: 14, medium: 60 },
+      remediationWindowDays: 30,
+    });
+  });
+
+  it('computes the oldest alert age and the alerts past their SLA', () => {
+    const facts = computeSecurityAlertAgeFacts(
+      [
+        { severity: 'critical', createdAt: daysAgo(10) },
+        { severity: 'critical', createdAt: daysAgo(2) },
+        { severity: 'high', createdAt: daysAgo(31) },
+        { severity: 'moderate', createdAt: daysAgo(100) },
+        { severity: 'unknown', createdAt: daysAgo(400) },
+      ],
+      [],
+      { slaDays: { critical: 7, high: 30 }, remediationWindowDays: 90 },
+      now,
+    );
+
+    expect(facts).toEqual(
+      expect.objectContaining({
+        oldestCriticalAlertAgeDays: 10,
+        oldestHighAlertAgeDays: 31,
+        oldestMediumAlertAgeDays: 100,
+        oldestLowAlertAgeDays: 0,
+        criticalAlertsPastSla: 1,
+        highAlertsPastSla: 1,
+        alertsPastSla: 2,
+      }),
+    );
+  });
+
+  it('averages the remediation time of alerts resolved within the window', () => {
+    const facts = computeSecurityAlertAgeFacts(
+      [],
+      [
+        { severity: 'high', createdAt: daysAgo(20), resolvedAt: daysAgo(10) },
+        { severity: 'low', createdAt: daysAgo(34), resolvedAt: daysAgo(4) },
+        // Resolved before the remediation window
+        { severity: 'high', createdAt: daysAgo(200), resolvedAt: daysAgo(120) },
+      ],
+      { slaDays: {}, remediationWindowDays: 90 },
+      now,
+    );
+
+    expect(facts.meanTimeToRemediateDays).toBe(20);
+    expect(facts.remediatedAlertsInWindow).toBe(2);
+  });
+});
@@ -0,0 +1,54 @@
+import { DynamicThresholdCheck } from '../argusPanoptesFactChecker/service/dynamicThresholdFactChecker';
+
+export const SonarCloudChecks: DynamicThresholdCheck[] = [
+  {
+    id: 'sonarcloud-bugs',
+    name: 'SonarCloud Bugs',
+    type: 'number',
+    factIds: ['sonarcloud-fact-retriever', 'bugs'],
+    annotationKeyThreshold: 'tech-insights.io/sonarcloud-bugs-threshold',
+    annotationKeyOperator: 'tech-insights.io/sonarcloud-bugs-operator',
+    description: 'Maximum number of SonarCloud bugs allowed',
+  },
+  {
+    id: 'sonarcloud-code-smells',
+    name: 'SonarCloud Code Smells',
+    type: 'number',
+    factIds: ['sonarcloud-fact-retriever', 'code_smells'],
+    annotationKeyThreshold: 'tech-insights.io/sonarcloud-code-smells-threshold',
+    annotationKeyOperator: 'tech-insights.io/sonarcloud-code-smells-operator',
+    description: 'Maximum number of SonarCloud code smells allowed',
+  },
+  {
+    id: 'sonarcloud-vulnerabilities',
+    name: 'SonarCloud Vulnerabilities',
+    type: 'number',
+    factIds: ['sonarcloud-fact-retriever', 'vulnerabilities'],
+    annotationKeyThreshold:
+      'tech-insights.io/sonarcloud-vulnerabilities-threshold',
+    annotationKeyOperator:
+      'tech-insights.io/sonarcloud-vulnerabilities-operator',
+    description: 'Maximum number of SonarCloud vulnerabilities allowed',
+  },
+  {
+    id: 'sonarcloud-code-coverage',
+    name: 'SonarCloud Code Coverage',
+    type: 'number',
+    factIds: ['sonarcloud-fact-retriever', 'code_coverage'],
+    annotationKeyThreshold:
+      'tech-insights.io/sonarcloud-code-coverage-threshold',
+    annotationKeyOperator: 'tech-insights.io/sonarcloud-code-coverage-operator',
+    description: 'Minimum SonarCloud code coverage in percent',
+  },
+  {
+    id: 'sonarcloud-quality-gate',
+    name: 'SonarCloud Quality Gate',
+    type: 'string',
+    factIds: ['sonarcloud-fact-retriever', 'quality_gate'],
+    annotationKeyThreshold:
+      'tech-insights.io/sonarcloud-quality-gate-threshold',
+    annotationKeyOperator: 'tech-insights.io/sonarcloud-quality-gate-operator',
+    description:
+      "Expected SonarCloud quality gate status, e.g. 'OK' with the 'equal' operator",
+  },
+];
@@ -1,14 +1,32 @@
 import { Config } from '@backstage/config/index';
 import { FactRetriever } from '@backstage-community/plugin-tech-insights-node';
 import { CatalogClient } from '@backstage/catalog-client';
+import { readSonarInstances, resolveSonarInstance } from './sonarInstances';
 
 // Define an interface for the SonarCloud measure
 interface SonarCloudMeasure {
   metric: string; // Name of the metric (e.g., 'bugs', 'code_smells', 'vulnerabilities')
-  value: string; // Value of the metric, a number in string format
+  value?: string; // Value of the metric, a number in string format
   bestValue?: boolean; // Indicates if this is the best possible value for the metric
+  period?: SonarMeasurePeriod; // Value on new code, for new_* metrics
+  periods?: SonarMeasurePeriod[]; // Older SonarQube versions report new code values per period
 }
 
+interface SonarMeasurePeriod {
+  index: number;
+  value: string;
+}
+
+/**
+ * A failing quality gate condition, as stored in the quality_gate_failed_conditions fact.
+ */
+export type SonarFailedCondition = {
+  status: string; // ERROR or WARN
+  comparator: string; // e.g. LT or GT
+  errorThreshold: string;
+  actualValue: string;
+};
+
 // Interface for SonarCloud quality gate response
 interface SonarQualityGateCondition {
   status: string;
@@ -18,6 +36,25 @@ interface SonarQualityGateCondition {
   actualValue: string;
 }
 
+// Measures requested from the Sonar measures API
+const SONAR_METRIC_KEYS = [
+  'bugs',
+  'code_smells',
+  'vulnerabilities',
+  'coverage',
+  'security_hotspots',
+  'duplicated_lines_density',
+  'reliability_rating',
+  'security_rating',
+  'sqale_rating',
+  'sqale_index',
+  'ncloc',
+  'new_bugs',
+  'new_vulnerabilities',
+  'new_coverage',
+  'new_duplicated_lines_density',
+];
+
 interface SonarQualityGateResponse {
   projectStatus: {
     status: 'OK' | 'ERROR' | 'WARN';
@@ -30,7 +67,8 @@ interface SonarQualityGateResponse {
 /**
  * Creates a fact retriever for SonarCloud metrics.
  *
- * This retriever fetches code quality metrics from SonarCloud for components
+ * This retriever fetches code quality metrics from SonarCloud, or from a self-hosted
+ * SonarQube Server named by the `sonarcloud.io/instance` annotation, for components
  * that have SonarCloud integration enabled via annotations.
  *
  * @param config - The application configuration object
@@ -41,7 +79,7 @@ export const createSonarCloudFactRetriever = (
 ): FactRetriever => {
   return {
     id: 'sonarcloud-fact-retriever',
-    version: '1.0',
+    version: '1.2',
     entityFilter: [{ kind: 'component' }], // Only process entities of kind 'component'
     schema: {
       // Define the schema for the facts this retriever provides
@@ -65,6 +103,55 @@ export const createSonarCloudFactRetriever = (
         type: 'string',
         description: 'Quality gate status from SonarCloud',
       },
+      security_hotspots: {
+        type: 'integer',
+        description: 'Number of security hotspots to review',
+      },
+      duplicated_lines_density: {
+        type: 'float',
+        description: 'Percentage of duplicated lines',
+      },
+      reliability_rating: {
+        type: 'integer',
+        description: 'Reliability rating from 1 (A) to 5 (E)',
+      },
+      security_rating: {
+        type: 'integer',
+        description: 'Security rating from 1 (A) to 5 (E)',
+      },
+      maintainability_rating: {
+        type: 'integer',
+        description: 'Maintainability rating from 1 (A) to 5 (E)',
+      },
+      technical_debt_minutes: {
+        type: 'integer',
+        description: 'Estimated effort to fix all code smells, in minutes',
+      },
+      lines_of_code: {
+        type: 'integer',
+        description: 'Number of lines of code, excluding comments and blanks',
+      },
+      new_bugs: {
+        type: 'integer',
+        description: 'Number of bugs on new code',
+      },
+      new_vulnerabilities: {
+        type: 'integer',
+        description: 'Number of vulnerabilities on new code',
+      },
+      new_code_coverage: {
+        type: 'float',
+        description: 'Percentage of code coverage on new code',
+      },
+      new_duplicated_lines_density: {
+        type: 'float',
+        description: 'Percentage of duplicated lines on new code',
+      },
+      quality_gate_failed_conditions: {
+        type: 'object',
+        description:
+          'Failing quality gate conditions keyed by metric, with comparator, threshold and actual value',
+      },
     },
     /**
      * Handler function that retrieves SonarCloud metrics for relevant entities.
@@ -78,11 +165,14 @@ export const createSonarCloudFactRetriever = (
         discovery,
         auth,
         entityFilter,
+        logger,
       } = ctx;
 
-      // Get SonarCloud-specific configuration
-      const sonarcloudConfig = config.getConfig('sonarcloud');
-      const token = sonarcloudConfig.getString('token');
+      // Get the configured SonarCloud and SonarQube Server instances
+      const instances = readSonarInstances(config);
+      if (instances.length === 0) {
+        throw new Error('Missing required config value at sonarcloud');
+      }
 
       // Get authentication token for catalog access
       const { token: catalogToken } = await auth.getPluginRequestToken({
@@ -108,29 +198,44 @@ export const createSonarCloudFactRetriever = (
           entity.metadata.annotations?.['sonarcloud.io/project-key'],
       );
 
-      // Prepare the basic authentication token for SonarCloud API requests
-      const basicAuthToken = Buffer.from(`${token}:`).toString('base64');
-      const requestHeaders = {
-        Authorization: `Basic ${basicAuthToken}`,
-      };
-
       // Process each entity with SonarCloud enabled
       const results = await Promise.all(
         sonarcloudEntities.map(async entity => {
           const projectKey =
             entity.metadata.annotations?.['sonarcloud.io/project-key'];
 
-          // Call SonarCloud API to get metrics for the project
+          const instance = resolveSonarInstance(instances, entity);
+          if (!instance) {
+            logger.warn(
+              `Unknown Sonar instance '${entity.metadata.annotations?.['sonarcloud.io/instance']}' for ${entity.metadata.name}, skipping`,
+            );
+            return null;
+          }
+
+          // Prepare the basic authentication token for Sonar API requests
+          const requestHeaders: Record<string, string> = {};
+          if (instance.token) {
+            const basicAuthToken = Buffer.from(`${instance.token}:`).toString(
+              'base64',
+            );
+            requestHeaders.Authorization = `Basic ${basicAuthToken}`;
+          }
+
+          // Call the Sonar API to get metrics for the project
           const response = await fetch(
-            `https://sonarcloud.io/api/measures/component?component=${projectKey}&metricKeys=bugs,code_smells,vulnerabilities,coverage`,
+            `${
+              instance.baseUrl
+            }/api/measures/component?component=${projectKey}&metricKeys=${SONAR_METRIC_KEYS.join(
+              ',',
+            )}`,
             {
               headers: requestHeaders,
             },
           );
 
-          // Call SonarCloud API to get Quality Gate metrics for the project
+          // Call the Sonar API to get Quality Gate metrics for the project
           const responseQG = await fetch(
-            `https://sonarcloud.io/api/qualitygates/project_status?projectKey=${projectKey}`,
+            `${instance.baseUrl}/api/qualitygates/project_status?projectKey=${projectKey}`,
             {
               headers: requestHeaders,
             },
@@ -154,6 +259,64 @@ export const createSonarCloudFactRetriever = (
           const qgStatus = (dataQG as SonarQualityGateResponse).projectStatus
             .status;
 
+          // Reads a measure, taking the new code period value for new_* metrics
+          const measureValue = (metric: string): string | undefined => {
+            const measure = measures.find(
+              (m: SonarCloudMeasure) => m.metric === metric,
+            );
+            return (
+              measure?.value ??
+              measure?.period?.value ??
+              measure?.periods?.[0]?.value
+            );
+          };
+
+          // Parses an integer measure, ratings such as '2.0' included
+          const toInt = (value: string) => Math.round(parseFloat(value)) || 0;
+
+          const toFloat = (value: string) => parseFloat(value) || 0;
+
+          const intMeasure = (metric: string) =>
+            toInt(measureValue(metric) ?? '0');
+
+          // New code measures are missing until the project has a new code period, and are left
+          // out instead of being stored as 0, which would pass the checks on new code
+          const newCodeFacts: Record<string, number> = {};
+          const addNewCodeFact = (
+            fact: string,
+            metric: string,
+            parse: (value: string) => number,
+          ) => {
+            const value = measureValue(metric);
+            if (value !== undefined) {
+              newCodeFacts[fact] = parse(value);
+            }
+          };
+          addNewCodeFact('new_bugs', 'new_bugs', toInt);
+          addNewCodeFact('new_vulnerabilities', 'new_vulnerabilities', toInt);
+          addNewCodeFact('new_code_coverage', 'new_coverage', toFloat);
+          addNewCodeFact(
+            'new_duplicated_lines_density',
+            'new_duplicated_lines_density',
+            toFloat,
+          );
+
+          // Keep the failing conditions, so users see which one broke the gate
+          const failedConditions: Record<string, SonarFailedCondition> = {};
+          ((dataQG as SonarQualityGateResponse).projectStatus.conditions ?? [])
+            .filter(
+              condition =>
+                condition.status === 'ERROR' || condition.status === 'WARN',
+            )
+            .forEach(condition => {
+              failedConditions[condition.metricKey] = {
+                status: condition.status,
+                comparator: condition.comparator,
+                errorThreshold: condition.errorThreshold,
+                actualValue: condition.actualValue,
+              };
+            });
+
           // Facts object to be returned
           const facts = {
             bugs: parseInt(
@@ -178,6 +341,20 @@ export const createSonarCloudFactRetriever = (
                 ?.value ?? '0',
             ),
             quality_gate: qgStatus,
+            security_hotspots: intMeasure('security_hotspots'),
+            duplicated_lines_density: parseFloat(
+              measures.find(
+                (m: SonarCloudMeasure) =>
+                  m.metric === 'duplicated_lines_density',
+              )?.value ?? '0',
+            ),
+            reliability_rating: intMeasure('reliability_rating'),
+            security_rating: intMeasure('security_rating'),
+            maintainability_rating: intMeasure('sqale_rating'),
+            technical_debt_minutes: intMeasure('sqale_index'),
+            lines_of_code: intMeasure('ncloc'),
+            ...newCodeFacts,
+            quality_gate_failed_conditions: failedConditions,
           };
 
           // Return facts associated with this entity
@@ -201,6 +378,18 @@ export const createSonarCloudFactRetriever = (
           vulnerabilities: number;
           code_coverage: number;
           quality_gate: string;
+          security_hotspots: number;
+          duplicated_lines_density: number;
+          reliability_rating: number;
+          security_rating: number;
+          maintainability_rating: number;
+          technical_debt_minutes: number;
+          lines_of_code: number;
+          new_bugs?: number;
+          new_vulnerabilities?: number;
+          new_code_coverage?: number;
+          new_duplicated_lines_density?: number;
+          quality_gate_failed_conditions: Record<string, SonarFailedCondition>;
         };
       }>;
     },
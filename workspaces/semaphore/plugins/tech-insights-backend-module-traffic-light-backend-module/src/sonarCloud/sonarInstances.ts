@@ -0,0 +1,67 @@
+/**
+ * Resolves which SonarCloud or SonarQube Server instance serves a catalog entity, so that the
+ * Sonar retriever can query sonarcloud.io and self-hosted SonarQube instances side by side.
+ */
+import { Config } from '@backstage/config';
+import { Entity } from '@backstage/catalog-model';
+
+// Annotation naming the `sonarcloud.instances` entry that hosts the entity's project
+export const SONAR_INSTANCE_ANNOTATION = 'sonarcloud.io/instance';
+
+export const DEFAULT_SONAR_INSTANCE_NAME = 'default';
+export const DEFAULT_SONAR_BASE_URL = 'https://sonarcloud.io';
+
+// A SonarCloud or SonarQube Server instance
+export type SonarInstance = {
+  name: string;
+  baseUrl: string; // e.g. https://sonarcloud.io or https://sonarqube.example.com
+  token?: string;
+};
+
+/**
+ * Reads the Sonar instances: the default instance from `sonarcloud.baseUrl` and `sonarcloud.token`,
+ * followed by the named entries of `sonarcloud.instances`.
+ *
+ * @param config - The Backstage application configuration
+ */
+export function readSonarInstances(config: Config): SonarInstance[] {
+  const sonarConfig = config.getOptionalConfig('sonarcloud');
+  if (!sonarConfig) {
+    return [];
+  }
+
+  const defaultInstance: SonarInstance = {
+    name: DEFAULT_SONAR_INSTANCE_NAME,
+    baseUrl: (
+      sonarConfig.getOptionalString('baseUrl') ?? DEFAULT_SONAR_BASE_URL
+    ).replace(/\/+$/, ''),
+    token: sonarConfig.getOptionalString('token'),
+  };
+
+  const namedInstances = (
+    sonarConfig.getOptionalConfigArray('instances') ?? []
+  ).map(instanceConfig => ({
+    name: instanceConfig.getString('name'),
+    baseUrl: instanceConfig.getString('baseUrl').replace(/\/+$/, ''),
+    token: instanceConfig.getOptionalString('token'),
+  }));
+
+  return [defaultInstance, ...namedInstances];
+}
+
+/**
+ * Picks the instance named by the entity's instance annotation, or the default instance when the
+ * entity has no annotation. Returns undefined when the annotation names an unknown instance.
+ *
+ * @param instances - The configured Sonar instances
+ * @param entity - The catalog entity
+ */
+export function resolveSonarInstance(
+  instances: SonarInstance[],
+  entity: Entity,
+): SonarInstance | undefined {
+  const name =
+    entity.metadata.annotations?.[SONAR_INSTANCE_ANNOTATION] ||
+    DEFAULT_SONAR_INSTANCE_NAME;
+  return instances.find(instance => instance.name === name);
+}
@@ -14,6 +14,19 @@ jest.mock('@backstage/catalog-client', () => {
   };
 });
 
+// Extra metrics as reported when the Sonar response does not contain them; the new code
+// metrics are left out
+const MISSING_EXTRA_METRICS = {
+  security_hotspots: 0,
+  duplicated_lines_density: 0,
+  reliability_rating: 0,
+  security_rating: 0,
+  maintainability_rating: 0,
+  technical_debt_minutes: 0,
+  lines_of_code: 0,
+  quality_gate_failed_conditions: {},
+};
+
 // Mock global fetch for SonarCloud API requests
 const mockFetch = jest.fn();
 global.fetch = mockFetch as any;
@@ -103,7 +116,7 @@ describe('SonarCloud Fact Retriever', () => {
     expect(factRetriever).toEqual(
       expect.objectContaining({
         id: 'sonarcloud-fact-retriever',
-        version: '1.0',
+        version: '1.2',
         entityFilter: [{ kind: 'component' }],
         schema: {
           bugs: {
@@ -126,6 +139,56 @@ describe('SonarCloud Fact Retriever', () => {
             type: 'string',
             description: 'Quality gate status from SonarCloud',
           },
+          security_hotspots: {
+            type: 'integer',
+            description: 'Number of security hotspots to review',
+          },
+          duplicated_lines_density: {
+            type: 'float',
+            description: 'Percentage of duplicated lines',
+          },
+          reliability_rating: {
+            type: 'integer',
+            description: 'Reliability rating from 1 (A) to 5 (E)',
+          },
+          security_rating: {
+            type: 'integer',
+            description: 'Security rating from 1 (A) to 5 (E)',
+          },
+          maintainability_rating: {
+            type: 'integer',
+            description: 'Maintainability rating from 1 (A) to 5 (E)',
+          },
+          technical_debt_minutes: {
+            type: 'integer',
+            description: 'Estimated effort to fix all code smells, in minutes',
+          },
+          lines_of_code: {
+            type: 'integer',
+            description:
+              'Number of lines of code, excluding comments and blanks',
+          },
+          new_bugs: {
+            type: 'integer',
+            description: 'Number of bugs on new code',
+          },
+          new_vulnerabilities: {
+            type: 'integer',
+            description: 'Number of vulnerabilities on new code',
+          },
+          new_code_coverage: {
+            type: 'float',
+            description: 'Percentage of code coverage on new code',
+          },
+          new_duplicated_lines_density: {
+            type: 'float',
+            description: 'Percentage of duplicated lines on new code',
+          },
+          quality_gate_failed_conditions: {
+            type: 'object',
+            description:
+              'Failing quality gate conditions keyed by metric, with comparator, threshold and actual value',
+          },
         },
         handler: expect.any(Function),
       }),
@@ -149,6 +212,20 @@ describe('SonarCloud Fact Retriever', () => {
             { metric: 'code_smells', value: '45' },
             { metric: 'vulnerabilities', value: '5' },
             { metric: 'coverage', value: '10.5' },
+            { metric: 'security_hotspots', value: '3' },
+            { metric: 'duplicated_lines_density', value: '4.2' },
+            { metric: 'reliability_rating', value: '2.0' },
+            { metric: 'security_rating', value: '1.0' },
+            { metric: 'sqale_rating', value: '3.0' },
+            { metric: 'sqale_index', value: '480' },
+            { metric: 'ncloc', value: '12000' },
+            { metric: 'new_bugs', period: { index: 1, value: '1' } },
+            { metric: 'new_vulnerabilities', period: { index: 1, value: '0' } },
+            { metric: 'new_coverage', period: { index: 1, value: '72.5' } },
+            {
+              metric: 'new_duplicated_lines_density',
+              periods: [{ index: 1, value: '1.8' }],
+            },
           ],
         },
       }),
@@ -205,6 +282,18 @@ describe('SonarCloud Fact Retriever', () => {
         vulnerabilities: 5,
         code_coverage: 10.5,
         quality_gate: 'OK',
+        security_hotspots: 3,
+        duplicated_lines_density: 4.2,
+        reliability_rating: 2,
+        security_rating: 1,
+        maintainability_rating: 3,
+        technical_debt_minutes: 480,
+        lines_of_code: 12000,
+        new_bugs: 1,
+        new_vulnerabilities: 0,
+        new_code_coverage: 72.5,
+        new_duplicated_lines_density: 1.8,
+        quality_gate_failed_conditions: {},
       },
     });
 
@@ -212,7 +301,7 @@ describe('SonarCloud Fact Retriever', () => {
     expect(mockFetch).toHaveBeenCalledTimes(2);
     expect(mockFetch).toHaveBeenNthCalledWith(
       1,
-      'https://sonarcloud.io/api/measures/component?component=test-project&metricKeys=bugs,code_smells,vulnerabilities,coverage',
+      'https://sonarcloud.io/api/measures/component?component=test-project&metricKeys=bugs,code_smells,vulnerabilities,coverage,security_hotspots,duplicated_lines_density,reliability_rating,security_rating,sqale_rating,sqale_index,ncloc,new_bugs,new_vulnerabilities,new_coverage,new_duplicated_lines_density',
       {
         headers: {
           Authorization: `Basic ${Buffer.from('test-token:').toString(
@@ -452,6 +541,7 @@ describe('SonarCloud Fact Retriever', () => {
       vulnerabilities: 0,
       code_coverage: 0.0,
       quality_gate: 'OK',
+      ...MISSING_EXTRA_METRICS,
     });
   });
 
@@ -514,6 +604,7 @@ describe('SonarCloud Fact Retriever', () => {
       vulnerabilities: 5,
       code_coverage: 10.5,
       quality_gate: 'NONE',
+      ...MISSING_EXTRA_METRICS,
     });
   });
 
@@ -631,6 +722,7 @@ describe('SonarCloud Fact Retriever', () => {
       vulnerabilities: 5,
       code_coverage: 10.5,
       quality_gate: 'OK',
+      ...MISSING_EXTRA_METRICS,
     });
 
     expect(result[1].entity.name).toBe('component-2');
@@ -640,18 +732,19 @@ describe('SonarCloud Fact Retriever', () => {
       vulnerabilities: 1,
       code_coverage: 30.2,
       quality_gate: 'OK',
+      ...MISSING_EXTRA_METRICS,
     });
 
     // Verify fetch was called twice with the correct URLs
     expect(mockFetch).toHaveBeenCalledTimes(4);
     expect(mockFetch).toHaveBeenNthCalledWith(
       1,
-      'https://sonarcloud.io/api/measures/component?component=test-project&metricKeys=bugs,code_smells,vulnerabilities,coverage',
+      'https://sonarcloud.io/api/measures/component?component=test-project&metricKeys=bugs,code_smells,vulnerabilities,coverage,security_hotspots,duplicated_lines_density,reliability_rating,security_rating,sqale_rating,sqale_index,ncloc,new_bugs,new_vulnerabilities,new_coverage,new_duplicated_lines_density',
       expect.any(Object),
     );
     expect(mockFetch).toHaveBeenNthCalledWith(
       2,
-      'https://sonarcloud.io/api/measures/component?component=project-2&metricKeys=bugs,code_smells,vulnerabilities,coverage',
+      'https://sonarcloud.io/api/measures/component?component=project-2&metricKeys=bugs,code_smells,vulnerabilities,coverage,security_hotspots,duplicated_lines_density,reliability_rating,security_rating,sqale_rating,sqale_index,ncloc,new_bugs,new_vulnerabilities,new_coverage,new_duplicated_lines_density',
       expect.any(Object),
     );
     expect(mockFetch).toHaveBeenNthCalledWith(
@@ -677,4 +770,191 @@ describe('SonarCloud Fact Retriever', () => {
       },
     );
   });
+
+  // Test: Stores the failing quality gate conditions
+  it('should store the failing quality gate conditions', async () => {
+    const testEntity = createTestEntity();
+
+    mockGetEntitiesImpl.mockResolvedValue({ items: [testEntity] });
+
+    // Fetch metrics data
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        component: {
+          measures: [
+            { metric: 'new_coverage', period: { index: 1, value: '65.2' } },
+          ],
+        },
+      }),
+    });
+
+    // Fetch quality gate status with one failing and one passing condition
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        projectStatus: {
+          status: 'ERROR',
+          conditions: [
+            {
+              status: 'ERROR',
+              metricKey: 'new_coverage',
+              comparator: 'LT',
+              errorThreshold: '80',
+              actualValue: '65.2',
+            },
+            {
+              status: 'OK',
+              metricKey: 'new_bugs',
+              comparator: 'GT',
+              errorThreshold: '0',
+              actualValue: '0',
+            },
+          ],
+          periods: [],
+          ignoredConditions: false,
+        },
+      }),
+    });
+
+    const factRetriever = createSonarCloudFactRetriever(mockConfig);
+
+    const result = await factRetriever.handler({
+      config: mockConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    expect(result[0].facts.quality_gate).toBe('ERROR');
+    expect(result[0].facts.new_code_coverage).toBe(65.2);
+    // New code measures missing from the response are not stored as 0
+    expect(result[0].facts).not.toHaveProperty('new_bugs');
+    expect(result[0].facts.quality_gate_failed_conditions).toEqual({
+      new_coverage: {
+        status: 'ERROR',
+        comparator: 'LT',
+        errorThreshold: '80',
+        actualValue: '65.2',
+      },
+    });
+  });
+
+  // Test: Queries the self-hosted SonarQube instance named by the entity annotation
+  it('should query the Sonar instance named by the entity annotation', async () => {
+    const instancesConfig = new ConfigReader({
+      sonarcloud: {
+        token: 'test-token',
+        instances: [
+          {
+            name: 'on-prem',
+            baseUrl: 'https://sonarqube.example.com/',
+            token: 'on-prem-token',
+          },
+        ],
+      },
+    });
+    const onPremEntity = createTestEntity({
+      metadata: {
+        annotations: { 'sonarcloud.io/instance': 'on-prem' },
+      },
+    });
+
+    mockGetEntitiesImpl.mockResolvedValue({ items: [onPremEntity] });
+
+    // Fetch metrics data
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        component: { measures: [{ metric: 'bugs', value: '2' }] },
+      }),
+    });
+
+    // Fetch quality gate status
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        projectStatus: {
+          status: 'ERROR',
+          conditions: [],
+          periods: [],
+          ignoredConditions: false,
+        },
+      }),
+    });
+
+    const factRetriever = createSonarCloudFactRetriever(instancesConfig);
+
+    const result = await factRetriever.handler({
+      config: instancesConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].facts.quality_gate).toBe('ERROR');
+
+    // Verify the instance base URL and token were used
+    const expectedHeaders = {
+      headers: {
+        Authorization: `Basic ${Buffer.from('on-prem-token:').toString(
+          'base64',
+        )}`,
+      },
+    };
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      expect.stringMatching(
+        /^https:\/\/sonarqube\.example\.com\/api\/measures\/component\?component=test-project&/,
+      ),
+      expectedHeaders,
+    );
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      'https://sonarqube.example.com/api/qualitygates/project_status?projectKey=test-project',
+      expectedHeaders,
+    );
+  });
+
+  // Test: Skips entities that name an unknown Sonar instance
+  it('should skip entities that name an unknown Sonar instance', async () => {
+    const unknownInstanceEntity = createTestEntity({
+      metadata: {
+        annotations: { 'sonarcloud.io/instance': 'missing' },
+      },
+    });
+
+    mockGetEntitiesImpl.mockResolvedValue({ items: [unknownInstanceEntity] });
+
+    const factRetriever = createSonarCloudFactRetriever(mockConfig);
+
+    const result = await factRetriever.handler({
+      config: mockConfig,
+      logger: mockLogger,
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      entityFilter: [{ kind: 'component' }],
+      urlReader: {
+        read: jest.fn(),
+        readTree: jest.fn(),
+        search: jest.fn(),
+      } as unknown as UrlReaderService,
+    });
+
+    expect(result).toHaveLength(0);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
 });
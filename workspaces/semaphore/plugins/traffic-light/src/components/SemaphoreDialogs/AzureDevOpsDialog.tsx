@@ -2,12 +2,18 @@ import { FC, useState, useEffect, useMemo } from 'react';
 import { Grid, Paper, Typography, Link } from '@material-ui/core';
 import { makeStyles } from '@material-ui/core/styles';
 import { useApi } from '@backstage/core-plugin-api';
+import { Table, TableColumn } from '@backstage/core-components';
 import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
 import { Entity } from '@backstage/catalog-model';
 import { BaseSemaphoreDialog } from './BaseSemaphoreDialogs';
-import { AzureUtils } from '../../utils/azureUtils';
+import {
+  AzureDevOpsBug,
+  AzureUtils,
+  getAzureProjectUrl,
+  isAzureBugsEnabled,
+} from '../../utils/azureUtils';
 import { determineSemaphoreColor } from '../utils';
-import { SemaphoreData } from './types';
+import { IssueDetail, SemaphoreData } from './types';
 import { catalogApiRef } from '@backstage/plugin-catalog-react';
 
 const useStyles = makeStyles(theme => ({
@@ -29,6 +35,43 @@ const useStyles = makeStyles(theme => ({
   },
 }));
 
+// A bug of the top bugs table, with the project it was found in
+type ProjectBug = AzureDevOpsBug & { project: string };
+
+// Rank of the Azure DevOps severities, used to sort the top bugs table from the most severe
+const SEVERITY_RANK: Record<string, number> = {
+  '1 - Critical': 0,
+  '2 - High': 1,
+  '3 - Medium': 2,
+  '4 - Low': 3,
+};
+
+const BUG_COLUMNS: TableColumn<ProjectBug>[] = [
+  {
+    title: 'Bug',
+    field: 'title',
+    render: row => (
+      <Link href={row.url} target="_blank" rel="noopener noreferrer">
+        {row.id}: {row.title}
+      </Link>
+    ),
+  },
+  { title: 'Project', field: 'project' },
+  {
+    title: 'Severity',
+    field: 'severity',
+    customSort: (a, b) =>
+      (SEVERITY_RANK[a.severity] ?? 4) - (SEVERITY_RANK[b.severity] ?? 4),
+  },
+  {
+    title: 'Priority',
+    field: 'priority',
+    render: row => row.priority || '-',
+  },
+  { title: 'State', field: 'state' },
+  { title: 'Age (days)', field: 'ageDays', type: 'numeric' },
+];
+
 interface AzureBugInsightsDialogProps {
   open: boolean;
   onClose: () => void;
@@ -54,6 +97,7 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
       entities: { entityName: string }[];
     }[]
   >([]);
+  const [topBugs, setTopBugs] = useState<ProjectBug[]>([]);
   const [data, setData] = useState<SemaphoreData>({
     color: 'gray',
     metrics: {},
@@ -100,7 +144,15 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
 
         const projectBugMap = new Map<
           string,
-          { bugCount: number; url: string; failedCheck: boolean }
+          {
+            bugCount: number;
+            criticalBugCount: number;
+            highBugCount: number;
+            oldestBugAgeDays: number;
+            topBugs: AzureDevOpsBug[];
+            url: string;
+            failedCheck: boolean;
+          }
         >();
 
         const projectToEntitiesMap = new Map<
@@ -108,6 +160,8 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
           { entityName: string }[]
         >();
 
+        const errorDetails: IssueDetail[] = [];
+
         for (const entity of entities) {
           const ref = {
             kind: entity.kind,
@@ -124,20 +178,28 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
               azureUtils.getAzureDevOpsBugChecks(techInsightsApi, ref),
             ]);
 
-            if (!entity.metadata.annotations?.['azure.com/bugs-query-id'])
-              continue;
+            if (!isAzureBugsEnabled(entity)) continue;
 
-            const orgName =
-              entity.metadata.annotations?.['azure.com/organization'] ??
-              'unknown-org';
-            const queryId =
-              entity.metadata.annotations?.['azure.com/bugs-query-id'] ??
-              'unknown-query-id';
+            if (metrics.azureBugsError) {
+              errorDetails.push({
+                severity: 'medium',
+                description: `Bugs of ${entity.metadata.name} could not be retrieved: ${metrics.azureBugsError.message}`,
+              });
+            }
 
-            const projectUrl = `https://dev.azure.com/${orgName}/${projectName}/_queries/query/${queryId}/`;
+            // Link to the saved query, or to the work items of the project for inline WIQL
+            const queryId =
+              entity.metadata.annotations?.['azure.com/bugs-query-id'];
+            const projectUrl = queryId
+              ? `${getAzureProjectUrl(entity)}/_queries/query/${queryId}/`
+              : `${getAzureProjectUrl(entity)}/_workitems/`;
 
             projectBugMap.set(projectName, {
               bugCount: metrics.azureBugCount,
+              criticalBugCount: metrics.azureCriticalBugCount,
+              highBugCount: metrics.azureHighBugCount,
+              oldestBugAgeDays: metrics.azureOldestBugAgeDays,
+              topBugs: metrics.azureTopBugs,
               url: projectUrl,
               failedCheck: checks.bugCountCheck === false,
             });
@@ -169,6 +231,35 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
           0,
         );
 
+        // Totals and top bugs across the projects
+        const projectDetails = Array.from(projectBugMap.entries());
+        const criticalBugCount = projectDetails.reduce(
+          (sum, [, p]) => sum + p.criticalBugCount,
+          0,
+        );
+        const highBugCount = projectDetails.reduce(
+          (sum, [, p]) => sum + p.highBugCount,
+          0,
+        );
+        const oldestBugAgeDays = Math.max(
+          0,
+          ...projectDetails.map(([, p]) => p.oldestBugAgeDays),
+        );
+
+        setTopBugs(
+          projectDetails
+            .flatMap(([project, p]) =>
+              p.topBugs.map(bug => ({ ...bug, project })),
+            )
+            .sort(
+              (a, b) =>
+                (SEVERITY_RANK[a.severity] ?? 4) -
+                  (SEVERITY_RANK[b.severity] ?? 4) ||
+                (a.priority || 5) - (b.priority || 5) ||
+                b.ageDays - a.ageDays,
+            ),
+        );
+
         // Determine color
         const failures = Array.from(projectBugMap.values()).filter(
           r => r.failedCheck,
@@ -189,12 +280,18 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
         setData({
           color,
           summary,
-          metrics: { totalBugCount },
-          details: [],
+          metrics: {
+            totalBugCount,
+            criticalBugCount,
+            highBugCount,
+            oldestBugAgeDays,
+          },
+          details: errorDetails,
         });
       } catch (e) {
         // console.error('❌ Failed to fetch Azure DevOps bug data:', e);
         setProjectBugs([]);
+        setTopBugs([]);
         setData({
           color: 'gray',
           summary: 'Failed to load metrics.',
@@ -212,6 +309,17 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
   const totalBugCount = projectBugs.reduce((sum, p) => sum + p.bugCount, 0);
   const top5Projects = projectBugs.filter(p => p.bugCount > 0).slice(0, 5);
 
+  const renderMetricBox = (value: number | undefined, label: string) => (
+    <Grid item xs={4}>
+      <Paper className={classes.metricBox} elevation={1}>
+        <Typography variant="h4" className={classes.metricValue}>
+          {value ?? 0}
+        </Typography>
+        <Typography className={classes.metricLabel}>{label}</Typography>
+      </Paper>
+    </Grid>
+  );
+
   const renderMetrics = () => (
     <>
       <Grid container spacing={2}>
@@ -229,8 +337,30 @@ export const AzureDevOpsSemaphoreDialog: FC<AzureBugInsightsDialogProps> = ({
             </Typography>
           </Paper>
         </Grid>
+        {renderMetricBox(data.metrics.criticalBugCount, 'Critical Bugs')}
+        {renderMetricBox(data.metrics.highBugCount, 'High Severity Bugs')}
+        {renderMetricBox(
+          data.metrics.oldestBugAgeDays,
+          'Oldest Bug Age (days)',
+        )}
       </Grid>
 
+      {topBugs.length > 0 && (
+        <div className={classes.projectList}>
+          <Table<ProjectBug>
+            title="Top Bugs"
+            columns={BUG_COLUMNS}
+            data={topBugs}
+            options={{
+              paging: topBugs.length > 10,
+              pageSize: 10,
+              search: false,
+              padding: 'dense',
+            }}
+          />
+        </div>
+      )}
+
       {top5Projects.length > 0 && (
         <div className={classes.projectList}>
           <Typography variant="h6">Projects with Most Bugs</Typography>
@@ -1,11 +1,17 @@
 import { FC, useState, useMemo, useEffect } from 'react';
-import { Grid, Paper, Typography } from '@material-ui/core';
+import { Grid, Paper, Tab, Tabs, Typography } from '@material-ui/core';
 import { makeStyles } from '@material-ui/core/styles';
 import { useApi } from '@backstage/core-plugin-api';
+import { Table, TableColumn } from '@backstage/core-components';
 import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
 import { catalogApiRef } from '@backstage/plugin-catalog-react';
 import { BaseSemaphoreDialog } from './BaseSemaphoreDialogs';
-import { BlackDuckUtils } from '../../utils/blackDuckUtils';
+import {
+  BlackDuckComponentToFix,
+  BlackDuckMetrics,
+  BlackDuckUtils,
+  getComponentsToFixFirst,
+} from '../../utils/blackDuckUtils';
 import { SemaphoreData, IssueDetail } from './types';
 import { Entity } from '@backstage/catalog-model';
 import { determineBlackDuckColor } from '../Semaphores/BlackDuckTrafficLight';
@@ -26,6 +32,51 @@ const useStyles = makeStyles(theme => ({
   },
 }));
 
+// Tabs of the dialog, each with its own metrics and issues
+type BlackDuckTab = 'security' | 'license' | 'policy';
+
+const NO_TAB_DETAILS: Record<BlackDuckTab, IssueDetail[]> = {
+  security: [],
+  license: [],
+  policy: [],
+};
+
+// Rank of each severity, used to sort the components table from the most severe
+const SEVERITY_RANK: Record<string, number> = {
+  CRITICAL: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3,
+};
+
+const COMPONENT_COLUMNS: TableColumn<BlackDuckComponentToFix>[] = [
+  { title: 'Component', field: 'componentName' },
+  { title: 'Version', field: 'componentVersion' },
+  {
+    title: 'Severity',
+    field: 'severity',
+    customSort: (a, b) =>
+      (SEVERITY_RANK[a.severity] ?? 4) - (SEVERITY_RANK[b.severity] ?? 4),
+  },
+  {
+    title: 'Vulnerabilities',
+    field: 'vulnerabilities',
+    render: row => row.vulnerabilities.join(', '),
+    customSort: (a, b) => a.vulnerabilities.length - b.vulnerabilities.length,
+  },
+  {
+    title: 'Upgrade To',
+    field: 'remediationTargetVersion',
+    render: row => row.remediationTargetVersion ?? '-',
+  },
+  {
+    title: 'Repositories',
+    field: 'repositories',
+    render: row => row.repositories.join(', '),
+    customSort: (a, b) => a.repositories.length - b.repositories.length,
+  },
+];
+
 interface BlackDuckSemaphoreDialogProps {
   open: boolean;
   onClose: () => void;
@@ -49,6 +100,12 @@ export const BlackDuckSemaphoreDialog: FC<BlackDuckSemaphoreDialogProps> = ({
     details: [],
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [tab, setTab] = useState<BlackDuckTab>('security');
+  const [detailsByTab, setDetailsByTab] =
+    useState<Record<BlackDuckTab, IssueDetail[]>>(NO_TAB_DETAILS);
+  const [componentsToFix, setComponentsToFix] = useState<
+    BlackDuckComponentToFix[]
+  >([]);
 
   useEffect(() => {
     if (!open || entities.length === 0) return;
@@ -70,6 +127,8 @@ export const BlackDuckSemaphoreDialog: FC<BlackDuckSemaphoreDialogProps> = ({
             summary: 'No repositories found with BlackDuck enabled.',
             details: [],
           });
+          setDetailsByTab(NO_TAB_DETAILS);
+          setComponentsToFix([]);
           return;
         }
 
@@ -85,20 +144,80 @@ export const BlackDuckSemaphoreDialog: FC<BlackDuckSemaphoreDialogProps> = ({
         );
 
         // Count totals
-        const totals = results.reduce(
-          (acc, r) => {
-            acc.security_risks_critical += r.security_risks_critical || 0;
-            acc.security_risks_high += r.security_risks_high || 0;
-            acc.security_risks_medium += r.security_risks_medium || 0;
-            return acc;
-          },
-          {
-            security_risks_critical: 0,
-            security_risks_high: 0,
-            security_risks_medium: 0,
-          } as Record<string, any>,
+        const countedMetrics: Array<keyof BlackDuckMetrics> = [
+          'security_risks_critical',
+          'security_risks_high',
+          'security_risks_medium',
+          'license_risks_high',
+          'license_risks_medium',
+          'license_risks_low',
+          'operational_risks_high',
+          'operational_risks_medium',
+          'operational_risks_low',
+          'policy_violations',
+        ];
+        const totals = results.reduce((acc, r) => {
+          countedMetrics.forEach(metric => {
+            acc[metric] = (acc[metric] || 0) + (Number(r[metric]) || 0);
+          });
+          return acc;
+        }, {} as Record<string, any>);
+        totals.repos_with_policy_violations = results.filter(
+          r => r.policy_violations > 0,
+        ).length;
+
+        const entityResults = enabledEntities.map((entity, index) => ({
+          entity,
+          metrics: results[index],
+        }));
+
+        // Merge the vulnerable components of all repositories, the ones to fix first on top
+        const componentsByRepository = Object.fromEntries(
+          entityResults.map(r => [
+            r.entity.metadata.name,
+            r.metrics.vulnerable_components,
+          ]),
         );
 
+        // List the repositories with the most high and medium license risks
+        const licenseDetails: IssueDetail[] = entityResults
+          .filter(
+            r =>
+              r.metrics.license_risks_high + r.metrics.license_risks_medium > 0,
+          )
+          .sort(
+            (a, b) =>
+              b.metrics.license_risks_high - a.metrics.license_risks_high ||
+              b.metrics.license_risks_medium - a.metrics.license_risks_medium,
+          )
+          .slice(0, 5)
+          .map(
+            (r): IssueDetail => ({
+              severity: r.metrics.license_risks_high > 0 ? 'high' : 'medium',
+              description: `Repository ${r.entity.metadata.name} has ${r.metrics.license_risks_high} high and ${r.metrics.license_risks_medium} medium license risks.`,
+            }),
+          );
+
+        // List the repositories in violation of a policy with the violated rules
+        const policyDetails: IssueDetail[] = entityResults
+          .filter(r => r.metrics.policy_violations > 0)
+          .sort(
+            (a, b) => b.metrics.policy_violations - a.metrics.policy_violations,
+          )
+          .slice(0, 5)
+          .map((r): IssueDetail => {
+            const rules =
+              r.metrics.policy_violation_rules.length > 0
+                ? ` Violated rules: ${r.metrics.policy_violation_rules.join(
+                    ', ',
+                  )}.`
+                : '';
+            return {
+              severity: 'high',
+              description: `Repository ${r.entity.metadata.name} has ${r.metrics.policy_violations} components in violation of a policy.${rules}`,
+            };
+          });
+
         // Create details array from results
         const details: IssueDetail[] = [];
 
@@ -154,6 +273,12 @@ export const BlackDuckSemaphoreDialog: FC<BlackDuckSemaphoreDialogProps> = ({
 
         // Set the real data
         setData({ color, metrics: totals, summary, details });
+        setDetailsByTab({
+          security: details,
+          license: licenseDetails,
+          policy: policyDetails,
+        });
+        setComponentsToFix(getComponentsToFixFirst(componentsByRepository));
       } catch (err) {
         // Set default data in case of error
         setData({
@@ -162,6 +287,8 @@ export const BlackDuckSemaphoreDialog: FC<BlackDuckSemaphoreDialogProps> = ({
           summary: 'Failed to load BlackDuck data.',
           details: [],
         });
+        setDetailsByTab(NO_TAB_DETAILS);
+        setComponentsToFix([]);
       } finally {
         setIsLoading(false);
       }
@@ -170,39 +297,109 @@ export const BlackDuckSemaphoreDialog: FC<BlackDuckSemaphoreDialogProps> = ({
     fetchBlackDuckData();
   }, [open, entities, blackDuckUtils, techInsightsApi, catalogApi]);
 
+  const renderMetricBox = (
+    value: number | undefined,
+    label: string,
+    xs: 4 | 6 = 4,
+  ) => (
+    <Grid item xs={xs}>
+      <Paper className={classes.metricBox} elevation={1}>
+        <Typography variant="h4" className={classes.metricValue}>
+          {value}
+        </Typography>
+        <Typography className={classes.metricLabel}>{label}</Typography>
+      </Paper>
+    </Grid>
+  );
+
   const renderMetrics = () => (
-    <Grid container spacing={2}>
-      <Grid item xs={4}>
-        <Paper className={classes.metricBox} elevation={1}>
-          <Typography variant="h4" className={classes.metricValue}>
-            {data.metrics.security_risks_critical}
-          </Typography>
-          <Typography className={classes.metricLabel}>
-            Critical Security Risks
-          </Typography>
-        </Paper>
+    <>
+      <Tabs
+        value={tab}
+        onChange={(_event, value: BlackDuckTab) => setTab(value)}
+        indicatorColor="primary"
+        textColor="primary"
+      >
+        <Tab label="Security" value="security" />
+        <Tab label="License" value="license" />
+        <Tab label="Policy" value="policy" />
+      </Tabs>
+      <Grid container spacing={2}>
+        {tab === 'security' && (
+          <>
+            {renderMetricBox(
+              data.metrics.security_risks_critical,
+              'Critical Security Risks',
+            )}
+            {renderMetricBox(
+              data.metrics.security_risks_high,
+              'High Security Risks',
+            )}
+            {renderMetricBox(
+              data.metrics.security_risks_medium,
+              'Medium Security Risks',
+            )}
+          </>
+        )}
+        {tab === 'security' && componentsToFix.length > 0 && (
+          <Grid item xs={12}>
+            <Table<BlackDuckComponentToFix>
+              title="Components To Fix First"
+              columns={COMPONENT_COLUMNS}
+              data={componentsToFix}
+              options={{
+                paging: componentsToFix.length > 10,
+                pageSize: 10,
+                search: false,
+                padding: 'dense',
+              }}
+            />
+          </Grid>
+        )}
+        {tab === 'license' && (
+          <>
+            {renderMetricBox(
+              data.metrics.license_risks_high,
+              'High License Risks',
+            )}
+            {renderMetricBox(
+              data.metrics.license_risks_medium,
+              'Medium License Risks',
+            )}
+            {renderMetricBox(
+              data.metrics.license_risks_low,
+              'Low License Risks',
+            )}
+            {renderMetricBox(
+              data.metrics.operational_risks_high,
+              'High Operational Risks',
+            )}
+            {renderMetricBox(
+              data.metrics.operational_risks_medium,
+              'Medium Operational Risks',
+            )}
+            {renderMetricBox(
+              data.metrics.operational_risks_low,
+              'Low Operational Risks',
+            )}
+          </>
+        )}
+        {tab === 'policy' && (
+          <>
+            {renderMetricBox(
+              data.metrics.policy_violations,
+              'Components In Violation',
+              6,
+            )}
+            {renderMetricBox(
+              data.metrics.repos_with_policy_violations,
+              'Repositories With Policy Violations',
+              6,
+            )}
+          </>
+        )}
       </Grid>
-      <Grid item xs={4}>
-        <Paper className={classes.metricBox} elevation={1}>
-          <Typography variant="h4" className={classes.metricValue}>
-            {data.metrics.security_risks_high}
-          </Typography>
-          <Typography className={classes.metricLabel}>
-            High Security Risks
-          </Typography>
-        </Paper>
-      </Grid>
-      <Grid item xs={4}>
-        <Paper className={classes.metricBox} elevation={1}>
-          <Typography variant="h4" className={classes.metricValue}>
-            {data.metrics.security_risks_medium}
-          </Typography>
-          <Typography className={classes.metricLabel}>
-            Medium Security Risks
-          </Typography>
-        </Paper>
-      </Grid>
-    </Grid>
+    </>
   );
 
   return (
@@ -210,7 +407,7 @@ export const BlackDuckSemaphoreDialog: FC<BlackDuckSemaphoreDialogProps> = ({
       open={open}
       onClose={onClose}
       title="BlackDuck"
-      data={data}
+      data={{ ...data, details: detailsByTab[tab] }}
       isLoading={isLoading}
       renderMetrics={renderMetrics}
     />
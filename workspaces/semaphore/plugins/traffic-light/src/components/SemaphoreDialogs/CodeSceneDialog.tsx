@@ -0,0 +1,236 @@
+import { FC, useMemo, useState, useEffect } from 'react';
+import { Grid, Paper, Typography } from '@material-ui/core';
+import { makeStyles } from '@material-ui/core/styles';
+import { useApi } from '@backstage/core-plugin-api';
+import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
+import { catalogApiRef } from '@backstage/plugin-catalog-react';
+import { BaseSemaphoreDialog } from './BaseSemaphoreDialogs';
+import { CodeSceneUtils } from '../../utils/codeSceneUtils';
+import { SemaphoreData, IssueDetail, Severity } from './types';
+import { Entity } from '@backstage/catalog-model';
+import { determineCodeSceneColor } from '../Semaphores/CodeSceneTrafficLight';
+
+const useStyles = makeStyles(theme => ({
+  metricBox: {
+    padding: theme.spacing(2),
+    marginBottom: theme.spacing(2),
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  metricValue: {
+    fontWeight: 'bold',
+    fontSize: '22px',
+  },
+  metricLabel: {
+    color: theme.palette.text.secondary,
+  },
+}));
+
+interface CodeSceneSemaphoreDialogProps {
+  open: boolean;
+  onClose: () => void;
+  entities?: Entity[];
+}
+
+export const CodeSceneSemaphoreDialog: FC<CodeSceneSemaphoreDialogProps> = ({
+  open,
+  onClose,
+  entities = [],
+}) => {
+  const classes = useStyles();
+  const techInsightsApi = useApi(techInsightsApiRef);
+  const catalogApi = useApi(catalogApiRef);
+  const codeSceneUtils = useMemo(() => new CodeSceneUtils(), []);
+
+  const [data, setData] = useState<SemaphoreData>({
+    color: 'gray',
+    metrics: {},
+    summary: 'No data available for this metric.',
+    details: [],
+  });
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || entities.length === 0) return;
+    setIsLoading(true);
+
+    const fetchCodeSceneData = async () => {
+      try {
+        // Filter entities to only those mapped to a CodeScene project
+        const enabledEntities = entities.filter(
+          e => e.metadata.annotations?.['codescene.io/project-id'],
+        );
+
+        if (enabledEntities.length === 0) {
+          setData({
+            color: 'gray',
+            metrics: {},
+            summary: 'No repositories found that are mapped to CodeScene.',
+            details: [],
+          });
+          return;
+        }
+
+        // Get CodeScene facts and check results for all entities
+        const results = await Promise.all(
+          enabledEntities.map(async entity => {
+            const ref = {
+              kind: entity.kind,
+              namespace: entity.metadata.namespace || 'default',
+              name: entity.metadata.name,
+            };
+            const [metrics, checks] = await Promise.all([
+              codeSceneUtils.getCodeSceneFacts(techInsightsApi, ref),
+              codeSceneUtils.getCodeSceneChecks(techInsightsApi, ref),
+            ]);
+            return { entity, metrics, checks };
+          }),
+        );
+
+        // Repositories that fail at least one CodeScene check
+        const failing = results.filter(
+          r =>
+            !r.checks.codeHealthCheck ||
+            !r.checks.hotspotCodeHealthCheck ||
+            !r.checks.goalsCheck,
+        );
+
+        // Average the code health over the analysed repositories
+        const analysed = results.filter(r => r.metrics.code_health > 0);
+        const average = (values: number[]) =>
+          values.length > 0
+            ? Number(
+                (values.reduce((a, b) => a + b, 0) / values.length).toFixed(2),
+              )
+            : 0;
+
+        const metrics = {
+          code_health: average(analysed.map(r => r.metrics.code_health)),
+          hotspot_code_health: average(
+            analysed.map(r => r.metrics.hotspot_code_health),
+          ),
+          goals_violated: results.reduce(
+            (sum, r) => sum + r.metrics.goals_violated,
+            0,
+          ),
+          failed_checks: failing.length,
+        };
+
+        // List the repositories that fail a check, lowest code health first
+        const details: IssueDetail[] = [...failing]
+          .sort((a, b) => a.metrics.code_health - b.metrics.code_health)
+          .slice(0, 5)
+          .map(r => {
+            const problems: string[] = [];
+            let severity: Severity = 'low';
+            if (!r.checks.codeHealthCheck) {
+              problems.push(`code health ${r.metrics.code_health}`);
+              severity = 'high';
+            }
+            if (!r.checks.hotspotCodeHealthCheck) {
+              problems.push(
+                `hotspot code health ${r.metrics.hotspot_code_health}`,
+              );
+              severity = severity === 'high' ? 'critical' : 'medium';
+            }
+            if (!r.checks.goalsCheck) {
+              problems.push(`${r.metrics.goals_violated} violated goals`);
+            }
+            return {
+              severity,
+              description: `Repository ${
+                r.entity.metadata.name
+              } fails its CodeScene thresholds: ${problems.join(', ')}.`,
+              url: `https://codescene.io/projects/${r.entity.metadata.annotations?.['codescene.io/project-id']}`,
+            };
+          });
+
+        // Determine the overall status color
+        const { color } = await determineCodeSceneColor(
+          entities,
+          catalogApi,
+          techInsightsApi,
+          codeSceneUtils,
+        );
+
+        // Create the summary
+        let summary = 'Code health is within the thresholds.';
+        if (color === 'red') {
+          summary = 'Code health of many repositories is below the thresholds.';
+        } else if (color === 'yellow') {
+          summary = 'Code health of some repositories needs attention.';
+        }
+
+        setData({ color, metrics, summary, details });
+      } catch (err) {
+        // Set default data in case of error
+        setData({
+          color: 'gray',
+          metrics: {},
+          summary: 'Failed to load CodeScene data.',
+          details: [],
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCodeSceneData();
+  }, [open, entities, codeSceneUtils, techInsightsApi, catalogApi]);
+
+  const renderMetrics = () => (
+    <Grid container spacing={2}>
+      <Grid item xs={6}>
+        <Paper className={classes.metricBox} elevation={1}>
+          <Typography variant="h4" className={classes.metricValue}>
+            {data.metrics.code_health}
+          </Typography>
+          <Typography className={classes.metricLabel}>
+            Average Code Health
+          </Typography>
+        </Paper>
+      </Grid>
+      <Grid item xs={6}>
+        <Paper className={classes.metricBox} elevation={1}>
+          <Typography variant="h4" className={classes.metricValue}>
+            {data.metrics.hotspot_code_health}
+          </Typography>
+          <Typography className={classes.metricLabel}>
+            Average Hotspot Code Health
+          </Typography>
+        </Paper>
+      </Grid>
+      <Grid item xs={6}>
+        <Paper className={classes.metricBox} elevation={1}>
+          <Typography variant="h4" className={classes.metricValue}>
+            {data.metrics.goals_violated}
+          </Typography>
+          <Typography className={classes.metricLabel}>
+            Violated Goals
+          </Typography>
+        </Paper>
+      </Grid>
+      <Grid item xs={6}>
+        <Paper className={classes.metricBox} elevation={1}>
+          <Typography variant="h4" className={classes.metricValue}>
+            {data.metrics.failed_checks}
+          </Typography>
+          <Typography className={classes.metricLabel}>
+            Repositories Failing CodeScene Checks
+          </Typography>
+        </Paper>
+      </Grid>
+    </Grid>
+  );
+
+  return (
+    <BaseSemaphoreDialog
+      open={open}
+      onClose={onClose}
+      title="CodeScene"
+      data={data}
+      isLoading={isLoading}
+      renderMetrics={renderMetrics}
+    />
+  );
+};
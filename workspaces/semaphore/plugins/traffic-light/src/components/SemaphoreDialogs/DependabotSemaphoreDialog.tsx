@@ -12,8 +12,12 @@ import { useApi } from '@backstage/core-plugin-api';
 import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
 import { Entity } from '@backstage/catalog-model';
 import { BaseSemaphoreDialog } from './BaseSemaphoreDialogs';
-import { DependabotUtils, RepoAlertSummary } from '../../utils/dependabotUtils';
-import { SemaphoreData } from './types';
+import {
+  DependabotFacts,
+  DependabotUtils,
+  RepoAlertSummary,
+} from '../../utils/dependabotUtils';
+import { IssueDetail, SemaphoreData, Severity } from './types';
 import type { GridSize } from '@material-ui/core';
 import { determineDependabotColor } from '../Semaphores/TrafficLightDependabot';
 
@@ -54,6 +58,43 @@ const useStyles = makeStyles(theme => ({
   },
 }));
 
+const severityOrder: Record<Severity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/**
+ * Converts the stored Dependabot alerts of a repository into issue details for the dialog
+ */
+function toIssueDetails(
+  repoName: string,
+  alerts: DependabotFacts['dependabotAlerts'],
+): IssueDetail[] {
+  return Object.values(alerts).map(alert => {
+    const severity = (
+      alert.severity in severityOrder ? alert.severity : 'medium'
+    ) as Severity;
+    const advisory = [alert.ghsa_id, alert.cve_id].filter(Boolean).join(' / ');
+    const fix = alert.fixed_in
+      ? `fixed in ${alert.fixed_in}`
+      : 'no fix available';
+
+    return {
+      severity,
+      description: `[${repoName}] ${alert.package}: ${alert.summary}${
+        advisory ? ` (${advisory})` : ''
+      } - ${fix}`,
+      component: alert.manifest_path
+        ? `${alert.ecosystem}: ${alert.manifest_path}`
+        : alert.ecosystem,
+      url: alert.html_url,
+      directLink: alert.html_url,
+    };
+  });
+}
+
 interface DependabotSemaphoreDialogProps {
   open: boolean;
   onClose: () => void;
@@ -77,6 +118,9 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
     details: [],
   });
   const [topRepos, setTopRepos] = useState<RepoAlertSummary[]>([]);
+  const [ecosystemTotals, setEcosystemTotals] = useState<
+    Record<string, number>
+  >({});
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
@@ -88,6 +132,7 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
         details: [],
       });
       setTopRepos([]);
+      setEcosystemTotals({});
       setIsLoading(false);
       return;
     }
@@ -113,6 +158,9 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
         let totalCritical = 0;
         let totalHigh = 0;
         let totalMedium = 0;
+        let totalLow = 0;
+        const ecosystems: Record<string, number> = {};
+        const details: IssueDetail[] = [];
 
         const repoSummaries: RepoAlertSummary[] = results.map(
           ({ entity, facts }) => {
@@ -123,6 +171,24 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
             totalCritical += critical;
             totalHigh += high;
             totalMedium += medium;
+            totalLow += facts.low || 0;
+
+            Object.entries(facts.ecosystems || {}).forEach(
+              ([ecosystem, counts]) => {
+                ecosystems[ecosystem] =
+                  (ecosystems[ecosystem] || 0) +
+                  counts.critical +
+                  counts.high +
+                  counts.medium +
+                  counts.low;
+              },
+            );
+            details.push(
+              ...toIssueDetails(
+                entity.metadata.name,
+                facts.dependabotAlerts || {},
+              ),
+            );
 
             return {
               name: entity.metadata.name,
@@ -141,7 +207,7 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
           })
           .slice(0, 5);
 
-        const totalIssues = totalCritical + totalHigh + totalMedium;
+        const totalIssues = totalCritical + totalHigh + totalMedium + totalLow;
 
         let summary;
         if (totalCritical > 0) {
@@ -150,6 +216,8 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
           summary = `${totalHigh} high severity issues found`;
         } else if (totalMedium > 0) {
           summary = `${totalMedium} medium severity issues found`;
+        } else if (totalLow > 0) {
+          summary = `${totalLow} low severity issues found`;
         } else {
           summary = 'No Dependabot security issues found.';
         }
@@ -169,14 +237,18 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
             criticalIssues: totalCritical,
             highIssues: totalHigh,
             mediumIssues: totalMedium,
+            lowIssues: totalLow,
             totalIssues,
             totalRepositories: entities.length,
           },
           summary,
-          details: [],
+          details: details.sort(
+            (a, b) => severityOrder[a.severity] - severityOrder[b.severity],
+          ),
         });
 
         setTopRepos(top5Repos);
+        setEcosystemTotals(ecosystems);
       } catch (error) {
         setData({
           color: 'gray',
@@ -185,6 +257,7 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
           details: [],
         });
         setTopRepos([]);
+        setEcosystemTotals({});
       } finally {
         setIsLoading(false);
       }
@@ -209,6 +282,7 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
           ['Critical', data.metrics.criticalIssues, 4, '#d32f2f'],
           ['High', data.metrics.highIssues, 4, '#f44336'],
           ['Medium', data.metrics.mediumIssues, 4, '#ff9800'],
+          ['Low', data.metrics.lowIssues, 4, '#2196f3'],
         ].map(([label, value, size, color], i) => (
           <Grid item xs={size as GridSize} key={i}>
             <Paper className={classes.metricBox} elevation={1}>
@@ -225,6 +299,20 @@ export const DependabotSemaphoreDialog: FC<DependabotSemaphoreDialogProps> = ({
         ))}
       </Grid>
 
+      {Object.keys(ecosystemTotals).length > 0 && (
+        <div className={classes.topReposSection}>
+          <Typography variant="h6" gutterBottom>
+            Alerts by Ecosystem
+          </Typography>
+          <Typography variant="body2" color="textSecondary">
+            {Object.entries(ecosystemTotals)
+              .sort(([, a], [, b]) => b - a)
+              .map(([ecosystem, count]) => `${ecosystem}: ${count}`)
+              .join(' | ')}
+          </Typography>
+        </div>
+      )}
+
       {topRepos.length > 0 && (
         <div className={classes.topReposSection}>
           <Typography variant="h6" gutterBottom>
@@ -0,0 +1,189 @@
+import { FC, useMemo, useState, useEffect } from 'react';
+import { Grid, Paper, Typography } from '@material-ui/core';
+import { makeStyles } from '@material-ui/core/styles';
+import { useApi } from '@backstage/core-plugin-api';
+import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
+import { catalogApiRef } from '@backstage/plugin-catalog-react';
+import { BaseSemaphoreDialog } from './BaseSemaphoreDialogs';
+import { FortifyUtils, isFortifyEnabled } from '../../utils/fortifyUtils';
+import { SemaphoreData, IssueDetail, Severity } from './types';
+import { Entity } from '@backstage/catalog-model';
+import { determineFortifyColor } from '../Semaphores/FortifyTrafficLight';
+
+const useStyles = makeStyles(theme => ({
+  metricBox: {
+    padding: theme.spacing(2),
+    marginBottom: theme.spacing(2),
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  metricValue: {
+    fontWeight: 'bold',
+    fontSize: '22px',
+  },
+  metricLabel: {
+    color: theme.palette.text.secondary,
+  },
+}));
+
+interface FortifySemaphoreDialogProps {
+  open: boolean;
+  onClose: () => void;
+  entities?: Entity[];
+}
+
+export const FortifySemaphoreDialog: FC<FortifySemaphoreDialogProps> = ({
+  open,
+  onClose,
+  entities = [],
+}) => {
+  const classes = useStyles();
+  const techInsightsApi = useApi(techInsightsApiRef);
+  const catalogApi = useApi(catalogApiRef);
+  const fortifyUtils = useMemo(() => new FortifyUtils(), []);
+
+  const [data, setData] = useState<SemaphoreData>({
+    color: 'gray',
+    metrics: {},
+    summary: 'No data available for this metric.',
+    details: [],
+  });
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || entities.length === 0) return;
+    setIsLoading(true);
+
+    const fetchFortifyData = async () => {
+      try {
+        // Filter entities to only those mapped to Fortify
+        const enabledEntities = entities.filter(isFortifyEnabled);
+
+        if (enabledEntities.length === 0) {
+          setData({
+            color: 'gray',
+            metrics: {},
+            summary: 'No repositories found that are mapped to Fortify.',
+            details: [],
+          });
+          return;
+        }
+
+        // Get Fortify facts for all entities
+        const results = await Promise.all(
+          enabledEntities.map(async entity => {
+            const metrics = await fortifyUtils.getFortifyFacts(
+              techInsightsApi,
+              {
+                kind: entity.kind,
+                namespace: entity.metadata.namespace || 'default',
+                name: entity.metadata.name,
+              },
+            );
+            return { entity, metrics };
+          }),
+        );
+
+        // Total the open issues per priority
+        const metrics = results.reduce(
+          (totals, { metrics: m }) => ({
+            critical: totals.critical + m.critical,
+            high: totals.high + m.high,
+            medium: totals.medium + m.medium,
+            low: totals.low + m.low,
+            never_scanned:
+              totals.never_scanned + (m.last_scan_date === null ? 1 : 0),
+          }),
+          { critical: 0, high: 0, medium: 0, low: 0, never_scanned: 0 },
+        );
+
+        // List the repositories with the most severe open issues first
+        const details: IssueDetail[] = results
+          .filter(r => r.metrics.critical + r.metrics.high > 0)
+          .sort(
+            (a, b) =>
+              b.metrics.critical - a.metrics.critical ||
+              b.metrics.high - a.metrics.high,
+          )
+          .slice(0, 5)
+          .map(r => {
+            const severity: Severity =
+              r.metrics.critical > 0 ? 'critical' : 'high';
+            const scanned =
+              r.metrics.days_since_last_scan === null
+                ? 'never scanned'
+                : `last scanned ${r.metrics.days_since_last_scan} days ago`;
+            return {
+              severity,
+              description: `Repository ${r.entity.metadata.name} has ${r.metrics.critical} critical and ${r.metrics.high} high Fortify issues (${scanned}).`,
+            };
+          });
+
+        // Determine the overall status color
+        const { color } = await determineFortifyColor(
+          entities,
+          catalogApi,
+          techInsightsApi,
+          fortifyUtils,
+        );
+
+        // Create the summary
+        let summary = 'No significant Fortify issues found.';
+        if (color === 'red') {
+          summary = 'Critical Fortify issues require immediate attention.';
+        } else if (color === 'yellow') {
+          summary = 'Fortify issues or outdated scans need attention.';
+        }
+
+        setData({ color, metrics, summary, details });
+      } catch (err) {
+        // Set default data in case of error
+        setData({
+          color: 'gray',
+          metrics: {},
+          summary: 'Failed to load Fortify data.',
+          details: [],
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchFortifyData();
+  }, [open, entities, fortifyUtils, techInsightsApi, catalogApi]);
+
+  const renderMetricBox = (value: number | undefined, label: string) => (
+    <Grid item xs={6}>
+      <Paper className={classes.metricBox} elevation={1}>
+        <Typography variant="h4" className={classes.metricValue}>
+          {value}
+        </Typography>
+        <Typography className={classes.metricLabel}>{label}</Typography>
+      </Paper>
+    </Grid>
+  );
+
+  const renderMetrics = () => (
+    <Grid container spacing={2}>
+      {renderMetricBox(data.metrics.critical, 'Critical Issues')}
+      {renderMetricBox(data.metrics.high, 'High Issues')}
+      {renderMetricBox(data.metrics.medium, 'Medium Issues')}
+      {renderMetricBox(data.metrics.low, 'Low Issues')}
+      {renderMetricBox(
+        data.metrics.never_scanned,
+        'Repositories Never Scanned',
+      )}
+    </Grid>
+  );
+
+  return (
+    <BaseSemaphoreDialog
+      open={open}
+      onClose={onClose}
+      title="Fortify"
+      data={data}
+      isLoading={isLoading}
+      renderMetrics={renderMetrics}
+    />
+  );
+};
@@ -10,6 +10,12 @@ import { FoundationUtils } from '../../utils/foundationUtils';
 import type { GridSize } from '@material-ui/core';
 import { SemaphoreData } from './types';
 import { determineSemaphoreColor } from '../utils';
+import {
+  getPipelinesUrl,
+  mergeDailyRunCounts,
+  PipelineDailyRunCount,
+} from '../../utils/pipelineSources';
+import { PipelineRunTimeline } from './PipelineRunTimeline';
 
 const useStyles = makeStyles(theme => ({
   metricBox: {
@@ -54,6 +60,12 @@ export const FoundationSemaphoreDialog: FC<FoundationSemaphoreDialogProps> = ({
     successRate: 0,
   });
 
+  const [timeline, setTimeline] = useState<{
+    dailyRunCounts: PipelineDailyRunCount[];
+    windowStart?: string;
+    windowEnd?: string;
+  }>({ dailyRunCounts: [] });
+
   const [lowestSuccessRepos, setLowestSuccessRepos] = useState<
     { name: string; url: string; successRate: number }[]
   >([]);
@@ -130,6 +142,7 @@ export const FoundationSemaphoreDialog: FC<FoundationSemaphoreDialogProps> = ({
             successRate: 0,
           });
           setLowestSuccessRepos([]);
+          setTimeline({ dailyRunCounts: [] });
           setData({
             color: 'gray',
             metrics: {},
@@ -162,11 +175,7 @@ export const FoundationSemaphoreDialog: FC<FoundationSemaphoreDialogProps> = ({
                   100
                 : 0;
 
-            const projectSlug =
-              entity.metadata.annotations?.['github.com/project-slug'];
-            const url = projectSlug
-              ? `https://github.com/${projectSlug}/actions`
-              : '#';
+            const url = getPipelinesUrl(entity);
 
             return {
               name: entity.metadata.name,
@@ -175,6 +184,9 @@ export const FoundationSemaphoreDialog: FC<FoundationSemaphoreDialogProps> = ({
               successWorkflowRunsCount: facts.successWorkflowRunsCount,
               failureWorkflowRunsCount: facts.failureWorkflowRunsCount,
               failedCheck: check.successRateCheck === false,
+              dailyRunCounts: facts.dailyRunCounts,
+              windowStart: facts.windowStart,
+              windowEnd: facts.windowEnd,
             };
           }),
         );
@@ -230,6 +242,23 @@ export const FoundationSemaphoreDialog: FC<FoundationSemaphoreDialogProps> = ({
 
         setLowestSuccessRepos(lowest);
 
+        // Runs per day across the repositories, over the widest window of their facts
+        const windowStarts = results
+          .map(r => r.windowStart)
+          .filter((value): value is string => !!value)
+          .sort();
+        const windowEnds = results
+          .map(r => r.windowEnd)
+          .filter((value): value is string => !!value)
+          .sort();
+        setTimeline({
+          dailyRunCounts: mergeDailyRunCounts(
+            results.map(r => r.dailyRunCounts),
+          ),
+          windowStart: windowStarts[0],
+          windowEnd: windowEnds[windowEnds.length - 1],
+        });
+
         setData({
           color,
           summary,
@@ -250,6 +279,7 @@ export const FoundationSemaphoreDialog: FC<FoundationSemaphoreDialogProps> = ({
           successRate: 0,
         });
         setLowestSuccessRepos([]);
+        setTimeline({ dailyRunCounts: [] });
         setData({
           color: 'gray',
           metrics: {},
@@ -287,6 +317,14 @@ export const FoundationSemaphoreDialog: FC<FoundationSemaphoreDialogProps> = ({
         ))}
       </Grid>
 
+      {timeline.dailyRunCounts.length > 0 && (
+        <PipelineRunTimeline
+          dailyRunCounts={timeline.dailyRunCounts}
+          windowStart={timeline.windowStart}
+          windowEnd={timeline.windowEnd}
+        />
+      )}
+
       {lowestSuccessRepos.length > 0 && (
         <Grid container spacing={2} className={classes.repoList}>
           {lowestSuccessRepos.map(repo => (
@@ -0,0 +1,84 @@
+import { FC } from 'react';
+import { Box, Paper, Tooltip, Typography } from '@material-ui/core';
+import { makeStyles } from '@material-ui/core/styles';
+import { PipelineDailyRunCount } from '../../utils/pipelineSources';
+
+const useStyles = makeStyles(theme => ({
+  timelineBox: {
+    padding: theme.spacing(2),
+    marginBottom: theme.spacing(2),
+  },
+  timelineLabel: {
+    color: theme.palette.text.secondary,
+  },
+  bars: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    height: '60px',
+    marginTop: theme.spacing(1),
+  },
+  bar: {
+    flex: 1,
+    height: '100%',
+    marginRight: '2px',
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'flex-end',
+  },
+}));
+
+interface PipelineRunTimelineProps {
+  dailyRunCounts: PipelineDailyRunCount[];
+  windowStart?: string;
+  windowEnd?: string;
+}
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString() : undefined;
+
+/**
+ * A small bar chart of the pipeline runs on each day of the time window, with the successful
+ * runs in green, the failed runs in red and the remaining runs in grey.
+ */
+export const PipelineRunTimeline: FC<PipelineRunTimelineProps> = ({
+  dailyRunCounts,
+  windowStart,
+  windowEnd,
+}) => {
+  const classes = useStyles();
+  const maxRuns = Math.max(1, ...dailyRunCounts.map(day => day.totalRuns));
+  const start = formatDate(windowStart) ?? dailyRunCounts[0]?.date;
+  const end =
+    formatDate(windowEnd) ?? dailyRunCounts[dailyRunCounts.length - 1]?.date;
+
+  return (
+    <Paper className={classes.timelineBox} elevation={1}>
+      <Typography variant="subtitle2">Runs per day</Typography>
+      <Typography variant="caption" className={classes.timelineLabel}>
+        {start} – {end}
+      </Typography>
+      <div className={classes.bars}>
+        {dailyRunCounts.map(day => (
+          <Tooltip
+            key={day.date}
+            title={`${day.date}: ${day.totalRuns} runs, ${day.successRuns} successful, ${day.failureRuns} failed`}
+          >
+            <div className={classes.bar}>
+              {[
+                [day.totalRuns - day.successRuns - day.failureRuns, '#9e9e9e'],
+                [day.failureRuns, '#f44336'],
+                [day.successRuns, '#4caf50'],
+              ].map(([runs, color]) => (
+                <Box
+                  key={color}
+                  height={`${((runs as number) / maxRuns) * 100}%`}
+                  bgcolor={color}
+                />
+              ))}
+            </div>
+          </Tooltip>
+        ))}
+      </div>
+    </Paper>
+  );
+};
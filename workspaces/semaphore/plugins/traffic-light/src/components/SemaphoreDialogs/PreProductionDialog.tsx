@@ -10,6 +10,12 @@ import { PreproductionUtils } from '../../utils/preproductionUtils';
 import type { GridSize } from '@material-ui/core';
 import { SemaphoreData } from './types';
 import { determineSemaphoreColor } from '../utils';
+import {
+  getPipelinesUrl,
+  mergeDailyRunCounts,
+  PipelineDailyRunCount,
+} from '../../utils/pipelineSources';
+import { PipelineRunTimeline } from './PipelineRunTimeline';
 
 const useStyles = makeStyles(theme => ({
   metricBox: {
@@ -55,6 +61,12 @@ export const PreproductionSemaphoreDialog: FC<
     successRate: 0,
   });
 
+  const [timeline, setTimeline] = useState<{
+    dailyRunCounts: PipelineDailyRunCount[];
+    windowStart?: string;
+    windowEnd?: string;
+  }>({ dailyRunCounts: [] });
+
   const [lowestSuccessRepos, setLowestSuccessRepos] = useState<
     { name: string; url: string; successRate: number }[]
   >([]);
@@ -131,6 +143,7 @@ export const PreproductionSemaphoreDialog: FC<
             successRate: 0,
           });
           setLowestSuccessRepos([]);
+          setTimeline({ dailyRunCounts: [] });
           setData({
             color: 'gray',
             metrics: {},
@@ -164,11 +177,7 @@ export const PreproductionSemaphoreDialog: FC<
                   100
                 : 0;
 
-            const projectSlug =
-              entity.metadata.annotations?.['github.com/project-slug'];
-            const url = projectSlug
-              ? `https://github.com/${projectSlug}/actions`
-              : '#';
+            const url = getPipelinesUrl(entity);
 
             return {
               name: entity.metadata.name,
@@ -177,6 +186,9 @@ export const PreproductionSemaphoreDialog: FC<
               successWorkflowRunsCount: facts.successWorkflowRunsCount,
               failureWorkflowRunsCount: facts.failureWorkflowRunsCount,
               failedCheck: check.successRateCheck === false,
+              dailyRunCounts: facts.dailyRunCounts,
+              windowStart: facts.windowStart,
+              windowEnd: facts.windowEnd,
             };
           }),
         );
@@ -234,6 +246,23 @@ export const PreproductionSemaphoreDialog: FC<
 
         setLowestSuccessRepos(lowest);
 
+        // Runs per day across the repositories, over the widest window of their facts
+        const windowStarts = results
+          .map(r => r.windowStart)
+          .filter((value): value is string => !!value)
+          .sort();
+        const windowEnds = results
+          .map(r => r.windowEnd)
+          .filter((value): value is string => !!value)
+          .sort();
+        setTimeline({
+          dailyRunCounts: mergeDailyRunCounts(
+            results.map(r => r.dailyRunCounts),
+          ),
+          windowStart: windowStarts[0],
+          windowEnd: windowEnds[windowEnds.length - 1],
+        });
+
         setData({
           color,
           summary,
@@ -254,6 +283,7 @@ export const PreproductionSemaphoreDialog: FC<
           successRate: 0,
         });
         setLowestSuccessRepos([]);
+        setTimeline({ dailyRunCounts: [] });
         setData({
           color: 'gray',
           metrics: {},
@@ -291,6 +321,14 @@ export const PreproductionSemaphoreDialog: FC<
         ))}
       </Grid>
 
+      {timeline.dailyRunCounts.length > 0 && (
+        <PipelineRunTimeline
+          dailyRunCounts={timeline.dailyRunCounts}
+          windowStart={timeline.windowStart}
+          windowEnd={timeline.windowEnd}
+        />
+      )}
+
       {lowestSuccessRepos.length > 0 && (
         <div className={classes.repoList}>
           <Typography variant="h6">Lowest Success Rate Repositories</Typography>
@@ -10,6 +10,7 @@ import { ReportingUtils } from '../../utils/reportingUtils';
 import type { GridSize } from '@material-ui/core';
 import { SemaphoreData } from './types';
 import { determineSemaphoreColor } from '../utils';
+import { getPipelinesUrl } from '../../utils/pipelineSources';
 
 const useStyles = makeStyles(theme => ({
   metricBox: {
@@ -126,11 +127,7 @@ export const ReportingSemaphoreDialog: FC<ReportingSemaphoreDialogProps> = ({
                   100
                 : 0;
 
-            const projectSlug =
-              entity.metadata.annotations?.['github.com/project-slug'];
-            const url = projectSlug
-              ? `https://github.com/${projectSlug}/actions`
-              : '#';
+            const url = getPipelinesUrl(entity);
 
             return {
               name: entity.metadata.name,
@@ -5,7 +5,11 @@ import { useApi } from '@backstage/core-plugin-api';
 import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
 import { catalogApiRef } from '@backstage/plugin-catalog-react';
 import { BaseSemaphoreDialog } from './BaseSemaphoreDialogs';
-import { SonarCloudUtils } from '../../utils/sonarCloudUtils';
+import {
+  SonarCloudChecks,
+  SonarCloudUtils,
+  describeFailedConditions,
+} from '../../utils/sonarCloudUtils';
 import { SemaphoreData, IssueDetail } from './types';
 import { Entity } from '@backstage/catalog-model';
 import { determineSonarQubeColor } from '../Semaphores/SonarQubeTrafficLight';
@@ -26,6 +30,20 @@ const useStyles = makeStyles(theme => ({
   },
 }));
 
+// Labels of the SonarCloud checks, used to list the failed checks of a repository
+const CHECK_LABELS: Record<keyof SonarCloudChecks, string> = {
+  bugsCheck: 'bugs',
+  codeSmellsCheck: 'code smells',
+  vulnerabilitiesCheck: 'vulnerabilities',
+  codeCoverageCheck: 'code coverage',
+  qualityGateCheck: 'quality gate',
+};
+
+const getFailedChecks = (checks: SonarCloudChecks): string[] =>
+  (Object.keys(CHECK_LABELS) as (keyof SonarCloudChecks)[])
+    .filter(key => checks[key] === false)
+    .map(key => CHECK_LABELS[key]);
+
 interface SonarSemaphoreDialogProps {
   open: boolean;
   onClose: () => void;
@@ -71,16 +89,41 @@ export const SonarQubeSemaphoreDialog: FC<SonarSemaphoreDialogProps> = ({
           return;
         }
 
-        // Get SonarQube facts for all entities
-        const results = await Promise.all(
-          enabledEntities.map(entity =>
-            sonarUtils.getSonarQubeFacts(techInsightsApi, {
-              kind: entity.kind,
-              namespace: entity.metadata.namespace || 'default',
-              name: entity.metadata.name,
-            }),
+        const enabledRefs = enabledEntities.map(entity => ({
+          kind: entity.kind,
+          namespace: entity.metadata.namespace || 'default',
+          name: entity.metadata.name,
+        }));
+
+        // Get SonarQube facts and check results for all entities
+        const [results, checkResults] = await Promise.all([
+          Promise.all(
+            enabledRefs.map(ref =>
+              sonarUtils.getSonarQubeFacts(techInsightsApi, ref),
+            ),
           ),
-        );
+          Promise.all(
+            enabledRefs.map(ref =>
+              sonarUtils.getSonarCloudChecks(techInsightsApi, ref),
+            ),
+          ),
+        ]);
+
+        // Map each repository to the SonarCloud checks and quality gate conditions it fails
+        const failedChecksByRepo = new Map<string, string[]>();
+        const failedConditionsByRepo = new Map<string, string[]>();
+        enabledRefs.forEach((ref, index) => {
+          failedConditionsByRepo.set(
+            ref.name,
+            describeFailedConditions(
+              results[index].quality_gate_failed_conditions,
+            ),
+          );
+          failedChecksByRepo.set(
+            ref.name,
+            getFailedChecks(checkResults[index]),
+          );
+        });
 
         // Count totals
         const totals = results.reduce(
@@ -104,6 +147,11 @@ export const SonarQubeSemaphoreDialog: FC<SonarSemaphoreDialogProps> = ({
         // Round code_coverage to 2 decimal places
         totals.code_coverage = Number(totals.code_coverage.toFixed(2));
 
+        // Count the repositories that fail at least one SonarCloud check
+        totals.failed_checks = Array.from(failedChecksByRepo.values()).filter(
+          failed => failed.length > 0,
+        ).length;
+
         // Create details array from results
         const details: IssueDetail[] = [];
 
@@ -128,7 +176,14 @@ export const SonarQubeSemaphoreDialog: FC<SonarSemaphoreDialogProps> = ({
           let severity = '';
 
           if (repo.quality_gate === 1) {
-            description = `Repository ${repo.entity.name} has a failed quality gate.`;
+            const failedConditions =
+              failedConditionsByRepo.get(repo.entity.name) ?? [];
+            description =
+              failedConditions.length > 0
+                ? `Repository ${
+                    repo.entity.name
+                  } has a failed quality gate: ${failedConditions.join(', ')}.`
+                : `Repository ${repo.entity.name} has a failed quality gate.`;
             severity = 'critical';
           } else if (repo.vulnerabilities > 0) {
             description = `Repository ${repo.entity.name} has ${repo.vulnerabilities} vulnerabilities.`;
@@ -144,6 +199,15 @@ export const SonarQubeSemaphoreDialog: FC<SonarSemaphoreDialogProps> = ({
             severity = 'low';
           }
 
+          // List the SonarCloud checks the repository fails
+          const failedChecks = failedChecksByRepo.get(repo.entity.name) ?? [];
+          if (failedChecks.length > 0) {
+            description = `${description} Failed checks: ${failedChecks.join(
+              ', ',
+            )}.`.trim();
+            severity = severity || 'medium';
+          }
+
           // Add the detail to the array
           details.push({
             severity: severity as 'critical' | 'high' | 'medium' | 'low',
@@ -236,6 +300,16 @@ export const SonarQubeSemaphoreDialog: FC<SonarSemaphoreDialogProps> = ({
           </Typography>
         </Paper>
       </Grid>
+      <Grid item xs={12}>
+        <Paper className={classes.metricBox} elevation={1}>
+          <Typography variant="h4" className={classes.metricValue}>
+            {data.metrics.failed_checks}
+          </Typography>
+          <Typography className={classes.metricLabel}>
+            Repositories Failing SonarCloud Checks
+          </Typography>
+        </Paper>
+      </Grid>
     </Grid>
   );
 
@@ -3,7 +3,7 @@ import { Entity } from '@backstage/catalog-model';
 import { useApi } from '@backstage/core-plugin-api';
 import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
 import { catalogApiRef } from '@backstage/plugin-catalog-react';
-import { AzureUtils } from '../../utils/azureUtils';
+import { AzureUtils, isAzureBugsEnabled } from '../../utils/azureUtils';
 import { Box, Tooltip } from '@material-ui/core';
 import { determineSemaphoreColor } from '../utils';
 
@@ -78,8 +78,7 @@ export const AzureDevOpsBugsTrafficLight = ({
               azureUtils.getAzureDevOpsBugChecks(techInsightsApi, ref),
             ]);
 
-            if (!entity.metadata.annotations?.['azure.com/bugs-query-id'])
-              return null;
+            if (!isAzureBugsEnabled(entity)) return null;
 
             return {
               failedCheck: checks.bugCountCheck === false,
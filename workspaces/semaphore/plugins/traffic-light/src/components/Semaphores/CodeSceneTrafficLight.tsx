@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Entity } from '@backstage/catalog-model';
+import { useApi } from '@backstage/core-plugin-api';
+import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
+import { catalogApiRef } from '@backstage/plugin-catalog-react';
+import { CodeSceneUtils } from '../../utils/codeSceneUtils';
+import { BaseTrafficLight } from './BaseTrafficLight';
+
+/**
+ * The component runs the CodeScene checks for each provided entity using the Tech Insights API,
+ * counts the entities that fail at least one check, and determines the appropriate traffic light color:
+ * - Green: The number of failing entities is below the yellow threshold (set in system file).
+ * - Yellow: The number of failing entities is between the yellow threshold and the red threshold (set in system file).
+ * - Red: The number of failing entities is above the red threshold (set in system file).
+ * - Gray: No entities are selected, no entity is mapped to a CodeScene project or data cannot be retrieved.
+ *
+ * The component also returns a reason for the color selection, which can be used in tooltips or logs.
+ *
+ * @param entities - An array of Backstage Entity objects to check CodeScene status for.
+ * @param catalogApi - The Backstage Catalog API to fetch entity metadata.
+ * @param techInsightsApi - The Backstage Tech Insights API to run the CodeScene checks.
+ * @param codeSceneUtils - An instance of CodeSceneUtils to interact with CodeScene data.
+ * @returns an object containing the color and reason for the traffic light status.
+ */
+export const determineCodeSceneColor = async (
+  entities: Entity[],
+  catalogApi: any,
+  techInsightsApi: any,
+  codeSceneUtils: CodeSceneUtils,
+): Promise<{ color: 'green' | 'red' | 'yellow' | 'gray'; reason: string }> => {
+  // If no entities are provided, return gray color
+  if (!entities.length) {
+    return { color: 'gray', reason: 'No entities selected' };
+  }
+
+  // Filter entities to only those mapped to a CodeScene project
+  const enabledEntities = entities.filter(
+    e => e.metadata.annotations?.['codescene.io/project-id'],
+  );
+
+  if (!enabledEntities.length) {
+    return { color: 'gray', reason: 'No entities are mapped to CodeScene' };
+  }
+
+  // Get the system name from the first entity
+  const systemName = entities[0].spec?.system;
+  if (!systemName) {
+    return { color: 'gray', reason: 'System metadata is missing' };
+  }
+
+  try {
+    // Fetch system entity metadata from catalog
+    const systemEntity = await catalogApi.getEntityByRef({
+      kind: 'system',
+      namespace: 'default',
+      name: typeof systemName === 'string' ? systemName : String(systemName),
+    });
+
+    // Get thresholds for traffic light colour from system annotations
+    const redThreshold = parseFloat(
+      systemEntity?.metadata.annotations?.[
+        'tech-insights.io/codescene-red-threshold-percentage'
+      ] || '50',
+    );
+    const yellowThreshold = parseFloat(
+      systemEntity?.metadata.annotations?.[
+        'tech-insights.io/codescene-yellow-threshold-percentage'
+      ] || '25',
+    );
+
+    const results = await Promise.all(
+      enabledEntities.map(entity =>
+        codeSceneUtils.getCodeSceneChecks(techInsightsApi, {
+          kind: entity.kind,
+          namespace: entity.metadata.namespace || 'default',
+          name: entity.metadata.name,
+        }),
+      ),
+    );
+
+    const failingEntities = results.filter(
+      res =>
+        !res.codeHealthCheck || !res.hotspotCodeHealthCheck || !res.goalsCheck,
+    ).length;
+    const reason = `${failingEntities} of ${enabledEntities.length} entities failed a CodeScene check`;
+
+    if (failingEntities >= (redThreshold * enabledEntities.length) / 100) {
+      return { color: 'red', reason };
+    } else if (
+      failingEntities >=
+      (yellowThreshold * enabledEntities.length) / 100
+    ) {
+      return { color: 'yellow', reason };
+    }
+    return { color: 'green', reason };
+  } catch (err) {
+    return { color: 'gray', reason: 'Error fetching CodeScene data' };
+  }
+};
+
+/**
+ * CodeSceneTrafficLight is a React component that displays a colored traffic light indicator
+ * representing the overall CodeScene code health status for a set of entities.
+ * The component also displays a tooltip with a summary of the check results or error messages.
+ *
+ * @param entities - An array of Backstage Entity objects to check CodeScene status for.
+ * @param onClick - Optional click handler for the traffic light indicator.
+ * @returns A React element rendering the traffic light with a tooltip.
+ */
+export const CodeSceneTrafficLight = ({
+  entities,
+  onClick,
+}: {
+  entities: Entity[];
+  onClick?: () => void;
+}) => {
+  const [color, setColor] = useState<'green' | 'red' | 'yellow' | 'gray'>(
+    'gray',
+  );
+  const [reason, setReason] = useState('Loading CodeScene data...');
+  const techInsightsApi = useApi(techInsightsApiRef);
+  const catalogApi = useApi(catalogApiRef);
+  const codeSceneUtils = useMemo(() => new CodeSceneUtils(), []);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const codeSceneColorAndReason = await determineCodeSceneColor(
+        entities,
+        catalogApi,
+        techInsightsApi,
+        codeSceneUtils,
+      );
+
+      setColor(codeSceneColorAndReason.color);
+      setReason(codeSceneColorAndReason.reason);
+    };
+
+    fetchData();
+  }, [entities, techInsightsApi, catalogApi, codeSceneUtils]);
+
+  return <BaseTrafficLight color={color} tooltip={reason} onClick={onClick} />;
+};
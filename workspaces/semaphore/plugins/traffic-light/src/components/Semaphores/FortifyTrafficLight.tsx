@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Entity } from '@backstage/catalog-model';
+import { useApi } from '@backstage/core-plugin-api';
+import { techInsightsApiRef } from '@backstage/plugin-tech-insights';
+import { catalogApiRef } from '@backstage/plugin-catalog-react';
+import { FortifyUtils, isFortifyEnabled } from '../../utils/fortifyUtils';
+import { BaseTrafficLight } from './BaseTrafficLight';
+
+/**
+ * The component runs the Fortify checks for each provided entity using the Tech Insights API.
+ * Entities with open critical issues always turn the light red. Otherwise the entities that fail
+ * another check (high or medium issues, or a stale scan) are counted and the color is determined:
+ * - Green: The number of failing entities is below the yellow threshold (set in system file).
+ * - Yellow: The number of failing entities is between the yellow threshold and the red threshold (set in system file).
+ * - Red: An entity fails the critical issues check, or the number of failing entities is above the red threshold (set in system file).
+ * - Gray: No entities are selected, no entity is mapped to Fortify or data cannot be retrieved.
+ *
+ * The component also returns a reason for the color selection, which can be used in tooltips or logs.
+ *
+ * @param entities - An array of Backstage Entity objects to check Fortify status for.
+ * @param catalogApi - The Backstage Catalog API to fetch entity metadata.
+ * @param techInsightsApi - The Backstage Tech Insights API to run the Fortify checks.
+ * @param fortifyUtils - An instance of FortifyUtils to interact with Fortify data.
+ * @returns an object containing the color and reason for the traffic light status.
+ */
+export const determineFortifyColor = async (
+  entities: Entity[],
+  catalogApi: any,
+  techInsightsApi: any,
+  fortifyUtils: FortifyUtils,
+): Promise<{ color: 'green' | 'red' | 'yellow' | 'gray'; reason: string }> => {
+  // If no entities are provided, return gray color
+  if (!entities.length) {
+    return { color: 'gray', reason: 'No entities selected' };
+  }
+
+  // Filter entities to only those mapped to Fortify
+  const enabledEntities = entities.filter(isFortifyEnabled);
+
+  if (!enabledEntities.length) {
+    return { color: 'gray', reason: 'No entities are mapped to Fortify' };
+  }
+
+  // Get the system name from the first entity
+  const systemName = entities[0].spec?.system;
+  if (!systemName) {
+    return { color: 'gray', reason: 'System metadata is missing' };
+  }
+
+  try {
+    // Fetch system entity metadata from catalog
+    const systemEntity = await catalogApi.getEntityByRef({
+      kind: 'system',
+      namespace: 'default',
+      name: typeof systemName === 'string' ? systemName : String(systemName),
+    });
+
+    // Get thresholds for traffic light colour from system annotations
+    const redThreshold = parseFloat(
+      systemEntity?.metadata.annotations?.[
+        'tech-insights.io/fortify-red-threshold-percentage'
+      ] || '33',
+    );
+    const yellowThreshold = parseFloat(
+      systemEntity?.metadata.annotations?.[
+        'tech-insights.io/fortify-yellow-threshold-percentage'
+      ] || '10',
+    );
+
+    const results = await Promise.all(
+      enabledEntities.map(entity =>
+        fortifyUtils.getFortifyChecks(techInsightsApi, {
+          kind: entity.kind,
+          namespace: entity.metadata.namespace || 'default',
+          name: entity.metadata.name,
+        }),
+      ),
+    );
+
+    const criticalEntities = results.filter(res => !res.criticalCheck).length;
+    if (criticalEntities > 0) {
+      return {
+        color: 'red',
+        reason: `${criticalEntities} of ${enabledEntities.length} entities have critical Fortify issues`,
+      };
+    }
+
+    const failingEntities = results.filter(
+      res => !res.highCheck || !res.mediumCheck || !res.lastScanCheck,
+    ).length;
+    const reason = `${failingEntities} of ${enabledEntities.length} entities failed a Fortify check`;
+
+    if (failingEntities >= (redThreshold * enabledEntities.length) / 100) {
+      return { color: 'red', reason };
+    } else if (
+      failingEntities >=
+      (yellowThreshold * enabledEntities.length) / 100
+    ) {
+      return { color: 'yellow', reason };
+    }
+    return { color: 'green', reason };
+  } catch (err) {
+    return { color: 'gray', reason: 'Error fetching Fortify data' };
+  }
+};
+
+/**
+ * FortifyTrafficLight is a React component that displays a colored traffic light indicator
+ * representing the overall Fortify security status for a set of entities.
+ * The component also displays a tooltip with a summary of the check results or error messages.
+ *
+ * @param entities - An array of Backstage Entity objects to check Fortify status for.
+ * @param onClick - Optional click handler for the traffic light indicator.
+ * @returns A React element rendering the traffic light with a tooltip.
+ */
+export const FortifyTrafficLight = ({
+  entities,
+  onClick,
+}: {
+  entities: Entity[];
+  onClick?: () => void;
+}) => {
+  const [color, setColor] = useState<'green' | 'red' | 'yellow' | 'gray'>(
+    'gray',
+  );
+  const [reason, setReason] = useState('Loading Fortify data...');
+  const techInsightsApi = useApi(techInsightsApiRef);
+  const catalogApi = useApi(catalogApiRef);
+  const fortifyUtils = useMemo(() => new FortifyUtils(), []);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const fortifyColorAndReason = await determineFortifyColor(
+        entities,
+        catalogApi,
+        techInsightsApi,
+        fortifyUtils,
+      );
+
+      setColor(fortifyColorAndReason.color);
+      setReason(fortifyColorAndReason.reason);
+    };
+
+    fetchData();
+  }, [entities, techInsightsApi, catalogApi, fortifyUtils]);
+
+  return <BaseTrafficLight color={color} tooltip={reason} onClick={onClick} />;
+};
@@ -1,6 +1,8 @@
 export * from './TrafficLightDependabot';
 export * from './GitHubSecurityTrafficLight';
 export * from './SonarQubeTrafficLight';
+export * from './CodeSceneTrafficLight';
+export * from './FortifyTrafficLight';
 export * from './PreproductionTrafficLight';
 export * from './FoundationTrafficLight';
 export * from './AzureDevOpsBugsTrafficLight';
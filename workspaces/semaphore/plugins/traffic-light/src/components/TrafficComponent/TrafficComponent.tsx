@@ -28,7 +28,8 @@ import {
   FoundationTrafficLight,
   AzureDevOpsBugsTrafficLight,
   BlackDuckTrafficLight,
-  BaseTrafficLight,
+  CodeSceneTrafficLight,
+  FortifyTrafficLight,
 } from '../Semaphores';
 import { ReportingTrafficLight } from '../Semaphores/ReportingTrafficLight';
 import { DialogComponent } from '../SemaphoreDialogs/DialogComponent';
@@ -36,6 +37,8 @@ import { BlackDuckSemaphoreDialog } from '../SemaphoreDialogs/BlackDuckSemaphore
 import { GitHubSemaphoreDialog } from '../SemaphoreDialogs/GitHubAdvancedSecurityDialog';
 import { AzureDevOpsSemaphoreDialog } from '../SemaphoreDialogs/AzureDevOpsDialog';
 import { SonarQubeSemaphoreDialog } from '../SemaphoreDialogs/SonarQubeDialog';
+import { CodeSceneSemaphoreDialog } from '../SemaphoreDialogs/CodeSceneDialog';
+import { FortifySemaphoreDialog } from '../SemaphoreDialogs/FortifyDialog';
 import { PreproductionSemaphoreDialog } from '../SemaphoreDialogs/PreProductionDialog';
 import { FoundationSemaphoreDialog } from '../SemaphoreDialogs/FoundationDialog';
 import { ReportingSemaphoreDialog } from '../SemaphoreDialogs/ReportingDialog';
@@ -67,12 +70,14 @@ export const TrafficComponent = () => {
 
   const [azureDevOpsDialogOpen, setAzureDevOpsDialogOpen] = useState(false);
   const [sonarQubeDialogOpen, setSonarQubeDialogOpen] = useState(false);
+  const [codeSceneDialogOpen, setCodeSceneDialogOpen] = useState(false);
 
   // New state for specific semaphore dialogs
   const [blackDuckDialogOpen, setBlackDuckDialogOpen] = useState(false);
   const [githubSecurityDialogOpen, setGithubSecurityDialogOpen] =
     useState(false);
   const [DependabotDialogOpen, setDependabotDialogOpen] = useState(false);
+  const [fortifyDialogOpen, setFortifyDialogOpen] = useState(false);
 
   const handleClick = (title: string, items: any[]) => {
     setDialogTitle(title);
@@ -102,6 +107,9 @@ export const TrafficComponent = () => {
       case 'Dependabot':
         setDependabotDialogOpen(true);
         break;
+      case 'Fortify':
+        setFortifyDialogOpen(true);
+        break;
       case 'Pre-Production pipelines':
         setPreproductionDialogOpen(true);
         break;
@@ -112,10 +120,7 @@ export const TrafficComponent = () => {
         setReportingDialogOpen(true);
         break;
       case 'CodeScene':
-        // For these, use the existing detailed dialog
-        // setCurrentSemaphoreType(semaphoreType);
-        handleClick('CodeScene Details', []);
-        // setDetailedDialogOpen(true);
+        setCodeSceneDialogOpen(true);
         break;
       default:
       // console.warn(`No dialog handler for semaphore type: ${semaphoreType}`);
@@ -154,10 +159,18 @@ export const TrafficComponent = () => {
     setSonarQubeDialogOpen(false);
   };
 
+  const handleCloseCodeSceneDialog = () => {
+    setCodeSceneDialogOpen(false);
+  };
+
   const handleCloseDependabotDialog = () => {
     setDependabotDialogOpen(false);
   };
 
+  const handleCloseFortifyDialog = () => {
+    setFortifyDialogOpen(false);
+  };
+
   const cardAction = (title: string, items: any[]) => (
     <IconButton onClick={() => handleClick(title, items)}>
       <MoreVertIcon />
@@ -363,6 +376,12 @@ export const TrafficComponent = () => {
                 entities={selectedEntities}
                 onClick={() => handleSemaphoreClick('Github Advanced Security')}
               />
+
+              <Typography variant="subtitle1">Fortify</Typography>
+              <FortifyTrafficLight
+                entities={selectedEntities}
+                onClick={() => handleSemaphoreClick('Fortify')}
+              />
             </InfoCard>
           </Grid>
 
@@ -402,9 +421,8 @@ export const TrafficComponent = () => {
               />
 
               <Typography variant="subtitle1">CodeScene</Typography>
-              <BaseTrafficLight
-                color="yellow"
-                tooltip="CodeScene code quality status"
+              <CodeSceneTrafficLight
+                entities={selectedEntities}
                 onClick={() => handleSemaphoreClick('CodeScene')}
               />
             </InfoCard>
@@ -468,6 +486,12 @@ export const TrafficComponent = () => {
           entities={selectedEntities}
         />
 
+        <CodeSceneSemaphoreDialog
+          open={codeSceneDialogOpen}
+          onClose={handleCloseCodeSceneDialog}
+          entities={selectedEntities}
+        />
+
         <BlackDuckSemaphoreDialog
           open={blackDuckDialogOpen}
           onClose={handleCloseBlackDuckDialog}
@@ -480,6 +504,12 @@ export const TrafficComponent = () => {
           onClose={handleCloseDependabotDialog}
           entities={selectedEntities}
         />
+
+        <FortifySemaphoreDialog
+          open={fortifyDialogOpen}
+          onClose={handleCloseFortifyDialog}
+          entities={selectedEntities}
+        />
       </Content>
     </Page>
   );
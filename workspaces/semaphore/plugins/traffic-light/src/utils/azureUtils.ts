@@ -1,11 +1,67 @@
-import { CompoundEntityRef } from '@backstage/catalog-model';
+import { CompoundEntityRef, Entity } from '@backstage/catalog-model';
 import { TechInsightsApi } from '@backstage/plugin-tech-insights';
 
+/**
+ * Annotations holding the saved query id or the inline WIQL query that returns an entity's bugs.
+ */
+export const AZURE_BUGS_QUERY_ANNOTATIONS = [
+  'azure.com/bugs-query-id',
+  'azure.com/bugs-wiql',
+];
+
+/**
+ * Returns whether the entity has a saved or inline Azure DevOps bugs query.
+ */
+export const isAzureBugsEnabled = (entity: Entity): boolean =>
+  AZURE_BUGS_QUERY_ANNOTATIONS.some(
+    annotation => entity.metadata.annotations?.[annotation],
+  );
+
+/**
+ * Returns the URL of the entity's Azure DevOps project, on dev.azure.com or the Azure DevOps
+ * Server named by the `azure.com/host` annotation.
+ */
+export const getAzureProjectUrl = (entity: Entity): string => {
+  const annotations = entity.metadata.annotations ?? {};
+  const host = annotations['azure.com/host'] || 'dev.azure.com';
+  return `https://${host}/${annotations['azure.com/organization']}/${annotations['azure.com/project']}`;
+};
+
+/**
+ * Why the bugs of an entity could not be retrieved, from the `azure_bugs_error` fact.
+ */
+export interface AzureDevOpsBugsError {
+  reason: 'missing_annotations' | 'missing_credentials' | 'request_failed';
+  message: string;
+  status?: number;
+}
+
+/**
+ * A bug from the `azure_top_bugs` fact.
+ */
+export interface AzureDevOpsBug {
+  id: number;
+  title: string;
+  state: string;
+  severity: string;
+  priority: number;
+  ageDays: number;
+  url: string;
+}
+
 /**
  * Shape of the metrics returned by `azureDevOpsBugsRetriever`.
  */
 export interface AzureDevOpsBugMetrics {
   azureBugCount: number;
+  azureCriticalBugCount: number;
+  azureHighBugCount: number;
+  azureBugsBySeverity: Record<string, number>;
+  azureBugsByPriority: Record<string, number>;
+  azureBugsByState: Record<string, number>;
+  azureOldestBugAgeDays: number;
+  azureTopBugs: AzureDevOpsBug[];
+  azureBugsError: AzureDevOpsBugsError | null;
 }
 
 /**
@@ -13,14 +69,28 @@ export interface AzureDevOpsBugMetrics {
  */
 export interface AzureDevOpsBugChecks {
   bugCountCheck: boolean;
+  criticalBugsCheck: boolean;
+  highBugsCheck: boolean;
+  oldestBugAgeCheck: boolean;
 }
 
 const DEFAULT_METRICS: AzureDevOpsBugMetrics = {
   azureBugCount: 0,
+  azureCriticalBugCount: 0,
+  azureHighBugCount: 0,
+  azureBugsBySeverity: {},
+  azureBugsByPriority: {},
+  azureBugsByState: {},
+  azureOldestBugAgeDays: 0,
+  azureTopBugs: [],
+  azureBugsError: null,
 };
 
 const DEFAULT_CHECKS: AzureDevOpsBugChecks = {
   bugCountCheck: false,
+  criticalBugsCheck: false,
+  highBugsCheck: false,
+  oldestBugAgeCheck: false,
 };
 
 /**
@@ -62,7 +132,23 @@ export class AzureUtils {
 
       // console.info(`✅ Bug count for ${stringifyEntityRef(entity)}:`, bugCount);
 
-      return { azureBugCount: bugCount };
+      return {
+        azureBugCount: bugCount,
+        azureCriticalBugCount: Number(facts.azure_critical_bug_count ?? 0),
+        azureHighBugCount: Number(facts.azure_high_bug_count ?? 0),
+        azureBugsBySeverity:
+          (facts.azure_bugs_by_severity as Record<string, number>) ?? {},
+        azureBugsByPriority:
+          (facts.azure_bugs_by_priority as Record<string, number>) ?? {},
+        azureBugsByState:
+          (facts.azure_bugs_by_state as Record<string, number>) ?? {},
+        azureOldestBugAgeDays: Number(facts.azure_oldest_bug_age_days ?? 0),
+        azureTopBugs: Array.isArray(facts.azure_top_bugs)
+          ? (facts.azure_top_bugs as unknown as AzureDevOpsBug[])
+          : [],
+        azureBugsError:
+          (facts.azure_bugs_error as unknown as AzureDevOpsBugsError) ?? null,
+      };
     } catch (error) {
       // console.error(
       //   '❌ Error fetching Azure DevOps facts for entity:',
@@ -74,7 +160,7 @@ export class AzureUtils {
   }
 
   /**
-   * Runs the AzureDevOps bug‑count Tech‑Insights check.
+   * Runs the AzureDevOps bug Tech‑Insights checks.
    */
   async getAzureDevOpsBugChecks(
     api: TechInsightsApi,
@@ -89,6 +175,15 @@ export class AzureUtils {
       const checkResults = await api.runChecks(entity);
 
       const bugCheck = checkResults.find(r => r.check.id === 'azure-bugs');
+      const criticalCheck = checkResults.find(
+        r => r.check.id === 'azure-critical-bugs',
+      );
+      const highCheck = checkResults.find(
+        r => r.check.id === 'azure-high-bugs',
+      );
+      const oldestBugAgeCheck = checkResults.find(
+        r => r.check.id === 'azure-oldest-bug-age',
+      );
 
       // console.info(
       //   `🔍 Check result for ${stringifyEntityRef(entity)}:`,
@@ -97,6 +192,9 @@ export class AzureUtils {
 
       return {
         bugCountCheck: bugCheck?.result === true,
+        criticalBugsCheck: criticalCheck?.result === true,
+        highBugsCheck: highCheck?.result === true,
+        oldestBugAgeCheck: oldestBugAgeCheck?.result === true,
       };
     } catch (error) {
       // console.error(
@@ -15,6 +15,24 @@ export interface BlackDuckSummary {
   security_risks_medium: number;
 }
 
+/**
+ * A component with open vulnerabilities, as reported by the BlackDuck fact retriever.
+ */
+export interface BlackDuckVulnerableComponent {
+  componentName: string;
+  componentVersion: string;
+  vulnerabilities: string[]; // CVE or BDSA ids
+  severity: string; // CRITICAL, HIGH, MEDIUM or LOW
+  remediationTargetVersion: string | null;
+}
+
+/**
+ * A vulnerable component across the repositories of a system that use it.
+ */
+export interface BlackDuckComponentToFix extends BlackDuckVulnerableComponent {
+  repositories: string[];
+}
+
 /**
  * Metrics returned by BlackDuck for a Backstage entity.
  */
@@ -22,6 +40,15 @@ export interface BlackDuckMetrics {
   security_risks_critical: number;
   security_risks_high: number;
   security_risks_medium: number;
+  license_risks_high: number;
+  license_risks_medium: number;
+  license_risks_low: number;
+  operational_risks_high: number;
+  operational_risks_medium: number;
+  operational_risks_low: number;
+  policy_violations: number;
+  policy_violation_rules: string[];
+  vulnerable_components: BlackDuckVulnerableComponent[];
 }
 
 /**
@@ -40,6 +67,61 @@ export const DEFAULT_METRICS: BlackDuckMetrics = {
   security_risks_critical: 0,
   security_risks_high: 0,
   security_risks_medium: 0,
+  license_risks_high: 0,
+  license_risks_medium: 0,
+  license_risks_low: 0,
+  operational_risks_high: 0,
+  operational_risks_medium: 0,
+  operational_risks_low: 0,
+  policy_violations: 0,
+  policy_violation_rules: [],
+  vulnerable_components: [],
+};
+
+// Severities of vulnerabilities, from the most to the least severe
+const SEVERITY_ORDER = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * Merges the vulnerable components of several repositories and orders them by what to fix
+ * first: highest severity, then the number of affected repositories, then the number of
+ * vulnerabilities.
+ *
+ * @param componentsByRepository - The vulnerable components of each repository, keyed by repository name.
+ * @returns The vulnerable components with the repositories that use them.
+ */
+export const getComponentsToFixFirst = (
+  componentsByRepository: Record<string, BlackDuckVulnerableComponent[]>,
+): BlackDuckComponentToFix[] => {
+  const merged: Record<string, BlackDuckComponentToFix> = {};
+
+  Object.entries(componentsByRepository).forEach(([repository, components]) =>
+    components.forEach(component => {
+      const key = `${component.componentName}@${component.componentVersion}`;
+      const entry = (merged[key] ??= {
+        ...component,
+        vulnerabilities: [],
+        repositories: [],
+      });
+      component.vulnerabilities
+        .filter(id => !entry.vulnerabilities.includes(id))
+        .forEach(id => entry.vulnerabilities.push(id));
+      if (!entry.repositories.includes(repository)) {
+        entry.repositories.push(repository);
+      }
+    }),
+  );
+
+  const severityRank = (severity: string) => {
+    const rank = SEVERITY_ORDER.indexOf(severity);
+    return rank === -1 ? SEVERITY_ORDER.length : rank;
+  };
+
+  return Object.values(merged).sort(
+    (a, b) =>
+      severityRank(a.severity) - severityRank(b.severity) ||
+      b.repositories.length - a.repositories.length ||
+      b.vulnerabilities.length - a.vulnerabilities.length,
+  );
 };
 
 export const DEFAULT_CHECKS: BlackDuckChecks = {
@@ -82,6 +164,24 @@ export class BlackDuckUtils {
           Number(facts.security_risks_critical ?? 0) || 0,
         security_risks_high: Number(facts.security_risks_high ?? 0) || 0,
         security_risks_medium: Number(facts.security_risks_medium ?? 0) || 0,
+        license_risks_high: Number(facts.license_risks_high ?? 0) || 0,
+        license_risks_medium: Number(facts.license_risks_medium ?? 0) || 0,
+        license_risks_low: Number(facts.license_risks_low ?? 0) || 0,
+        operational_risks_high: Number(facts.operational_risks_high ?? 0) || 0,
+        operational_risks_medium:
+          Number(facts.operational_risks_medium ?? 0) || 0,
+        operational_risks_low: Number(facts.operational_risks_low ?? 0) || 0,
+        policy_violations: Number(facts.policy_violations ?? 0) || 0,
+        policy_violation_rules: Array.isArray(facts.policy_violation_rules)
+          ? facts.policy_violation_rules.map(String)
+          : [],
+        vulnerable_components:
+          facts.vulnerable_components &&
+          typeof facts.vulnerable_components === 'object'
+            ? (Object.values(
+                facts.vulnerable_components,
+              ) as unknown as BlackDuckVulnerableComponent[])
+            : [],
       };
     } catch (error) {
       return { ...DEFAULT_METRICS };
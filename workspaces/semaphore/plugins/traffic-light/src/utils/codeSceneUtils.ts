@@ -0,0 +1,111 @@
+import { CompoundEntityRef } from '@backstage/catalog-model';
+import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+
+/**
+ * Metrics returned by CodeScene for a Backstage entity.
+ */
+export interface CodeSceneMetrics {
+  code_health: number; // 1 to 10, 0 when not analysed
+  hotspot_code_health: number;
+  goals_total: number;
+  goals_violated: number;
+}
+
+/**
+ * Results of the CodeScene Tech‑Insights checks for a Backstage entity.
+ */
+export interface CodeSceneChecks {
+  codeHealthCheck: boolean;
+  hotspotCodeHealthCheck: boolean;
+  goalsCheck: boolean;
+}
+
+/**
+ * A small utility for providing safe default objects when CodeScene returns no data or an error is thrown.
+ */
+export const DEFAULT_METRICS: CodeSceneMetrics = {
+  code_health: 0,
+  hotspot_code_health: 0,
+  goals_total: 0,
+  goals_violated: 0,
+};
+
+export const DEFAULT_CHECKS: CodeSceneChecks = {
+  codeHealthCheck: false,
+  hotspotCodeHealthCheck: false,
+  goalsCheck: false,
+};
+
+/**
+ * Service‑style wrapper around the {@link TechInsightsApi} that exposes
+ * methods for dealing with CodeScene facts and checks.
+ */
+export class CodeSceneUtils {
+  // constructor() {}
+
+  /**
+   * Fetches CodeScene facts for the provided entity.
+   *
+   * @param techInsightsApi – The TechInsightsApi instance used to fetch facts.
+   * @param entity – The entity reference whose CodeScene metrics should be retrieved.
+   * @returns A {@link CodeSceneMetrics} object with the parsed results.
+   */
+  async getCodeSceneFacts(
+    techInsightsApi: TechInsightsApi,
+    entity: CompoundEntityRef,
+  ): Promise<CodeSceneMetrics> {
+    try {
+      const response = await techInsightsApi.getFacts(entity, [
+        'codescene-fact-retriever',
+      ]);
+
+      const facts = response?.['codescene-fact-retriever']?.facts;
+
+      // If no facts are found, return default metrics
+      if (!facts) {
+        return { ...DEFAULT_METRICS };
+      }
+
+      return {
+        code_health: Number(facts.code_health ?? 0) || 0,
+        hotspot_code_health: Number(facts.hotspot_code_health ?? 0) || 0,
+        goals_total: Number(facts.goals_total ?? 0) || 0,
+        goals_violated: Number(facts.goals_violated ?? 0) || 0,
+      };
+    } catch (error) {
+      return { ...DEFAULT_METRICS };
+    }
+  }
+
+  /**
+   * Executes the CodeScene‑related TechInsights checks for the supplied entity.
+   *
+   * @param techInsightsApi – The TechInsightsApi instance for fetching checks.
+   * @param entity – The entity reference for which to run the checks.
+   * @returns A {@link CodeSceneChecks} object containing boolean results for each check.
+   */
+  async getCodeSceneChecks(
+    techInsightsApi: TechInsightsApi,
+    entity: CompoundEntityRef,
+  ): Promise<CodeSceneChecks> {
+    try {
+      const checkResults = await techInsightsApi.runChecks(entity);
+
+      // If no check results are found, return default values
+      if (checkResults.length === 0) {
+        return { ...DEFAULT_CHECKS };
+      }
+
+      const passed = (checkId: string) =>
+        checkResults.find(r => r.check.id === checkId)?.result === true;
+
+      return {
+        codeHealthCheck: passed('codescene-code-health'),
+        hotspotCodeHealthCheck: passed('codescene-hotspot-code-health'),
+        goalsCheck: passed('codescene-goals-violated'),
+      };
+    } catch (error) {
+      return { ...DEFAULT_CHECKS };
+    }
+  }
+}
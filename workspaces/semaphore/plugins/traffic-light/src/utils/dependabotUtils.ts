@@ -12,12 +12,40 @@ export interface RepoAlertSummary {
   medium: number;
 }
 
+export interface DependabotAlert {
+  severity: string;
+  package: string;
+  ecosystem: string;
+  manifest_path: string;
+  ghsa_id: string;
+  cve_id: string | null;
+  summary: string;
+  fixed_in: string | null;
+  created_at: string;
+  html_url: string;
+}
+
 export interface DependabotFacts {
   critical: number;
   high: number;
   medium: number;
+  low: number;
+  ecosystems: Record<
+    string,
+    { critical: number; high: number; medium: number; low: number }
+  >;
+  dependabotAlerts: Record<string, DependabotAlert>;
 }
 
+const EMPTY_DEPENDABOT_FACTS: DependabotFacts = {
+  critical: 0,
+  high: 0,
+  medium: 0,
+  low: 0,
+  ecosystems: {},
+  dependabotAlerts: {},
+};
+
 export interface DependabotChecks {
   criticalAlertCheck: boolean;
   highAlertCheck: boolean;
@@ -94,7 +122,7 @@ export class DependabotUtils {
 
   /**
    * Fetches Dependabot facts for a given entity using the Tech Insights API.
-   * Returns metrics like total alert counts per severity.
+   * Returns metrics like total alert counts per severity and the open alerts.
    */
   async getDependabotFacts(
     api: TechInsightsApi,
@@ -105,16 +133,20 @@ export class DependabotUtils {
       const facts = response?.dependabotFactRetriever?.facts;
 
       if (!facts) {
-        return { critical: 0, high: 0, medium: 0 };
+        return EMPTY_DEPENDABOT_FACTS;
       }
 
       return {
         critical: Number(facts.critical ?? 0),
         high: Number(facts.high ?? 0),
         medium: Number(facts.medium ?? 0),
+        low: Number(facts.low ?? 0),
+        ecosystems: (facts.ecosystems ?? {}) as DependabotFacts['ecosystems'],
+        dependabotAlerts: (facts.dependabotAlerts ??
+          {}) as DependabotFacts['dependabotAlerts'],
       };
     } catch (error) {
-      return { critical: 0, high: 0, medium: 0 };
+      return EMPTY_DEPENDABOT_FACTS;
     }
   }
 
@@ -0,0 +1,141 @@
+import { CompoundEntityRef, Entity } from '@backstage/catalog-model';
+import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+
+/**
+ * Annotations mapping an entity to a Fortify on Demand release or a Software Security Center project version.
+ */
+export const FORTIFY_ANNOTATIONS = [
+  'fortify.com/release-id',
+  'fortify.com/project-version-id',
+];
+
+/**
+ * Returns whether the entity is mapped to Fortify.
+ */
+export const isFortifyEnabled = (entity: Entity): boolean =>
+  FORTIFY_ANNOTATIONS.some(
+    annotation => entity.metadata.annotations?.[annotation],
+  );
+
+/**
+ * Metrics returned by Fortify for a Backstage entity.
+ */
+export interface FortifyMetrics {
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  last_scan_date: string | null; // ISO date, null when never scanned
+  days_since_last_scan: number | null;
+}
+
+/**
+ * Results of the Fortify Tech‑Insights checks for a Backstage entity.
+ */
+export interface FortifyChecks {
+  criticalCheck: boolean;
+  highCheck: boolean;
+  mediumCheck: boolean;
+  lastScanCheck: boolean;
+}
+
+/**
+ * A small utility for providing safe default objects when Fortify returns no data or an error is thrown.
+ */
+export const DEFAULT_METRICS: FortifyMetrics = {
+  critical: 0,
+  high: 0,
+  medium: 0,
+  low: 0,
+  last_scan_date: null,
+  days_since_last_scan: null,
+};
+
+export const DEFAULT_CHECKS: FortifyChecks = {
+  criticalCheck: false,
+  highCheck: false,
+  mediumCheck: false,
+  lastScanCheck: false,
+};
+
+/**
+ * Service‑style wrapper around the {@link TechInsightsApi} that exposes
+ * methods for dealing with Fortify facts and checks.
+ */
+export class FortifyUtils {
+  // constructor() {}
+
+  /**
+   * Fetches Fortify facts for the provided entity.
+   *
+   * @param techInsightsApi – The TechInsightsApi instance used to fetch facts.
+   * @param entity – The entity reference whose Fortify metrics should be retrieved.
+   * @returns A {@link FortifyMetrics} object with the parsed results.
+   */
+  async getFortifyFacts(
+    techInsightsApi: TechInsightsApi,
+    entity: CompoundEntityRef,
+  ): Promise<FortifyMetrics> {
+    try {
+      const response = await techInsightsApi.getFacts(entity, [
+        'fortify-fact-retriever',
+      ]);
+
+      const facts = response?.['fortify-fact-retriever']?.facts;
+
+      // If no facts are found, return default metrics
+      if (!facts) {
+        return { ...DEFAULT_METRICS };
+      }
+
+      return {
+        critical: Number(facts.critical ?? 0) || 0,
+        high: Number(facts.high ?? 0) || 0,
+        medium: Number(facts.medium ?? 0) || 0,
+        low: Number(facts.low ?? 0) || 0,
+        last_scan_date: facts.last_scan_date
+          ? String(facts.last_scan_date)
+          : null,
+        days_since_last_scan:
+          typeof facts.days_since_last_scan === 'number'
+            ? facts.days_since_last_scan
+            : null,
+      };
+    } catch (error) {
+      return { ...DEFAULT_METRICS };
+    }
+  }
+
+  /**
+   * Executes the Fortify‑related TechInsights checks for the supplied entity.
+   *
+   * @param techInsightsApi – The TechInsightsApi instance for fetching checks.
+   * @param entity – The entity reference for which to run the checks.
+   * @returns A {@link FortifyChecks} object containing boolean results for each check.
+   */
+  async getFortifyChecks(
+    techInsightsApi: TechInsightsApi,
+    entity: CompoundEntityRef,
+  ): Promise<FortifyChecks> {
+    try {
+      const checkResults = await techInsightsApi.runChecks(entity);
+
+      // If no check results are found, return default values
+      if (checkResults.length === 0) {
+        return { ...DEFAULT_CHECKS };
+      }
+
+      const passed = (checkId: string) =>
+        checkResults.find(r => r.check.id === checkId)?.result === true;
+
+      return {
+        criticalCheck: passed('fortify-critical-issues'),
+        highCheck: passed('fortify-high-issues'),
+        mediumCheck: passed('fortify-medium-issues'),
+        lastScanCheck: passed('fortify-days-since-last-scan'),
+      };
+    } catch (error) {
+      return { ...DEFAULT_CHECKS };
+    }
+  }
+}
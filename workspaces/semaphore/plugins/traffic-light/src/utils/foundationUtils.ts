@@ -1,8 +1,15 @@
 import { CompoundEntityRef } from '@backstage/catalog-model';
 import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+import {
+  getPipelineFacts,
+  getPipelineSource,
+  parseDailyRunCounts,
+  PipelineDailyRunCount,
+  PipelineSource,
+} from './pipelineSources';
 
 /**
- * Metrics returned by Foundation pipeline (GitHub Actions) for a Backstage enity.
+ * Metrics returned by Foundation pipeline (GitHub Actions, Azure Pipelines, GitLab CI or Jenkins) for a Backstage enity.
  */
 export interface FoundationPipelineMetrics {
   totalWorkflowRunsCount: number;
@@ -10,6 +17,9 @@ export interface FoundationPipelineMetrics {
   successWorkflowRunsCount: number;
   failureWorkflowRunsCount: number;
   successRate: number;
+  windowStart?: string;
+  windowEnd?: string;
+  dailyRunCounts: PipelineDailyRunCount[];
 }
 
 /**
@@ -28,6 +38,7 @@ const DEFAULT_METRICS: FoundationPipelineMetrics = {
   successWorkflowRunsCount: 0,
   failureWorkflowRunsCount: 0,
   successRate: 0,
+  dailyRunCounts: [],
 };
 
 /**
@@ -37,6 +48,16 @@ const DEFAULT_CHECKS: FoundationPipelineChecks = {
   successRateCheck: false,
 };
 
+/**
+ * The success rate check of each CI vendor, all evaluated against the Foundation thresholds.
+ */
+const SUCCESS_RATE_CHECK_IDS: Record<PipelineSource, string> = {
+  github: 'foundation-success-rate',
+  azure: 'azure-pipelines-foundation-success-rate',
+  gitlab: 'gitlab-foundation-success-rate',
+  jenkins: 'jenkins-foundation-success-rate',
+};
+
 /**
  * A convenience wrapper around {@link TechInsightsApi} for reading and
  * evaluating Foundation‑pipeline data.
@@ -58,11 +79,13 @@ export class FoundationUtils {
   ): Promise<FoundationPipelineMetrics> {
     try {
       // fetch Foundation pipeline facts for the given entity
-      const response = await api.getFacts(entity, [
-        'foundationPipelineStatusFactRetriever',
-      ]);
-
-      const facts = response?.foundationPipelineStatusFactRetriever?.facts;
+      const facts = (
+        await getPipelineFacts(
+          api,
+          entity,
+          'foundationPipelineStatusFactRetriever',
+        )
+      )?.facts;
 
       if (!facts) {
         return { ...DEFAULT_METRICS };
@@ -74,6 +97,9 @@ export class FoundationUtils {
         successWorkflowRunsCount: Number(facts.successWorkflowRunsCount ?? 0),
         failureWorkflowRunsCount: Number(facts.failureWorkflowRunsCount ?? 0),
         successRate: Number(facts.successRate ?? 0),
+        windowStart: facts.windowStart,
+        windowEnd: facts.windowEnd,
+        dailyRunCounts: parseDailyRunCounts(facts.dailyRunCounts),
       };
     } catch (error) {
       return { ...DEFAULT_METRICS };
@@ -96,8 +122,14 @@ export class FoundationUtils {
       // fetch Foundation pipeline checks for the given entity
       const checkResults = await api.runChecks(entity);
 
+      // Evaluate the check of the CI vendor the entity builds with
+      const source = await getPipelineSource(
+        api,
+        entity,
+        'foundationPipelineStatusFactRetriever',
+      );
       const successRateCheck = checkResults.find(
-        r => r.check.id === 'foundation-success-rate',
+        r => r.check.id === SUCCESS_RATE_CHECK_IDS[source],
       );
 
       if (checkResults.length === 0) {
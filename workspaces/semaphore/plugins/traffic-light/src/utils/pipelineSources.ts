@@ -0,0 +1,174 @@
+import { CompoundEntityRef, Entity } from '@backstage/catalog-model';
+import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+
+/**
+ * Id of the retriever that collects pipeline metrics from Azure Pipelines builds, in the shape
+ * of the GitHub Actions pipeline retrievers.
+ */
+export const AZURE_PIPELINES_RETRIEVER_ID = 'azurePipelinesStatusFactRetriever';
+
+/**
+ * Ids of the retrievers that collect pipeline metrics from GitLab CI pipelines and Jenkins builds,
+ * in the shape of the foundation pipeline retriever.
+ */
+export const GITLAB_PIPELINES_RETRIEVER_ID =
+  'gitlabPipelineStatusFactRetriever';
+export const JENKINS_PIPELINES_RETRIEVER_ID =
+  'jenkinsPipelineStatusFactRetriever';
+
+/**
+ * The CI vendor whose pipeline facts were found for an entity.
+ */
+export type PipelineSource = 'github' | 'azure' | 'gitlab' | 'jenkins';
+
+// Retriever ids of the CI vendors other than GitHub Actions, in order of preference
+const FALLBACK_RETRIEVER_IDS: Record<
+  Exclude<PipelineSource, 'github'>,
+  string
+> = {
+  azure: AZURE_PIPELINES_RETRIEVER_ID,
+  gitlab: GITLAB_PIPELINES_RETRIEVER_ID,
+  jenkins: JENKINS_PIPELINES_RETRIEVER_ID,
+};
+
+const ALL_FALLBACK_SOURCES = Object.keys(FALLBACK_RETRIEVER_IDS) as Exclude<
+  PipelineSource,
+  'github'
+>[];
+
+/**
+ * Returns the page listing an entity's pipeline runs: the GitHub Actions page of its repository,
+ * the Azure Pipelines page of its Azure DevOps project or the pipelines page of its GitLab project.
+ * Returns '#' when none is annotated.
+ */
+export const getPipelinesUrl = (entity: Entity): string => {
+  const annotations = entity.metadata.annotations ?? {};
+  const projectSlug = annotations['github.com/project-slug'];
+  if (projectSlug) {
+    return `https://github.com/${projectSlug}/actions`;
+  }
+  if (
+    annotations['azure.com/pipeline-definitions'] &&
+    annotations['azure.com/organization'] &&
+    annotations['azure.com/project']
+  ) {
+    const host = annotations['azure.com/host'] || 'dev.azure.com';
+    return `https://${host}/${annotations['azure.com/organization']}/${annotations['azure.com/project']}/_build`;
+  }
+  const gitlabProjectSlug = annotations['gitlab.com/project-slug'];
+  if (gitlabProjectSlug) {
+    const host = annotations['gitlab.com/instance'] || 'gitlab.com';
+    return `https://${host}/${gitlabProjectSlug}/-/pipelines`;
+  }
+  return '#';
+};
+
+/**
+ * Fetches the pipeline facts of an entity from the GitHub Actions retriever, falling back to the
+ * retrievers of other CI vendors for entities that build elsewhere.
+ *
+ * @param api - The TechInsightsApi instance used to fetch facts.
+ * @param entity - The entity reference for which to fetch pipeline facts.
+ * @param githubRetrieverId - The id of the GitHub Actions retriever of the semaphore.
+ * @param fallbackSources - The CI vendors whose facts the semaphore can show, in order of preference.
+ * @returns The facts and the CI vendor they come from, or undefined when no retriever has facts.
+ */
+export async function getPipelineFacts(
+  api: TechInsightsApi,
+  entity: CompoundEntityRef,
+  githubRetrieverId: string,
+  fallbackSources: Exclude<PipelineSource, 'github'>[] = ALL_FALLBACK_SOURCES,
+): Promise<{ source: PipelineSource; facts: Record<string, any> } | undefined> {
+  const response = await api.getFacts(entity, [
+    githubRetrieverId,
+    ...fallbackSources.map(source => FALLBACK_RETRIEVER_IDS[source]),
+  ]);
+
+  const githubFacts = response?.[githubRetrieverId]?.facts;
+  if (githubFacts) {
+    return { source: 'github', facts: githubFacts };
+  }
+  for (const source of fallbackSources) {
+    const facts = response?.[FALLBACK_RETRIEVER_IDS[source]]?.facts;
+    if (facts) {
+      return { source, facts };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the CI vendor of an entity's pipeline facts, GitHub Actions unless only the facts of
+ * another vendor are found. Used to pick the check evaluated for the entity.
+ *
+ * @param api - The TechInsightsApi instance used to fetch facts.
+ * @param entity - The entity reference for which to fetch pipeline facts.
+ * @param githubRetrieverId - The id of the GitHub Actions retriever of the semaphore.
+ * @param fallbackSources - The CI vendors whose facts the semaphore can show, in order of preference.
+ */
+export async function getPipelineSource(
+  api: TechInsightsApi,
+  entity: CompoundEntityRef,
+  githubRetrieverId: string,
+  fallbackSources: Exclude<PipelineSource, 'github'>[] = ALL_FALLBACK_SOURCES,
+): Promise<PipelineSource> {
+  try {
+    const pipelineFacts = await getPipelineFacts(
+      api,
+      entity,
+      githubRetrieverId,
+      fallbackSources,
+    );
+    return pipelineFacts?.source ?? 'github';
+  } catch (error) {
+    return 'github';
+  }
+}
+
+/**
+ * Number of pipeline runs on one day of the time window of the GitHub Actions pipeline retrievers.
+ */
+export interface PipelineDailyRunCount {
+  date: string;
+  totalRuns: number;
+  successRuns: number;
+  failureRuns: number;
+}
+
+/**
+ * Reads the dailyRunCounts fact, returning an empty list for facts collected before the
+ * retrievers evaluated a time window or by retrievers of other CI vendors.
+ */
+export const parseDailyRunCounts = (value: unknown): PipelineDailyRunCount[] =>
+  Array.isArray(value)
+    ? value.map(dailyRunCount => ({
+        date: String(dailyRunCount?.date ?? ''),
+        totalRuns: Number(dailyRunCount?.totalRuns ?? 0),
+        successRuns: Number(dailyRunCount?.successRuns ?? 0),
+        failureRuns: Number(dailyRunCount?.failureRuns ?? 0),
+      }))
+    : [];
+
+/**
+ * Adds up the daily run counts of several entities, ordered by date.
+ */
+export const mergeDailyRunCounts = (
+  dailyRunCounts: PipelineDailyRunCount[][],
+): PipelineDailyRunCount[] => {
+  const byDate = new Map<string, PipelineDailyRunCount>();
+  dailyRunCounts.flat().forEach(({ date, ...counts }) => {
+    const merged = byDate.get(date) ?? {
+      date,
+      totalRuns: 0,
+      successRuns: 0,
+      failureRuns: 0,
+    };
+    byDate.set(date, {
+      date,
+      totalRuns: merged.totalRuns + counts.totalRuns,
+      successRuns: merged.successRuns + counts.successRuns,
+      failureRuns: merged.failureRuns + counts.failureRuns,
+    });
+  });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -1,5 +1,12 @@
 import { CompoundEntityRef } from '@backstage/catalog-model';
 import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+import {
+  getPipelineFacts,
+  getPipelineSource,
+  parseDailyRunCounts,
+  PipelineDailyRunCount,
+  PipelineSource,
+} from './pipelineSources';
 
 /**
  * Fetches Pre-production pipeline facts for a given entity using the Tech Insights API.
@@ -16,6 +23,9 @@ export interface PreproductionPipelineMetrics {
   successWorkflowRunsCount: number;
   failureWorkflowRunsCount: number;
   successRate: number;
+  windowStart?: string;
+  windowEnd?: string;
+  dailyRunCounts: PipelineDailyRunCount[];
 }
 
 /**
@@ -34,6 +44,7 @@ const DEFAULT_METRICS: PreproductionPipelineMetrics = {
   successWorkflowRunsCount: 0,
   failureWorkflowRunsCount: 0,
   successRate: 0,
+  dailyRunCounts: [],
 };
 
 /**
@@ -43,12 +54,23 @@ const DEFAULT_CHECKS: PreproductionPipelineChecks = {
   successRateCheck: false,
 };
 
+/**
+ * The success rate check of each CI vendor, all evaluated against the Preproduction thresholds.
+ */
+const SUCCESS_RATE_CHECK_IDS: Record<PipelineSource, string> = {
+  github: 'preproduction-success-rate',
+  azure: 'azure-pipelines-preproduction-success-rate',
+  gitlab: 'gitlab-preproduction-success-rate',
+  jenkins: 'jenkins-preproduction-success-rate',
+};
+
 /**
  * **PreproductionPipelineInsightsService**
  *
  * A tiny wrapper around {@link TechInsightsApi} that gives you a strongly‑typed
  * way to fetch & evaluate pre‑production workflow data collected by the
- * `githubPipelineStatusFactRetriever` retriever.
+ * `githubPipelineStatusFactRetriever` retriever, or by the Azure Pipelines,
+ * GitLab CI or Jenkins retrievers for entities that build there.
  */
 export class PreproductionUtils {
   // constructor() {}
@@ -67,12 +89,9 @@ export class PreproductionUtils {
   ): Promise<PreproductionPipelineMetrics> {
     try {
       // Fetch facts from the Tech Insights API for the given entity and retriever
-      const response = await api.getFacts(entity, [
-        'githubPipelineStatusFactRetriever',
-      ]);
-
-      // Extract the facts object from the response
-      const facts = response?.githubPipelineStatusFactRetriever?.facts;
+      const facts = (
+        await getPipelineFacts(api, entity, 'githubPipelineStatusFactRetriever')
+      )?.facts;
 
       // If no facts are found, log an error and return default values
       if (!facts) {
@@ -86,6 +105,9 @@ export class PreproductionUtils {
         successWorkflowRunsCount: Number(facts.successWorkflowRunsCount ?? 0),
         failureWorkflowRunsCount: Number(facts.failureWorkflowRunsCount ?? 0),
         successRate: Number(facts.successRate ?? 0),
+        windowStart: facts.windowStart,
+        windowEnd: facts.windowEnd,
+        dailyRunCounts: parseDailyRunCounts(facts.dailyRunCounts),
       };
     } catch (error) {
       // Return default values if an error occurs
@@ -109,9 +131,14 @@ export class PreproductionUtils {
       // Fetch Foundation pipeline checks for the given entity
       const checkResults = await api.runChecks(entity);
 
-      // Extract the results of each checks
+      // Evaluate the check of the CI vendor the entity builds with
+      const source = await getPipelineSource(
+        api,
+        entity,
+        'githubPipelineStatusFactRetriever',
+      );
       const successRateCheck = checkResults.find(
-        r => r.check.id === 'preproduction-success-rate',
+        r => r.check.id === SUCCESS_RATE_CHECK_IDS[source],
       );
 
       // If no check results are found, log an error and return default values
@@ -1,8 +1,9 @@
 import { CompoundEntityRef } from '@backstage/catalog-model';
 import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+import { getPipelineFacts, getPipelineSource } from './pipelineSources';
 
 /**
- * Metrics returned by Reporting pipeline (Github Actions) for a Backstage entity.
+ * Metrics returned by Reporting pipeline (Github Actions or Azure Pipelines) for a Backstage entity.
  */
 export interface ReportingPipelineMetrics {
   workflowMetrics: object;
@@ -57,17 +58,31 @@ export class ReportingUtils {
     entity: CompoundEntityRef,
   ): Promise<ReportingPipelineMetrics> {
     try {
-      // Fetch Reporting pipeline facts for the given entity
-      const response = await api.getFacts(entity, [
+      // Fetch Reporting pipeline facts for the given entity. Only the Azure Pipelines retriever
+      // stores last run metrics, so GitLab CI and Jenkins facts are not shown here.
+      const pipelineFacts = await getPipelineFacts(
+        api,
+        entity,
         'reportingPipelineStatusFactRetriever',
-      ]);
-
-      const facts = response?.reportingPipelineStatusFactRetriever?.facts;
+        ['azure'],
+      );
 
-      if (!facts) {
+      if (!pipelineFacts) {
         return { ...DEFAULT_METRICS };
       }
 
+      // The Azure Pipelines retriever stores the last runs next to its run totals
+      const { source, facts } = pipelineFacts;
+      if (source === 'azure') {
+        return {
+          workflowMetrics: Object(facts.lastRunMetrics ?? {}),
+          totalIncludedWorkflows: Number(facts.totalIncludedWorkflows ?? 0),
+          successfulRuns: Number(facts.successfulRuns ?? 0),
+          failedRuns: Number(facts.failedRuns ?? 0),
+          successRate: Number(facts.lastRunSuccessRate ?? 0),
+        };
+      }
+
       return {
         workflowMetrics: Object(facts.workflowMetrics ?? {}),
         totalIncludedWorkflows: Number(facts.totalIncludedWorkflows ?? 0),
@@ -96,8 +111,19 @@ export class ReportingUtils {
       // Fetch Reporting pipeline checks for the given entity
       const checkResults = await api.runChecks(entity);
 
+      // Evaluate the check of the CI vendor the entity builds with
+      const source = await getPipelineSource(
+        api,
+        entity,
+        'reportingPipelineStatusFactRetriever',
+        ['azure'],
+      );
       const successRateCheck = checkResults.find(
-        r => r.check.id === 'reporting-success-rate',
+        r =>
+          r.check.id ===
+          (source === 'azure'
+            ? 'azure-pipelines-reporting-success-rate'
+            : 'reporting-success-rate'),
       );
 
       if (checkResults.length === 0) {
@@ -17,6 +17,16 @@ export interface SonarCloudSummary {
   code_smells: number;
 }
 
+/**
+ * A failing SonarCloud quality gate condition.
+ */
+export interface SonarQualityGateCondition {
+  status: string; // ERROR or WARN
+  comparator: string; // LT or GT
+  errorThreshold: string;
+  actualValue: string;
+}
+
 /**
  * Metrics returned by SonarCloud for a Backstage entity.
  */
@@ -26,6 +36,29 @@ export interface SonarQubeMetrics {
   vulnerabilities: number;
   code_coverage: number;
   quality_gate: string;
+  security_hotspots: number;
+  duplicated_lines_density: number;
+  reliability_rating: number; // 1 (A) to 5 (E), 0 when not rated
+  security_rating: number;
+  maintainability_rating: number;
+  technical_debt_minutes: number;
+  lines_of_code: number;
+  new_bugs?: number; // Undefined until the project has a new code period
+  new_vulnerabilities?: number;
+  new_code_coverage?: number;
+  new_duplicated_lines_density?: number;
+  quality_gate_failed_conditions: Record<string, SonarQualityGateCondition>;
+}
+
+/**
+ * Results of the SonarCloud Tech‑Insights checks for a Backstage entity.
+ */
+export interface SonarCloudChecks {
+  bugsCheck: boolean;
+  codeSmellsCheck: boolean;
+  vulnerabilitiesCheck: boolean;
+  codeCoverageCheck: boolean;
+  qualityGateCheck: boolean;
 }
 
 /**
@@ -37,8 +70,47 @@ export const DEFAULT_METRICS: SonarQubeMetrics = {
   vulnerabilities: 0,
   code_coverage: 0,
   quality_gate: 'NONE',
+  security_hotspots: 0,
+  duplicated_lines_density: 0,
+  reliability_rating: 0,
+  security_rating: 0,
+  maintainability_rating: 0,
+  technical_debt_minutes: 0,
+  lines_of_code: 0,
+  quality_gate_failed_conditions: {},
+};
+
+export const DEFAULT_CHECKS: SonarCloudChecks = {
+  bugsCheck: false,
+  codeSmellsCheck: false,
+  vulnerabilitiesCheck: false,
+  codeCoverageCheck: false,
+  qualityGateCheck: false,
 };
 
+/**
+ * Converts an optional fact to a number, keeping it undefined when the fact is missing.
+ */
+const toOptionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null ? undefined : Number(value) || 0;
+
+/**
+ * Converts a Sonar rating from 1 to 5 into its letter, A to E, or '-' when not rated.
+ */
+export const toSonarRatingLetter = (rating: number): string =>
+  rating >= 1 && rating <= 5 ? 'ABCDE'[Math.round(rating) - 1] : '-';
+
+/**
+ * Describes failing quality gate conditions, e.g. "new_coverage is 65.2 (fails when < 80)".
+ */
+export const describeFailedConditions = (
+  conditions: Record<string, SonarQualityGateCondition>,
+): string[] =>
+  Object.entries(conditions).map(([metric, condition]) => {
+    const comparator = condition.comparator === 'LT' ? '<' : '>';
+    return `${metric} is ${condition.actualValue} (fails when ${comparator} ${condition.errorThreshold})`;
+  });
+
 /**
  * Service‑style wrapper around the {@link TechInsightsApi} that exposes
  * methods for dealing with SonarCloud facts and checks.
@@ -76,12 +148,69 @@ export class SonarCloudUtils {
         vulnerabilities: Number(facts.vulnerabilities ?? 0) || 0,
         code_coverage: Number(facts.code_coverage ?? 0) || 0,
         quality_gate: String(facts.quality_gate ?? 'NONE'),
+        security_hotspots: Number(facts.security_hotspots ?? 0) || 0,
+        duplicated_lines_density:
+          Number(facts.duplicated_lines_density ?? 0) || 0,
+        reliability_rating: Number(facts.reliability_rating ?? 0) || 0,
+        security_rating: Number(facts.security_rating ?? 0) || 0,
+        maintainability_rating: Number(facts.maintainability_rating ?? 0) || 0,
+        technical_debt_minutes: Number(facts.technical_debt_minutes ?? 0) || 0,
+        lines_of_code: Number(facts.lines_of_code ?? 0) || 0,
+        new_bugs: toOptionalNumber(facts.new_bugs),
+        new_vulnerabilities: toOptionalNumber(facts.new_vulnerabilities),
+        new_code_coverage: toOptionalNumber(facts.new_code_coverage),
+        new_duplicated_lines_density: toOptionalNumber(
+          facts.new_duplicated_lines_density,
+        ),
+        quality_gate_failed_conditions:
+          facts.quality_gate_failed_conditions &&
+          typeof facts.quality_gate_failed_conditions === 'object' &&
+          !Array.isArray(facts.quality_gate_failed_conditions)
+            ? (facts.quality_gate_failed_conditions as unknown as Record<
+                string,
+                SonarQualityGateCondition
+              >)
+            : {},
       };
     } catch (error) {
       return { ...DEFAULT_METRICS };
     }
   }
 
+  /**
+   * Executes the SonarCloud‑related TechInsights checks for the supplied entity.
+   *
+   * @param techInsightsApi – The TechInsightsApi instance for fetching checks.
+   * @param entity – The entity reference for which to run the checks.
+   * @returns A {@link SonarCloudChecks} object containing boolean results for each check.
+   */
+  async getSonarCloudChecks(
+    techInsightsApi: TechInsightsApi,
+    entity: CompoundEntityRef,
+  ): Promise<SonarCloudChecks> {
+    try {
+      const checkResults = await techInsightsApi.runChecks(entity);
+
+      // If no check results are found, return default values
+      if (checkResults.length === 0) {
+        return { ...DEFAULT_CHECKS };
+      }
+
+      const passed = (checkId: string) =>
+        checkResults.find(r => r.check.id === checkId)?.result === true;
+
+      return {
+        bugsCheck: passed('sonarcloud-bugs'),
+        codeSmellsCheck: passed('sonarcloud-code-smells'),
+        vulnerabilitiesCheck: passed('sonarcloud-vulnerabilities'),
+        codeCoverageCheck: passed('sonarcloud-code-coverage'),
+        qualityGateCheck: passed('sonarcloud-quality-gate'),
+      };
+    } catch (error) {
+      return { ...DEFAULT_CHECKS };
+    }
+  }
+
   /**
    * Retrieves the top 5 critical SonarCloud repositories based on quality gate status,
    * vulnerabilities, bugs, code smells, and code coverage.
@@ -0,0 +1,140 @@
+import { AzureUtils } from '../azureUtils';
+import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+import { CompoundEntityRef } from '@backstage/catalog-model';
+
+// Mock the TechInsightsApi
+const mockTechInsightsApi = {
+  getFacts: jest.fn(),
+  getCheckResultRenderers: jest.fn(),
+  getAllChecks: jest.fn(),
+  runChecks: jest.fn(),
+  runBulkChecks: jest.fn(),
+  getFactSchemas: jest.fn(),
+} as jest.Mocked<TechInsightsApi>;
+
+// Mock entity references
+const mockEntityRef: CompoundEntityRef = {
+  kind: 'Component',
+  namespace: 'default',
+  name: 'test-service',
+};
+
+describe('AzureUtils', () => {
+  let azureUtils: AzureUtils;
+
+  beforeEach(() => {
+    azureUtils = new AzureUtils();
+    jest.clearAllMocks();
+  });
+
+  describe('getAzureDevOpsBugFacts', () => {
+    it('should return parsed bug details when facts are available', async () => {
+      const topBug = {
+        id: 7,
+        title: 'Payment fails',
+        state: 'Active',
+        severity: '1 - Critical',
+        priority: 1,
+        ageDays: 12,
+        url: 'https://dev.azure.com/org/project/_workitems/edit/7',
+      };
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'azure-devops-bugs-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.1',
+          facts: {
+            azure_bug_count: 3,
+            azure_critical_bug_count: 1,
+            azure_high_bug_count: 2,
+            azure_bugs_by_severity: { '1 - Critical': 1, '2 - High': 2 },
+            azure_bugs_by_priority: { '1': 3 },
+            azure_bugs_by_state: { Active: 3 },
+            azure_oldest_bug_age_days: 12,
+            azure_top_bugs: [topBug],
+          },
+        },
+      });
+
+      const result = await azureUtils.getAzureDevOpsBugFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual({
+        azureBugCount: 3,
+        azureCriticalBugCount: 1,
+        azureHighBugCount: 2,
+        azureBugsBySeverity: { '1 - Critical': 1, '2 - High': 2 },
+        azureBugsByPriority: { '1': 3 },
+        azureBugsByState: { Active: 3 },
+        azureOldestBugAgeDays: 12,
+        azureTopBugs: [topBug],
+        azureBugsError: null,
+      });
+    });
+
+    it('should default the bug details of facts from an older retriever version', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'azure-devops-bugs-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.0',
+          facts: { azure_bug_count: 4 },
+        },
+      });
+
+      const result = await azureUtils.getAzureDevOpsBugFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result.azureBugCount).toBe(4);
+      expect(result.azureCriticalBugCount).toBe(0);
+      expect(result.azureTopBugs).toEqual([]);
+    });
+
+    it('should return the error of a failed retrieval', async () => {
+      const error = {
+        reason: 'missing_credentials',
+        message: 'No personal access token',
+      };
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'azure-devops-bugs-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.2',
+          facts: { azure_bug_count: null, azure_bugs_error: error },
+        },
+      });
+
+      const result = await azureUtils.getAzureDevOpsBugFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result.azureBugCount).toBe(0);
+      expect(result.azureBugsError).toEqual(error);
+    });
+  });
+
+  describe('getAzureDevOpsBugChecks', () => {
+    it('should map the check results', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([
+        { check: { id: 'azure-bugs' }, result: true },
+        { check: { id: 'azure-critical-bugs' }, result: false },
+        { check: { id: 'azure-high-bugs' }, result: true },
+        { check: { id: 'azure-oldest-bug-age' }, result: false },
+      ] as any);
+
+      const result = await azureUtils.getAzureDevOpsBugChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual({
+        bugCountCheck: true,
+        criticalBugsCheck: false,
+        highBugsCheck: true,
+        oldestBugAgeCheck: false,
+      });
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import {
   BlackDuckUtils,
   DEFAULT_METRICS,
+  getComponentsToFixFirst,
   DEFAULT_CHECKS,
 } from '../blackDuckUtils';
 import { TechInsightsApi } from '@backstage/plugin-tech-insights';
@@ -85,6 +86,7 @@ describe('BlackDuckUtils', () => {
         'blackduck-fact-retriever',
       ]);
       expect(result).toEqual({
+        ...DEFAULT_METRICS,
         security_risks_critical: 5,
         security_risks_high: 10,
         security_risks_medium: 2,
@@ -112,12 +114,89 @@ describe('BlackDuckUtils', () => {
       );
 
       expect(result).toEqual({
+        ...DEFAULT_METRICS,
         security_risks_critical: 5,
         security_risks_high: 0,
         security_risks_medium: 0,
       });
     });
 
+    it('should return license, operational, policy and component metrics', async () => {
+      const component = {
+        componentName: 'jackson-databind',
+        componentVersion: '2.9.8',
+        vulnerabilities: ['CVE-2019-12384', 'CVE-2019-14379'],
+        severity: 'CRITICAL',
+        remediationTargetVersion: '2.9.10.8',
+      };
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'blackduck-fact-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.2',
+          facts: {
+            security_risks_critical: 0,
+            security_risks_high: 1,
+            security_risks_medium: 2,
+            license_risks_high: 3,
+            license_risks_medium: 4,
+            license_risks_low: 5,
+            operational_risks_high: 6,
+            operational_risks_medium: 7,
+            operational_risks_low: 8,
+            policy_violations: 2,
+            policy_violation_rules: ['No EOL components', 'No GPL licenses'],
+            vulnerable_components: { 'jackson-databind@2.9.8': component },
+          },
+        },
+      });
+
+      const result = await blackDuckUtils.getBlackDuckFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual({
+        security_risks_critical: 0,
+        security_risks_high: 1,
+        security_risks_medium: 2,
+        license_risks_high: 3,
+        license_risks_medium: 4,
+        license_risks_low: 5,
+        operational_risks_high: 6,
+        operational_risks_medium: 7,
+        operational_risks_low: 8,
+        policy_violations: 2,
+        policy_violation_rules: ['No EOL components', 'No GPL licenses'],
+        vulnerable_components: [component],
+      });
+    });
+
+    it('should return the vulnerable components as a list', async () => {
+      const component = {
+        componentName: 'log4j-core',
+        componentVersion: '2.14.1',
+        vulnerabilities: ['CVE-2021-44228'],
+        severity: 'CRITICAL',
+        remediationTargetVersion: '2.17.1',
+      };
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'blackduck-fact-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.3',
+          facts: {
+            vulnerable_components: { 'log4j-core@2.14.1': component },
+          },
+        },
+      });
+
+      const result = await blackDuckUtils.getBlackDuckFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result.vulnerable_components).toEqual([component]);
+    });
+
     it('should return default metrics when no facts are found', async () => {
       mockTechInsightsApi.getFacts.mockResolvedValue({
         'blackduck-fact-retriever': {
@@ -178,6 +257,7 @@ describe('BlackDuckUtils', () => {
       );
 
       expect(result).toEqual({
+        ...DEFAULT_METRICS,
         security_risks_critical: 0,
         security_risks_high: 0,
         security_risks_medium: 0,
@@ -185,6 +265,55 @@ describe('BlackDuckUtils', () => {
     });
   });
 
+  describe('getComponentsToFixFirst', () => {
+    const createComponent = (
+      componentName: string,
+      severity: string,
+      vulnerabilities: string[],
+    ) => ({
+      componentName,
+      componentVersion: '1.0',
+      vulnerabilities,
+      severity,
+      remediationTargetVersion: '2.0',
+    });
+
+    it('should merge components used by several repositories', () => {
+      const result = getComponentsToFixFirst({
+        'repo-a': [createComponent('lodash', 'HIGH', ['CVE-1'])],
+        'repo-b': [createComponent('lodash', 'HIGH', ['CVE-1', 'CVE-2'])],
+      });
+
+      expect(result).toEqual([
+        {
+          ...createComponent('lodash', 'HIGH', ['CVE-1', 'CVE-2']),
+          repositories: ['repo-a', 'repo-b'],
+        },
+      ]);
+    });
+
+    it('should order components by severity, repositories and vulnerabilities', () => {
+      const result = getComponentsToFixFirst({
+        'repo-a': [
+          createComponent('minimist', 'MEDIUM', ['CVE-1', 'CVE-2']),
+          createComponent('lodash', 'HIGH', ['CVE-3']),
+          createComponent('axios', 'HIGH', ['CVE-4']),
+        ],
+        'repo-b': [
+          createComponent('axios', 'HIGH', ['CVE-4']),
+          createComponent('log4j-core', 'CRITICAL', ['CVE-5']),
+        ],
+      });
+
+      expect(result.map(c => c.componentName)).toEqual([
+        'log4j-core',
+        'axios',
+        'lodash',
+        'minimist',
+      ]);
+    });
+  });
+
   describe('getBlackDuckChecks', () => {
     it('should return correct check results when all checks are present and true', async () => {
       const mockCheckResults = [
@@ -0,0 +1,134 @@
+import {
+  CodeSceneUtils,
+  DEFAULT_METRICS,
+  DEFAULT_CHECKS,
+} from '../codeSceneUtils';
+import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+import { CompoundEntityRef } from '@backstage/catalog-model';
+
+// Mock the TechInsightsApi
+const mockTechInsightsApi = {
+  getFacts: jest.fn(),
+  getCheckResultRenderers: jest.fn(),
+  getAllChecks: jest.fn(),
+  runChecks: jest.fn(),
+  runBulkChecks: jest.fn(),
+  getFactSchemas: jest.fn(),
+} as jest.Mocked<TechInsightsApi>;
+
+// Mock entity references
+const mockEntityRef: CompoundEntityRef = {
+  kind: 'Component',
+  namespace: 'default',
+  name: 'test-service',
+};
+
+describe('CodeSceneUtils', () => {
+  let codeSceneUtils: CodeSceneUtils;
+
+  beforeEach(() => {
+    codeSceneUtils = new CodeSceneUtils();
+    jest.clearAllMocks();
+  });
+
+  describe('getCodeSceneFacts', () => {
+    it('should return parsed metrics when facts are available', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'codescene-fact-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.0',
+          facts: {
+            code_health: 8.7,
+            hotspot_code_health: 6.4,
+            goals_total: 3,
+            goals_violated: 1,
+          },
+        },
+      });
+
+      const result = await codeSceneUtils.getCodeSceneFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(mockTechInsightsApi.getFacts).toHaveBeenCalledWith(mockEntityRef, [
+        'codescene-fact-retriever',
+      ]);
+      expect(result).toEqual({
+        code_health: 8.7,
+        hotspot_code_health: 6.4,
+        goals_total: 3,
+        goals_violated: 1,
+      });
+    });
+
+    it('should return default metrics when no facts are found', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({});
+
+      const result = await codeSceneUtils.getCodeSceneFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_METRICS);
+    });
+
+    it('should return default metrics when API throws an error', async () => {
+      mockTechInsightsApi.getFacts.mockRejectedValue(new Error('API Error'));
+
+      const result = await codeSceneUtils.getCodeSceneFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_METRICS);
+    });
+  });
+
+  describe('getCodeSceneChecks', () => {
+    const createCheckResult = (id: string, result: boolean) =>
+      ({ check: { id }, facts: {}, result } as any);
+
+    it('should return the result of each CodeScene check', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([
+        createCheckResult('codescene-code-health', true),
+        createCheckResult('codescene-hotspot-code-health', false),
+        createCheckResult('codescene-goals-violated', true),
+      ]);
+
+      const result = await codeSceneUtils.getCodeSceneChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(mockTechInsightsApi.runChecks).toHaveBeenCalledWith(mockEntityRef);
+      expect(result).toEqual({
+        codeHealthCheck: true,
+        hotspotCodeHealthCheck: false,
+        goalsCheck: true,
+      });
+    });
+
+    it('should return default checks when no check results are found', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([]);
+
+      const result = await codeSceneUtils.getCodeSceneChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_CHECKS);
+    });
+
+    it('should return default checks when API throws an error', async () => {
+      mockTechInsightsApi.runChecks.mockRejectedValue(new Error('API Error'));
+
+      const result = await codeSceneUtils.getCodeSceneChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_CHECKS);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  FortifyUtils,
+  DEFAULT_METRICS,
+  DEFAULT_CHECKS,
+  isFortifyEnabled,
+} from '../fortifyUtils';
+import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+import { CompoundEntityRef, Entity } from '@backstage/catalog-model';
+
+// Mock the TechInsightsApi
+const mockTechInsightsApi = {
+  getFacts: jest.fn(),
+  getCheckResultRenderers: jest.fn(),
+  getAllChecks: jest.fn(),
+  runChecks: jest.fn(),
+  runBulkChecks: jest.fn(),
+  getFactSchemas: jest.fn(),
+} as jest.Mocked<TechInsightsApi>;
+
+// Mock entity references
+const mockEntityRef: CompoundEntityRef = {
+  kind: 'Component',
+  namespace: 'default',
+  name: 'test-service',
+};
+
+describe('FortifyUtils', () => {
+  let fortifyUtils: FortifyUtils;
+
+  beforeEach(() => {
+    fortifyUtils = new FortifyUtils();
+    jest.clearAllMocks();
+  });
+
+  describe('isFortifyEnabled', () => {
+    const createEntity = (annotations: Record<string, string>) =>
+      ({
+        apiVersion: 'backstage.io/v1alpha1',
+        kind: 'Component',
+        metadata: { name: 'test-service', annotations },
+      } as Entity);
+
+    it('should detect Fortify on Demand and SSC annotations', () => {
+      expect(
+        isFortifyEnabled(createEntity({ 'fortify.com/release-id': '1' })),
+      ).toBe(true);
+      expect(
+        isFortifyEnabled(
+          createEntity({ 'fortify.com/project-version-id': '2' }),
+        ),
+      ).toBe(true);
+      expect(isFortifyEnabled(createEntity({}))).toBe(false);
+    });
+  });
+
+  describe('getFortifyFacts', () => {
+    it('should return parsed metrics when facts are available', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'fortify-fact-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.0',
+          facts: {
+            critical: 1,
+            high: 4,
+            medium: 9,
+            low: 20,
+            last_scan_date: '2023-09-28T10:00:00.000Z',
+            days_since_last_scan: 3,
+          },
+        },
+      });
+
+      const result = await fortifyUtils.getFortifyFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(mockTechInsightsApi.getFacts).toHaveBeenCalledWith(mockEntityRef, [
+        'fortify-fact-retriever',
+      ]);
+      expect(result).toEqual({
+        critical: 1,
+        high: 4,
+        medium: 9,
+        low: 20,
+        last_scan_date: '2023-09-28T10:00:00.000Z',
+        days_since_last_scan: 3,
+      });
+    });
+
+    it('should return no scan date for entities that were never scanned', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        'fortify-fact-retriever': {
+          timestamp: '2023-10-01T00:00:00Z',
+          version: '1.0',
+          facts: {
+            critical: 0,
+            high: 0,
+            medium: 0,
+            low: 0,
+            last_scan_date: null,
+            days_since_last_scan: null,
+          },
+        },
+      });
+
+      const result = await fortifyUtils.getFortifyFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result.last_scan_date).toBeNull();
+      expect(result.days_since_last_scan).toBeNull();
+    });
+
+    it('should return default metrics when no facts are found', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({});
+
+      const result = await fortifyUtils.getFortifyFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_METRICS);
+    });
+
+    it('should return default metrics when API throws an error', async () => {
+      mockTechInsightsApi.getFacts.mockRejectedValue(new Error('API Error'));
+
+      const result = await fortifyUtils.getFortifyFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_METRICS);
+    });
+  });
+
+  describe('getFortifyChecks', () => {
+    const createCheckResult = (id: string, result: boolean) =>
+      ({ check: { id }, facts: {}, result } as any);
+
+    it('should return the result of each Fortify check', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([
+        createCheckResult('fortify-critical-issues', true),
+        createCheckResult('fortify-high-issues', false),
+        createCheckResult('fortify-medium-issues', true),
+        createCheckResult('fortify-days-since-last-scan', false),
+      ]);
+
+      const result = await fortifyUtils.getFortifyChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(mockTechInsightsApi.runChecks).toHaveBeenCalledWith(mockEntityRef);
+      expect(result).toEqual({
+        criticalCheck: true,
+        highCheck: false,
+        mediumCheck: true,
+        lastScanCheck: false,
+      });
+    });
+
+    it('should return default checks when no check results are found', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([]);
+
+      const result = await fortifyUtils.getFortifyChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_CHECKS);
+    });
+
+    it('should return default checks when API throws an error', async () => {
+      mockTechInsightsApi.runChecks.mockRejectedValue(new Error('API Error'));
+
+      const result = await fortifyUtils.getFortifyChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_CHECKS);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  getPipelineFacts,
+  getPipelineSource,
+  getPipelinesUrl,
+  mergeDailyRunCounts,
+  parseDailyRunCounts,
+} from '../pipelineSources';
+import { TechInsightsApi } from '@backstage/plugin-tech-insights';
+import { CompoundEntityRef, Entity } from '@backstage/catalog-model';
+
+// Mock the TechInsightsApi
+const mockTechInsightsApi = {
+  getFacts: jest.fn(),
+  getCheckResultRenderers: jest.fn(),
+  getAllChecks: jest.fn(),
+  runChecks: jest.fn(),
+  runBulkChecks: jest.fn(),
+  getFactSchemas: jest.fn(),
+} as jest.Mocked<TechInsightsApi>;
+
+// Mock entity references
+const mockEntityRef: CompoundEntityRef = {
+  kind: 'Component',
+  namespace: 'default',
+  name: 'test-service',
+};
+
+describe('pipelineSources', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPipelineFacts', () => {
+    it('should prefer the GitHub Actions facts', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        githubPipelineStatusFactRetriever: { facts: { successRate: 80 } },
+        azurePipelinesStatusFactRetriever: { facts: { successRate: 40 } },
+      } as any);
+
+      const result = await getPipelineFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+        'githubPipelineStatusFactRetriever',
+      );
+
+      expect(mockTechInsightsApi.getFacts).toHaveBeenCalledWith(mockEntityRef, [
+        'githubPipelineStatusFactRetriever',
+        'azurePipelinesStatusFactRetriever',
+        'gitlabPipelineStatusFactRetriever',
+        'jenkinsPipelineStatusFactRetriever',
+      ]);
+      expect(result).toEqual({ source: 'github', facts: { successRate: 80 } });
+    });
+
+    it('should fall back to the Azure Pipelines facts', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        azurePipelinesStatusFactRetriever: { facts: { successRate: 40 } },
+      } as any);
+
+      const result = await getPipelineFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+        'githubPipelineStatusFactRetriever',
+      );
+
+      expect(result).toEqual({ source: 'azure', facts: { successRate: 40 } });
+    });
+
+    it('should fall back to the GitLab CI and Jenkins facts', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        jenkinsPipelineStatusFactRetriever: { facts: { successRate: 70 } },
+      } as any);
+
+      const result = await getPipelineFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+        'foundationPipelineStatusFactRetriever',
+      );
+
+      expect(result).toEqual({ source: 'jenkins', facts: { successRate: 70 } });
+    });
+
+    it('should only query the listed fallback sources', async () => {
+      mockTechInsightsApi.getFacts.mockResolvedValue({
+        gitlabPipelineStatusFactRetriever: { facts: { successRate: 70 } },
+      } as any);
+
+      const result = await getPipelineFacts(
+        mockTechInsightsApi,
+        mockEntityRef,
+        'reportingPipelineStatusFactRetriever',
+        ['azure'],
+      );
+
+      expect(mockTechInsightsApi.getFacts).toHaveBeenCalledWith(mockEntityRef, [
+        'reportingPipelineStatusFactRetriever',
+        'azurePipelinesStatusFactRetriever',
+      ]);
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('getPipelineSource', () => {
+    it('should default to GitHub Actions when no facts are found', async () => {
+      mockTechInsightsApi.getFacts.mockRejectedValue(new Error('API error'));
+
+      const result = await getPipelineSource(
+        mockTechInsightsApi,
+        mockEntityRef,
+        'foundationPipelineStatusFactRetriever',
+      );
+
+      expect(result).toBe('github');
+    });
+  });
+
+  describe('getPipelinesUrl', () => {
+    const createEntity = (annotations: Record<string, string>) =>
+      ({
+        apiVersion: 'backstage.io/v1alpha1',
+        kind: 'Component',
+        metadata: { name: 'test-service', annotations },
+      } as Entity);
+
+    it('should link to GitHub Actions, Azure Pipelines or GitLab CI', () => {
+      expect(
+        getPipelinesUrl(
+          createEntity({ 'github.com/project-slug': 'org/repo' }),
+        ),
+      ).toBe('https://github.com/org/repo/actions');
+      expect(
+        getPipelinesUrl(
+          createEntity({
+            'azure.com/organization': 'org',
+            'azure.com/project': 'project',
+            'azure.com/pipeline-definitions': '12',
+          }),
+        ),
+      ).toBe('https://dev.azure.com/org/project/_build');
+      expect(
+        getPipelinesUrl(
+          createEntity({
+            'gitlab.com/project-slug': 'group/project',
+            'gitlab.com/instance': 'gitlab.example.com',
+          }),
+        ),
+      ).toBe('https://gitlab.example.com/group/project/-/pipelines');
+      expect(getPipelinesUrl(createEntity({}))).toBe('#');
+    });
+  });
+
+  describe('daily run counts', () => {
+    it('should read an empty timeline when the fact is missing', () => {
+      expect(parseDailyRunCounts(undefined)).toEqual([]);
+    });
+
+    it('should add up the daily run counts of several entities', () => {
+      const day = (date: string, successRuns: number, failureRuns: number) => ({
+        date,
+        totalRuns: successRuns + failureRuns,
+        successRuns,
+        failureRuns,
+      });
+
+      expect(
+        mergeDailyRunCounts([
+          parseDailyRunCounts([
+            day('2024-05-02', 1, 1),
+            day('2024-05-01', 2, 0),
+          ]),
+          parseDailyRunCounts([day('2024-05-02', 0, 3)]),
+        ]),
+      ).toEqual([day('2024-05-01', 2, 0), day('2024-05-02', 1, 4)]);
+    });
+  });
+});
@@ -1,4 +1,10 @@
-import { SonarCloudUtils, DEFAULT_METRICS } from '../sonarCloudUtils';
+import {
+  SonarCloudUtils,
+  DEFAULT_METRICS,
+  DEFAULT_CHECKS,
+  toSonarRatingLetter,
+  describeFailedConditions,
+} from '../sonarCloudUtils';
 import { TechInsightsApi } from '@backstage/plugin-tech-insights';
 import { CompoundEntityRef, Entity } from '@backstage/catalog-model';
 
@@ -35,6 +41,25 @@ describe('SonarCloudUtils', () => {
         vulnerabilities: '2',
         code_coverage: '85.5',
         quality_gate: 'OK',
+        security_hotspots: '4',
+        duplicated_lines_density: '3.1',
+        reliability_rating: '2',
+        security_rating: '1',
+        maintainability_rating: '1',
+        technical_debt_minutes: '120',
+        lines_of_code: '5400',
+        new_bugs: '1',
+        new_vulnerabilities: '0',
+        new_code_coverage: '78.4',
+        new_duplicated_lines_density: '0.5',
+        quality_gate_failed_conditions: {
+          new_coverage: {
+            status: 'WARN',
+            comparator: 'LT',
+            errorThreshold: '80',
+            actualValue: '78.4',
+          },
+        },
       };
 
       mockTechInsightsApi.getFacts.mockResolvedValue({
@@ -59,6 +84,25 @@ describe('SonarCloudUtils', () => {
         vulnerabilities: 2,
         code_coverage: 85.5,
         quality_gate: 'OK',
+        security_hotspots: 4,
+        duplicated_lines_density: 3.1,
+        reliability_rating: 2,
+        security_rating: 1,
+        maintainability_rating: 1,
+        technical_debt_minutes: 120,
+        lines_of_code: 5400,
+        new_bugs: 1,
+        new_vulnerabilities: 0,
+        new_code_coverage: 78.4,
+        new_duplicated_lines_density: 0.5,
+        quality_gate_failed_conditions: {
+          new_coverage: {
+            status: 'WARN',
+            comparator: 'LT',
+            errorThreshold: '80',
+            actualValue: '78.4',
+          },
+        },
       });
     });
 
@@ -90,6 +134,18 @@ describe('SonarCloudUtils', () => {
         vulnerabilities: 3,
         code_coverage: 0,
         quality_gate: 'NONE',
+        security_hotspots: 0,
+        duplicated_lines_density: 0,
+        reliability_rating: 0,
+        security_rating: 0,
+        maintainability_rating: 0,
+        technical_debt_minutes: 0,
+        lines_of_code: 0,
+        new_bugs: undefined, // Missing until the project has a new code period
+        new_vulnerabilities: undefined,
+        new_code_coverage: undefined,
+        new_duplicated_lines_density: undefined,
+        quality_gate_failed_conditions: {},
       });
     });
 
@@ -160,8 +216,121 @@ describe('SonarCloudUtils', () => {
         vulnerabilities: 0, // Number('invalid') becomes NaN, fallback to 0
         code_coverage: 0, // Number('NaN') becomes NaN, fallback to 0
         quality_gate: '123',
+        security_hotspots: 0,
+        duplicated_lines_density: 0,
+        reliability_rating: 0,
+        security_rating: 0,
+        maintainability_rating: 0,
+        technical_debt_minutes: 0,
+        lines_of_code: 0,
+        new_bugs: undefined,
+        new_vulnerabilities: undefined,
+        new_code_coverage: undefined,
+        new_duplicated_lines_density: undefined,
+        quality_gate_failed_conditions: {},
+      });
+    });
+  });
+
+  describe('describeFailedConditions', () => {
+    it('should describe each failing condition', () => {
+      expect(
+        describeFailedConditions({
+          new_coverage: {
+            status: 'ERROR',
+            comparator: 'LT',
+            errorThreshold: '80',
+            actualValue: '65.2',
+          },
+          new_bugs: {
+            status: 'ERROR',
+            comparator: 'GT',
+            errorThreshold: '0',
+            actualValue: '2',
+          },
+        }),
+      ).toEqual([
+        'new_coverage is 65.2 (fails when < 80)',
+        'new_bugs is 2 (fails when > 0)',
+      ]);
+    });
+  });
+
+  describe('toSonarRatingLetter', () => {
+    it('should convert ratings to letters', () => {
+      expect(toSonarRatingLetter(1)).toBe('A');
+      expect(toSonarRatingLetter(3)).toBe('C');
+      expect(toSonarRatingLetter(5)).toBe('E');
+    });
+
+    it('should return a dash for unrated values', () => {
+      expect(toSonarRatingLetter(0)).toBe('-');
+      expect(toSonarRatingLetter(6)).toBe('-');
+    });
+  });
+
+  describe('getSonarCloudChecks', () => {
+    const createCheckResult = (id: string, result: boolean) =>
+      ({ check: { id }, facts: {}, result } as any);
+
+    it('should return the result of each SonarCloud check', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([
+        createCheckResult('sonarcloud-bugs', true),
+        createCheckResult('sonarcloud-code-smells', false),
+        createCheckResult('sonarcloud-vulnerabilities', true),
+        createCheckResult('sonarcloud-code-coverage', false),
+        createCheckResult('sonarcloud-quality-gate', true),
+      ]);
+
+      const result = await sonarCloudUtils.getSonarCloudChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(mockTechInsightsApi.runChecks).toHaveBeenCalledWith(mockEntityRef);
+      expect(result).toEqual({
+        bugsCheck: true,
+        codeSmellsCheck: false,
+        vulnerabilitiesCheck: true,
+        codeCoverageCheck: false,
+        qualityGateCheck: true,
       });
     });
+
+    it('should treat missing checks as failed', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([
+        createCheckResult('sonarcloud-quality-gate', true),
+      ]);
+
+      const result = await sonarCloudUtils.getSonarCloudChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual({ ...DEFAULT_CHECKS, qualityGateCheck: true });
+    });
+
+    it('should return default checks when no check results are found', async () => {
+      mockTechInsightsApi.runChecks.mockResolvedValue([]);
+
+      const result = await sonarCloudUtils.getSonarCloudChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_CHECKS);
+    });
+
+    it('should return default checks when API throws an error', async () => {
+      mockTechInsightsApi.runChecks.mockRejectedValue(new Error('API Error'));
+
+      const result = await sonarCloudUtils.getSonarCloudChecks(
+        mockTechInsightsApi,
+        mockEntityRef,
+      );
+
+      expect(result).toEqual(DEFAULT_CHECKS);
+    });
   });
 
   describe('getTop5CriticalSonarCloudRepos', () => {